@@ -0,0 +1,87 @@
+/**
+ * Alerts Page
+ * Manage threshold alert rules and browse triggered alerts
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Grid,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { AlertRuleForm } from '@/components/alerts/alert-rule-form';
+import { AlertRuleList, AlertRule } from '@/components/alerts/alert-rule-list';
+import { AlertHistoryList, AlertHistoryEntry } from '@/components/alerts/alert-history-list';
+import type { AlertChannelType } from '@/lib/alert-config';
+import type { ShellyRoom } from '@/lib/shelly-config';
+
+export default function AlertsPage() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [configuredChannels, setConfiguredChannels] = useState<AlertChannelType[]>([]);
+  const [alerts, setAlerts] = useState<AlertHistoryEntry[]>([]);
+  const [rooms, setRooms] = useState<ShellyRoom[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [rulesResponse, alertsResponse, roomsResponse] = await Promise.all([
+        fetch('/api/alerts/rules'),
+        fetch('/api/alerts'),
+        fetch('/api/rooms'),
+      ]);
+      if (!rulesResponse.ok || !alertsResponse.ok || !roomsResponse.ok) {
+        throw new Error('Fehler beim Laden der Daten');
+      }
+      const rulesData = await rulesResponse.json();
+      setRules(rulesData.rules);
+      setConfiguredChannels(rulesData.configuredChannels);
+      setAlerts(await alertsResponse.json());
+      setRooms(await roomsResponse.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, md: 4 }}>
+          <AlertRuleForm onRuleAdded={fetchData} configuredChannels={configuredChannels} rooms={rooms} />
+        </Grid>
+
+        <Grid size={{ xs: 12, md: 8 }}>
+          <AlertRuleList rules={rules} rooms={rooms} onRuleUpdated={fetchData} />
+        </Grid>
+
+        <Grid size={{ xs: 12 }}>
+          <AlertHistoryList alerts={alerts} onAlertUpdated={fetchData} />
+        </Grid>
+      </Grid>
+    </Box>
+  );
+}
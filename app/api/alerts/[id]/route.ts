@@ -0,0 +1,55 @@
+/**
+ * Alert API Route (Individual)
+ * PUT: Acknowledge alert (or reopen with { acknowledged: false })
+ */
+
+import { NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import AlertHistory from '@/models/alert-history';
+import { requireAuth } from '@/lib/auth-utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  // Require authentication for acknowledging alerts
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const acknowledged = body.acknowledged !== false;
+
+    const alert = isValidObjectId(id)
+      ? await AlertHistory.findByIdAndUpdate(
+          id,
+          { acknowledgedAt: acknowledged ? new Date() : null },
+          { new: true }
+        )
+      : null;
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: 'Alarm nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    console.log('[Alerts API] Acknowledged alert:', id, acknowledged);
+
+    return NextResponse.json(alert);
+  } catch (error) {
+    console.error('[Alerts API] PUT Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Alerts API Route
+ * GET: Fetch alert history (newest first)
+ *      ?unacknowledged=true returns only open alerts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import AlertHistory from '@/models/alert-history';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_ALERTS = 200;
+
+export async function GET(request: NextRequest) {
+  try {
+    await dbConnect();
+
+    const unacknowledged = request.nextUrl.searchParams.get('unacknowledged') === 'true';
+    const filter = unacknowledged ? { acknowledgedAt: null } : {};
+
+    const alerts = await AlertHistory.find(filter)
+      .sort({ triggeredAt: -1 })
+      .limit(MAX_ALERTS)
+      .lean();
+
+    return NextResponse.json(alerts);
+  } catch (error) {
+    console.error('[Alerts API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
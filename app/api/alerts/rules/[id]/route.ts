@@ -0,0 +1,90 @@
+/**
+ * Alert Rule API Route (Individual)
+ * PUT: Update rule (evaluation state is reset)
+ * DELETE: Remove rule
+ */
+
+import { NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import AlertRule from '@/models/alert-rule';
+import { requireAuth } from '@/lib/auth-utils';
+import { parseAlertRuleInput } from '@/lib/alerts';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  // Require authentication for updating rules
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+    const parsed = parseAlertRuleInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const rule = isValidObjectId(id)
+      ? await AlertRule.findByIdAndUpdate(
+          id,
+          { ...parsed.rule, $unset: { conditionSinceByDevice: 1 } },
+          { new: true }
+        )
+      : null;
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Regel nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    console.log('[Alert Rules API] Updated rule:', id);
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('[Alert Rules API] PUT Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  // Require authentication for deleting rules
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+
+    const rule = isValidObjectId(id) ? await AlertRule.findByIdAndDelete(id) : null;
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Regel nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    console.log('[Alert Rules API] Deleted rule:', id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Alert Rules API] DELETE Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Alert Rules API Route
+ * GET: Fetch all alert rules
+ * POST: Add new alert rule
+ */
+
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import AlertRule from '@/models/alert-rule';
+import { requireAuth } from '@/lib/auth-utils';
+import { parseAlertRuleInput } from '@/lib/alerts';
+import { getConfiguredChannels } from '@/lib/alert-channels';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    await dbConnect();
+
+    const rules = await AlertRule.find({})
+      .sort({ createdAt: 1 })
+      .lean();
+
+    return NextResponse.json({ rules, configuredChannels: getConfiguredChannels() });
+  } catch (error) {
+    console.error('[Alert Rules API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  // Require authentication for creating rules
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const parsed = parseAlertRuleInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const rule = await AlertRule.create(parsed.rule);
+
+    console.log('[Alert Rules API] Created new rule:', rule._id);
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error('[Alert Rules API] POST Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
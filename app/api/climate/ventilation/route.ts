@@ -0,0 +1,23 @@
+/**
+ * Ventilation Advisor API
+ * Returns per indoor room whether ventilating now lowers or raises humidity
+ * and temperature, and the best ventilation window in the next 24 hours
+ */
+
+import { NextResponse } from 'next/server';
+import { getVentilationAdvice } from '@/lib/ventilation';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const advice = await getVentilationAdvice();
+    return NextResponse.json(advice);
+  } catch (error) {
+    console.error('[Ventilation API] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,17 @@
 /**
  * Gas Bottle API Route (Individual)
  * PUT: Mark bottle as empty (set endDate)
+ * PATCH: Edit type, price, startDate, endDate and notes (endDate: null = undo empty)
  * DELETE: Remove bottle
  */
 
 import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
-import GasBottle from '@/models/gas-bottle';
+import GasBottle, { IGasBottle } from '@/models/gas-bottle';
 import { requireAuth } from '@/lib/auth-utils';
+import { getGasBottleType } from '@/lib/gas-config';
+import { validateBottleRange } from '@/lib/gas-usage';
+import { getSettings } from '@/lib/settings';
 
 export const dynamic = 'force-dynamic';
 
@@ -15,6 +19,18 @@ interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+/**
+ * Check the edited date range of a bottle against all other bottles
+ * @returns Error message or null
+ */
+async function checkBottleRange(bottle: IGasBottle & { _id: unknown }): Promise<string | null> {
+  const [others, { gas }] = await Promise.all([
+    GasBottle.find({ _id: { $ne: bottle._id } }).lean(),
+    getSettings(),
+  ]);
+  return validateBottleRange(bottle, others, gas.maxActiveBottles);
+}
+
 export async function PUT(request: Request, { params }: RouteParams) {
   // Require authentication for updating bottles
   const authError = await requireAuth();
@@ -34,11 +50,15 @@ export async function PUT(request: Request, { params }: RouteParams) {
       );
     }
 
-    const bottle = await GasBottle.findByIdAndUpdate(
-      id,
-      { endDate: new Date(endDate) },
-      { new: true }
-    );
+    const parsed = new Date(endDate);
+    if (Number.isNaN(parsed.getTime())) {
+      return NextResponse.json(
+        { error: 'Ungültiges Enddatum' },
+        { status: 400 }
+      );
+    }
+
+    const bottle = await GasBottle.findById(id);
 
     if (!bottle) {
       return NextResponse.json(
@@ -47,6 +67,15 @@ export async function PUT(request: Request, { params }: RouteParams) {
       );
     }
 
+    bottle.endDate = parsed;
+
+    const rangeError = await checkBottleRange(bottle);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
+    await bottle.save();
+
     console.log('[Gas API] Updated bottle:', id);
 
     return NextResponse.json(bottle);
@@ -59,6 +88,93 @@ export async function PUT(request: Request, { params }: RouteParams) {
   }
 }
 
+export async function PATCH(request: Request, { params }: RouteParams) {
+  // Require authentication for editing bottles
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+    const body = await request.json();
+    const { type, price, startDate, endDate, notes } = body;
+
+    const bottle = await GasBottle.findById(id);
+
+    if (!bottle) {
+      return NextResponse.json(
+        { error: 'Gasflasche nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    if (type !== undefined) {
+      if (!getGasBottleType(type)) {
+        return NextResponse.json(
+          { error: `Unbekannter Flaschentyp: ${type}` },
+          { status: 400 }
+        );
+      }
+      bottle.type = type;
+    }
+
+    if (price !== undefined) {
+      if (price !== null && (typeof price !== 'number' || price < 0)) {
+        return NextResponse.json(
+          { error: 'Preis muss eine positive Zahl sein' },
+          { status: 400 }
+        );
+      }
+      bottle.price = price ?? undefined;
+    }
+
+    if (startDate !== undefined) {
+      const parsed = new Date(startDate);
+      if (!startDate || Number.isNaN(parsed.getTime())) {
+        return NextResponse.json(
+          { error: 'Ungültiges Startdatum' },
+          { status: 400 }
+        );
+      }
+      bottle.startDate = parsed;
+    }
+
+    // null clears the end date again ("undo empty")
+    if (endDate !== undefined) {
+      const parsed = endDate === null ? undefined : new Date(endDate);
+      if (parsed && Number.isNaN(parsed.getTime())) {
+        return NextResponse.json(
+          { error: 'Ungültiges Enddatum' },
+          { status: 400 }
+        );
+      }
+      bottle.endDate = parsed;
+    }
+
+    if (notes !== undefined) {
+      bottle.notes = notes || undefined;
+    }
+
+    const rangeError = await checkBottleRange(bottle);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
+    await bottle.save();
+
+    console.log('[Gas API] Edited bottle:', id);
+
+    return NextResponse.json(bottle);
+  } catch (error) {
+    console.error('[Gas API] PATCH Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(request: Request, { params }: RouteParams) {
   // Require authentication for deleting bottles
   const authError = await requireAuth();
@@ -0,0 +1,23 @@
+/**
+ * Gas Forecast API Route
+ * GET: Estimated empty date and reorder date of the active gas bottle
+ */
+
+import { NextResponse } from 'next/server';
+import { getGasForecast } from '@/lib/gas-forecast';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const forecast = await getGasForecast();
+
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error('[Gas Forecast API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
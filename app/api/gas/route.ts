@@ -8,6 +8,9 @@ import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import GasBottle from '@/models/gas-bottle';
 import { requireAuth } from '@/lib/auth-utils';
+import { DEFAULT_GAS_BOTTLE_TYPE, getGasBottleType } from '@/lib/gas-config';
+import { validateBottleRange } from '@/lib/gas-usage';
+import { getSettings } from '@/lib/settings';
 
 export const dynamic = 'force-dynamic';
 
@@ -38,7 +41,7 @@ export async function POST(request: Request) {
     await dbConnect();
 
     const body = await request.json();
-    const { type, startDate, notes } = body;
+    const { type = DEFAULT_GAS_BOTTLE_TYPE, price, startDate, notes } = body;
 
     if (!startDate) {
       return NextResponse.json(
@@ -47,18 +50,49 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check if there's already an active bottle (no endDate)
-    const activeBottle = await GasBottle.findOne({ endDate: null });
-    if (activeBottle) {
+    const parsedStartDate = new Date(startDate);
+    if (Number.isNaN(parsedStartDate.getTime())) {
       return NextResponse.json(
-        { error: 'Es gibt bereits eine aktive Gasflasche. Bitte zuerst die aktuelle Flasche als leer markieren.' },
+        { error: 'Ungültiges Startdatum' },
         { status: 400 }
       );
     }
 
+    const bottleType = getGasBottleType(type);
+    if (!bottleType) {
+      return NextResponse.json(
+        { error: `Unbekannter Flaschentyp: ${type}` },
+        { status: 400 }
+      );
+    }
+
+    if (price !== undefined && (typeof price !== 'number' || price < 0)) {
+      return NextResponse.json(
+        { error: 'Preis muss eine positive Zahl sein' },
+        { status: 400 }
+      );
+    }
+
+    // Only as many bottles as the switchover valve can hold may be active (no endDate)
+    const { gas } = await getSettings();
+    const activeCount = await GasBottle.countDocuments({ endDate: null });
+    if (activeCount >= gas.maxActiveBottles) {
+      return NextResponse.json(
+        { error: `Es sind bereits ${activeCount} Gasflaschen angeschlossen. Bitte zuerst eine Flasche als leer markieren.` },
+        { status: 400 }
+      );
+    }
+
+    const others = await GasBottle.find({}).lean();
+    const rangeError = validateBottleRange({ startDate: parsedStartDate }, others, gas.maxActiveBottles);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
     const bottle = await GasBottle.create({
-      type: type || '10.5kg',
-      startDate: new Date(startDate),
+      type: bottleType.type,
+      price: price ?? bottleType.price,
+      startDate: parsedStartDate,
       notes,
     });
 
@@ -0,0 +1,110 @@
+/**
+ * Grid Period API Route (Individual)
+ * PUT: Edit dates (e.g. grid disconnected today)
+ * DELETE: Remove period
+ */
+
+import { NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import { revalidatePath } from 'next/cache';
+import dbConnect from '@/lib/dbConnect';
+import GridPeriodModel from '@/models/grid-period';
+import { requireAuth } from '@/lib/auth-utils';
+import { getGridPeriods, parseGridPeriodInput, toGridPeriod } from '@/lib/grid-periods';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  // Require authentication for updating periods
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const doc = isValidObjectId(id) ? await GridPeriodModel.findById(id) : null;
+
+    if (!doc) {
+      return NextResponse.json(
+        { error: 'Netzperiode nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    // Unchanged fields keep their stored value
+    const current = toGridPeriod(doc.toObject());
+    const others = (await getGridPeriods()).filter((period) => period.id !== id);
+    const result = parseGridPeriodInput(
+      {
+        gridOn: body.gridOn ?? current.gridOn,
+        gridOff: body.gridOff !== undefined ? body.gridOff : current.gridOff,
+      },
+      others
+    );
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    doc.gridOn = new Date(result.period.gridOn);
+    doc.gridOff = result.period.gridOff ? new Date(result.period.gridOff) : null;
+    await doc.save();
+
+    console.log('[Grid Periods API] Updated period:', id);
+    revalidatePath('/solar');
+
+    return NextResponse.json(toGridPeriod(doc.toObject()));
+  } catch (error) {
+    // Unique index on gridOn, e.g. grid switched off and on again the same day
+    if ((error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { error: 'Es gibt bereits eine Netzperiode mit diesem Anschlussdatum' },
+        { status: 409 }
+      );
+    }
+    console.error('[Grid Periods API] PUT Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  // Require authentication for deleting periods
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+
+    const doc = isValidObjectId(id) ? await GridPeriodModel.findByIdAndDelete(id) : null;
+
+    if (!doc) {
+      return NextResponse.json(
+        { error: 'Netzperiode nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    console.log('[Grid Periods API] Deleted period:', id);
+    revalidatePath('/solar');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Grid Periods API] DELETE Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Grid Periods API Route
+ * GET: Fetch all grid connection periods
+ * POST: Add new period (e.g. grid connected today)
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import dbConnect from '@/lib/dbConnect';
+import GridPeriodModel from '@/models/grid-period';
+import { requireAuth } from '@/lib/auth-utils';
+import { getGridPeriods, parseGridPeriodInput, toGridPeriod } from '@/lib/grid-periods';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const periods = await getGridPeriods();
+
+    return NextResponse.json(periods);
+  } catch (error) {
+    console.error('[Grid Periods API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  // Require authentication for creating periods
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const result = parseGridPeriodInput(body, await getGridPeriods());
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const doc = await GridPeriodModel.create({
+      gridOn: new Date(result.period.gridOn),
+      gridOff: result.period.gridOff ? new Date(result.period.gridOff) : null,
+    });
+
+    console.log('[Grid Periods API] Created period:', result.period);
+    revalidatePath('/solar');
+
+    return NextResponse.json(toGridPeriod(doc.toObject()), { status: 201 });
+  } catch (error) {
+    // Unique index on gridOn, e.g. grid switched off and on again the same day
+    if ((error as { code?: number }).code === 11000) {
+      return NextResponse.json(
+        { error: 'Es gibt bereits eine Netzperiode mit diesem Anschlussdatum' },
+        { status: 409 }
+      );
+    }
+    console.error('[Grid Periods API] POST Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Heating Ingest API Route
+ * POST: The Raspberry Pi sends new fire events, CMI temperatures and the oven state
+ *
+ * Authenticated with `Authorization: Bearer <HEATING_INGEST_TOKEN>`.
+ * Items are upserted, re-sending an overlapping batch is safe.
+ * Fire sessions around new oven readings are re-detected.
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath, revalidateTag } from 'next/cache';
+import { requireApiToken } from '@/lib/auth-utils';
+import { ingestHeatingData, parseIngestPayload } from '@/lib/heating';
+import { getIngestedOvenRange, updateFireSessions } from '@/lib/fire-sessions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const authError = requireApiToken(request, 'HEATING_INGEST_TOKEN');
+  if (authError) return authError;
+
+  try {
+    // Unparsable JSON is rejected like any other invalid payload
+    const body = await request.json().catch(() => null);
+    const result = parseIngestPayload(body);
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const stored = await ingestHeatingData(result.payload);
+
+    const ovenRange = getIngestedOvenRange(result.payload);
+    const fireSessions = ovenRange ? await updateFireSessions(ovenRange) : 0;
+
+    console.log(
+      `[Heating Ingest] Stored ${stored.fireEvents} fire event(s), ${stored.temperatures} reading(s)` +
+        (stored.ovenState ? ', oven state' : '') +
+        `, updated ${fireSessions} fire session(s)`
+    );
+
+    revalidateTag('dashboard');
+    revalidatePath('/heating');
+
+    return NextResponse.json({
+      success: true,
+      stored,
+      fireSessions,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Heating Ingest] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
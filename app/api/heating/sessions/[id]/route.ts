@@ -0,0 +1,69 @@
+/**
+ * Fire Session API Route (Individual)
+ * GET: Fetch a fire session
+ * PUT: Set or remove the wood log ({ amount, unit: 'kg' | 'armfuls', notes }, amount null removes it)
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth-utils';
+import { getFireSession, parseWoodLogInput, updateWoodLog } from '@/lib/fire-sessions';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const session = await getFireSession(id);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Feuer-Session nicht gefunden' }, { status: 404 });
+    }
+
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('[Fire Sessions API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  // Require authentication for logging wood
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const result = parseWoodLogInput(body);
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const session = await updateWoodLog(id, result.wood);
+
+    if (!session) {
+      return NextResponse.json({ error: 'Feuer-Session nicht gefunden' }, { status: 404 });
+    }
+
+    console.log('[Fire Sessions API] Updated wood log:', id);
+    revalidatePath('/heating');
+    revalidatePath(`/heating/sessions/${id}`);
+
+    return NextResponse.json(session);
+  } catch (error) {
+    console.error('[Fire Sessions API] PUT Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
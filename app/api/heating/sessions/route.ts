@@ -0,0 +1,70 @@
+/**
+ * Fire Sessions API Route
+ * GET: Fetch fire sessions of the last days (?days=, default 365)
+ * POST: Re-detect all fire sessions from the stored oven temperatures
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth-utils';
+import { getFireSessions, rebuildFireSessions } from '@/lib/fire-sessions';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_DAYS = 365;
+const MAX_REBUILD_DAYS = 5 * 365;
+
+function getDays(value: string | null, max: number): number | null {
+  if (value === null) return DEFAULT_DAYS;
+  const days = parseInt(value, 10);
+  return Number.isNaN(days) || days < 1 || days > max ? null : days;
+}
+
+export async function GET(request: NextRequest) {
+  const days = getDays(request.nextUrl.searchParams.get('days'), MAX_REBUILD_DAYS);
+  if (days === null) {
+    return NextResponse.json({ error: 'Ungültige Anzahl Tage' }, { status: 400 });
+  }
+
+  try {
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const sessions = await getFireSessions({ from, to });
+
+    return NextResponse.json(sessions);
+  } catch (error) {
+    console.error('[Fire Sessions API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // Require authentication for rebuilding sessions
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  const days = getDays(request.nextUrl.searchParams.get('days'), MAX_REBUILD_DAYS);
+  if (days === null) {
+    return NextResponse.json({ error: 'Ungültige Anzahl Tage' }, { status: 400 });
+  }
+
+  try {
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const stored = await rebuildFireSessions({ from, to });
+
+    console.log(`[Fire Sessions API] Rebuilt ${stored} session(s) for the last ${days} days`);
+    revalidatePath('/heating');
+
+    return NextResponse.json({ success: true, stored });
+  } catch (error) {
+    console.error('[Fire Sessions API] POST Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Live API Route
+ * Server-sent events with the live values of the dashboard
+ * (solar, battery, grid, oven, rooms, autonomy), see lib/live-config.ts for the events
+ *
+ * On serverless hosting the function ends after maxDuration. The browser's
+ * EventSource then reconnects after RECONNECT_MS and receives all current
+ * values again, so clients only see a short gap.
+ */
+
+import { NextRequest } from 'next/server';
+import { subscribeLive } from '@/lib/live';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 300; // Seconds, the client reconnects afterwards
+
+// Comment lines keep proxies from closing an idle connection
+const HEARTBEAT_MS = 25 * 1000;
+
+// Reconnect delay announced to EventSource (retry field)
+const RECONNECT_MS = 3 * 1000;
+
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch (error) {
+          // Stream already closed, the abort handler removes the listener
+          console.error('[Live API] Write failed:', error);
+        }
+      };
+
+      write(`retry: ${RECONNECT_MS}\n\n`);
+
+      const unsubscribe = subscribeLive((type, data) => {
+        write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      });
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    },
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Room API Route (Individual)
+ * PUT: Rename room, assign sensor or move it on the floorplan
+ * DELETE: Remove room (stored readings are kept)
+ */
+
+import { NextResponse } from 'next/server';
+import { isValidObjectId } from 'mongoose';
+import { revalidatePath } from 'next/cache';
+import dbConnect from '@/lib/dbConnect';
+import ShellyRoomModel from '@/models/shelly-room';
+import { requireAuth } from '@/lib/auth-utils';
+import { getShellyRooms, parseShellyRoomInput, toShellyRoom } from '@/lib/shelly-rooms';
+import { replaceLivingRoom } from '@/lib/settings';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  // Require authentication for updating rooms
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const doc = isValidObjectId(id) ? await ShellyRoomModel.findById(id) : null;
+
+    if (!doc) {
+      return NextResponse.json(
+        { error: 'Raum nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    // Unchanged fields keep their stored value
+    const current = toShellyRoom(doc.toObject());
+    const others = (await getShellyRooms()).filter((room) => room.id !== id);
+    const result = parseShellyRoomInput({ ...current, ...body }, others);
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    doc.set({ ...result.room, floorplanPosition: result.room.floorplanPosition ?? null });
+    await doc.save();
+
+    // The room is saved, stale living rooms are also dropped on the next settings save
+    await replaceLivingRoom(current.slug, doc.slug).catch((error) => {
+      console.error('[Rooms API] Could not update living rooms:', error);
+    });
+
+    console.log('[Rooms API] Updated room:', id);
+    revalidatePath('/', 'layout');
+
+    return NextResponse.json(toShellyRoom(doc.toObject()));
+  } catch (error) {
+    console.error('[Rooms API] PUT Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  // Require authentication for deleting rooms
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+
+    const doc = isValidObjectId(id) ? await ShellyRoomModel.findByIdAndDelete(id) : null;
+
+    if (!doc) {
+      return NextResponse.json(
+        { error: 'Raum nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    await replaceLivingRoom(doc.slug, null).catch((error) => {
+      console.error('[Rooms API] Could not update living rooms:', error);
+    });
+
+    console.log('[Rooms API] Deleted room:', id);
+    revalidatePath('/', 'layout');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Rooms API] DELETE Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Rooms API Route
+ * GET: Fetch all rooms with their Shelly sensor and floorplan position
+ * POST: Add new room
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import dbConnect from '@/lib/dbConnect';
+import ShellyRoomModel from '@/models/shelly-room';
+import { requireAuth } from '@/lib/auth-utils';
+import { getShellyRooms, parseShellyRoomInput, toShellyRoom } from '@/lib/shelly-rooms';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const rooms = await getShellyRooms();
+
+    return NextResponse.json(rooms);
+  } catch (error) {
+    console.error('[Rooms API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  // Require authentication for creating rooms
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const result = parseShellyRoomInput(body, await getShellyRooms());
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const doc = await ShellyRoomModel.create({
+      ...result.room,
+      floorplanPosition: result.room.floorplanPosition ?? null,
+    });
+
+    console.log('[Rooms API] Created room:', result.room.slug);
+    // Navigation, overview and room pages all list the rooms
+    revalidatePath('/', 'layout');
+
+    return NextResponse.json(toShellyRoom(doc.toObject()), { status: 201 });
+  } catch (error) {
+    console.error('[Rooms API] POST Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
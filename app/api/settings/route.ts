@@ -0,0 +1,58 @@
+/**
+ * Settings API Route
+ * GET: Fetch current settings
+ * PUT: Save settings
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { requireAuth } from '@/lib/auth-utils';
+import { getSettings, parseSettingsInput, saveSettings } from '@/lib/settings';
+import { getShellyRooms } from '@/lib/shelly-rooms';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  // Settings are only shown to the admin
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const settings = await getSettings();
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error('[Settings API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  // Require authentication for changing settings
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    const parsed = parseSettingsInput(await request.json(), await getShellyRooms());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const settings = await saveSettings(parsed.settings);
+
+    console.log('[Settings API] Saved settings');
+    // All cached pages may depend on the settings
+    revalidatePath('/', 'layout');
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error('[Settings API] PUT Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
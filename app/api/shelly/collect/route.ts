@@ -1,16 +1,23 @@
 /**
  * Shelly Data Collection Cron Endpoint
  * Runs every 2 hours to collect and store sensor readings
+ * Evaluates climate and oven alert rules afterwards
+ * Updates the hourly/daily rollups and prunes raw readings past the retention
+ * Stores the heating degree days of closed days from the 'Aussen' sensor
  */
 
 import { NextResponse } from 'next/server';
 import { fetchShellySensors, getShellyDeviceIds, saveAllReadings } from '@/lib/shelly';
+import { getOvenState } from '@/lib/heating';
+import { evaluateAlerts, samplesFromShellySensors, samplesFromOvenState } from '@/lib/alerts';
+import { updateHeatingDegreeDays } from '@/lib/heating-degree-days';
+import { updateShellyRollups } from '@/lib/shelly-rollup';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
   try {
-    const deviceIds = getShellyDeviceIds();
+    const deviceIds = await getShellyDeviceIds();
 
     if (deviceIds.length === 0) {
       return NextResponse.json(
@@ -26,10 +33,34 @@ export async function GET() {
 
     console.log(`[Shelly Collect] Saved ${savedCount} new reading(s)`);
 
+    // A missing oven state must not block the climate alerts
+    const ovenState = await getOvenState().catch((error) => {
+      console.error('[Shelly Collect] Could not load oven state:', error);
+      return null;
+    });
+    const alertsTriggered = await evaluateAlerts([
+      ...samplesFromShellySensors(sensors),
+      ...(ovenState ? samplesFromOvenState(ovenState) : []),
+    ]);
+
+    // Rollups and degree days are secondary, errors must not fail the collection.
+    // Degree days are computed from the hourly rollup, so it is updated first.
+    const rollups = await updateShellyRollups().catch((error) => {
+      console.error('[Shelly Collect] Could not update rollups:', error);
+      return null;
+    });
+    const degreeDays = await updateHeatingDegreeDays().catch((error) => {
+      console.error('[Shelly Collect] Could not update degree days:', error);
+      return null;
+    });
+
     return NextResponse.json({
       success: true,
       devicesChecked: sensors.length,
       readingsSaved: savedCount,
+      alertsTriggered,
+      rollups,
+      degreeDays,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
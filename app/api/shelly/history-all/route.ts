@@ -5,7 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getHistoricalReadings, getAggregatedReadings } from '@/lib/shelly';
-import { SHELLY_ROOMS } from '@/lib/shelly-config';
+import { getConfiguredRooms } from '@/lib/shelly-rooms';
 
 export const dynamic = 'force-dynamic';
 
@@ -22,8 +22,9 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch data for all rooms in parallel
+    const rooms = await getConfiguredRooms();
     const roomsData = await Promise.all(
-      SHELLY_ROOMS.map(async (room) => {
+      rooms.map(async (room) => {
         try {
           if (period === 'day' || period === 'week') {
             const readings = await getHistoricalReadings(room.deviceId, period);
@@ -1,18 +1,43 @@
 /**
  * Shelly History API
  * Returns historical sensor readings for charts
+ *
+ * Query either a preset period relative to now (?period=day|week|month|year)
+ * or an arbitrary range (?from=...&to=...&resolution=raw|15min|hour|day|month).
+ * Without a resolution the range query picks one from the range length,
+ * fine resolutions are limited to ranges up to MAX_RANGE_DAYS.
+ * Range queries also return the daily dew point, absolute humidity and mould
+ * risk of the room.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getHistoricalReadings, getAggregatedReadings } from '@/lib/shelly';
+import {
+  getHistoricalReadings,
+  getAggregatedReadings,
+  getDefaultResolution,
+  getReadingsInRange,
+  SHELLY_RESOLUTIONS,
+  ShellyResolution,
+} from '@/lib/shelly';
+import { getDailyClimateMetrics } from '@/lib/mould-risk';
 
 export const dynamic = 'force-dynamic';
 
+// Longest range per resolution (about 9000 points at most), day and month are unbounded
+const MAX_RANGE_DAYS: Partial<Record<ShellyResolution, number>> = {
+  raw: 31,
+  '15min': 93,
+  hour: 366,
+};
+
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const deviceId = searchParams.get('deviceId');
     const period = searchParams.get('period') as 'day' | 'week' | 'month' | 'year' | null;
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const resolutionParam = searchParams.get('resolution');
 
     if (!deviceId) {
       return NextResponse.json(
@@ -21,9 +46,62 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Arbitrary range query
+    if (fromParam || toParam) {
+      const from = fromParam ? new Date(fromParam) : null;
+      const to = toParam ? new Date(toParam) : new Date();
+
+      if (!from || isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid from/to parameter. Use ISO dates, e.g. 2025-02-01 or 2025-02-01T12:00:00Z' },
+          { status: 400 }
+        );
+      }
+
+      if (from >= to) {
+        return NextResponse.json(
+          { error: 'from must be before to' },
+          { status: 400 }
+        );
+      }
+
+      if (resolutionParam && !SHELLY_RESOLUTIONS.includes(resolutionParam as ShellyResolution)) {
+        return NextResponse.json(
+          { error: `Invalid resolution parameter. Use: ${SHELLY_RESOLUTIONS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const range = { from, to };
+      const requested = (resolutionParam as ShellyResolution | null) ?? getDefaultResolution(range);
+
+      const maxDays = MAX_RANGE_DAYS[requested];
+      if (maxDays !== undefined && to.getTime() - from.getTime() > maxDays * 24 * 60 * 60 * 1000) {
+        return NextResponse.json(
+          { error: `Resolution ${requested} is limited to ${maxDays} days, use a coarser resolution` },
+          { status: 400 }
+        );
+      }
+
+      // Falls back to a coarser resolution when the raw readings are pruned
+      const [{ resolution, readings }, daily] = await Promise.all([
+        getReadingsInRange(deviceId, range, requested),
+        getDailyClimateMetrics(deviceId, range),
+      ]);
+      return NextResponse.json({
+        readings,
+        daily,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        resolution,
+        deviceId,
+        aggregated: resolution !== 'raw',
+      });
+    }
+
     if (!period || !['day', 'week', 'month', 'year'].includes(period)) {
       return NextResponse.json(
-        { error: 'Invalid period parameter. Use: day, week, month, or year' },
+        { error: 'Invalid period parameter. Use: day, week, month, or year (or from/to)' },
         { status: 400 }
       );
     }
@@ -15,7 +15,7 @@ let cachedData: { sensors: ShellySensorData[]; timestamp: number } | null = null
 
 export async function GET(request: NextRequest) {
   try {
-    const deviceIds = getShellyDeviceIds();
+    const deviceIds = await getShellyDeviceIds();
 
     if (deviceIds.length === 0) {
       return NextResponse.json(
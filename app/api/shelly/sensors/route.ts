@@ -7,7 +7,8 @@
 
 import { NextResponse } from 'next/server';
 import { fetchShellySensors, getShellyDeviceIds, ShellySensorData } from '@/lib/shelly';
-import { getRoomByDeviceId } from '@/lib/shelly-config';
+import { findRoomByDeviceId, ShellyRoom } from '@/lib/shelly-config';
+import { getShellyRooms } from '@/lib/shelly-rooms';
 import { fetchWeatherData } from '@/lib/weather';
 
 export const dynamic = 'force-dynamic';
@@ -37,9 +38,9 @@ const CACHE_DURATION_MS = 2 * 60 * 1000; // 2 minutes cache
 let cachedData: { sensors: FlatSensorData[]; timestamp: number } | null = null;
 let pendingRequest: Promise<FlatSensorData[]> | null = null;
 
-function transformToFlatFormat(sensors: ShellySensorData[]): FlatSensorData[] {
+function transformToFlatFormat(sensors: ShellySensorData[], rooms: ShellyRoom[]): FlatSensorData[] {
   return sensors.map((sensor) => {
-    const room = getRoomByDeviceId(sensor.id);
+    const room = findRoomByDeviceId(rooms, sensor.id);
     return {
       name: room?.name || sensor.name || sensor.id,
       temperature: sensor.temperature,
@@ -51,7 +52,7 @@ function transformToFlatFormat(sensors: ShellySensorData[]): FlatSensorData[] {
 
 export async function GET() {
   try {
-    const deviceIds = getShellyDeviceIds();
+    const deviceIds = await getShellyDeviceIds();
 
     if (deviceIds.length === 0) {
       return NextResponse.json(
@@ -78,15 +79,16 @@ export async function GET() {
     console.log('[Shelly Sensors API] Fetching fresh data from Shelly Cloud and Weather API');
     pendingRequest = (async () => {
       // Fetch Shelly sensors and weather data in parallel
-      const [rawSensors, weatherData] = await Promise.all([
+      const [rawSensors, rooms, weatherData] = await Promise.all([
         fetchShellySensors(deviceIds),
+        getShellyRooms(),
         fetchWeatherData().catch((error) => {
           console.error('[Shelly Sensors API] Weather fetch failed:', error);
           return null; // Return null on error, Shelly data still works
         }),
       ]);
 
-      const sensors = transformToFlatFormat(rawSensors);
+      const sensors = transformToFlatFormat(rawSensors, rooms);
 
       // Add weather as last element if available
       if (weatherData) {
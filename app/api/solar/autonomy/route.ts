@@ -0,0 +1,23 @@
+/**
+ * Battery Autonomy API Route
+ * GET: 48h SOC projection of the house battery and the time it reaches the reserve
+ */
+
+import { NextResponse } from 'next/server';
+import { getAutonomyForecast } from '@/lib/autonomy';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const forecast = await getAutonomyForecast();
+
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error('[Autonomy API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,12 @@
 /**
  * Solar Peak Power API Route
- * Returns the peak solar power for today
+ * Returns the peak solar power for today of an installation (?installation=, default the house)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchVictronStats } from '@/lib/victron';
 import { fetchWithTokenRefresh } from '@/lib/victron-token';
+import { getVictronInstallation } from '@/lib/victron-installations';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0; // No caching for real-time data
@@ -21,13 +22,13 @@ function getTimestampForToday(): number {
 
 export async function GET(request: NextRequest) {
   try {
-    const installationId = process.env.VICTRON_INSTALLATION_ID;
+    const installationParam = request.nextUrl.searchParams.get('installation');
+    const installation = getVictronInstallation(installationParam);
 
-    if (!installationId) {
-      return NextResponse.json(
-        { error: 'VICTRON_INSTALLATION_ID not configured' },
-        { status: 500 }
-      );
+    if (!installation) {
+      return installationParam
+        ? NextResponse.json({ error: 'Anlage nicht gefunden' }, { status: 404 })
+        : NextResponse.json({ error: 'VICTRON_INSTALLATION_ID not configured' }, { status: 500 });
     }
 
     const start = getTimestampForToday();
@@ -35,8 +36,8 @@ export async function GET(request: NextRequest) {
     console.log('[PeakAPI] Fetching peak power for today starting at:', new Date(start * 1000).toISOString());
 
     // Fetch today's data with 15-minute intervals
-    const stats = await fetchWithTokenRefresh((token) =>
-      fetchVictronStats(installationId, token, '15mins', undefined, start.toString(), end.toString())
+    const stats = await fetchWithTokenRefresh(installation, (token) =>
+      fetchVictronStats(installation.installationId, token, '15mins', undefined, start.toString(), end.toString())
     );
 
     const records = stats.records;
@@ -0,0 +1,89 @@
+/**
+ * Victron Collection Cron Endpoint
+ * Runs every 15 minutes: evaluates solar alert rules against live values
+ * and backfills/appends closed days and months to MongoDB
+ */
+
+import { NextResponse } from 'next/server';
+import { collectVictronHistory } from '@/lib/victron-history';
+import { fetchVictronStats, processSolarData } from '@/lib/victron';
+import { fetchWithTokenRefresh } from '@/lib/victron-token';
+import { getVictronInstallations, isPrimaryInstallation } from '@/lib/victron-installations';
+import { evaluateAlerts, MetricSample, samplesFromSolarData } from '@/lib/alerts';
+import { getGridPeriods } from '@/lib/grid-periods';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // Initial backfill needs many VRM requests
+
+export async function GET() {
+  try {
+    const installations = getVictronInstallations();
+
+    if (installations.length === 0) {
+      return NextResponse.json(
+        { error: 'VICTRON_INSTALLATION_ID not configured' },
+        { status: 500 }
+      );
+    }
+
+    // A failing installation is logged and skipped, the others are still processed
+    const failed = new Set<string>();
+
+    // Solar alert rules watch every installation, all samples are evaluated together
+    const gridPeriods = await getGridPeriods();
+    const samples: MetricSample[] = [];
+    for (const installation of installations) {
+      try {
+        const stats = await fetchWithTokenRefresh(installation, (token) =>
+          fetchVictronStats(installation.installationId, token, '15mins')
+        );
+        const solar = processSolarData(stats, isPrimaryInstallation(installation) ? gridPeriods : []);
+        samples.push(...samplesFromSolarData(solar, installation));
+      } catch (error) {
+        console.error(`[Victron Collect] Could not fetch live values of ${installation.id}:`, error);
+        failed.add(installation.id);
+      }
+    }
+    const alertsTriggered = await evaluateAlerts(samples);
+
+    let daysSaved = 0;
+    let monthsSaved = 0;
+    let gridPowerDaysSaved = 0;
+
+    // Sequentially, the installations may share one VRM account and its rate limit
+    for (const installation of installations) {
+      console.log(`[Victron Collect] Collecting closed days and months of ${installation.id}...`);
+
+      try {
+        const result = await collectVictronHistory(installation);
+        daysSaved += result.daysSaved;
+        monthsSaved += result.monthsSaved;
+        gridPowerDaysSaved += result.gridPowerDaysSaved;
+
+        console.log(
+          `[Victron Collect] ${installation.id}: saved ${result.daysSaved} day(s), ${result.monthsSaved} month(s), grid power for ${result.gridPowerDaysSaved} day(s)`
+        );
+      } catch (error) {
+        console.error(`[Victron Collect] Could not collect history of ${installation.id}:`, error);
+        failed.add(installation.id);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      daysSaved,
+      monthsSaved,
+      gridPowerDaysSaved,
+      installations: installations.length,
+      failedInstallations: Array.from(failed),
+      alertsTriggered,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Victron Collect] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,8 +4,16 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchVictronStats, processSolarData } from '@/lib/victron';
+import { combineSolarData, fetchVictronStats, processSolarData } from '@/lib/victron';
 import { fetchWithTokenRefresh } from '@/lib/victron-token';
+import { getGridPeriods } from '@/lib/grid-periods';
+import {
+  COMBINED_INSTALLATION_ID,
+  getVictronInstallation,
+  getVictronInstallations,
+  isPrimaryInstallation,
+  toInstallationInfo,
+} from '@/lib/victron-installations';
 
 export const dynamic = 'force-dynamic';
 
@@ -17,22 +25,52 @@ export async function GET(request: NextRequest) {
     const interval = searchParams.get('interval') || '15mins';
     const type = searchParams.get('type') || undefined;
     const start = searchParams.get('start') || undefined;
+    const installationParam = searchParams.get('installation');
 
-    const installationId = process.env.VICTRON_INSTALLATION_ID;
-    console.log('[API] Installation ID:', installationId ? 'SET' : 'NOT SET');
+    const installations = getVictronInstallations();
+    console.log('[API] Installations:', installations.length);
 
-    if (!installationId) {
+    if (installations.length === 0) {
       return NextResponse.json(
         { error: 'VICTRON_INSTALLATION_ID not configured' },
         { status: 500 }
       );
     }
 
-    console.log('[API] Fetching stats with params:', { interval, type, start });
+    const gridPeriods = await getGridPeriods();
+
+    // Sum of all installations, each one is also returned on its own
+    if (installationParam === COMBINED_INSTALLATION_ID) {
+      const entries = await Promise.all(
+        installations.map(async (installation) => {
+          const stats = await fetchWithTokenRefresh(installation, (token) =>
+            fetchVictronStats(installation.installationId, token, interval, type, start)
+          );
+          return {
+            ...toInstallationInfo(installation),
+            processed: processSolarData(stats, isPrimaryInstallation(installation) ? gridPeriods : []),
+          };
+        })
+      );
+
+      return NextResponse.json({
+        installation: COMBINED_INSTALLATION_ID,
+        processed: combineSolarData(entries.map((entry) => entry.processed)),
+        installations: entries,
+        timestamp: Date.now(),
+      });
+    }
+
+    const installation = getVictronInstallation(installationParam);
+    if (!installation) {
+      return NextResponse.json({ error: 'Anlage nicht gefunden' }, { status: 404 });
+    }
+
+    console.log('[API] Fetching stats with params:', { installation: installation.id, interval, type, start });
 
     // Fetch data with automatic token refresh
-    const stats = await fetchWithTokenRefresh((token) =>
-      fetchVictronStats(installationId, token, interval, type, start)
+    const stats = await fetchWithTokenRefresh(installation, (token) =>
+      fetchVictronStats(installation.installationId, token, interval, type, start)
     );
 
     console.log('[API] Stats fetched successfully');
@@ -43,10 +81,14 @@ export async function GET(request: NextRequest) {
     console.log('[API] Sample Pg data:', stats.records.Pg?.slice(-2));
     console.log('[API] Sample Pb data:', stats.records.Pb?.slice(-2));
 
-    // Process data for easier consumption
-    const processedData = processSolarData(stats);
+    // Process data for easier consumption, grid periods only apply to the house
+    const processedData = processSolarData(
+      stats,
+      isPrimaryInstallation(installation) ? gridPeriods : []
+    );
 
     return NextResponse.json({
+      installation: installation.id,
       raw: stats, // Full raw data
       processed: processedData, // Processed/simplified data
       timestamp: Date.now(),
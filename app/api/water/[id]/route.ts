@@ -0,0 +1,118 @@
+/**
+ * Water Meter Reading API Route (Individual)
+ * PUT: Edit date, value and photo note
+ * DELETE: Remove reading
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import dbConnect from '@/lib/dbConnect';
+import WaterMeterReading from '@/models/water-meter-reading';
+import { requireAuth } from '@/lib/auth-utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: RouteParams) {
+  // Require authentication for updating readings
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+    const body = await request.json();
+    const { date, value, photoNote } = body;
+
+    const reading = await WaterMeterReading.findById(id);
+
+    if (!reading) {
+      return NextResponse.json(
+        { error: 'Zählerstand nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    if (date !== undefined) {
+      const parsedDate = new Date(date);
+      if (!date || Number.isNaN(parsedDate.getTime())) {
+        return NextResponse.json(
+          { error: 'Ungültiges Datum' },
+          { status: 400 }
+        );
+      }
+
+      const existing = await WaterMeterReading.findOne({ date: parsedDate, _id: { $ne: reading._id } });
+      if (existing) {
+        return NextResponse.json(
+          { error: 'Für dieses Datum gibt es bereits einen Zählerstand' },
+          { status: 400 }
+        );
+      }
+      reading.date = parsedDate;
+    }
+
+    if (value !== undefined) {
+      if (typeof value !== 'number' || Number.isNaN(value) || value < 0) {
+        return NextResponse.json(
+          { error: 'Zählerstand muss eine positive Zahl sein' },
+          { status: 400 }
+        );
+      }
+      reading.value = value;
+    }
+
+    if (photoNote !== undefined) {
+      reading.photoNote = photoNote || undefined;
+    }
+
+    await reading.save();
+
+    console.log('[Water API] Updated reading:', id);
+    revalidatePath('/wasser');
+
+    return NextResponse.json(reading);
+  } catch (error) {
+    console.error('[Water API] PUT Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  // Require authentication for deleting readings
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const { id } = await params;
+
+    const reading = await WaterMeterReading.findByIdAndDelete(id);
+
+    if (!reading) {
+      return NextResponse.json(
+        { error: 'Zählerstand nicht gefunden' },
+        { status: 404 }
+      );
+    }
+
+    console.log('[Water API] Deleted reading:', id);
+    revalidatePath('/wasser');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Water API] DELETE Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Water Meter Readings API Route
+ * GET: Fetch all readings with derived yearly and monthly consumption
+ * POST: Add new reading
+ */
+
+import { NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import dbConnect from '@/lib/dbConnect';
+import WaterMeterReading from '@/models/water-meter-reading';
+import { requireAuth } from '@/lib/auth-utils';
+import { getWaterData } from '@/lib/water';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const data = await getWaterData();
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('[Water API] GET Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  // Require authentication for creating readings
+  const authError = await requireAuth();
+  if (authError) return authError;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const { date, value, photoNote } = body;
+
+    const parsedDate = new Date(date);
+    if (!date || Number.isNaN(parsedDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Ungültiges Datum' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof value !== 'number' || Number.isNaN(value) || value < 0) {
+      return NextResponse.json(
+        { error: 'Zählerstand muss eine positive Zahl sein' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await WaterMeterReading.findOne({ date: parsedDate });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'Für dieses Datum gibt es bereits einen Zählerstand' },
+        { status: 400 }
+      );
+    }
+
+    const reading = await WaterMeterReading.create({
+      date: parsedDate,
+      value,
+      photoNote: photoNote || undefined,
+    });
+
+    console.log('[Water API] Created new reading:', reading._id);
+    revalidatePath('/wasser');
+
+    return NextResponse.json(reading, { status: 201 });
+  } catch (error) {
+    console.error('[Water API] POST Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,45 +6,24 @@
 import { Box, Typography, Paper, Alert } from '@mui/material';
 import ThermostatIcon from '@mui/icons-material/Thermostat';
 import WaterDropIcon from '@mui/icons-material/WaterDrop';
-import KitchenIcon from '@mui/icons-material/Kitchen';
-import BathtubIcon from '@mui/icons-material/Bathtub';
-import ComputerIcon from '@mui/icons-material/Computer';
-import HotelIcon from '@mui/icons-material/Hotel';
-import WbSunnyIcon from '@mui/icons-material/WbSunny';
 import { notFound } from 'next/navigation';
 import { getLatestReadingsFromDB, ShellySensorData } from '@/lib/shelly';
-import { getRoomBySlug, isRoomConfigured, SHELLY_ROOMS, ShellyRoom } from '@/lib/shelly-config';
+import { isRoomConfigured } from '@/lib/shelly-config';
+import { getRoomBySlug, getShellyRooms } from '@/lib/shelly-rooms';
 import { ClimateHistory } from '@/components/climate/climate-history';
 import { SensorInfo } from '@/components/climate/sensor-info';
+import { RoomIcon } from '@/components/climate/room-icon';
 
 export const revalidate = 300;
 
-// Generate static paths for all rooms
-export function generateStaticParams() {
-  return SHELLY_ROOMS.map((room) => ({
+// Generate static paths for all rooms, rooms added later render on demand
+export async function generateStaticParams() {
+  const rooms = await getShellyRooms();
+  return rooms.map((room) => ({
     room: room.slug,
   }));
 }
 
-// Icon component based on room config
-function RoomIcon({ icon, sx }: { icon: ShellyRoom['icon']; sx?: object }) {
-  const iconProps = { sx: { fontSize: 48, color: 'primary.main', ...sx } };
-  switch (icon) {
-    case 'Kitchen':
-      return <KitchenIcon {...iconProps} />;
-    case 'Bathtub':
-      return <BathtubIcon {...iconProps} />;
-    case 'Computer':
-      return <ComputerIcon {...iconProps} />;
-    case 'Hotel':
-      return <HotelIcon {...iconProps} />;
-    case 'WbSunny':
-      return <WbSunnyIcon {...iconProps} />;
-    default:
-      return <ThermostatIcon {...iconProps} />;
-  }
-}
-
 async function getRoomData(
   deviceId: string
 ): Promise<{ sensor: ShellySensorData } | { error: string }> {
@@ -67,7 +46,7 @@ interface RoomPageProps {
 
 export default async function RoomPage({ params }: RoomPageProps) {
   const { room: roomSlug } = await params;
-  const room = getRoomBySlug(roomSlug);
+  const room = await getRoomBySlug(roomSlug);
 
   // Room not found in config
   if (!room) {
@@ -75,11 +54,11 @@ export default async function RoomPage({ params }: RoomPageProps) {
   }
 
   // Room exists but sensor not configured
-  if (!isRoomConfigured(roomSlug)) {
+  if (!isRoomConfigured(room)) {
     return (
       <Box>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 4 }}>
-          <RoomIcon icon={room.icon} />
+          <RoomIcon icon={room.icon} sx={{ fontSize: 48, color: 'primary.main' }} />
           <Box>
             <Typography variant="h4" sx={{ fontWeight: 700 }}>
               {room.name}
@@ -90,7 +69,7 @@ export default async function RoomPage({ params }: RoomPageProps) {
           </Box>
         </Box>
         <Alert severity="info">
-          Sensor noch nicht konfiguriert. Bitte Device-ID in lib/shelly-config.ts eintragen.
+          Sensor noch nicht konfiguriert. Bitte Device-ID unter Einstellungen → Räume eintragen.
         </Alert>
       </Box>
     );
@@ -102,7 +81,7 @@ export default async function RoomPage({ params }: RoomPageProps) {
     return (
       <Box>
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 4 }}>
-          <RoomIcon icon={room.icon} />
+          <RoomIcon icon={room.icon} sx={{ fontSize: 48, color: 'primary.main' }} />
           <Box>
             <Typography variant="h4" sx={{ fontWeight: 700 }}>
               {room.name}
@@ -123,7 +102,7 @@ export default async function RoomPage({ params }: RoomPageProps) {
     <Box>
         {/* Header with Room Name */}
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 4 }}>
-          <RoomIcon icon={room.icon} />
+          <RoomIcon icon={room.icon} sx={{ fontSize: 48, color: 'primary.main' }} />
           <Box>
             <Typography variant="h4" sx={{ fontWeight: 700 }}>
               {room.name}
@@ -201,6 +180,7 @@ export default async function RoomPage({ params }: RoomPageProps) {
           lastUpdate={sensor.lastUpdate}
           battery={sensor.battery}
           wifiSignal={sensor.wifiSignal}
+          online={sensor.online}
         />
 
         {/* History Chart */}
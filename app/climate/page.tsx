@@ -8,17 +8,30 @@ import { Box, Typography, Paper, Alert } from '@mui/material';
 import Link from 'next/link';
 import ThermostatIcon from '@mui/icons-material/Thermostat';
 import WaterDropIcon from '@mui/icons-material/WaterDrop';
-import { getLatestReadingsFromDB, getShellyDeviceIds, ShellySensorData } from '@/lib/shelly';
-import { getRoomByDeviceId } from '@/lib/shelly-config';
-import { FloorplanImage } from '@/components/climate/floorplan-image';
-import { FloorplanMarker } from '@/components/climate/floorplan-marker';
+import { getLatestReadingsFromDB, ShellySensorData } from '@/lib/shelly';
+import { filterIndoorRooms, findRoomByDeviceId, ShellyRoom } from '@/lib/shelly-config';
+import { getConfiguredRooms } from '@/lib/shelly-rooms';
+import { getAbsoluteHumidity, getDewPoint, MouldRisk } from '@/lib/climate-metrics';
+import { getCurrentMouldRisk } from '@/lib/mould-risk';
+import { getVentilationAdvice, VentilationAdvice } from '@/lib/ventilation';
+import { LiveFloorplan } from '@/components/climate/live-floorplan';
 import { ClimateOverviewChart } from '@/components/climate/climate-overview-chart';
+import { VentilationCard } from '@/components/climate/ventilation-card';
 
 export const revalidate = 300; // Revalidate every 5 minutes
 
-async function getClimateData(): Promise<{ sensors: ShellySensorData[] } | { error: string }> {
+async function getClimateData(): Promise<
+  | {
+      rooms: ShellyRoom[];
+      sensors: ShellySensorData[];
+      mouldRisk: Map<string, MouldRisk>;
+      ventilation: VentilationAdvice | null;
+    }
+  | { error: string }
+> {
   try {
-    const deviceIds = getShellyDeviceIds();
+    const rooms = await getConfiguredRooms();
+    const deviceIds = rooms.map((room) => room.deviceId);
     if (deviceIds.length === 0) {
       return { error: 'Keine Shelly Sensoren konfiguriert' };
     }
@@ -29,15 +42,27 @@ async function getClimateData(): Promise<{ sensors: ShellySensorData[] } | { err
       return { error: 'Keine Sensordaten in der Datenbank. Bitte warten bis Daten gesammelt wurden.' };
     }
 
-    return { sensors };
+    // Mould risk and ventilation advice are optional
+    const indoorDeviceIds = filterIndoorRooms(rooms).map((room) => room.deviceId);
+    const [mouldRisk, ventilation] = await Promise.all([
+      getCurrentMouldRisk(indoorDeviceIds).catch((error) => {
+        console.error('[Climate Page] Error loading mould risk:', error);
+        return new Map<string, MouldRisk>();
+      }),
+      getVentilationAdvice().catch((error) => {
+        console.error('[Climate Page] Error loading ventilation advice:', error);
+        return null;
+      }),
+    ]);
+
+    return { rooms, sensors, mouldRisk, ventilation };
   } catch (error) {
     console.error('[Climate Page] Error fetching sensor data:', error);
     return { error: error instanceof Error ? error.message : 'Unbekannter Fehler' };
   }
 }
 
-function SensorCard({ sensor }: { sensor: ShellySensorData }) {
-  const room = getRoomByDeviceId(sensor.id);
+function SensorCard({ sensor, room }: { sensor: ShellySensorData; room?: ShellyRoom }) {
   const displayName = room?.name || sensor.name || `Sensor ${sensor.id.slice(-4).toUpperCase()}`;
   const roomSlug = room?.slug || sensor.id;
 
@@ -80,7 +105,7 @@ function SensorCard({ sensor }: { sensor: ShellySensorData }) {
         </Box>
 
         {/* Humidity Row */}
-        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
           <WaterDropIcon sx={{ fontSize: 48, color: 'info.main' }} />
           <Box>
             <Typography sx={{ fontWeight: 700, lineHeight: 1, fontSize: '2.5rem' }}>
@@ -94,6 +119,12 @@ function SensorCard({ sensor }: { sensor: ShellySensorData }) {
             </Typography>
           </Box>
         </Box>
+
+        {/* Derived Metrics */}
+        <Typography variant="body2" color="text.secondary">
+          Taupunkt {getDewPoint(sensor.temperature, sensor.humidity).toFixed(1)} °C · absolute Feuchte{' '}
+          {getAbsoluteHumidity(sensor.temperature, sensor.humidity).toFixed(1)} g/m³
+        </Typography>
       </Paper>
     </Link>
   );
@@ -110,40 +141,16 @@ export default async function ClimatePage() {
     );
   }
 
-  const { sensors } = data;
+  const { rooms, sensors, mouldRisk, ventilation } = data;
 
   return (
     <Box>
-      {/* Floorplan with markers */}
-      <Box
-        sx={{
-          position: 'relative',
-          width: '100%',
-          maxWidth: 1000,
-          mx: 'auto',
-          mb: 4,
-        }}
-      >
-        <FloorplanImage />
-
-        {/* Markers for each room */}
-        {sensors.map((sensor) => {
-          const room = getRoomByDeviceId(sensor.id);
-          if (!room?.floorplanPosition) return null;
-
-          return (
-            <FloorplanMarker
-              key={sensor.id}
-              x={room.floorplanPosition.x}
-              y={room.floorplanPosition.y}
-              temperature={sensor.temperature}
-              humidity={sensor.humidity}
-              roomSlug={room.slug}
-              horizontal={room.floorplanHorizontal}
-            />
-          );
-        })}
-      </Box>
+      {/* Floorplan with heatmap, live values and replay */}
+      <LiveFloorplan
+        rooms={rooms}
+        initialSensors={sensors}
+        mouldRisk={Object.fromEntries(Array.from(mouldRisk, ([deviceId, risk]) => [deviceId, risk.level]))}
+      />
 
       {/* Sensor Grid */}
       <Box
@@ -159,10 +166,13 @@ export default async function ClimatePage() {
         }}
       >
         {sensors.map((sensor) => (
-          <SensorCard key={sensor.id} sensor={sensor} />
+          <SensorCard key={sensor.id} sensor={sensor} room={findRoomByDeviceId(rooms, sensor.id)} />
         ))}
       </Box>
 
+      {/* Ventilation Advisor */}
+      {ventilation && <VentilationCard advice={ventilation} />}
+
       {/* Overview Charts */}
       <ClimateOverviewChart />
     </Box>
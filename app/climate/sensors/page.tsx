@@ -0,0 +1,190 @@
+/**
+ * Sensor Maintenance Page
+ * Displays online state, battery forecast and WiFi signal of all Shelly sensors
+ */
+
+import {
+  Alert,
+  Box,
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import SensorsIcon from '@mui/icons-material/Sensors';
+import { LineChart } from '@mui/x-charts/LineChart';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { getSensorHealth, SensorHealth, SignalQuality } from '@/lib/sensor-health';
+
+export const revalidate = 300;
+
+const SIGNAL_LABELS: Record<SignalQuality, { label: string; color: 'success' | 'warning' | 'error' | 'default' }> = {
+  good: { label: 'Gut', color: 'success' },
+  fair: { label: 'Mittel', color: 'warning' },
+  poor: { label: 'Schwach', color: 'error' },
+  unknown: { label: 'Unbekannt', color: 'default' },
+};
+
+const SENSOR_COLORS = ['#ef5350', '#42a5f5', '#66bb6a', '#ffa726', '#ab47bc', '#26a69a'];
+
+function formatDateTime(date: string | null): string {
+  return date ? format(new Date(date), 'dd.MM.yyyy HH:mm', { locale: de }) : '–';
+}
+
+function formatBatteryForecast(sensor: SensorHealth): string {
+  const forecast = sensor.batteryForecast;
+  if (!forecast) return 'Zu wenig Daten';
+  if (!forecast.emptyAt) return 'Kein Verbrauch messbar';
+  return format(new Date(forecast.emptyAt), 'MMMM yyyy', { locale: de });
+}
+
+export default async function SensorsPage() {
+  let sensors: SensorHealth[];
+  try {
+    sensors = await getSensorHealth();
+  } catch (error) {
+    console.error('[SensorsPage] Error loading sensor health:', error);
+    return (
+      <Alert severity="error">
+        Sensordaten konnten nicht geladen werden: {error instanceof Error ? error.message : 'Unbekannter Fehler'}
+      </Alert>
+    );
+  }
+
+  const stale = sensors.filter((sensor) => sensor.stale);
+
+  // One row per day, one column per sensor (formatted on the server)
+  const dates = Array.from(new Set(sensors.flatMap((s) => s.signalHistory.map((day) => day.date)))).sort();
+  const signalData = dates.map((date) => {
+    const [, month, day] = date.split('-');
+    const row: Record<string, string | number | null> = { label: `${day}.${month}` };
+    for (const sensor of sensors) {
+      row[sensor.slug] = sensor.signalHistory.find((d) => d.date === date)?.wifiSignal ?? null;
+    }
+    return row;
+  });
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 4 }}>
+        <SensorsIcon sx={{ fontSize: 48, color: 'primary.main' }} />
+        <Box>
+          <Typography variant="h4" sx={{ fontWeight: 700 }}>
+            Sensoren
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Status, Batterie und WLAN der Shelly H&T Sensoren
+          </Typography>
+        </Box>
+      </Box>
+
+      {stale.length > 0 ? (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          Keine aktuellen Messwerte von: {stale.map((sensor) => sensor.name).join(', ')}
+        </Alert>
+      ) : (
+        <Alert severity="success" sx={{ mb: 3 }}>
+          Alle Sensoren melden sich regelmässig
+        </Alert>
+      )}
+
+      {/* Sensor Table */}
+      <Paper elevation={3} sx={{ p: { xs: 2, sm: 3, md: 4 }, mb: 4 }}>
+        <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+          🔋 Status und Batterie
+        </Typography>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Sensor</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Letzte Meldung</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">Batterie</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">Trend</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Leer ca.</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>WLAN</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {sensors.map((sensor) => (
+                <TableRow key={sensor.deviceId} hover>
+                  <TableCell>
+                    <Link href={`/climate/${sensor.slug}`}>{sensor.name}</Link>
+                  </TableCell>
+                  <TableCell>
+                    <Chip
+                      label={
+                        sensor.stale
+                          ? sensor.lastUpdate
+                            ? `Veraltet (${sensor.missedIntervals} Intervalle)`
+                            : 'Keine Daten'
+                          : 'Online'
+                      }
+                      color={sensor.stale ? 'error' : 'success'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell>{formatDateTime(sensor.lastUpdate)}</TableCell>
+                  <TableCell align="right">
+                    {sensor.battery !== null ? `${sensor.battery} %` : '–'}
+                    {sensor.batteryVoltage !== null && ` · ${sensor.batteryVoltage.toFixed(2)} V`}
+                  </TableCell>
+                  <TableCell align="right">
+                    {sensor.batteryForecast ? `${sensor.batteryForecast.trendPerDay.toFixed(2)} %/Tag` : '–'}
+                  </TableCell>
+                  <TableCell>{formatBatteryForecast(sensor)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={`${SIGNAL_LABELS[sensor.signalQuality].label}${sensor.wifiSignal !== null ? ` (${sensor.wifiSignal} dBm)` : ''}`}
+                      color={SIGNAL_LABELS[sensor.signalQuality].color}
+                      size="small"
+                      variant="outlined"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+          Die Prognose folgt dem Batterieverlauf seit dem letzten Batteriewechsel
+        </Typography>
+      </Paper>
+
+      {/* WiFi Signal History */}
+      <Paper elevation={3} sx={{ p: { xs: 2, sm: 3, md: 4 }, mb: 4, overflow: 'hidden' }}>
+        <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+          📶 WLAN-Signal (Tagesmittel)
+        </Typography>
+        {signalData.length > 0 ? (
+          <Box sx={{ height: 300, width: '100%' }}>
+            <LineChart
+              dataset={signalData}
+              xAxis={[{ scaleType: 'point', dataKey: 'label' }]}
+              yAxis={[{ label: 'dBm' }]}
+              series={sensors.map((sensor, index) => ({
+                dataKey: sensor.slug,
+                label: sensor.name,
+                color: SENSOR_COLORS[index % SENSOR_COLORS.length],
+                showMark: signalData.length < 40,
+                connectNulls: true,
+              }))}
+              height={300}
+            />
+          </Box>
+        ) : (
+          <Typography color="text.secondary">Noch keine WLAN-Werte gespeichert</Typography>
+        )}
+      </Paper>
+    </Box>
+  );
+}
@@ -15,10 +15,14 @@ import {
 } from '@mui/material';
 import { GasBottleForm } from '@/components/gas/gas-bottle-form';
 import { GasBottleList } from '@/components/gas/gas-bottle-list';
+import { GasForecastCard } from '@/components/gas/gas-forecast-card';
+import { DEFAULT_MAX_ACTIVE_GAS_BOTTLES } from '@/lib/gas-config';
+import type { GasForecastResponse } from '@/types/gas';
 
 interface GasBottle {
   _id: string;
   type: string;
+  price?: number;
   startDate: string;
   endDate?: string;
   notes?: string;
@@ -27,17 +31,23 @@ interface GasBottle {
 
 export default function GasPage() {
   const [bottles, setBottles] = useState<GasBottle[]>([]);
+  const [forecast, setForecast] = useState<GasForecastResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const fetchBottles = useCallback(async () => {
     try {
-      const response = await fetch('/api/gas');
+      const [response, forecastResponse] = await Promise.all([
+        fetch('/api/gas'),
+        fetch('/api/gas/forecast'),
+      ]);
       if (!response.ok) {
         throw new Error('Fehler beim Laden der Daten');
       }
       const data = await response.json();
       setBottles(data);
+      // Forecast is optional, the bottle list works without it
+      setForecast(forecastResponse.ok ? await forecastResponse.json() : null);
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
@@ -50,7 +60,7 @@ export default function GasPage() {
     fetchBottles();
   }, [fetchBottles]);
 
-  const hasActiveBottle = bottles.some((b) => !b.endDate);
+  const activeBottleCount = bottles.filter((b) => !b.endDate).length;
 
   if (loading) {
     return (
@@ -72,11 +82,13 @@ export default function GasPage() {
         <Grid size={{ xs: 12, md: 4 }}>
           <GasBottleForm
             onBottleAdded={fetchBottles}
-            hasActiveBottle={hasActiveBottle}
+            activeBottleCount={activeBottleCount}
+            maxActiveBottles={forecast?.maxActiveBottles ?? DEFAULT_MAX_ACTIVE_GAS_BOTTLES}
           />
         </Grid>
 
         <Grid size={{ xs: 12, md: 8 }}>
+          <GasForecastCard data={forecast} />
           <GasBottleList
             bottles={bottles}
             onBottleUpdated={fetchBottles}
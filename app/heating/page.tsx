@@ -1,12 +1,23 @@
 /**
  * KOKOMO Heating Dashboard - Main Page
- * Displays real-time heating system data from CMI via Raspberry Pi
+ * Displays heating system data from CMI, sent by the Raspberry Pi to MongoDB
  */
 
-import { getDashboardData } from '@/lib/data';
+import Link from 'next/link';
+import { getHeatingData } from '@/lib/heating';
+import { formatDuration, getFireSessions } from '@/lib/fire-sessions';
+import { getStoveRoomCorrelation, StoveRoomCorrelation } from '@/lib/heating-correlation';
+import { getSettings } from '@/lib/settings';
+import { getSeasonComparison, SeasonStats, withDegreeDays } from '@/lib/heating-degree-days';
+import { FirePhaseChip } from '@/components/heating/fire-phase-chip';
+import { RoomCorrelationCard } from '@/components/heating/room-correlation-card';
+import { SeasonComparisonChart } from '@/components/heating/season-comparison-chart';
+import type { DashboardData, FireSession } from '@/types/dashboard';
 import {
   Typography,
   Box,
+  Alert,
+  Button,
   Paper,
   Table,
   TableBody,
@@ -20,6 +31,7 @@ import LocalFireDepartmentIcon from '@mui/icons-material/LocalFireDepartment';
 import CalendarMonthIcon from '@mui/icons-material/CalendarMonth';
 import ShowChartIcon from '@mui/icons-material/ShowChart';
 import { BarChart } from '@mui/x-charts/BarChart';
+import { LineChart } from '@mui/x-charts/LineChart';
 import { format } from 'date-fns';
 import { de } from 'date-fns/locale';
 
@@ -40,15 +52,83 @@ const MONTH_NAMES: Record<string, string> = {
   '12': 'Dezember',
 };
 
+// Selectable date ranges (days back from today)
+const RANGES = [
+  { key: '30d', label: '30 Tage', days: 30 },
+  { key: '90d', label: '90 Tage', days: 90 },
+  { key: '12m', label: '12 Monate', days: 365 },
+  { key: '3y', label: '3 Jahre', days: 3 * 365 },
+];
+const DEFAULT_RANGE = '12m';
 
-export default async function HeatingPage() {
-  const data = await getDashboardData();
+interface HeatingPageProps {
+  searchParams: Promise<{ range?: string }>;
+}
+
+export default async function HeatingPage({ searchParams }: HeatingPageProps) {
+  const { range: rangeKey } = await searchParams;
+  const range = RANGES.find((r) => r.key === rangeKey) ?? RANGES.find((r) => r.key === DEFAULT_RANGE)!;
+
+  const to = new Date();
+  const from = new Date(to.getTime() - range.days * 24 * 60 * 60 * 1000);
+
+  let data: DashboardData;
+  let sessions: FireSession[];
+  let correlation: StoveRoomCorrelation | null = null;
+  let seasons: SeasonStats[] = [];
+  try {
+    const [heatingData, fireSessions, settings] = await Promise.all([
+      getHeatingData({ from, to }),
+      getFireSessions({ from, to }),
+      getSettings(),
+    ]);
+    data = heatingData;
+    sessions = fireSessions;
+
+    // Room correlation and degree days are optional, the page works without Shelly data
+    const [correlationResult, monthlyResult, seasonsResult] = await Promise.allSettled([
+      getStoveRoomCorrelation(sessions, settings.heating),
+      withDegreeDays(data.monthly_stats, { from, to }),
+      getSeasonComparison(),
+    ]);
+    if (correlationResult.status === 'fulfilled') {
+      correlation = correlationResult.value;
+    } else {
+      console.error('[HeatingPage] Error correlating room temperatures:', correlationResult.reason);
+    }
+    if (monthlyResult.status === 'fulfilled') {
+      data = { ...data, monthly_stats: monthlyResult.value };
+    } else {
+      console.error('[HeatingPage] Error loading degree days:', monthlyResult.reason);
+    }
+    if (seasonsResult.status === 'fulfilled') {
+      seasons = seasonsResult.value;
+    } else {
+      console.error('[HeatingPage] Error comparing seasons:', seasonsResult.reason);
+    }
+  } catch (error) {
+    console.error('[HeatingPage] Error loading heating data:', error);
+    return (
+      <Alert severity="error">
+        Heizungsdaten konnten nicht geladen werden: {error instanceof Error ? error.message : 'Unbekannter Fehler'}
+      </Alert>
+    );
+  }
 
-  // Calculate total events
+  // Calculate total events in the selected range
   const totalEvents = data.fire_events.length;
 
-  // Get current month stats
-  const currentMonthStats = data.monthly_stats[0];
+  // Get current month stats (only if the newest month is the current one)
+  const currentMonth = format(new Date(), 'yyyy-MM');
+  const currentMonthStats = data.monthly_stats.find((stat) => stat.month === currentMonth);
+
+  // Prepare oven temperature chart data
+  // Formatted on the server, chart props must stay serializable
+  const hourlyHistory = range.days <= 31;
+  const ovenChartData = data.temperature_history.map((reading) => ({
+    time: format(new Date(reading.timestamp), hourlyHistory ? 'dd.MM. HH:mm' : 'dd.MM.yy', { locale: de }),
+    temperature: Math.round(reading.temperature * 10) / 10,
+  }));
 
   // Prepare chart data
   const chartData = data.monthly_stats
@@ -61,6 +141,18 @@ export default async function HeatingPage() {
     })
     .reverse();
 
+  // Prepare fire sessions table data (format on server)
+  const sessionRows = sessions.map((session) => ({
+    id: session.id,
+    phase: session.phase,
+    started_at: format(new Date(session.started_at), 'dd.MM.yyyy - HH:mm', { locale: de }),
+    duration: formatDuration(session.duration_minutes),
+    peak: `${session.peak_temperature.toFixed(0)} °C`,
+    above_200: formatDuration(session.minutes_above_200),
+    heat: `${session.heat_output_kwh.toFixed(1)} kWh`,
+    wood: session.wood ? `${session.wood.amount} ${session.wood.unit === 'kg' ? 'kg' : 'Armvoll'}` : '–',
+  }));
+
   // Prepare fire events table data (format on server)
   const fireEventsRows = data.fire_events.slice(0, 10).map((event) => ({
     timestamp: format(new Date(event.timestamp), 'dd.MM.yyyy - HH:mm', { locale: de }),
@@ -76,12 +168,29 @@ export default async function HeatingPage() {
       count: stat.count,
       avg_temp: `${stat.avg_temp.toFixed(1)} °C`,
       max_temp: `${stat.max_temp.toFixed(1)} °C`,
+      degree_days: stat.degree_days !== undefined ? String(stat.degree_days) : '–',
+      firings_per_100_hdd: stat.firings_per_100_hdd != null ? stat.firings_per_100_hdd.toFixed(1) : '–',
+      wood_kg_per_hdd: stat.wood_kg_per_hdd != null ? stat.wood_kg_per_hdd.toFixed(2) : '–',
     };
   });
 
   return (
     <Box>
 
+        {/* Date Range */}
+        <Box sx={{ display: 'flex', gap: 1, mb: 3, flexWrap: 'wrap' }}>
+          {RANGES.map((r) => (
+            <Button
+              key={r.key}
+              href={`/heating?range=${r.key}`}
+              variant={r.key === range.key ? 'contained' : 'outlined'}
+              size="small"
+            >
+              {r.label}
+            </Button>
+          ))}
+        </Box>
+
         {/* Key Metrics */}
         <Box
           sx={{
@@ -109,7 +218,7 @@ export default async function HeatingPage() {
                 {totalEvents}
               </Typography>
               <Typography variant="body1" color="text.secondary">
-                Gesamt Feuer-Events
+                Feuer-Events ({range.label})
               </Typography>
             </Box>
           </Paper>
@@ -210,12 +319,106 @@ export default async function HeatingPage() {
           </Box>
         </Box>
 
+        {/* Stove vs. Room Temperatures */}
+        {correlation && <RoomCorrelationCard correlation={correlation} />}
+
+        {/* Oven Temperature History */}
+        {ovenChartData.length > 0 && (
+          <Paper
+            elevation={3}
+            sx={{
+              p: { xs: 2, sm: 3, md: 4 },
+              mb: 4,
+              overflow: 'hidden',
+              background:
+                'linear-gradient(135deg, rgba(239, 83, 80, 0.1) 0%, rgba(239, 83, 80, 0.05) 100%)',
+            }}
+          >
+            <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+              📈 Ofentemperatur ({hourlyHistory ? 'Stundenmittel' : 'Tagesmittel'})
+            </Typography>
+            <Box sx={{ height: 300, width: '100%', overflow: 'hidden' }}>
+              <LineChart
+                dataset={ovenChartData}
+                xAxis={[
+                  {
+                    scaleType: 'point',
+                    dataKey: 'time',
+                    tickLabelStyle: { angle: -45, textAnchor: 'end', fontSize: 10 },
+                  },
+                ]}
+                yAxis={[{ label: '°C' }]}
+                series={[
+                  {
+                    dataKey: 'temperature',
+                    label: 'Ofen',
+                    color: '#ef4444',
+                    showMark: false,
+                  },
+                ]}
+                height={300}
+              />
+            </Box>
+          </Paper>
+        )}
+
         {/* Fire Statistics */}
         <Box sx={{ mb: 4 }}>
           <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, mb: 3 }}>
             🔥 Feuer-Statistik
           </Typography>
 
+          {/* Fire Sessions Table */}
+          <Paper
+            elevation={3}
+            sx={{
+              p: { xs: 2, sm: 3, md: 4 },
+              mb: 3,
+              background:
+                'linear-gradient(135deg, rgba(239, 83, 80, 0.1) 0%, rgba(239, 83, 80, 0.05) 100%)',
+            }}
+          >
+            <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+              🪵 Feuer-Sessions ({sessionRows.length})
+            </Typography>
+            {sessionRows.length > 0 ? (
+              <TableContainer sx={{ maxHeight: 400 }}>
+                <Table stickyHeader size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 600 }}>Start</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Phase</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Dauer</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Spitze</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Über 200 °C</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Wärme</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Holz</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {sessionRows.map((row) => (
+                      <TableRow key={row.id} hover>
+                        <TableCell>
+                          <Link href={`/heating/sessions/${row.id}`}>{row.started_at}</Link>
+                        </TableCell>
+                        <TableCell>
+                          <FirePhaseChip phase={row.phase} />
+                        </TableCell>
+                        <TableCell>{row.duration}</TableCell>
+                        <TableCell>{row.peak}</TableCell>
+                        <TableCell>{row.above_200}</TableCell>
+                        <TableCell>{row.heat}</TableCell>
+                        <TableCell>{row.wood}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            ) : (
+              <Typography color="text.secondary">Keine Feuer-Sessions im gewählten Zeitraum</Typography>
+            )}
+          </Paper>
+
           {/* Recent Fire Events Table */}
           <Paper
             elevation={3}
@@ -292,6 +495,9 @@ export default async function HeatingPage() {
             </Box>
           </Paper>
 
+          {/* Season Comparison */}
+          {seasons.length > 0 && <SeasonComparisonChart seasons={seasons} />}
+
           {/* Monthly Stats Table */}
           <Paper
             elevation={3}
@@ -312,6 +518,9 @@ export default async function HeatingPage() {
                     <TableCell sx={{ fontWeight: 600 }}>Anzahl</TableCell>
                     <TableCell sx={{ fontWeight: 600 }}>Ø Temp</TableCell>
                     <TableCell sx={{ fontWeight: 600 }}>Max Temp</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>HGT</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Feuer / 100 HGT</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>kg Holz / HGT</TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
@@ -321,6 +530,9 @@ export default async function HeatingPage() {
                       <TableCell>{row.count}</TableCell>
                       <TableCell>{row.avg_temp}</TableCell>
                       <TableCell>{row.max_temp}</TableCell>
+                      <TableCell>{row.degree_days}</TableCell>
+                      <TableCell>{row.firings_per_100_hdd}</TableCell>
+                      <TableCell>{row.wood_kg_per_hdd}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -332,7 +544,10 @@ export default async function HeatingPage() {
         {/* Footer */}
         <Box sx={{ textAlign: 'center', pt: 4 }}>
           <Typography variant="caption" color="text.secondary">
-            Daten werden stündlich vom Raspberry Pi aktualisiert
+            Daten werden laufend vom Raspberry Pi übermittelt ·{' '}
+            {data.last_updated
+              ? `Stand ${format(new Date(data.last_updated), 'dd.MM.yyyy HH:mm', { locale: de })}`
+              : 'noch keine Daten'}
           </Typography>
         </Box>
     </Box>
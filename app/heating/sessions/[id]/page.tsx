@@ -0,0 +1,241 @@
+/**
+ * Fire Session Detail Page (Dynamic Route)
+ * Displays the temperature curve, phases and wood log of a fire session
+ */
+
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import LocalFireDepartmentIcon from '@mui/icons-material/LocalFireDepartment';
+import { LineChart } from '@mui/x-charts/LineChart';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import {
+  formatDuration,
+  getFireSession,
+  getSessionCurve,
+  getWoodEnergyKwh,
+} from '@/lib/fire-sessions';
+import { FirePhaseChip } from '@/components/heating/fire-phase-chip';
+import { WoodLogForm } from '@/components/heating/wood-log-form';
+import type { FireSession, TemperatureReading } from '@/types/dashboard';
+
+export const revalidate = 300;
+
+interface FireSessionPageProps {
+  params: Promise<{ id: string }>;
+}
+
+function formatTime(date: string | null): string {
+  return date ? format(new Date(date), 'dd.MM.yyyy HH:mm', { locale: de }) : '–';
+}
+
+function minutesBetween(from: string, to: string | null): string {
+  if (!to) return 'läuft';
+  return formatDuration(Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000));
+}
+
+export default async function FireSessionPage({ params }: FireSessionPageProps) {
+  const { id } = await params;
+
+  let session: FireSession | null;
+  let curve: TemperatureReading[];
+  try {
+    session = await getFireSession(id);
+    curve = session ? await getSessionCurve(session) : [];
+  } catch (error) {
+    console.error('[FireSessionPage] Error loading fire session:', error);
+    return (
+      <Alert severity="error">
+        Feuer-Session konnte nicht geladen werden: {error instanceof Error ? error.message : 'Unbekannter Fehler'}
+      </Alert>
+    );
+  }
+
+  if (!session) {
+    notFound();
+  }
+
+  // Formatted on the server, chart props must stay serializable
+  const chartData = curve.map((reading) => ({
+    time: format(new Date(reading.timestamp), 'HH:mm', { locale: de }),
+    temperature: Math.round(reading.temperature * 10) / 10,
+  }));
+
+  const phases = [
+    { label: 'Anfeuern', from: session.started_at, to: session.peak_phase_at },
+    { label: 'Vollbrand', from: session.peak_phase_at, to: session.glow_at },
+    { label: 'Glut', from: session.glow_at, to: session.ended_at },
+  ];
+
+  const woodEnergy = session.wood ? getWoodEnergyKwh(session.wood) : null;
+
+  const stats = [
+    { label: 'Dauer', value: formatDuration(session.duration_minutes) },
+    { label: 'Spitzentemperatur', value: `${session.peak_temperature.toFixed(1)} °C` },
+    { label: 'Über 200 °C', value: formatDuration(session.minutes_above_200) },
+    { label: 'Wärmeabgabe (geschätzt)', value: `${session.heat_output_kwh.toFixed(1)} kWh` },
+  ];
+
+  return (
+    <Box>
+      <Button href="/heating" startIcon={<ArrowBackIcon />} size="small" sx={{ mb: 2 }}>
+        Zurück zur Heizung
+      </Button>
+
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 4 }}>
+        <LocalFireDepartmentIcon sx={{ fontSize: 48, color: 'error.main' }} />
+        <Box>
+          <Typography variant="h4" sx={{ fontWeight: 700 }}>
+            Feuer vom {format(new Date(session.started_at), 'dd.MM.yyyy', { locale: de })}
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body1" color="text.secondary">
+              {formatTime(session.started_at)} – {session.ended_at ? formatTime(session.ended_at) : 'läuft'}
+            </Typography>
+            <FirePhaseChip phase={session.phase} />
+          </Box>
+        </Box>
+      </Box>
+
+      {/* Key Metrics */}
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)' },
+          gap: 3,
+          mb: 4,
+        }}
+      >
+        {stats.map((stat) => (
+          <Paper
+            key={stat.label}
+            elevation={3}
+            sx={{
+              p: { xs: 2, sm: 3 },
+              background:
+                'linear-gradient(135deg, rgba(239, 83, 80, 0.1) 0%, rgba(239, 83, 80, 0.05) 100%)',
+            }}
+          >
+            <Typography sx={{ fontWeight: 700, lineHeight: 1.2, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}>
+              {stat.value}
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              {stat.label}
+            </Typography>
+          </Paper>
+        ))}
+      </Box>
+
+      {/* Temperature Curve */}
+      <Paper
+        elevation={3}
+        sx={{
+          p: { xs: 2, sm: 3, md: 4 },
+          mb: 4,
+          overflow: 'hidden',
+          background:
+            'linear-gradient(135deg, rgba(239, 83, 80, 0.1) 0%, rgba(239, 83, 80, 0.05) 100%)',
+        }}
+      >
+        <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+          📈 Temperaturverlauf
+        </Typography>
+        {chartData.length > 0 ? (
+          <Box sx={{ height: 300, width: '100%', overflow: 'hidden' }}>
+            <LineChart
+              dataset={chartData}
+              xAxis={[
+                {
+                  scaleType: 'point',
+                  dataKey: 'time',
+                  tickLabelStyle: { fontSize: 10 },
+                },
+              ]}
+              yAxis={[{ label: '°C' }]}
+              series={[
+                {
+                  dataKey: 'temperature',
+                  label: 'Ofen',
+                  color: '#ef4444',
+                  showMark: false,
+                },
+              ]}
+              height={300}
+            />
+          </Box>
+        ) : (
+          <Typography color="text.secondary">Keine Temperaturen gespeichert</Typography>
+        )}
+      </Paper>
+
+      {/* Phases */}
+      <Paper
+        elevation={3}
+        sx={{
+          p: { xs: 2, sm: 3, md: 4 },
+          mb: 4,
+          background:
+            'linear-gradient(135deg, rgba(255, 167, 38, 0.1) 0%, rgba(255, 167, 38, 0.05) 100%)',
+        }}
+      >
+        <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+          🔥 Phasen
+        </Typography>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Phase</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Beginn</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Dauer</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {phases.map((phase) => (
+                <TableRow key={phase.label} hover>
+                  <TableCell>{phase.label}</TableCell>
+                  <TableCell>{formatTime(phase.from)}</TableCell>
+                  <TableCell>{phase.from ? minutesBetween(phase.from, phase.to) : '–'}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow hover>
+                <TableCell>Kalt</TableCell>
+                <TableCell>{formatTime(session.ended_at)}</TableCell>
+                <TableCell>–</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+          Start {session.start_temperature.toFixed(1)} °C · Spitze {session.peak_temperature.toFixed(1)} °C um{' '}
+          {format(new Date(session.peak_at), 'HH:mm', { locale: de })}
+        </Typography>
+      </Paper>
+
+      {/* Wood Log */}
+      {session.wood && woodEnergy !== null && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {session.wood.amount} {session.wood.unit === 'kg' ? 'kg' : 'Armvoll'} Holz ≈ {woodEnergy.toFixed(0)} kWh
+          Brennstoffenergie
+          {woodEnergy > 0 && ` · geschätzte Wärmeabgabe ${Math.round((session.heat_output_kwh / woodEnergy) * 100)} %`}
+          {session.wood.notes && ` · ${session.wood.notes}`}
+        </Alert>
+      )}
+      <WoodLogForm sessionId={session.id} wood={session.wood} />
+    </Box>
+  );
+}
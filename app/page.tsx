@@ -16,6 +16,7 @@ import BoltIcon from '@mui/icons-material/Bolt';
 import BatteryChargingFullIcon from '@mui/icons-material/BatteryChargingFull';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 import { StatCard } from '@/components/shared/stat-card';
+import { findRoomByDeviceId, ShellyRoom } from '@/lib/shelly-config';
 
 interface IndoorSensor {
   name: string;
@@ -56,21 +57,23 @@ export default function DashboardPage() {
       setOverviewLoading(true);
 
       // Fetch all data in parallel
-      const [heatingRes, solarRes, weatherRes, shellyRes] = await Promise.all([
+      const [heatingRes, solarRes, weatherRes, shellyRes, roomsRes] = await Promise.all([
         fetch('/api/data', { cache: 'no-store' }),
         fetch('/api/victron/stats?interval=15mins', { cache: 'no-store' }),
         fetch('/api/weather', { cache: 'no-store' }),
         fetch('/api/shelly', { cache: 'no-store' }),
+        fetch('/api/rooms', { cache: 'no-store' }),
       ]);
 
-      if (!heatingRes.ok || !solarRes.ok || !weatherRes.ok) {
+      if (!solarRes.ok || !weatherRes.ok) {
         throw new Error('Failed to fetch overview data');
       }
 
-      const heatingData = await heatingRes.json();
+      const heatingData = heatingRes.ok ? await heatingRes.json() : {};
       const solarData = await solarRes.json();
       const weatherData = await weatherRes.json();
       const shellyData = shellyRes.ok ? await shellyRes.json() : { sensors: [] };
+      const rooms: ShellyRoom[] = roomsRes.ok ? await roomsRes.json() : [];
 
       // Extract fire event data
       const fireEvents = heatingData.fire_events || [];
@@ -87,24 +90,19 @@ export default function DashboardPage() {
       // Extract weather data
       const weather = weatherData.current || {};
 
-      // Extract indoor climate data (exclude "Aussen" sensor)
-      const OUTDOOR_DEVICE_ID = 'XB137192906310216';
-      const roomNames: Record<string, string> = {
-        'e4b3232f84a8': 'Küche',
-        'e4b32332e2c8': 'Bad',
-        'e4b323304058': 'Büro',
-        'e4b3233182e8': 'Schlafzimmer',
-      };
+      // Extract indoor climate data (exclude the outdoor sensor)
+      const outdoorDeviceId = rooms.find((room) => room.isOutdoor)?.deviceId;
       const indoorRooms = (shellyData.sensors || [])
-        .filter((s: any) => s.id !== OUTDOOR_DEVICE_ID)
+        .filter((s: any) => s.id !== outdoorDeviceId)
         .map((s: any) => ({
-          name: roomNames[s.id] || s.name || 'Unbekannt',
+          name: findRoomByDeviceId(rooms, s.id)?.name || s.name || 'Unbekannt',
           temperature: s.temperature ?? 0,
         }));
 
       // Extract outdoor sensor data
-      const outdoorSensor = (shellyData.sensors || [])
-        .find((s: any) => s.id === OUTDOOR_DEVICE_ID);
+      const outdoorSensor = outdoorDeviceId
+        ? (shellyData.sensors || []).find((s: any) => s.id === outdoorDeviceId)
+        : undefined;
       const outdoor = outdoorSensor
         ? { temperature: outdoorSensor.temperature ?? 0, humidity: outdoorSensor.humidity ?? 0 }
         : null;
@@ -0,0 +1,23 @@
+/**
+ * Settings Page (admin only)
+ * Household profile, location and tariffs used by all calculations
+ */
+
+import { redirect } from 'next/navigation';
+import { getAuthSession } from '@/lib/auth-utils';
+import { getSettings } from '@/lib/settings';
+import { getShellyRooms } from '@/lib/shelly-rooms';
+import { SettingsForm } from '@/components/settings/settings-form';
+
+export const dynamic = 'force-dynamic';
+
+export default async function SettingsPage() {
+  const session = await getAuthSession();
+  if (!session) {
+    redirect('/login?callbackUrl=/settings');
+  }
+
+  const [settings, rooms] = await Promise.all([getSettings(), getShellyRooms()]);
+
+  return <SettingsForm initialSettings={settings} rooms={rooms} />;
+}
@@ -0,0 +1,22 @@
+/**
+ * Room Settings Page (admin only)
+ * Rooms with their Shelly sensor and position on the floorplan
+ */
+
+import { redirect } from 'next/navigation';
+import { getAuthSession } from '@/lib/auth-utils';
+import { getShellyRooms } from '@/lib/shelly-rooms';
+import { RoomEditor } from '@/components/settings/room-editor';
+
+export const dynamic = 'force-dynamic';
+
+export default async function RoomSettingsPage() {
+  const session = await getAuthSession();
+  if (!session) {
+    redirect('/login?callbackUrl=/settings/rooms');
+  }
+
+  const rooms = await getShellyRooms();
+
+  return <RoomEditor initialRooms={rooms} />;
+}
@@ -0,0 +1,284 @@
+/**
+ * Battery Analytics Page
+ * Displays charge/discharge cycles, depth of discharge, equivalent full cycles,
+ * round-trip efficiency and the capacity trend of a Victron installation
+ */
+
+import { notFound } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import BatteryChargingFullIcon from '@mui/icons-material/BatteryChargingFull';
+import { BarChart } from '@mui/x-charts/BarChart';
+import { LineChart } from '@mui/x-charts/LineChart';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { BatteryAnalytics, getBatteryAnalytics } from '@/lib/battery';
+import { getVictronInstallations } from '@/lib/victron-installations';
+import { StatCard } from '@/components/shared/stat-card';
+
+export const revalidate = 300;
+
+interface BatteryPageProps {
+  searchParams: Promise<{ installation?: string }>;
+}
+
+function formatPercent(value: number | null, digits: number = 0): string {
+  return value !== null ? `${(value * 100).toFixed(digits)} %` : '–';
+}
+
+function formatMonth(month: string): string {
+  return format(new Date(`${month}-01T00:00:00`), 'MMM yy', { locale: de });
+}
+
+export default async function BatteryPage({ searchParams }: BatteryPageProps) {
+  const { installation: installationParam } = await searchParams;
+  const installations = getVictronInstallations();
+  const installation = installationParam
+    ? installations.find((item) => item.id === installationParam)
+    : installations[0];
+
+  if (!installation) {
+    if (installationParam) notFound();
+    return <Alert severity="error">Keine Victron-Anlage konfiguriert (VICTRON_INSTALLATION_ID)</Alert>;
+  }
+
+  let analytics: BatteryAnalytics;
+  try {
+    analytics = await getBatteryAnalytics(installation);
+  } catch (error) {
+    console.error('[BatteryPage] Error loading battery analytics:', error);
+    return (
+      <Alert severity="error">
+        Batteriedaten konnten nicht geladen werden: {error instanceof Error ? error.message : 'Unbekannter Fehler'}
+      </Alert>
+    );
+  }
+
+  // Charts get preformatted labels from the server
+  const monthlyData = analytics.months.map((month) => ({
+    label: formatMonth(month.month),
+    efc: Number(month.equivalentFullCycles.toFixed(1)),
+    depth: month.averageDepth !== null ? Number(month.averageDepth.toFixed(0)) : null,
+    health:
+      month.capacityAh !== null && analytics.referenceCapacityAh
+        ? Number(((month.capacityAh / analytics.referenceCapacityAh) * 100).toFixed(1))
+        : null,
+  }));
+
+  const socData = analytics.socHistory.map(([timestamp, soc]) => ({
+    time: new Date(timestamp),
+    soc,
+  }));
+
+  const monthRows = [...analytics.months].reverse().map((month) => ({
+    month: format(new Date(`${month.month}-01T00:00:00`), 'MMMM yyyy', { locale: de }),
+    cycles: String(month.cycles),
+    efc: month.equivalentFullCycles.toFixed(1),
+    depth: month.averageDepth !== null ? `${month.averageDepth.toFixed(0)} %` : '–',
+    maxDepth: month.maxDepth !== null ? `${month.maxDepth.toFixed(0)} %` : '–',
+    energy: `${month.chargedKwh.toFixed(1)} / ${month.dischargedKwh.toFixed(1)} kWh`,
+    efficiency: formatPercent(month.efficiency),
+    capacity: month.capacityAh !== null ? `${month.capacityAh.toFixed(0)} Ah` : '–',
+  }));
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 4 }}>
+        <BatteryChargingFullIcon sx={{ fontSize: 48, color: 'success.main' }} />
+        <Box>
+          <Typography variant="h4" sx={{ fontWeight: 700 }}>
+            Batterie
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Zyklen, Entladetiefe, Wirkungsgrad und Kapazität
+            {analytics.from && ` seit ${format(new Date(analytics.from), 'dd.MM.yyyy', { locale: de })}`}
+          </Typography>
+        </Box>
+      </Box>
+
+      {/* Installation switcher */}
+      {installations.length > 1 && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 3, flexWrap: 'wrap' }}>
+          {installations.map((item) => (
+            <Button
+              key={item.id}
+              href={`/solar/battery?installation=${item.id}`}
+              variant={item.id === installation.id ? 'contained' : 'outlined'}
+              size="small"
+            >
+              {item.name}
+            </Button>
+          ))}
+        </Box>
+      )}
+
+      {analytics.months.length === 0 ? (
+        <Alert severity="info">
+          Noch keine Batteriewerte gespeichert. Die Sammlung läuft mit /api/victron/collect alle 15 Minuten.
+        </Alert>
+      ) : (
+        <>
+          {/* Key Metrics */}
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', lg: 'repeat(4, 1fr)' },
+              gap: 3,
+              mb: 4,
+            }}
+          >
+            <StatCard
+              title="Vollzyklen"
+              value={analytics.totalEquivalentFullCycles.toFixed(0)}
+              subtitle={`${analytics.months.length} Monate`}
+              color="info"
+            />
+            <StatCard
+              title="Mittlere Entladetiefe"
+              value={analytics.averageDepth !== null ? `${analytics.averageDepth.toFixed(0)} %` : '–'}
+              subtitle={`${analytics.months.reduce((sum, month) => sum + month.cycles, 0)} Zyklen`}
+              color="warning"
+            />
+            <StatCard
+              title="Wirkungsgrad"
+              value={formatPercent(analytics.efficiency)}
+              subtitle="Entladen / Laden"
+              color="secondary"
+            />
+            <StatCard
+              title="Zustand (SoH)"
+              value={formatPercent(analytics.stateOfHealth)}
+              subtitle={
+                analytics.currentCapacityAh !== null
+                  ? `~${analytics.currentCapacityAh.toFixed(0)} Ah nutzbar` +
+                    (analytics.fadePerYear !== null ? ` · ${formatPercent(-analytics.fadePerYear, 1)}/Jahr` : '')
+                  : 'Zu wenig tiefe Entladungen'
+              }
+              color="success"
+            />
+          </Box>
+
+          {/* SOC of the last 7 days */}
+          <Paper elevation={3} sx={{ p: { xs: 2, sm: 3, md: 4 }, mb: 4, overflow: 'hidden' }}>
+            <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+              🔋 Ladezustand (7 Tage)
+            </Typography>
+            {socData.length > 0 ? (
+              <Box sx={{ height: 300, width: '100%' }}>
+                <LineChart
+                  dataset={socData}
+                  xAxis={[{ scaleType: 'time', dataKey: 'time' }]}
+                  yAxis={[{ min: 0, max: 100, label: '%' }]}
+                  series={[{ dataKey: 'soc', label: 'SOC', color: '#66bb6a', showMark: false, area: true }]}
+                  height={300}
+                />
+              </Box>
+            ) : (
+              <Typography color="text.secondary">Keine Werte der letzten 7 Tage</Typography>
+            )}
+          </Paper>
+
+          {/* Cycles and capacity trend */}
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: '1fr', lg: 'repeat(2, 1fr)' },
+              gap: 3,
+              mb: 4,
+            }}
+          >
+            <Paper elevation={3} sx={{ p: { xs: 2, sm: 3, md: 4 }, overflow: 'hidden' }}>
+              <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+                🔁 Vollzyklen pro Monat
+              </Typography>
+              <Box sx={{ height: 300, width: '100%' }}>
+                <BarChart
+                  dataset={monthlyData}
+                  xAxis={[{ scaleType: 'band', dataKey: 'label' }]}
+                  series={[
+                    { dataKey: 'efc', label: 'Vollzyklen', color: '#42a5f5' },
+                    { dataKey: 'depth', label: 'Ø Entladetiefe (%)', color: '#ffa726' },
+                  ]}
+                  height={300}
+                />
+              </Box>
+            </Paper>
+            <Paper elevation={3} sx={{ p: { xs: 2, sm: 3, md: 4 }, overflow: 'hidden' }}>
+              <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+                📉 Kapazitätsverlauf
+              </Typography>
+              {monthlyData.some((month) => month.health !== null) ? (
+                <Box sx={{ height: 300, width: '100%' }}>
+                  <LineChart
+                    dataset={monthlyData}
+                    xAxis={[{ scaleType: 'point', dataKey: 'label' }]}
+                    yAxis={[{ label: '% der Anfangskapazität' }]}
+                    series={[{ dataKey: 'health', label: 'Kapazität', color: '#ab47bc', connectNulls: true }]}
+                    height={300}
+                  />
+                </Box>
+              ) : (
+                <Typography color="text.secondary">
+                  Die Kapazität wird aus Entladungen ab 20 % Tiefe geschätzt, bisher gab es keine
+                </Typography>
+              )}
+            </Paper>
+          </Box>
+
+          {/* Monthly Table */}
+          <Paper elevation={3} sx={{ p: { xs: 2, sm: 3, md: 4 }, mb: 4 }}>
+            <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+              📊 Monatswerte
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 600 }}>Monat</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Zyklen</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Vollzyklen</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Ø Tiefe</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Max. Tiefe</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Geladen / Entladen</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Wirkungsgrad</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }} align="right">Kapazität</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {monthRows.map((row) => (
+                    <TableRow key={row.month} hover>
+                      <TableCell>{row.month}</TableCell>
+                      <TableCell align="right">{row.cycles}</TableCell>
+                      <TableCell align="right">{row.efc}</TableCell>
+                      <TableCell align="right">{row.depth}</TableCell>
+                      <TableCell align="right">{row.maxDepth}</TableCell>
+                      <TableCell align="right">{row.energy}</TableCell>
+                      <TableCell align="right">{row.efficiency}</TableCell>
+                      <TableCell align="right">{row.capacity}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+              Ein Zyklus ist eine Entladung um mindestens 5 %. Vollzyklen summieren alle SOC-Abnahmen (100 % = 1 Zyklus),
+              der Zustand vergleicht die geschätzte Kapazität mit den ersten Monaten.
+            </Typography>
+          </Paper>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -1,32 +1,48 @@
 /**
  * Solar Dashboard Page
  * Displays solar panel, battery, and consumption data from Victron Energy
+ * per installation (?installation=) or summed over all installations (?installation=all)
  */
 
-import { fetchVictronStats, processSolarData } from '@/lib/victron';
+import { notFound } from 'next/navigation';
+import { combineSolarData, fetchVictronStats, processSolarData } from '@/lib/victron';
 import { fetchWithTokenRefresh } from '@/lib/victron-token';
 import {
+  COMBINED_INSTALLATION_ID,
+  getVictronInstallations,
+  isPrimaryInstallation,
+  VictronInstallation,
+} from '@/lib/victron-installations';
+import {
+  combineAutarkieStats,
+  combineStats,
   fetchLast7Days,
   fetchLast24Months,
   fetchAutarkieStats,
   fetchLast30DaysPeakPower,
   fetchLast5YearsGridImport,
+  fetchYearlyElectricityCosts,
 } from '@/lib/victron-history';
 import { getCachedOrFetch } from '@/lib/dev-cache';
 import {
-  calculateYearlyCosts,
-  calculateDailyCosts,
   formatCurrency,
-  ELECTRICITY_PRICE_RAPPEN,
+  getTariffAt,
   ELECTRICITY_PRICE_SOURCE,
 } from '@/lib/electricity-costs';
-import { getGridPeriods, calculateDays, isActivePeriod } from '@/lib/grid-periods';
+import { getSettings } from '@/lib/settings';
+import { getGridPeriods } from '@/lib/grid-periods';
+import { inferGridPeriods } from '@/lib/grid-period-inference';
+import { calculateDays, isActivePeriod } from '@/lib/grid-periods-config';
+import { getAutonomyForecast } from '@/lib/autonomy';
 import { LiveStats } from '@/components/solar/live-stats';
 import { MonthlyChart } from '@/components/solar/monthly-chart';
 import { YearlyGridChart } from '@/components/solar/yearly-grid-chart';
+import { GridPeriodProposals } from '@/components/solar/grid-period-proposals';
+import { AutonomyChart } from '@/components/solar/autonomy-chart';
 import {
   Typography,
   Box,
+  Button,
   Link as MuiLink,
   Alert,
   Paper,
@@ -38,6 +54,8 @@ import {
   TableRow,
 } from '@mui/material';
 import { LineChart } from '@mui/x-charts/LineChart';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
 import WbSunnyIcon from '@mui/icons-material/WbSunny';
 import ElectricBoltIcon from '@mui/icons-material/ElectricBolt';
 import PowerIcon from '@mui/icons-material/Power';
@@ -81,26 +99,49 @@ async function fetchWithError<T>(
   }
 }
 
-async function getSolarData() {
-  try {
-    const installationId = process.env.VICTRON_INSTALLATION_ID;
+/**
+ * Fetch a value for each shown installation and combine the results
+ */
+async function fetchCombined<T>(
+  installations: VictronInstallation[],
+  fetcher: (installation: VictronInstallation) => Promise<T>,
+  combine: (list: T[]) => T
+): Promise<T> {
+  const list = await Promise.all(installations.map(fetcher));
+  return list.length === 1 ? list[0] : combine(list);
+}
 
-    if (!installationId) {
+async function getSolarData(installations: VictronInstallation[]) {
+  try {
+    if (installations.length === 0) {
       throw new Error('VICTRON_INSTALLATION_ID not configured');
     }
 
     console.log('[SolarPage] Fetching Victron data...');
 
-    const stats = await fetchWithTokenRefresh((token) =>
-      fetchVictronStats(installationId, token, '15mins')
-    );
-
-    const processedData = processSolarData(stats);
+    const [statsList, gridPeriods] = await Promise.all([
+      Promise.all(
+        installations.map((installation) =>
+          fetchWithTokenRefresh(installation, (token) =>
+            fetchVictronStats(installation.installationId, token, '15mins')
+          )
+        )
+      ),
+      getGridPeriods(),
+    ]);
+
+    // Grid periods only apply to the house
+    const processedData = combineSolarData(
+      statsList.map((stats, index) =>
+        processSolarData(stats, isPrimaryInstallation(installations[index]) ? gridPeriods : [])
+      )
+    )!;
+    const primaryIndex = installations.findIndex(isPrimaryInstallation);
 
     console.log('[SolarPage] Data fetched successfully');
 
     return {
-      raw: stats,
+      raw: primaryIndex >= 0 ? statsList[primaryIndex] : undefined,
       processed: processedData,
       timestamp: Date.now(),
     };
@@ -110,21 +151,90 @@ async function getSolarData() {
   }
 }
 
-export default async function SolarPage() {
+interface SolarPageProps {
+  searchParams: Promise<{ installation?: string }>;
+}
+
+export default async function SolarPage({ searchParams }: SolarPageProps) {
+  const { installation: installationParam } = await searchParams;
+  const installations = getVictronInstallations();
+  const [house] = installations;
+
+  // Without a parameter the house is shown, 'all' sums up every installation
+  const selectedId = installationParam ?? house?.id ?? COMBINED_INSTALLATION_ID;
+  const shown = selectedId === COMBINED_INSTALLATION_ID
+    ? installations
+    : installations.filter((installation) => installation.id === selectedId);
+  if (installations.length > 0 && shown.length === 0) {
+    notFound();
+  }
+
+  // Grid periods and electricity costs belong to the grid connection of the house
+  const showsHouse = shown.some(isPrimaryInstallation);
+
   const [
     solarData,
     last7DaysResult,
     last24MonthsResult,
     autarkieResult,
     peakPowerResult,
-    yearlyGridResult
+    yearlyGridResult,
+    settings,
+    gridPeriods,
   ] = await Promise.all([
-    getCachedOrFetch('solar-data', () => getSolarData()),
-    getCachedOrFetch('last-7-days', () => fetchWithError(fetchLast7Days, [], 'Last 7 Days')),
-    getCachedOrFetch('last-24-months', () => fetchWithError(fetchLast24Months, [], 'Last 24 Months')),
-    getCachedOrFetch('autarkie-stats', () => fetchWithError(fetchAutarkieStats, null, 'Autarkie Stats')),
-    getCachedOrFetch('peak-power-30d', () => fetchWithError(fetchLast30DaysPeakPower, [], 'Peak Power')),
-    getCachedOrFetch('yearly-grid-import', () => fetchWithError(fetchLast5YearsGridImport, [], 'Yearly Grid')),
+    getCachedOrFetch(`solar-data-${selectedId}`, () => getSolarData(shown)),
+    getCachedOrFetch(`last-7-days-${selectedId}`, () =>
+      fetchWithError(
+        () => fetchCombined(shown, fetchLast7Days, (lists) => combineStats(lists, 'timestamp')),
+        [],
+        'Last 7 Days'
+      )
+    ),
+    getCachedOrFetch(`last-24-months-${selectedId}`, () =>
+      fetchWithError(
+        () => fetchCombined(shown, fetchLast24Months, (lists) => combineStats(lists, 'timestamp')),
+        [],
+        'Last 24 Months'
+      )
+    ),
+    getCachedOrFetch(`autarkie-stats-${selectedId}`, () =>
+      fetchWithError(() => fetchCombined(shown, fetchAutarkieStats, combineAutarkieStats), null, 'Autarkie Stats')
+    ),
+    getCachedOrFetch(`peak-power-30d-${selectedId}`, () =>
+      fetchWithError(
+        () => fetchCombined(shown, fetchLast30DaysPeakPower, (lists) => combineStats(lists, 'timestamp')),
+        [],
+        'Peak Power'
+      )
+    ),
+    getCachedOrFetch(`yearly-grid-import-${selectedId}`, () =>
+      fetchWithError(
+        () => fetchCombined(shown, fetchLast5YearsGridImport, (lists) => combineStats(lists, 'year')),
+        [],
+        'Yearly Grid'
+      )
+    ),
+    getSettings(),
+    getGridPeriods(),
+  ]);
+
+  // Costs need the tariffs from the settings, the inference the recorded periods
+  const [yearlyCostsResult, gridInferenceResult, autonomyResult] = await Promise.all([
+    showsHouse
+      ? getCachedOrFetch('yearly-electricity-costs', () =>
+          fetchWithError(() => fetchYearlyElectricityCosts(house, settings.electricityTariffs), [], 'Yearly Costs')
+        )
+      : { data: [] },
+    showsHouse
+      ? fetchWithError(
+          () => inferGridPeriods(gridPeriods, solarData && 'raw' in solarData ? solarData.raw : undefined),
+          null,
+          'Grid Inference'
+        )
+      : { data: null },
+    showsHouse
+      ? fetchWithError(() => getAutonomyForecast(), null, 'Autonomy Forecast')
+      : { data: null },
   ]);
 
   // Extract data from results
@@ -133,6 +243,9 @@ export default async function SolarPage() {
   const autarkieStats = autarkieResult.data;
   const peakPowerHistory = peakPowerResult.data;
   const yearlyGridImport = yearlyGridResult.data;
+  const yearlyElectricityCosts = yearlyCostsResult.data;
+  const gridInference = gridInferenceResult.data;
+  const autonomy = autonomyResult.data;
 
   // Collect errors for display
   const dataErrors = [
@@ -141,6 +254,7 @@ export default async function SolarPage() {
     autarkieResult.error && 'Autarkie-Statistik',
     peakPowerResult.error && 'Spitzenleistung',
     yearlyGridResult.error && 'Jahres-Netzbezug',
+    'error' in yearlyCostsResult && yearlyCostsResult.error && 'Stromkosten',
   ].filter(Boolean) as string[];
 
   if (!solarData || 'error' in solarData) {
@@ -211,8 +325,7 @@ export default async function SolarPage() {
   });
 
   // Prepare grid periods table data
-  const gridPeriods = getGridPeriods();
-  const gridPeriodsRows = gridPeriods.map((period) => {
+  const gridPeriodsRows = (showsHouse ? gridPeriods : []).map((period) => {
     const days = calculateDays(period.gridOn, period.gridOff);
     const isActive = isActivePeriod(period);
 
@@ -230,15 +343,11 @@ export default async function SolarPage() {
   // Calculate peak power for today
   const todayPeak = peakPowerHistory[0]?.peak_power || 0;
 
-  // Calculate costs based on electricity prices
-  const todayCosts = calculateDailyCosts(
-    processed.todayConsumption,
-    0 // We don't have today's grid import in processed data, will show yearly costs instead
-  );
-
-  const yearlyCosts = autarkieStats
-    ? calculateYearlyCosts(autarkieStats.total_consumption, autarkieStats.grid_history_from)
-    : null;
+  // Costs are priced per 15min interval with the tariffs from the settings
+  const currentTariff = getTariffAt(settings.electricityTariffs, Date.now());
+  const toRappen = (chf: number) => Math.round(chf * 1000) / 10;
+  const yearlyCosts =
+    yearlyElectricityCosts.find((item) => item.year === String(new Date().getFullYear())) ?? null;
 
   return (
     <Box sx={{ overflowX: 'hidden' }}>
@@ -249,13 +358,77 @@ export default async function SolarPage() {
           </Alert>
         )}
 
+        {/* Installation switcher */}
+        {installations.length > 1 && (
+          <Box sx={{ display: 'flex', gap: 1, mb: 3, flexWrap: 'wrap' }}>
+            {installations.map((installation) => (
+              <Button
+                key={installation.id}
+                href={`/solar?installation=${installation.id}`}
+                variant={installation.id === selectedId ? 'contained' : 'outlined'}
+                size="small"
+              >
+                {installation.name}
+              </Button>
+            ))}
+            <Button
+              href={`/solar?installation=${COMBINED_INSTALLATION_ID}`}
+              variant={selectedId === COMBINED_INSTALLATION_ID ? 'contained' : 'outlined'}
+              size="small"
+            >
+              Gesamt
+            </Button>
+          </Box>
+        )}
+
         {/* Live Stats with auto-refresh */}
         <LiveStats
+          installation={selectedId}
           initialData={processed}
           todayPeak={todayPeak}
           autarkieStats={autarkieStats}
         />
 
+        {/* Battery autonomy forecast (house battery) */}
+        {showsHouse && (
+          <Paper
+            elevation={3}
+            sx={{
+              p: { xs: 2, sm: 3, md: 4 },
+              mb: 4,
+              overflow: 'hidden',
+              background:
+                'linear-gradient(135deg, rgba(102, 187, 106, 0.1) 0%, rgba(102, 187, 106, 0.05) 100%)',
+            }}
+          >
+            <Typography variant="h6" sx={{ fontWeight: 600, mb: 1 }}>
+              🔋 Reicht die Batterie? (Prognose 48 h)
+            </Typography>
+            {autonomy ? (
+              <>
+                <Typography variant="body1" sx={{ mb: 2 }}>
+                  {autonomy.reserveAt
+                    ? `Reserve von ${autonomy.reserveSoc} % voraussichtlich erreicht: ${format(new Date(autonomy.reserveAt), "EEEE, dd.MM. 'um' HH:mm", { locale: de })}`
+                    : `Die Batterie bleibt die nächsten 48 h über der Reserve von ${autonomy.reserveSoc} % (Minimum ${autonomy.minSoc.toFixed(0)} % am ${format(new Date(autonomy.minSocAt), "EEEE 'um' HH:mm", { locale: de })})`}
+                  {autonomy.gridConnected && ' – aktuell am Netz, der Netzbezug ist nicht eingerechnet'}
+                </Typography>
+                <Box sx={{ height: 300, width: '100%', overflow: 'hidden' }}>
+                  <AutonomyChart points={autonomy.points} reserveSoc={autonomy.reserveSoc} />
+                </Box>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                  Start {autonomy.startSoc.toFixed(0)} % · Kapazität {autonomy.capacityKwh.toFixed(1)} kWh
+                  {autonomy.capacityEstimated ? ' (geschätzt)' : ''} · Verbrauch: Stundenprofil der letzten 4 Wochen ·
+                  PV: {autonomy.weatherBased ? 'Schönwetterprofil nach Bewölkungsprognose' : 'Durchschnittsprofil (keine Wetterprognose)'}
+                </Typography>
+              </>
+            ) : (
+              <Alert severity="info">
+                Prognose nicht verfügbar: {'error' in autonomyResult ? autonomyResult.error : 'Unbekannter Fehler'}
+              </Alert>
+            )}
+          </Paper>
+        )}
+
         {/* Year Statistics */}
         {autarkieStats && (
           <Box
@@ -464,6 +637,9 @@ export default async function SolarPage() {
           </Paper>
         )}
 
+        {/* Inferred Grid Periods */}
+        {gridInference && <GridPeriodProposals inference={gridInference} />}
+
         {/* Monthly Yield Chart */}
         {monthlyChartData.length > 0 && (
           <Paper
@@ -557,208 +733,212 @@ export default async function SolarPage() {
         </Box>
 
         {/* Electricity Costs & Savings */}
-        <Box sx={{ mt: 6, mb: 4 }}>
-          <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, mb: 3 }}>
-            💰 Stromkosten & Einsparungen
-          </Typography>
-
-          {/* Yearly Cost Breakdown Table */}
-          <Paper
-            elevation={3}
-            sx={{
-              p: { xs: 2, sm: 3, md: 4 },
-              mb: 4,
-              background:
-                'linear-gradient(135deg, rgba(102, 187, 106, 0.1) 0%, rgba(102, 187, 106, 0.05) 100%)',
-            }}
-          >
-            <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
-              📊 Kosten pro Jahr
+        {showsHouse && (
+          <Box sx={{ mt: 6, mb: 4 }}>
+            <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, mb: 3 }}>
+              💰 Stromkosten & Einsparungen
             </Typography>
-            <TableContainer sx={{ maxHeight: 400 }}>
-              <Table stickyHeader size="small">
-                <TableHead>
-                  <TableRow>
-                    <TableCell sx={{ fontWeight: 600 }}>Jahr</TableCell>
-                    <TableCell sx={{ fontWeight: 600 }} align="right">Verbrauch</TableCell>
-                    <TableCell sx={{ fontWeight: 600 }} align="right">Nachbar-Strom</TableCell>
-                    <TableCell sx={{ fontWeight: 600 }} align="right">Eigenverbrauch</TableCell>
-                    <TableCell sx={{ fontWeight: 600 }} align="right">Kosten</TableCell>
-                    <TableCell sx={{ fontWeight: 600 }} align="right">Einsparungen</TableCell>
-                    <TableCell sx={{ fontWeight: 600 }} align="right">Ersparnis %</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {yearlyGridImport
-                    .map((item) => {
-                      const gridImport = item.gridImport || 0;
-                      const consumption = autarkieStats
-                        ? gridImport / (1 - autarkieStats.autarkie / 100)
-                        : gridImport;
-                      const costs = calculateYearlyCosts(consumption, gridImport);
-                      return {
-                        year: item.year,
-                        consumption: `${consumption.toFixed(0)} kWh`,
-                        gridImport: `${gridImport.toFixed(0)} kWh`,
-                        selfConsumption: `${costs.selfConsumption.toFixed(0)} kWh`,
-                        costs: formatCurrency(costs.neighborCost),
-                        savings: formatCurrency(costs.solarSavings),
-                        savingsPercent: `${((costs.solarSavings / costs.costWithoutSolar) * 100).toFixed(0)}%`,
-                      };
-                    })
-                    .reverse()
-                    .map((row, index) => (
-                      <TableRow key={index} hover>
-                        <TableCell>{row.year}</TableCell>
-                        <TableCell align="right">{row.consumption}</TableCell>
-                        <TableCell align="right">{row.gridImport}</TableCell>
-                        <TableCell align="right">{row.selfConsumption}</TableCell>
-                        <TableCell align="right">{row.costs}</TableCell>
-                        <TableCell align="right">{row.savings}</TableCell>
-                        <TableCell align="right">{row.savingsPercent}</TableCell>
-                      </TableRow>
-                    ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-          </Paper>
 
-          {/* Current Year Summary Cards */}
-          {yearlyCosts && (
-            <Box
+            {/* Yearly Cost Breakdown Table */}
+            <Paper
+              elevation={3}
               sx={{
-                display: 'grid',
-                gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', lg: 'repeat(4, 1fr)' },
-                gap: 3,
+                p: { xs: 2, sm: 3, md: 4 },
                 mb: 4,
+                background:
+                  'linear-gradient(135deg, rgba(102, 187, 106, 0.1) 0%, rgba(102, 187, 106, 0.05) 100%)',
               }}
             >
-              <Paper
-                elevation={3}
-                sx={{
-                  p: { xs: 2, sm: 3, md: 4 },
-                  display: 'flex',
-                  flexDirection: { xs: 'column', sm: 'row' },
-                  alignItems: { xs: 'flex-start', sm: 'center' },
-                  gap: { xs: 2, sm: 3 },
-                  background:
-                    'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
-                }}
-              >
-                <PowerIcon sx={{ fontSize: { xs: 40, sm: 48, md: 64 }, color: 'error.main' }} />
-                <Box>
-                  <Typography sx={{ fontWeight: 700, lineHeight: 1, fontSize: { xs: '1.25rem', sm: '1.5rem', md: '2rem' } }}>
-                    {formatCurrency(yearlyCosts.neighborCost)}
-                  </Typography>
-                  <Typography variant="body2" color="text.secondary">
-                    {new Date().getFullYear()}: Kosten Nachbar-Strom
-                  </Typography>
-                  <Typography variant="caption" color="text.secondary">
-                    {autarkieStats?.grid_history_from.toFixed(0)} kWh × {ELECTRICITY_PRICE_RAPPEN} Rp
-                  </Typography>
-                </Box>
-              </Paper>
-              <Paper
-                elevation={3}
-                sx={{
-                  p: { xs: 2, sm: 3, md: 4 },
-                  display: 'flex',
-                  flexDirection: { xs: 'column', sm: 'row' },
-                  alignItems: { xs: 'flex-start', sm: 'center' },
-                  gap: { xs: 2, sm: 3 },
-                  background:
-                    'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
-                }}
-              >
-                <SavingsIcon sx={{ fontSize: { xs: 40, sm: 48, md: 64 }, color: 'success.main' }} />
-                <Box>
-                  <Typography sx={{ fontWeight: 700, lineHeight: 1, fontSize: { xs: '1.25rem', sm: '1.5rem', md: '2rem' } }}>
-                    {formatCurrency(yearlyCosts.solarSavings)}
-                  </Typography>
-                  <Typography variant="body2" color="text.secondary">
-                    {new Date().getFullYear()}: Solar-Einsparungen
-                  </Typography>
-                  <Typography variant="caption" color="text.secondary">
-                    {yearlyCosts.selfConsumption.toFixed(0)} kWh Eigenverbrauch
-                  </Typography>
-                </Box>
-              </Paper>
-              <Paper
-                elevation={3}
-                sx={{
-                  p: { xs: 2, sm: 3, md: 4 },
-                  display: 'flex',
-                  flexDirection: { xs: 'column', sm: 'row' },
-                  alignItems: { xs: 'flex-start', sm: 'center' },
-                  gap: { xs: 2, sm: 3 },
-                  background:
-                    'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
-                }}
-              >
-                <ElectricBoltIcon sx={{ fontSize: { xs: 40, sm: 48, md: 64 }, color: 'warning.main' }} />
-                <Box>
-                  <Typography sx={{ fontWeight: 700, lineHeight: 1, fontSize: { xs: '1.25rem', sm: '1.5rem', md: '2rem' } }}>
-                    {formatCurrency(yearlyCosts.costWithoutSolar)}
-                  </Typography>
-                  <Typography variant="body2" color="text.secondary">
-                    {new Date().getFullYear()}: Kosten ohne Solar
-                  </Typography>
-                  <Typography variant="caption" color="text.secondary">
-                    Hypothetische Gesamtkosten
-                  </Typography>
-                </Box>
-              </Paper>
-              <Paper
-                elevation={3}
+              <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+                📊 Kosten pro Jahr
+              </Typography>
+              <TableContainer sx={{ maxHeight: 400 }}>
+                <Table stickyHeader size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 600 }}>Jahr</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">Verbrauch</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">Nachbar-Strom</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">Eigenverbrauch</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">Kosten</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">Einsparungen</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">Ersparnis %</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">15-Min-Daten</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {yearlyElectricityCosts
+                      .map((item) => ({
+                        year: item.year,
+                        consumption: `${item.consumption.toFixed(0)} kWh`,
+                        gridImport: `${item.gridImport.toFixed(0)} kWh`,
+                        selfConsumption: `${item.selfConsumption.toFixed(0)} kWh`,
+                        costs: formatCurrency(item.neighborCost),
+                        savings: formatCurrency(item.solarSavings),
+                        savingsPercent: item.costWithoutSolar > 0
+                          ? `${((item.solarSavings / item.costWithoutSolar) * 100).toFixed(0)}%`
+                          : '–',
+                        coverage: `${(item.coverage * 100).toFixed(0)}%`,
+                      }))
+                      .reverse()
+                      .map((row, index) => (
+                        <TableRow key={index} hover>
+                          <TableCell>{row.year}</TableCell>
+                          <TableCell align="right">{row.consumption}</TableCell>
+                          <TableCell align="right">{row.gridImport}</TableCell>
+                          <TableCell align="right">{row.selfConsumption}</TableCell>
+                          <TableCell align="right">{row.costs}</TableCell>
+                          <TableCell align="right">{row.savings}</TableCell>
+                          <TableCell align="right">{row.savingsPercent}</TableCell>
+                          <TableCell align="right">{row.coverage}</TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Paper>
+
+            {/* Current Year Summary Cards */}
+            {yearlyCosts && (
+              <Box
                 sx={{
-                  p: { xs: 2, sm: 3, md: 4 },
-                  display: 'flex',
-                  flexDirection: { xs: 'column', sm: 'row' },
-                  alignItems: { xs: 'flex-start', sm: 'center' },
-                  gap: { xs: 2, sm: 3 },
-                  background:
-                    'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
+                  display: 'grid',
+                  gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, 1fr)', lg: 'repeat(4, 1fr)' },
+                  gap: 3,
+                  mb: 4,
                 }}
               >
-                <SavingsIcon sx={{ fontSize: { xs: 40, sm: 48, md: 64 }, color: 'success.main' }} />
+                <Paper
+                  elevation={3}
+                  sx={{
+                    p: { xs: 2, sm: 3, md: 4 },
+                    display: 'flex',
+                    flexDirection: { xs: 'column', sm: 'row' },
+                    alignItems: { xs: 'flex-start', sm: 'center' },
+                    gap: { xs: 2, sm: 3 },
+                    background:
+                      'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
+                  }}
+                >
+                  <PowerIcon sx={{ fontSize: { xs: 40, sm: 48, md: 64 }, color: 'error.main' }} />
+                  <Box>
+                    <Typography sx={{ fontWeight: 700, lineHeight: 1, fontSize: { xs: '1.25rem', sm: '1.5rem', md: '2rem' } }}>
+                      {formatCurrency(yearlyCosts.neighborCost)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {new Date().getFullYear()}: Kosten Nachbar-Strom
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      HT {yearlyCosts.highTariffKwh.toFixed(0)} kWh · NT {yearlyCosts.lowTariffKwh.toFixed(0)} kWh
+                    </Typography>
+                  </Box>
+                </Paper>
+                <Paper
+                  elevation={3}
+                  sx={{
+                    p: { xs: 2, sm: 3, md: 4 },
+                    display: 'flex',
+                    flexDirection: { xs: 'column', sm: 'row' },
+                    alignItems: { xs: 'flex-start', sm: 'center' },
+                    gap: { xs: 2, sm: 3 },
+                    background:
+                      'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
+                  }}
+                >
+                  <SavingsIcon sx={{ fontSize: { xs: 40, sm: 48, md: 64 }, color: 'success.main' }} />
+                  <Box>
+                    <Typography sx={{ fontWeight: 700, lineHeight: 1, fontSize: { xs: '1.25rem', sm: '1.5rem', md: '2rem' } }}>
+                      {formatCurrency(yearlyCosts.solarSavings)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {new Date().getFullYear()}: Solar-Einsparungen
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {yearlyCosts.selfConsumption.toFixed(0)} kWh Eigenverbrauch
+                    </Typography>
+                  </Box>
+                </Paper>
+                <Paper
+                  elevation={3}
+                  sx={{
+                    p: { xs: 2, sm: 3, md: 4 },
+                    display: 'flex',
+                    flexDirection: { xs: 'column', sm: 'row' },
+                    alignItems: { xs: 'flex-start', sm: 'center' },
+                    gap: { xs: 2, sm: 3 },
+                    background:
+                      'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
+                  }}
+                >
+                  <ElectricBoltIcon sx={{ fontSize: { xs: 40, sm: 48, md: 64 }, color: 'warning.main' }} />
+                  <Box>
+                    <Typography sx={{ fontWeight: 700, lineHeight: 1, fontSize: { xs: '1.25rem', sm: '1.5rem', md: '2rem' } }}>
+                      {formatCurrency(yearlyCosts.costWithoutSolar)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {new Date().getFullYear()}: Kosten ohne Solar
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Hypothetische Gesamtkosten
+                    </Typography>
+                  </Box>
+                </Paper>
+                <Paper
+                  elevation={3}
+                  sx={{
+                    p: { xs: 2, sm: 3, md: 4 },
+                    display: 'flex',
+                    flexDirection: { xs: 'column', sm: 'row' },
+                    alignItems: { xs: 'flex-start', sm: 'center' },
+                    gap: { xs: 2, sm: 3 },
+                    background:
+                      'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
+                  }}
+                >
+                  <SavingsIcon sx={{ fontSize: { xs: 40, sm: 48, md: 64 }, color: 'success.main' }} />
+                  <Box>
+                    <Typography sx={{ fontWeight: 700, lineHeight: 1, fontSize: { xs: '1.25rem', sm: '1.5rem', md: '2rem' } }}>
+                      {formatCurrency(yearlyCosts.solarSavings)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {new Date().getFullYear()}: Total gespart
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {yearlyCosts.costWithoutSolar > 0
+                        ? ((yearlyCosts.solarSavings / yearlyCosts.costWithoutSolar) * 100).toFixed(0)
+                        : 0}% Ersparnis
+                    </Typography>
+                  </Box>
+                </Paper>
+              </Box>
+            )}
+
+            {/* Info Alert */}
+            <Alert severity="info" icon={<InfoIcon />}>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
                 <Box>
-                  <Typography sx={{ fontWeight: 700, lineHeight: 1, fontSize: { xs: '1.25rem', sm: '1.5rem', md: '2rem' } }}>
-                    {formatCurrency(yearlyCosts.solarSavings)}
-                  </Typography>
-                  <Typography variant="body2" color="text.secondary">
-                    {new Date().getFullYear()}: Total gespart
+                  <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                    Strom vom Nachbarn: HT {toRappen(currentTariff.highRate)} Rp/kWh · NT{' '}
+                    {toRappen(currentTariff.lowRate)} Rp/kWh
+                    {currentTariff.feedInRate > 0 && ` · Einspeisung ${toRappen(currentTariff.feedInRate)} Rp/kWh`}
                   </Typography>
                   <Typography variant="caption" color="text.secondary">
-                    {((yearlyCosts.solarSavings / yearlyCosts.costWithoutSolar) * 100).toFixed(0)}% Ersparnis
+                    Tarife aus den Einstellungen, pro 15 Minuten verrechnet (nicht am öffentlichen Netz angeschlossen)
                   </Typography>
                 </Box>
-              </Paper>
-            </Box>
-          )}
-
-          {/* Info Alert */}
-          <Alert severity="info" icon={<InfoIcon />}>
-            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
-              <Box>
-                <Typography variant="body2" sx={{ fontWeight: 600 }}>
-                  Strom vom Nachbarn: {ELECTRICITY_PRICE_RAPPEN} Rp/kWh
-                </Typography>
-                <Typography variant="caption" color="text.secondary">
-                  Basierend auf Schweizer Durchschnittspreis (nicht am öffentlichen Netz angeschlossen)
-                </Typography>
+                <MuiLink
+                  href={ELECTRICITY_PRICE_SOURCE}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+                >
+                  <Typography variant="body2">Referenz: ElCom</Typography>
+                  <OpenInNewIcon sx={{ fontSize: 16 }} />
+                </MuiLink>
               </Box>
-              <MuiLink
-                href={ELECTRICITY_PRICE_SOURCE}
-                target="_blank"
-                rel="noopener noreferrer"
-                sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
-              >
-                <Typography variant="body2">Referenz: ElCom</Typography>
-                <OpenInNewIcon sx={{ fontSize: 16 }} />
-              </MuiLink>
-            </Box>
-          </Alert>
-        </Box>
+            </Alert>
+          </Box>
+        )}
     </Box>
   );
 }
@@ -1,6 +1,6 @@
 /**
  * Water Consumption Page
- * Displays water usage statistics and comparison to Swiss average
+ * Displays water usage derived from meter readings and comparison to Swiss average
  */
 
 import {
@@ -18,6 +18,9 @@ import {
 } from '@mui/material';
 import { YearlyConsumptionChart } from '@/components/water/yearly-consumption-chart';
 import { PerCapitaComparison } from '@/components/water/per-capita-comparison';
+import { MonthlyConsumptionChart } from '@/components/water/monthly-consumption-chart';
+import { WaterReadingForm } from '@/components/water/water-reading-form';
+import { WaterReadingList } from '@/components/water/water-reading-list';
 import WaterDropIcon from '@mui/icons-material/WaterDrop';
 import TrendingDownIcon from '@mui/icons-material/TrendingDown';
 import SavingsIcon from '@mui/icons-material/Savings';
@@ -25,39 +28,82 @@ import EmojiEventsIcon from '@mui/icons-material/EmojiEvents';
 import InfoIcon from '@mui/icons-material/Info';
 import OpenInNewIcon from '@mui/icons-material/OpenInNew';
 import {
-  yearlyConsumption,
   getCurrentYearStats,
+  getComparableConsumption,
+  getComparisonToAverage,
+  getDailyConsumptionPerPerson,
+  getHouseholdMembersForYear,
   SWISS_AVERAGE_DAILY,
   SOURCE_INFO,
 } from '@/lib/water-data';
+import { getWaterData, WaterData } from '@/lib/water';
+import { getSettings } from '@/lib/settings';
 
-export const revalidate = 86400; // Revalidate once per day
+export const revalidate = 86400; // Revalidate once per day, mutations revalidate immediately
 
-export default function WaterPage() {
-  const currentStats = getCurrentYearStats();
+// Average members can be fractional when occupants changed during the year
+function formatMembers(members: number): string {
+  return Number.isInteger(members) ? String(members) : members.toFixed(1);
+}
+
+async function loadWaterData(): Promise<WaterData | { error: string }> {
+  try {
+    return await getWaterData();
+  } catch (error) {
+    console.error('[Water Page] Error fetching readings:', error);
+    return { error: error instanceof Error ? error.message : 'Unbekannter Fehler' };
+  }
+}
+
+export default async function WaterPage() {
+  const [data, settings] = await Promise.all([loadWaterData(), getSettings()]);
+
+  if ('error' in data) {
+    return (
+      <Alert severity="error" sx={{ mb: 3 }}>
+        {data.error}
+      </Alert>
+    );
+  }
+
+  const { readings, yearly: yearlyConsumption, monthly } = data;
+  const currentStats = getCurrentYearStats(yearlyConsumption, settings);
 
   if (!currentStats) {
     return (
-      <Box sx={{ textAlign: 'center', py: 8 }}>
-        <Typography variant="h4" gutterBottom>
-          ⚠️ Keine vollständigen Daten verfügbar
-        </Typography>
+      <Box>
+        <WaterReadingForm />
+        <Alert severity="info" sx={{ mb: 4 }}>
+          Noch nicht genug Zählerstände für eine Auswertung. Es braucht mindestens zwei Ablesungen.
+        </Alert>
+        <Paper elevation={3} sx={{ p: { xs: 2, sm: 3, md: 4 } }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+            🔢 Zählerstände
+          </Typography>
+          <WaterReadingList readings={readings} />
+        </Paper>
       </Box>
     );
   }
 
   const completeYears = yearlyConsumption.filter((y) => y.isComplete);
+  const [previousYear, lastYear] = completeYears.slice(-2);
 
   // Prepare table data
   const tableRows = yearlyConsumption.map((item) => {
-    const dailyPerPerson = item.isComplete ? (item.consumption * 1000) / 365 / 2 : null;
-    const comparison = dailyPerPerson ? ((dailyPerPerson - SWISS_AVERAGE_DAILY) / SWISS_AVERAGE_DAILY) * 100 : null;
+    const comparable = getComparableConsumption(item);
+    const dailyPerPerson = comparable !== null
+      ? getDailyConsumptionPerPerson(comparable, getHouseholdMembersForYear(item, settings.householdMembers))
+      : null;
+    const comparison = dailyPerPerson !== null ? getComparisonToAverage(dailyPerPerson) : null;
 
     return {
       year: item.year,
-      total: `${item.consumption} m³`,
-      perPerson: dailyPerPerson ? `${dailyPerPerson.toFixed(1)} L/Tag` : '-',
-      comparison: comparison
+      total: item.extrapolated !== undefined
+        ? `${item.consumption} m³ (→ ${item.extrapolated} m³)`
+        : `${item.consumption} m³`,
+      perPerson: dailyPerPerson !== null ? `${dailyPerPerson.toFixed(1)} L/Tag` : '-',
+      comparison: comparison !== null
         ? `${comparison.toFixed(1)}% ${comparison < 0 ? '🌟' : ''}`
         : '-',
       status: item.isComplete ? '✓ Vollständig' : `⚠ ${item.note}`,
@@ -66,6 +112,8 @@ export default function WaterPage() {
 
   return (
     <Box sx={{ overflowX: 'hidden' }}>
+        <WaterReadingForm />
+
         {/* Key Statistics */}
         <Box
           sx={{
@@ -96,7 +144,7 @@ export default function WaterPage() {
                 </Typography>
               </Typography>
               <Typography variant="body1" color="text.secondary">
-                Verbrauch 2024
+                {currentStats.isExtrapolated ? `Hochrechnung ${currentStats.year}` : `Verbrauch ${currentStats.year}`}
               </Typography>
             </Box>
           </Paper>
@@ -249,7 +297,25 @@ export default function WaterPage() {
             📊 Jährlicher Wasserverbrauch
           </Typography>
           <Box sx={{ height: 400, width: '100%' }}>
-            <YearlyConsumptionChart data={yearlyConsumption} />
+            <YearlyConsumptionChart data={yearlyConsumption} householdMembers={currentStats.householdMembers} />
+          </Box>
+        </Paper>
+
+        {/* Monthly Consumption Chart */}
+        <Paper
+          elevation={3}
+          sx={{
+            p: { xs: 2, sm: 3, md: 4 },
+            mb: 4,
+            background:
+              'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
+          }}
+        >
+          <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+            📆 Monatlicher Wasserverbrauch
+          </Typography>
+          <Box sx={{ height: 320, width: '100%' }}>
+            <MonthlyConsumptionChart data={monthly} />
           </Box>
         </Paper>
 
@@ -306,19 +372,24 @@ export default function WaterPage() {
               </li>
               <li>
                 <Typography variant="body2">
-                  <strong>Jährliche Einsparung:</strong> {currentStats.savingsM3.toFixed(1)} m³ für Ihren 2-Personen-Haushalt
+                  <strong>Jährliche Einsparung:</strong> {currentStats.savingsM3.toFixed(1)} m³ für Ihren {formatMembers(currentStats.householdMembers)}-Personen-Haushalt
                 </Typography>
               </li>
               <li>
                 <Typography variant="body2">
-                  <strong>Kostenersparnis:</strong> Rund {currentStats.costSavings.toFixed(0)} CHF pro Jahr (bei 2 CHF/m³)
-                </Typography>
-              </li>
-              <li>
-                <Typography variant="body2">
-                  <strong>Trend 2023-2024:</strong> Stabil bei ~24-25 m³ pro Jahr
+                  <strong>Kostenersparnis:</strong> Rund {currentStats.costSavings.toFixed(0)} CHF pro Jahr (bei {currentStats.pricePerM3.toFixed(2)} CHF/m³)
                 </Typography>
               </li>
+              {previousYear && lastYear && (
+                <li>
+                  <Typography variant="body2">
+                    <strong>Trend {previousYear.year}-{lastYear.year}:</strong>{' '}
+                    {previousYear.consumption} → {lastYear.consumption} m³ pro Jahr
+                    {' '}({lastYear.consumption - previousYear.consumption >= 0 ? '+' : ''}
+                    {(((lastYear.consumption - previousYear.consumption) / previousYear.consumption) * 100).toFixed(1)}%)
+                  </Typography>
+                </li>
+              )}
             </Box>
           </Paper>
 
@@ -395,6 +466,22 @@ export default function WaterPage() {
           </TableContainer>
         </Paper>
 
+        {/* Meter Readings */}
+        <Paper
+          elevation={3}
+          sx={{
+            p: { xs: 2, sm: 3, md: 4 },
+            mb: 4,
+            background:
+              'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
+          }}
+        >
+          <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+            🔢 Zählerstände
+          </Typography>
+          <WaterReadingList readings={readings} />
+        </Paper>
+
         {/* Source Information */}
         <Alert severity="info" icon={<InfoIcon />} sx={{ mb: 2 }}>
           <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
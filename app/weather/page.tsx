@@ -1,6 +1,6 @@
 /**
  * Weather Page
- * Displays current weather and forecast for Muhen
+ * Displays current weather and forecast for the configured location
  */
 
 import { Typography, Box, Card, CardContent } from '@mui/material';
@@ -0,0 +1,132 @@
+/**
+ * Alert History List Component
+ * Shows triggered alerts, open ones can be acknowledged (authenticated only)
+ */
+
+'use client';
+
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import {
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Tooltip,
+} from '@mui/material';
+import DoneIcon from '@mui/icons-material/Done';
+import { AlertChannelType, AlertMetric, CHANNEL_LABELS } from '@/lib/alert-config';
+
+export interface AlertHistoryEntry {
+  _id: string;
+  ruleName: string;
+  metric: AlertMetric;
+  deviceId?: string;
+  value: number;
+  threshold: number;
+  message: string;
+  triggeredAt: string;
+  deliveredChannels: AlertChannelType[];
+  failedChannels: AlertChannelType[];
+  acknowledgedAt?: string | null;
+}
+
+interface AlertHistoryListProps {
+  alerts: AlertHistoryEntry[];
+  onAlertUpdated: () => void;
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('de-CH', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function AlertHistoryList({ alerts, onAlertUpdated }: AlertHistoryListProps) {
+  const { data: session } = useSession();
+  const isAuthenticated = !!session;
+
+  const handleAcknowledge = async (alert: AlertHistoryEntry) => {
+    try {
+      const response = await fetch(`/api/alerts/${alert._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ acknowledged: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Fehler beim Quittieren');
+      }
+
+      onAlertUpdated();
+    } catch (error) {
+      console.error('Error acknowledging alert:', error);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Alarm-Historie
+      </Typography>
+
+      {alerts.length === 0 ? (
+        <Typography color="text.secondary">Keine Alarme ausgelöst</Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Zeitpunkt</TableCell>
+                <TableCell>Regel</TableCell>
+                <TableCell>Meldung</TableCell>
+                <TableCell>Kanäle</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {alerts.map((alert) => (
+                <TableRow key={alert._id}>
+                  <TableCell>{formatDateTime(alert.triggeredAt)}</TableCell>
+                  <TableCell>{alert.ruleName}</TableCell>
+                  <TableCell>{alert.message}</TableCell>
+                  <TableCell>
+                    {alert.deliveredChannels.map((c) => (
+                      <Chip key={c} label={CHANNEL_LABELS[c]} size="small" color="success" sx={{ mr: 0.5 }} />
+                    ))}
+                    {alert.failedChannels.map((c) => (
+                      <Chip key={c} label={CHANNEL_LABELS[c]} size="small" color="error" sx={{ mr: 0.5 }} />
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    {alert.acknowledgedAt ? (
+                      <Chip label="Quittiert" size="small" variant="outlined" />
+                    ) : isAuthenticated ? (
+                      <Tooltip title="Quittieren">
+                        <IconButton size="small" color="primary" onClick={() => handleAcknowledge(alert)}>
+                          <DoneIcon />
+                        </IconButton>
+                      </Tooltip>
+                    ) : (
+                      <Chip label="Offen" size="small" color="warning" />
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,259 @@
+/**
+ * Alert Rule Form Component
+ * Form to add a new alert rule (only visible when authenticated)
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  MenuItem,
+  FormGroup,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import {
+  ALERT_CHANNEL_TYPES,
+  ALERT_COMPARISONS,
+  ALERT_METRICS,
+  AlertChannelType,
+  AlertComparison,
+  AlertMetric,
+  CHANNEL_LABELS,
+  COMPARISON_SYMBOLS,
+  METRIC_LABELS,
+  METRIC_UNITS,
+  OVEN_STATE_LEVELS,
+  SENSOR_METRICS,
+} from '@/lib/alert-config';
+import type { ShellyRoom } from '@/lib/shelly-config';
+
+interface AlertRuleFormProps {
+  onRuleAdded: () => void;
+  configuredChannels: AlertChannelType[];
+  rooms: ShellyRoom[];
+}
+
+export function AlertRuleForm({ onRuleAdded, configuredChannels, rooms }: AlertRuleFormProps) {
+  const { data: session } = useSession();
+  const [name, setName] = useState('');
+  const [metric, setMetric] = useState<AlertMetric>('humidity');
+  const [deviceId, setDeviceId] = useState('');
+  const [comparison, setComparison] = useState<AlertComparison>('gt');
+  const [threshold, setThreshold] = useState('70');
+  const [durationMinutes, setDurationMinutes] = useState('0');
+  const [cooldownMinutes, setCooldownMinutes] = useState('60');
+  const [channels, setChannels] = useState<AlertChannelType[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Don't render if not authenticated
+  if (!session) {
+    return null;
+  }
+
+  const isSensorMetric = SENSOR_METRICS.includes(metric);
+
+  const handleChannelToggle = (channel: AlertChannelType) => {
+    setChannels((prev) =>
+      prev.includes(channel) ? prev.filter((c) => c !== channel) : [...prev, channel]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/alerts/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          metric,
+          deviceId: isSensorMetric ? deviceId : undefined,
+          comparison,
+          threshold: parseFloat(threshold),
+          durationMinutes: parseInt(durationMinutes, 10) || 0,
+          cooldownMinutes: parseInt(cooldownMinutes, 10) || 0,
+          channels,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Fehler beim Erstellen');
+      }
+
+      setName('');
+      onRuleAdded();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Neue Alarmregel
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box component="form" onSubmit={handleSubmit}>
+        <TextField
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          fullWidth
+          required
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          select
+          label="Messgrösse"
+          value={metric}
+          onChange={(e) => {
+            const newMetric = e.target.value as AlertMetric;
+            setMetric(newMetric);
+            if (newMetric === 'oven_state') {
+              setComparison('eq');
+              setThreshold(String(OVEN_STATE_LEVELS.hot));
+            }
+          }}
+          fullWidth
+          sx={{ mb: 2 }}
+        >
+          {ALERT_METRICS.map((m) => (
+            <MenuItem key={m} value={m}>
+              {METRIC_LABELS[m]}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {isSensorMetric && (
+          <TextField
+            select
+            label="Sensor"
+            value={deviceId}
+            onChange={(e) => setDeviceId(e.target.value)}
+            fullWidth
+            sx={{ mb: 2 }}
+          >
+            <MenuItem value="">Alle Sensoren</MenuItem>
+            {rooms.filter((room) => room.deviceId !== '').map((room) => (
+              <MenuItem key={room.deviceId} value={room.deviceId}>
+                {room.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <TextField
+            select
+            label="Vergleich"
+            value={comparison}
+            onChange={(e) => setComparison(e.target.value as AlertComparison)}
+            sx={{ minWidth: 100 }}
+          >
+            {ALERT_COMPARISONS.map((c) => (
+              <MenuItem key={c} value={c}>
+                {COMPARISON_SYMBOLS[c]}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          {metric === 'oven_state' ? (
+            <TextField
+              select
+              label="Zustand"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              fullWidth
+            >
+              {Object.entries(OVEN_STATE_LEVELS).map(([state, level]) => (
+                <MenuItem key={state} value={String(level)}>
+                  {state}
+                </MenuItem>
+              ))}
+            </TextField>
+          ) : (
+            <TextField
+              label={`Schwellwert (${METRIC_UNITS[metric]})`}
+              type="number"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              fullWidth
+              required
+            />
+          )}
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <TextField
+            label="Dauer (min)"
+            type="number"
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(e.target.value)}
+            fullWidth
+            helperText="Bedingung muss so lange erfüllt sein"
+          />
+          <TextField
+            label="Cooldown (min)"
+            type="number"
+            value={cooldownMinutes}
+            onChange={(e) => setCooldownMinutes(e.target.value)}
+            fullWidth
+            helperText="Mindestabstand zwischen Alarmen"
+          />
+        </Box>
+
+        <Typography variant="body2" color="text.secondary">
+          Kanäle (keine Auswahl = alle konfigurierten)
+        </Typography>
+        <FormGroup row sx={{ mb: 2 }}>
+          {ALERT_CHANNEL_TYPES.map((channel) => (
+            <FormControlLabel
+              key={channel}
+              control={
+                <Checkbox
+                  checked={channels.includes(channel)}
+                  onChange={() => handleChannelToggle(channel)}
+                  disabled={!configuredChannels.includes(channel)}
+                />
+              }
+              label={CHANNEL_LABELS[channel]}
+            />
+          ))}
+        </FormGroup>
+
+        <Button
+          type="submit"
+          variant="contained"
+          startIcon={<AddIcon />}
+          disabled={loading}
+          fullWidth
+        >
+          {loading ? 'Wird erstellt...' : 'Regel erstellen'}
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
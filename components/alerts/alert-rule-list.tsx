@@ -0,0 +1,194 @@
+/**
+ * Alert Rule List Component
+ * Shows all alert rules with enable toggle and delete (authenticated only)
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import {
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Switch,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import {
+  AlertChannelType,
+  AlertComparison,
+  AlertMetric,
+  CHANNEL_LABELS,
+  COMPARISON_SYMBOLS,
+  METRIC_LABELS,
+  formatMetricValue,
+} from '@/lib/alert-config';
+import { findRoomByDeviceId, ShellyRoom } from '@/lib/shelly-config';
+
+export interface AlertRule {
+  _id: string;
+  name: string;
+  metric: AlertMetric;
+  deviceId?: string;
+  comparison: AlertComparison;
+  threshold: number;
+  durationMinutes: number;
+  cooldownMinutes: number;
+  channels: AlertChannelType[];
+  enabled: boolean;
+  lastTriggeredAt?: string;
+}
+
+interface AlertRuleListProps {
+  rules: AlertRule[];
+  rooms: ShellyRoom[];
+  onRuleUpdated: () => void;
+}
+
+export function AlertRuleList({ rules, rooms, onRuleUpdated }: AlertRuleListProps) {
+  const { data: session } = useSession();
+  const isAuthenticated = !!session;
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<AlertRule | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleToggleRule = async (rule: AlertRule) => {
+    try {
+      const response = await fetch(`/api/alerts/rules/${rule._id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...rule, enabled: !rule.enabled }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Fehler beim Aktualisieren');
+      }
+
+      onRuleUpdated();
+    } catch (error) {
+      console.error('Error toggling rule:', error);
+    }
+  };
+
+  const handleDeleteRule = async () => {
+    if (!selectedRule) return;
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/alerts/rules/${selectedRule._id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Fehler beim Löschen');
+      }
+
+      setDeleteDialogOpen(false);
+      setSelectedRule(null);
+      onRuleUpdated();
+    } catch (error) {
+      console.error('Error deleting rule:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        Alarmregeln
+      </Typography>
+
+      {rules.length === 0 ? (
+        <Typography color="text.secondary">Keine Regeln vorhanden</Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Bedingung</TableCell>
+                <TableCell>Dauer / Cooldown</TableCell>
+                <TableCell>Kanäle</TableCell>
+                <TableCell>Aktiv</TableCell>
+                {isAuthenticated && <TableCell align="right">Aktionen</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rules.map((rule) => {
+                const room = rule.deviceId ? findRoomByDeviceId(rooms, rule.deviceId) : undefined;
+                return (
+                  <TableRow key={rule._id}>
+                    <TableCell>{rule.name}</TableCell>
+                    <TableCell>
+                      {room ? `${room.name}: ` : ''}
+                      {METRIC_LABELS[rule.metric]} {COMPARISON_SYMBOLS[rule.comparison]}{' '}
+                      {formatMetricValue(rule.metric, rule.threshold)}
+                    </TableCell>
+                    <TableCell>
+                      {rule.durationMinutes} / {rule.cooldownMinutes} min
+                    </TableCell>
+                    <TableCell>
+                      {rule.channels.length > 0
+                        ? rule.channels.map((c) => CHANNEL_LABELS[c]).join(', ')
+                        : 'Alle'}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        size="small"
+                        checked={rule.enabled}
+                        disabled={!isAuthenticated}
+                        onChange={() => handleToggleRule(rule)}
+                      />
+                    </TableCell>
+                    {isAuthenticated && (
+                      <TableCell align="right">
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => {
+                            setSelectedRule(rule);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <DeleteIcon />
+                        </IconButton>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Delete Dialog */}
+      <Dialog open={deleteDialogOpen} onClose={() => setDeleteDialogOpen(false)}>
+        <DialogTitle>Regel löschen?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Möchtest du die Regel &quot;{selectedRule?.name}&quot; wirklich löschen?
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteDialogOpen(false)}>Abbrechen</Button>
+          <Button onClick={handleDeleteRule} color="error" variant="contained" disabled={loading}>
+            Löschen
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+}
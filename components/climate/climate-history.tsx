@@ -3,6 +3,8 @@
 /**
  * Climate History Component
  * Displays historical temperature and humidity charts with period selector
+ * and a custom date range with selectable resolution, plus dew point, absolute
+ * humidity and the daily mould risk
  */
 
 import { useState, useEffect } from 'react';
@@ -14,16 +16,19 @@ import {
   ToggleButtonGroup,
   CircularProgress,
   Alert,
+  TextField,
+  MenuItem,
 } from '@mui/material';
 import { LineChart } from '@mui/x-charts/LineChart';
+import { BarChart } from '@mui/x-charts/BarChart';
+import { getAbsoluteHumidity, getDewPoint, MOULD_RH_CRITICAL, MOULD_RH_WARNING } from '@/lib/climate-metrics';
+import type { ShellyResolution } from '@/lib/shelly';
+import type { DailyClimateMetrics } from '@/lib/mould-risk';
 
 interface HistoryReading {
-  timestamp?: string;
-  date?: string;
-  temperature?: number;
-  humidity?: number;
-  avgTemp?: number;
-  avgHumidity?: number;
+  timestamp: string;
+  temperature: number;
+  humidity: number;
   minTemp?: number;
   maxTemp?: number;
 }
@@ -33,26 +38,94 @@ interface ClimateHistoryProps {
   roomName: string;
 }
 
-type Period = 'day' | 'week' | 'month' | 'year';
+type Period = 'day' | 'week' | 'month' | 'year' | 'custom';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Preset periods: days back from now and the resolution they are shown in
+const PRESETS: Record<Exclude<Period, 'custom'>, { days: number; resolution: ShellyResolution }> = {
+  day: { days: 1, resolution: 'raw' },
+  week: { days: 7, resolution: 'raw' },
+  month: { days: 30, resolution: 'day' },
+  year: { days: 365, resolution: 'month' },
+};
+
+const RESOLUTION_LABELS: Record<ShellyResolution | 'auto', string> = {
+  auto: 'Automatisch',
+  raw: 'Alle Messwerte',
+  '15min': '15 Minuten',
+  hour: 'Stunde',
+  day: 'Tag',
+  month: 'Monat',
+};
+
+function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatDateInput(value: string): string {
+  const [year, month, day] = value.split('-');
+  return `${day}.${month}.${year}`;
+}
 
 export function ClimateHistory({ deviceId, roomName }: ClimateHistoryProps) {
   const [period, setPeriod] = useState<Period>('day');
+  const [customFrom, setCustomFrom] = useState(() => toDateInput(new Date(Date.now() - 7 * DAY_MS)));
+  const [customTo, setCustomTo] = useState(() => toDateInput(new Date()));
+  const [customResolution, setCustomResolution] = useState<ShellyResolution | 'auto'>('auto');
   const [data, setData] = useState<HistoryReading[]>([]);
+  const [daily, setDaily] = useState<DailyClimateMetrics[]>([]);
+  const [resolution, setResolution] = useState<ShellyResolution>('raw');
+  const [rangeDays, setRangeDays] = useState(1);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    let from: Date;
+    let to: Date;
+    let requested: ShellyResolution | 'auto';
+
+    if (period === 'custom') {
+      // Whole local days, the end date is inclusive
+      from = new Date(`${customFrom}T00:00:00`);
+      to = new Date(`${customTo}T00:00:00`);
+      to.setDate(to.getDate() + 1);
+      requested = customResolution;
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        setError('Ungültiger Zeitraum: Das Startdatum muss vor dem Enddatum liegen');
+        setLoading(false);
+        return;
+      }
+    } else {
+      to = new Date();
+      from = new Date(to.getTime() - PRESETS[period].days * DAY_MS);
+      requested = PRESETS[period].resolution;
+    }
+
     async function fetchHistory() {
       setLoading(true);
       setError(null);
 
       try {
-        const response = await fetch(`/api/shelly/history?deviceId=${deviceId}&period=${period}`);
+        const params = new URLSearchParams({ deviceId, from: from.toISOString(), to: to.toISOString() });
+        if (requested !== 'auto') params.set('resolution', requested);
+
+        const response = await fetch(`/api/shelly/history?${params}`);
+        const result = await response.json();
         if (!response.ok) {
-          throw new Error('Fehler beim Laden der Verlaufsdaten');
+          throw new Error(
+            response.status === 400 && result.error
+              ? `Ungültige Abfrage: ${result.error}`
+              : 'Fehler beim Laden der Verlaufsdaten'
+          );
         }
-        const result = await response.json();
         setData(result.readings || []);
+        setDaily(result.daily || []);
+        setResolution(result.resolution);
+        setRangeDays((to.getTime() - from.getTime()) / DAY_MS);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
       } finally {
@@ -61,7 +134,7 @@ export function ClimateHistory({ deviceId, roomName }: ClimateHistoryProps) {
     }
 
     fetchHistory();
-  }, [deviceId, period]);
+  }, [deviceId, period, customFrom, customTo, customResolution]);
 
   const handlePeriodChange = (_: React.MouseEvent<HTMLElement>, newPeriod: Period | null) => {
     if (newPeriod) {
@@ -71,69 +144,73 @@ export function ClimateHistory({ deviceId, roomName }: ClimateHistoryProps) {
 
   // Format data for charts
   const chartData = data.map((reading) => {
+    const date = new Date(reading.timestamp);
     let label: string;
-    if (reading.timestamp) {
-      const date = new Date(reading.timestamp);
-      if (period === 'day') {
-        // Nur Uhrzeit für Tagesansicht
-        label = date.toLocaleTimeString('de-CH', { hour: '2-digit', minute: '2-digit' });
-      } else if (period === 'week') {
-        // Format: "05.12 12:02"
-        const dateStr = date.toLocaleDateString('de-CH', { day: '2-digit', month: '2-digit' });
-        const timeStr = date.toLocaleTimeString('de-CH', { hour: '2-digit', minute: '2-digit' });
-        label = `${dateStr} ${timeStr}`;
-      } else {
-        label = date.toLocaleDateString('de-CH', { day: '2-digit', month: '2-digit' });
-      }
-    } else if (reading.date) {
-      // Aggregated data
-      if (period === 'year') {
-        // Format: "2025-01" -> "Jan 25"
-        const [year, month] = reading.date.split('-');
-        const monthNames = ['Jan', 'Feb', 'Mär', 'Apr', 'Mai', 'Jun', 'Jul', 'Aug', 'Sep', 'Okt', 'Nov', 'Dez'];
-        label = `${monthNames[parseInt(month) - 1]} ${year.slice(2)}`;
-      } else {
-        // Format: "2025-12-05" -> "05.12"
-        const [, month, day] = reading.date.split('-');
-        label = `${day}.${month}`;
-      }
+    if (resolution === 'month') {
+      // Format: "Jan 25"
+      const monthNames = ['Jan', 'Feb', 'Mär', 'Apr', 'Mai', 'Jun', 'Jul', 'Aug', 'Sep', 'Okt', 'Nov', 'Dez'];
+      label = `${monthNames[date.getMonth()]} ${String(date.getFullYear()).slice(2)}`;
+    } else if (resolution === 'day') {
+      // Format: "05.12" or "05.12.25" for ranges over a year
+      label = date.toLocaleDateString('de-CH', {
+        day: '2-digit',
+        month: '2-digit',
+        ...(rangeDays > 365 ? { year: '2-digit' } : {}),
+      });
+    } else if (rangeDays <= 1) {
+      // Nur Uhrzeit für Tagesansicht
+      label = date.toLocaleTimeString('de-CH', { hour: '2-digit', minute: '2-digit' });
     } else {
-      label = '';
+      // Format: "05.12 12:02"
+      const dateStr = date.toLocaleDateString('de-CH', { day: '2-digit', month: '2-digit' });
+      const timeStr = date.toLocaleTimeString('de-CH', { hour: '2-digit', minute: '2-digit' });
+      label = `${dateStr} ${timeStr}`;
     }
 
     return {
       label,
-      temperature: reading.temperature ?? reading.avgTemp ?? 0,
-      humidity: reading.humidity ?? reading.avgHumidity ?? 0,
-      minTemp: reading.minTemp,
-      maxTemp: reading.maxTemp,
+      temperature: reading.temperature,
+      humidity: reading.humidity,
+      minTemp: reading.minTemp ?? null,
+      maxTemp: reading.maxTemp ?? null,
+      dewPoint: getDewPoint(reading.temperature, reading.humidity),
+      absoluteHumidity: getAbsoluteHumidity(reading.temperature, reading.humidity),
+    };
+  });
+
+  const aggregated = resolution !== 'raw';
+
+  // Mould risk only exists for indoor rooms (hours at the wall are counted)
+  const mouldData = daily.map((day) => {
+    const [, month, dayOfMonth] = day.date.split('-');
+    return {
+      label: `${dayOfMonth}.${month}`,
+      hoursAbove70: Number((day.hoursAbove70 - day.hoursAbove80).toFixed(1)),
+      hoursAbove80: day.hoursAbove80,
     };
   });
+  const hasWallData = daily.some((day) => day.maxWallHumidity > 0);
 
   const periodLabels: Record<Period, string> = {
     day: 'Letzte 24 Stunden',
     week: 'Letzte 7 Tage',
     month: 'Letzter Monat',
     year: 'Letztes Jahr',
+    custom: `${formatDateInput(customFrom)} – ${formatDateInput(customTo)}`,
   };
 
-  // Safety check: ensure we have valid data for charts
-  if (data.length === 0 && !loading) {
-    return (
-      <Paper elevation={2} sx={{ p: 3, mt: 4 }}>
-        <Typography variant="h6" gutterBottom>
-          Verlauf: {roomName}
-        </Typography>
-        <Alert severity="info">
-          Noch keine historischen Daten vorhanden. Die Daten werden alle 2 Stunden gesammelt.
-        </Alert>
-      </Paper>
-    );
-  }
-
   return (
     <Paper elevation={2} sx={{ p: 3, mt: 4 }}>
-      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          flexWrap: 'wrap',
+          gap: 1,
+          mb: 2,
+        }}
+      >
         <Typography variant="h6">
           Verlauf: {roomName}
         </Typography>
@@ -147,15 +224,57 @@ export function ClimateHistory({ deviceId, roomName }: ClimateHistoryProps) {
           <ToggleButton value="week">Woche</ToggleButton>
           <ToggleButton value="month">Monat</ToggleButton>
           <ToggleButton value="year">Jahr</ToggleButton>
+          <ToggleButton value="custom">Zeitraum</ToggleButton>
         </ToggleButtonGroup>
       </Box>
 
+      {period === 'custom' && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+          <TextField
+            label="Von"
+            type="date"
+            size="small"
+            value={customFrom}
+            onChange={(e) => e.target.value && setCustomFrom(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true }, htmlInput: { max: customTo } }}
+          />
+          <TextField
+            label="Bis"
+            type="date"
+            size="small"
+            value={customTo}
+            onChange={(e) => e.target.value && setCustomTo(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true }, htmlInput: { min: customFrom, max: toDateInput(new Date()) } }}
+          />
+          <TextField
+            select
+            label="Auflösung"
+            size="small"
+            value={customResolution}
+            onChange={(e) => setCustomResolution(e.target.value as ShellyResolution | 'auto')}
+            sx={{ minWidth: 160 }}
+          >
+            {Object.entries(RESOLUTION_LABELS).map(([value, label]) => (
+              <MenuItem key={value} value={value}>
+                {label}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+      )}
+
       {loading ? (
         <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
           <CircularProgress />
         </Box>
       ) : error ? (
         <Alert severity="error">{error}</Alert>
+      ) : data.length === 0 ? (
+        <Alert severity="info">
+          {period === 'custom'
+            ? 'Keine Messwerte in diesem Zeitraum vorhanden.'
+            : 'Noch keine historischen Daten vorhanden. Die Daten werden alle 2 Stunden gesammelt.'}
+        </Alert>
       ) : (
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
           {/* Temperature Chart */}
@@ -174,10 +293,16 @@ export function ClimateHistory({ deviceId, roomName }: ClimateHistoryProps) {
               series={[
                 {
                   dataKey: 'temperature',
-                  label: 'Temperatur',
+                  label: aggregated ? 'Ø Temperatur' : 'Temperatur',
                   color: '#ef5350',
                   showMark: chartData.length < 50,
                 },
+                ...(aggregated
+                  ? [
+                      { dataKey: 'minTemp', label: 'Min', color: '#90caf9', showMark: false },
+                      { dataKey: 'maxTemp', label: 'Max', color: '#ffab91', showMark: false },
+                    ]
+                  : []),
               ]}
               height={250}
             />
@@ -199,7 +324,7 @@ export function ClimateHistory({ deviceId, roomName }: ClimateHistoryProps) {
               series={[
                 {
                   dataKey: 'humidity',
-                  label: 'Luftfeuchtigkeit',
+                  label: aggregated ? 'Ø Luftfeuchtigkeit' : 'Luftfeuchtigkeit',
                   color: '#42a5f5',
                   showMark: chartData.length < 50,
                 },
@@ -207,6 +332,67 @@ export function ClimateHistory({ deviceId, roomName }: ClimateHistoryProps) {
               height={250}
             />
           </Box>
+
+          {/* Dew Point and Absolute Humidity Chart */}
+          <Box sx={{ width: '100%', height: 300 }}>
+            <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+              Taupunkt (°C) und absolute Feuchte (g/m³) - {periodLabels[period]}
+            </Typography>
+            <LineChart
+              dataset={chartData}
+              xAxis={[
+                {
+                  scaleType: 'band',
+                  dataKey: 'label',
+                },
+              ]}
+              series={[
+                {
+                  dataKey: 'dewPoint',
+                  label: 'Taupunkt',
+                  color: '#7e57c2',
+                  showMark: chartData.length < 50,
+                },
+                {
+                  dataKey: 'absoluteHumidity',
+                  label: 'Absolute Feuchte',
+                  color: '#26a69a',
+                  showMark: chartData.length < 50,
+                },
+              ]}
+              height={250}
+            />
+          </Box>
+
+          {/* Mould Risk Chart */}
+          {hasWallData && (
+            <Box sx={{ width: '100%', height: 300 }}>
+              <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                Schimmelrisiko: Stunden pro Tag über {MOULD_RH_WARNING} % / {MOULD_RH_CRITICAL} % rF an der kältesten
+                Wandstelle
+              </Typography>
+              <BarChart
+                dataset={mouldData}
+                xAxis={[{ scaleType: 'band', dataKey: 'label' }]}
+                yAxis={[{ max: 24 }]}
+                series={[
+                  {
+                    dataKey: 'hoursAbove70',
+                    label: `${MOULD_RH_WARNING}–${MOULD_RH_CRITICAL} %`,
+                    color: '#ffa726',
+                    stack: 'mould',
+                  },
+                  {
+                    dataKey: 'hoursAbove80',
+                    label: `über ${MOULD_RH_CRITICAL} %`,
+                    color: '#ef5350',
+                    stack: 'mould',
+                  },
+                ]}
+                height={250}
+              />
+            </Box>
+          )}
         </Box>
       )}
     </Paper>
@@ -0,0 +1,73 @@
+/**
+ * FloorplanHeatmap Component
+ * Canvas overlay with the interpolated values between the sensors,
+ * covering exactly the floorplan image
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Box } from '@mui/material';
+import { useThemeMode } from '@/components/providers/theme-provider';
+import {
+  FLOORPLAN_ASPECT,
+  getHeatmapColor,
+  HeatmapMetric,
+  HeatmapPoint,
+  interpolateIdw,
+} from '@/lib/floorplan-heatmap';
+
+// Canvas resolution, the browser scales it smoothly to the image size
+const CANVAS_WIDTH = 200;
+const CANVAS_HEIGHT = Math.round(CANVAS_WIDTH / FLOORPLAN_ASPECT);
+
+interface FloorplanHeatmapProps {
+  points: HeatmapPoint[];
+  metric: HeatmapMetric;
+  opacity?: number;
+}
+
+export function FloorplanHeatmap({ points, metric, opacity = 0.45 }: FloorplanHeatmapProps) {
+  const { mode } = useThemeMode();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const image = context.createImageData(CANVAS_WIDTH, CANVAS_HEIGHT);
+    for (let py = 0; py < CANVAS_HEIGHT; py++) {
+      for (let px = 0; px < CANVAS_WIDTH; px++) {
+        const value = interpolateIdw(points, ((px + 0.5) / CANVAS_WIDTH) * 100, ((py + 0.5) / CANVAS_HEIGHT) * 100);
+        if (value === null) continue;
+
+        const [r, g, b] = getHeatmapColor(metric, value);
+        const offset = (py * CANVAS_WIDTH + px) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = 255;
+      }
+    }
+    context.putImageData(image, 0, 0);
+  }, [points, metric]);
+
+  return (
+    <Box
+      component="canvas"
+      ref={canvasRef}
+      width={CANVAS_WIDTH}
+      height={CANVAS_HEIGHT}
+      sx={{
+        position: 'absolute',
+        inset: 0,
+        width: '100%',
+        height: '100%',
+        opacity,
+        // Keeps the walls of the floorplan visible below the colors
+        mixBlendMode: mode === 'dark' ? 'screen' : 'multiply',
+        pointerEvents: 'none',
+      }}
+    />
+  );
+}
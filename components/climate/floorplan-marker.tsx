@@ -1,12 +1,14 @@
 /**
  * FloorplanMarker Component
  * Displays temperature and humidity info at a specific position on the floorplan
+ * with a badge when the room has a mould risk
  */
 
 'use client';
 
 import Link from 'next/link';
-import { Typography, Box } from '@mui/material';
+import { Typography, Box, Chip } from '@mui/material';
+import type { MouldRiskLevel } from '@/lib/climate-metrics';
 
 interface FloorplanMarkerProps {
   x: number; // % Position horizontal
@@ -15,6 +17,7 @@ interface FloorplanMarkerProps {
   humidity: number;
   roomSlug: string;
   horizontal?: boolean; // Werte nebeneinander statt untereinander
+  mouldRisk?: MouldRiskLevel; // Letzte 24 Stunden
 }
 
 export function FloorplanMarker({
@@ -24,6 +27,7 @@ export function FloorplanMarker({
   humidity,
   roomSlug,
   horizontal = false,
+  mouldRisk = 'low',
 }: FloorplanMarkerProps) {
   return (
     <Link href={`/climate/${roomSlug}`} style={{ textDecoration: 'none' }}>
@@ -50,6 +54,14 @@ export function FloorplanMarker({
         <Typography color="info.main" sx={{ fontWeight: 700, fontSize: '1.25rem' }}>
           {humidity.toFixed(0)}%
         </Typography>
+        {mouldRisk !== 'low' && (
+          <Chip
+            label={mouldRisk === 'high' ? 'Schimmel!' : 'Schimmel'}
+            color={mouldRisk === 'high' ? 'error' : 'warning'}
+            size="small"
+            sx={{ fontWeight: 600, cursor: 'pointer' }}
+          />
+        )}
       </Box>
     </Link>
   );
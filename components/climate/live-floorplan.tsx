@@ -0,0 +1,251 @@
+/**
+ * LiveFloorplan Component
+ * Floorplan with value markers and a heatmap overlay interpolated between the
+ * indoor sensors. Refreshes from the live event stream, the time slider replays
+ * the last 24 hours from the stored readings.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  IconButton,
+  Slider,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import { FloorplanImage } from './floorplan-image';
+import { FloorplanMarker } from './floorplan-marker';
+import { FloorplanHeatmap } from './floorplan-heatmap';
+import { useLive } from '@/components/providers/live-provider';
+import type { ShellySensorData } from '@/lib/shelly';
+import type { ShellyRoom } from '@/lib/shelly-config';
+import type { MouldRiskLevel } from '@/lib/climate-metrics';
+import {
+  getHeatmapGradient,
+  getMetricValue,
+  HEATMAP_METRICS,
+  HeatmapMetric,
+  HeatmapPoint,
+} from '@/lib/floorplan-heatmap';
+
+// Replay covers the last 24 hours in 15 minute steps
+const REPLAY_MINUTES = 24 * 60;
+const REPLAY_STEP_MINUTES = 15;
+const REPLAY_FRAME_MS = 300;
+
+interface ReplayRoom {
+  deviceId: string;
+  readings: { timestamp: string; temperature: number; humidity: number }[];
+}
+
+interface LiveFloorplanProps {
+  rooms: ShellyRoom[];
+  initialSensors: ShellySensorData[];
+  mouldRisk: Record<string, MouldRiskLevel>; // By device ID
+}
+
+/**
+ * Latest reading at or before the given time, readings sorted by time
+ */
+function findReadingAt(readings: ReplayRoom['readings'], time: number) {
+  let found: ReplayRoom['readings'][number] | undefined;
+  for (const reading of readings) {
+    if (new Date(reading.timestamp).getTime() > time) break;
+    found = reading;
+  }
+  return found;
+}
+
+function formatOffset(offsetMinutes: number, now: number): string {
+  if (offsetMinutes === 0) return 'Live';
+  return new Date(now + offsetMinutes * 60000).toLocaleTimeString('de-CH', {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/Zurich',
+  });
+}
+
+export function LiveFloorplan({ rooms, initialSensors, mouldRisk }: LiveFloorplanProps) {
+  const { data: live } = useLive();
+  const [metric, setMetric] = useState<HeatmapMetric | 'off'>('temperature');
+  const [offset, setOffset] = useState(0); // Minutes before now, 0 = live
+  const [replayNow, setReplayNow] = useState(() => Date.now());
+  const [history, setHistory] = useState<ReplayRoom[] | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Live values, the server-rendered ones until the first event
+  const sensors = useMemo<ShellySensorData[]>(
+    () => (live.rooms ? Object.values(live.rooms) : initialSensors),
+    [live.rooms, initialSensors]
+  );
+
+  // History is only loaded once the slider is used
+  useEffect(() => {
+    if (offset === 0 || history) return;
+
+    fetch('/api/shelly/history-all?period=day')
+      .then((response) => {
+        if (!response.ok) throw new Error('Fehler beim Laden des Verlaufs');
+        return response.json();
+      })
+      .then((data: { rooms: ReplayRoom[] }) => {
+        setHistory(data.rooms);
+        setReplayNow(Date.now());
+      })
+      .catch((err) => {
+        console.error('[LiveFloorplan] Error loading history:', err);
+        setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+        setOffset(0);
+      });
+  }, [offset, history]);
+
+  // Replay steps forward until it reaches the live values
+  useEffect(() => {
+    if (!playing) return;
+
+    const interval = setInterval(() => {
+      setOffset((current) => Math.min(0, current + REPLAY_STEP_MINUTES));
+    }, REPLAY_FRAME_MS);
+    return () => clearInterval(interval);
+  }, [playing]);
+
+  useEffect(() => {
+    if (offset === 0) setPlaying(false);
+  }, [offset]);
+
+  // Values shown for each room, live or at the replay time
+  const values = useMemo(() => {
+    const result = new Map<string, { temperature: number; humidity: number }>();
+
+    if (offset === 0 || !history) {
+      for (const sensor of sensors) {
+        result.set(sensor.id, { temperature: sensor.temperature, humidity: sensor.humidity });
+      }
+      return result;
+    }
+
+    const time = replayNow + offset * 60000;
+    for (const room of history) {
+      const reading = findReadingAt(room.readings, time);
+      if (reading) result.set(room.deviceId, { temperature: reading.temperature, humidity: reading.humidity });
+    }
+    return result;
+  }, [sensors, history, offset, replayNow]);
+
+  // The outdoor sensor would distort the interpolation between the rooms
+  const points = useMemo<HeatmapPoint[]>(() => {
+    if (metric === 'off') return [];
+    return rooms.flatMap((room) => {
+      const value = values.get(room.deviceId);
+      if (room.isOutdoor || !room.floorplanPosition || !value) return [];
+      return [
+        {
+          x: room.floorplanPosition.x,
+          y: room.floorplanPosition.y,
+          value: getMetricValue(metric, value.temperature, value.humidity),
+        },
+      ];
+    });
+  }, [rooms, values, metric]);
+
+  const handleTogglePlay = () => {
+    if (!playing && offset === 0) {
+      setOffset(-REPLAY_MINUTES);
+    }
+    setPlaying(!playing);
+  };
+
+  return (
+    <Box sx={{ width: '100%', maxWidth: 1000, mx: 'auto', mb: 4 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Heatmap toggle */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={metric}
+          onChange={(_, value: HeatmapMetric | 'off' | null) => value && setMetric(value)}
+        >
+          <ToggleButton value="off">Aus</ToggleButton>
+          {(Object.keys(HEATMAP_METRICS) as HeatmapMetric[]).map((key) => (
+            <ToggleButton key={key} value={key}>
+              {HEATMAP_METRICS[key].label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+
+        {metric !== 'off' && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="caption" color="text.secondary">
+              {HEATMAP_METRICS[metric].min} {HEATMAP_METRICS[metric].unit}
+            </Typography>
+            <Box sx={{ width: 120, height: 10, borderRadius: 1, background: getHeatmapGradient(metric) }} />
+            <Typography variant="caption" color="text.secondary">
+              {HEATMAP_METRICS[metric].max} {HEATMAP_METRICS[metric].unit}
+            </Typography>
+          </Box>
+        )}
+      </Box>
+
+      {/* Floorplan with heatmap and markers */}
+      <Box sx={{ position: 'relative', width: '100%', '& img': { display: 'block' } }}>
+        <FloorplanImage />
+
+        {metric !== 'off' && points.length > 0 && <FloorplanHeatmap points={points} metric={metric} />}
+
+        {rooms.map((room) => {
+          const value = values.get(room.deviceId);
+          if (!room.floorplanPosition || !value) return null;
+
+          return (
+            <FloorplanMarker
+              key={room.deviceId}
+              x={room.floorplanPosition.x}
+              y={room.floorplanPosition.y}
+              temperature={value.temperature}
+              humidity={value.humidity}
+              roomSlug={room.slug}
+              horizontal={room.floorplanHorizontal}
+              mouldRisk={offset === 0 ? mouldRisk[room.deviceId] : undefined}
+            />
+          );
+        })}
+      </Box>
+
+      {/* Replay of the last 24 hours */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 2, px: 1 }}>
+        <IconButton onClick={handleTogglePlay} title={playing ? 'Anhalten' : 'Letzte 24 Stunden abspielen'}>
+          {playing ? <PauseIcon /> : <PlayArrowIcon />}
+        </IconButton>
+        <Slider
+          value={offset}
+          min={-REPLAY_MINUTES}
+          max={0}
+          step={REPLAY_STEP_MINUTES}
+          onChange={(_, value) => {
+            setPlaying(false);
+            setOffset(value as number);
+          }}
+          valueLabelDisplay="auto"
+          valueLabelFormat={(value) => formatOffset(value, replayNow)}
+        />
+        <Typography variant="body2" sx={{ minWidth: 90, textAlign: 'right', fontWeight: offset === 0 ? 600 : 400 }}>
+          {formatOffset(offset, replayNow)}
+        </Typography>
+      </Box>
+    </Box>
+  );
+}
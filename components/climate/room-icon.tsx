@@ -0,0 +1,35 @@
+/**
+ * RoomIcon Component
+ * Material icon of a room from its configured icon name
+ */
+
+import { SvgIconProps } from '@mui/material';
+import KitchenIcon from '@mui/icons-material/Kitchen';
+import BathtubIcon from '@mui/icons-material/Bathtub';
+import ComputerIcon from '@mui/icons-material/Computer';
+import HotelIcon from '@mui/icons-material/Hotel';
+import WbSunnyIcon from '@mui/icons-material/WbSunny';
+import WeekendIcon from '@mui/icons-material/Weekend';
+import GarageIcon from '@mui/icons-material/Garage';
+import ThermostatIcon from '@mui/icons-material/Thermostat';
+import type { ShellyRoomIcon } from '@/lib/shelly-config';
+
+const ROOM_ICONS: Record<ShellyRoomIcon, React.ComponentType<SvgIconProps>> = {
+  Kitchen: KitchenIcon,
+  Bathtub: BathtubIcon,
+  Computer: ComputerIcon,
+  Hotel: HotelIcon,
+  WbSunny: WbSunnyIcon,
+  Weekend: WeekendIcon,
+  Garage: GarageIcon,
+  Thermostat: ThermostatIcon,
+};
+
+interface RoomIconProps extends SvgIconProps {
+  icon: ShellyRoomIcon;
+}
+
+export function RoomIcon({ icon, ...props }: RoomIconProps) {
+  const Icon = ROOM_ICONS[icon] ?? ThermostatIcon;
+  return <Icon {...props} />;
+}
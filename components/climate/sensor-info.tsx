@@ -19,6 +19,7 @@ interface SensorInfoProps {
   lastUpdate: string;
   battery: number;
   wifiSignal: number;
+  online?: boolean;
 }
 
 // Format datetime to local display
@@ -52,7 +53,7 @@ function WifiIcon({ rssi }: { rssi: number }) {
   return <SignalWifi1BarIcon sx={sx} />;
 }
 
-export function SensorInfo({ lastUpdate, battery, wifiSignal }: SensorInfoProps) {
+export function SensorInfo({ lastUpdate, battery, wifiSignal, online = true }: SensorInfoProps) {
   return (
     <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 3, mb: 4 }}>
       <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -60,6 +61,11 @@ export function SensorInfo({ lastUpdate, battery, wifiSignal }: SensorInfoProps)
         <Typography variant="body2" color="text.secondary">
           Letzte Aktualisierung: {formatDateTime(lastUpdate)}
         </Typography>
+        {!online && (
+          <Typography variant="body2" color="error.main" sx={{ fontWeight: 600 }}>
+            (Sensor meldet sich nicht)
+          </Typography>
+        )}
       </Box>
 
       {battery > 0 && (
@@ -0,0 +1,123 @@
+/**
+ * Ventilation Card Component
+ * Shows per room whether ventilating now makes it drier and cooler or warmer,
+ * and the best ventilation window of the next 24 hours
+ */
+
+import React from 'react';
+import {
+  Alert,
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import type { HumidityEffect, TemperatureEffect, VentilationAdvice, VentilationWindow } from '@/lib/ventilation';
+
+interface VentilationCardProps {
+  advice: VentilationAdvice;
+}
+
+const HUMIDITY_LABELS: Record<HumidityEffect, string> = {
+  lower: '↓ trockener',
+  raise: '↑ feuchter',
+  neutral: '–',
+};
+
+const TEMPERATURE_LABELS: Record<TemperatureEffect, string> = {
+  cool: '↓ kühler',
+  warm: '↑ wärmer',
+  neutral: '–',
+};
+
+function formatWindow(window: VentilationWindow): string {
+  const day = new Date(window.from).toLocaleDateString('de-CH', { weekday: 'long', timeZone: 'Europe/Zurich' });
+  const time = (date: string) =>
+    new Date(date).toLocaleTimeString('de-CH', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Zurich' });
+  return `${day} ${time(window.from)}–${time(window.to)}`;
+}
+
+export function VentilationCard({ advice }: VentilationCardProps) {
+  const { outdoor, rooms, bestWindow } = advice;
+  const recommended = rooms.filter((room) => room.recommended);
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        p: { xs: 2, sm: 3, md: 4 },
+        mb: 4,
+        background:
+          'linear-gradient(135deg, rgba(38, 166, 154, 0.1) 0%, rgba(38, 166, 154, 0.05) 100%)',
+      }}
+    >
+      <Typography variant="h6" sx={{ fontWeight: 600, mb: 1 }}>
+        💨 Lüftungsberater
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {outdoor
+          ? `Aussen ${outdoor.temperature.toFixed(1)} °C, ${outdoor.humidity.toFixed(0)} % rF = ${outdoor.absoluteHumidity.toFixed(1)} g/m³ (${outdoor.source === 'shelly' ? 'Aussensensor' : 'OpenWeather'})`
+          : 'Keine aktuellen Aussenwerte'}
+      </Typography>
+
+      {recommended.length > 0 ? (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          <strong>Lüften empfohlen:</strong> {recommended.map((room) => room.name).join(', ')} – die Aussenluft
+          ist trockener
+        </Alert>
+      ) : (
+        outdoor && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Lüften macht die Räume im Moment nicht trockener
+          </Alert>
+        )
+      )}
+
+      {bestWindow && (
+        <Alert severity="info" icon={false} sx={{ mb: 2 }}>
+          Bestes Lüftungsfenster: <strong>{formatWindow(bestWindow)}</strong> ({bestWindow.temperature} °C,{' '}
+          {bestWindow.absoluteHumidity.toFixed(1)} g/m³, {bestWindow.dryingPotential.toFixed(1)} g/m³ trockener als
+          drinnen)
+        </Alert>
+      )}
+
+      {rooms.length > 0 && (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Raum</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">Absolute Feuchte</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Feuchte beim Lüften</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Temperatur beim Lüften</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Empfehlung</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rooms.map((room) => (
+                <TableRow key={room.slug} hover>
+                  <TableCell>{room.name}</TableCell>
+                  <TableCell align="right">{room.absoluteHumidity.toFixed(1)} g/m³</TableCell>
+                  <TableCell>{HUMIDITY_LABELS[room.humidityEffect]}</TableCell>
+                  <TableCell>{TEMPERATURE_LABELS[room.temperatureEffect]}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={room.recommended ? 'Lüften' : 'Fenster zu'}
+                      color={room.recommended ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Gas Bottle Edit Dialog Component
+ * Corrects type, price, dates and notes of an existing gas bottle
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  MenuItem,
+  Alert,
+} from '@mui/material';
+import { GAS_BOTTLE_TYPES } from '@/lib/gas-config';
+
+interface EditableGasBottle {
+  _id: string;
+  type: string;
+  price?: number;
+  startDate: string;
+  endDate?: string;
+  notes?: string;
+}
+
+interface GasBottleEditDialogProps {
+  bottle: EditableGasBottle | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function toDateInput(dateString?: string): string {
+  return dateString ? new Date(dateString).toISOString().split('T')[0] : '';
+}
+
+export function GasBottleEditDialog({ bottle, onClose, onSaved }: GasBottleEditDialogProps) {
+  const [type, setType] = useState('');
+  const [price, setPrice] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form whenever another bottle is opened
+  useEffect(() => {
+    if (bottle) {
+      setType(bottle.type);
+      setPrice(bottle.price !== undefined ? String(bottle.price) : '');
+      setStartDate(toDateInput(bottle.startDate));
+      setEndDate(toDateInput(bottle.endDate));
+      setNotes(bottle.notes || '');
+      setError(null);
+    }
+  }, [bottle]);
+
+  const handleSave = async () => {
+    if (!bottle) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/gas/${bottle._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          price: price !== '' ? parseFloat(price) : null,
+          startDate,
+          endDate: endDate || null,
+          notes,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Fehler beim Speichern');
+      }
+
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={bottle !== null} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Gasflasche bearbeiten</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+          <TextField
+            select
+            label="Flaschengrösse"
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            fullWidth
+          >
+            {GAS_BOTTLE_TYPES.map((t) => (
+              <MenuItem key={t.type} value={t.type}>
+                {t.type}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label="Preis (CHF)"
+            type="number"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            fullWidth
+            slotProps={{
+              htmlInput: { min: 0, step: 0.05 },
+            }}
+          />
+        </Box>
+
+        <TextField
+          label="Startdatum"
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          fullWidth
+          required
+          sx={{ mt: 2 }}
+          slotProps={{
+            inputLabel: { shrink: true },
+          }}
+        />
+
+        <TextField
+          label="Enddatum"
+          type="date"
+          value={endDate}
+          onChange={(e) => setEndDate(e.target.value)}
+          fullWidth
+          sx={{ mt: 2 }}
+          helperText="Leer lassen, wenn die Flasche noch angeschlossen ist"
+          slotProps={{
+            inputLabel: { shrink: true },
+          }}
+        />
+
+        <TextField
+          label="Notizen"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          fullWidth
+          multiline
+          rows={2}
+          sx={{ mt: 2 }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Abbrechen</Button>
+        <Button onClick={handleSave} variant="contained" disabled={loading || !startDate}>
+          Speichern
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -14,16 +14,25 @@ import {
   Paper,
   Typography,
   Alert,
+  MenuItem,
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
+import {
+  DEFAULT_GAS_BOTTLE_TYPE,
+  GAS_BOTTLE_TYPES,
+  getGasBottleType,
+} from '@/lib/gas-config';
 
 interface GasBottleFormProps {
   onBottleAdded: () => void;
-  hasActiveBottle: boolean;
+  activeBottleCount: number;
+  maxActiveBottles: number;
 }
 
-export function GasBottleForm({ onBottleAdded, hasActiveBottle }: GasBottleFormProps) {
+export function GasBottleForm({ onBottleAdded, activeBottleCount, maxActiveBottles }: GasBottleFormProps) {
   const { data: session } = useSession();
+  const [type, setType] = useState(DEFAULT_GAS_BOTTLE_TYPE);
+  const [price, setPrice] = useState(String(getGasBottleType(DEFAULT_GAS_BOTTLE_TYPE)?.price ?? ''));
   const [startDate, setStartDate] = useState(
     new Date().toISOString().split('T')[0]
   );
@@ -36,6 +45,13 @@ export function GasBottleForm({ onBottleAdded, hasActiveBottle }: GasBottleFormP
     return null;
   }
 
+  const maxReached = activeBottleCount >= maxActiveBottles;
+
+  const handleTypeChange = (newType: string) => {
+    setType(newType);
+    setPrice(String(getGasBottleType(newType)?.price ?? ''));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -46,7 +62,8 @@ export function GasBottleForm({ onBottleAdded, hasActiveBottle }: GasBottleFormP
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          type: '10.5kg',
+          type,
+          price: price !== '' ? parseFloat(price) : undefined,
           startDate,
           notes: notes || undefined,
         }),
@@ -73,9 +90,9 @@ export function GasBottleForm({ onBottleAdded, hasActiveBottle }: GasBottleFormP
         Neue Gasflasche anschliessen
       </Typography>
 
-      {hasActiveBottle && (
+      {maxReached && (
         <Alert severity="info" sx={{ mb: 2 }}>
-          Es ist bereits eine Gasflasche aktiv. Bitte zuerst die aktuelle Flasche als leer markieren.
+          Es sind bereits {activeBottleCount} Gasflaschen angeschlossen. Bitte zuerst eine Flasche als leer markieren.
         </Alert>
       )}
 
@@ -86,6 +103,32 @@ export function GasBottleForm({ onBottleAdded, hasActiveBottle }: GasBottleFormP
       )}
 
       <Box component="form" onSubmit={handleSubmit}>
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <TextField
+            select
+            label="Flaschengrösse"
+            value={type}
+            onChange={(e) => handleTypeChange(e.target.value)}
+            fullWidth
+          >
+            {GAS_BOTTLE_TYPES.map((t) => (
+              <MenuItem key={t.type} value={t.type}>
+                {t.type}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label="Preis (CHF)"
+            type="number"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            fullWidth
+            slotProps={{
+              htmlInput: { min: 0, step: 0.05 },
+            }}
+          />
+        </Box>
+
         <TextField
           label="Startdatum"
           type="date"
@@ -113,10 +156,10 @@ export function GasBottleForm({ onBottleAdded, hasActiveBottle }: GasBottleFormP
           type="submit"
           variant="contained"
           startIcon={<AddIcon />}
-          disabled={loading || hasActiveBottle}
+          disabled={loading || maxReached}
           fullWidth
         >
-          {loading ? 'Wird erstellt...' : '10.5kg Flasche anschliessen'}
+          {loading ? 'Wird erstellt...' : `${type} Flasche anschliessen`}
         </Button>
       </Box>
     </Paper>
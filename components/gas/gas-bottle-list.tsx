@@ -25,13 +25,20 @@ import {
   Button,
   TextField,
   Chip,
+  Tooltip,
+  Alert,
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import UndoIcon from '@mui/icons-material/Undo';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import { calculateConsumptionStats, getBottlePrice, getUsageStart } from '@/lib/gas-usage';
+import { GasBottleEditDialog } from './gas-bottle-edit-dialog';
 
 interface GasBottle {
   _id: string;
   type: string;
+  price?: number;
   startDate: string;
   endDate?: string;
   notes?: string;
@@ -64,20 +71,18 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
   const [endDialogOpen, setEndDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedBottle, setSelectedBottle] = useState<GasBottle | null>(null);
+  const [editBottle, setEditBottle] = useState<GasBottle | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
   const [loading, setLoading] = useState(false);
 
-  const activeBottle = bottles.find((b) => !b.endDate);
-  const completedBottles = bottles.filter((b) => b.endDate);
+  // Bottle in use first, reserve bottles (switchover valve) after it
+  const activeBottles = bottles
+    .filter((b) => !b.endDate)
+    .sort((a, b) => getUsageStart(a, bottles).getTime() - getUsageStart(b, bottles).getTime());
 
   // Calculate statistics
-  const completedDays = completedBottles.map((b) =>
-    calculateDays(b.startDate, b.endDate)
-  );
-  const avgDays =
-    completedDays.length > 0
-      ? Math.round(completedDays.reduce((a, b) => a + b, 0) / completedDays.length)
-      : 0;
+  const stats = calculateConsumptionStats(bottles);
 
   const handleEndBottle = async () => {
     if (!selectedBottle) return;
@@ -104,6 +109,27 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
     }
   };
 
+  const handleUndoEmpty = async (bottle: GasBottle) => {
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/gas/${bottle._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endDate: null }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Fehler beim Aktualisieren');
+      }
+
+      onBottleUpdated();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Unbekannter Fehler');
+    }
+  };
+
   const handleDeleteBottle = async () => {
     if (!selectedBottle) return;
     setLoading(true);
@@ -129,11 +155,19 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
 
   return (
     <Box>
-      {/* Active Bottle */}
-      {activeBottle && (
-        <Paper sx={{ p: 3, mb: 3, bgcolor: 'primary.main', color: 'primary.contrastText' }}>
+      {/* Active Bottles */}
+      {activeBottles.map((activeBottle, index) => (
+        <Paper
+          key={activeBottle._id}
+          sx={{
+            p: 3,
+            mb: 3,
+            bgcolor: index === 0 ? 'primary.main' : 'background.paper',
+            color: index === 0 ? 'primary.contrastText' : 'text.primary',
+          }}
+        >
           <Typography variant="h5" gutterBottom>
-            Aktive Gasflasche
+            {index === 0 ? 'Aktive Gasflasche' : 'Reserveflasche'} ({activeBottle.type})
           </Typography>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
             <Box>
@@ -141,7 +175,7 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
                 {calculateDays(activeBottle.startDate)} Tage
               </Typography>
               <Typography variant="body1">
-                In Betrieb seit {formatDate(activeBottle.startDate)}
+                Angeschlossen seit {formatDate(activeBottle.startDate)}
               </Typography>
               {activeBottle.notes && (
                 <Typography variant="body2" sx={{ mt: 1, opacity: 0.8 }}>
@@ -164,26 +198,42 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
             )}
           </Box>
         </Paper>
-      )}
+      ))}
 
       {/* Statistics */}
-      {completedBottles.length > 0 && (
+      {stats && (
         <Paper sx={{ p: 3, mb: 3 }}>
           <Typography variant="h6" gutterBottom>
             Statistiken
           </Typography>
-          <Box sx={{ display: 'flex', gap: 4 }}>
+          <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+            <Box>
+              <Typography variant="h4" color="primary">
+                {stats.kgPerDay.toFixed(2)} kg
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Verbrauch pro Tag
+              </Typography>
+            </Box>
+            <Box>
+              <Typography variant="h4" color="primary">
+                CHF {stats.chfPerMonth.toFixed(2)}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Kosten pro Monat
+              </Typography>
+            </Box>
             <Box>
               <Typography variant="h4" color="primary">
-                {avgDays} Tage
+                {stats.totalKg.toFixed(1)} kg
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Durchschnittliche Nutzungsdauer
+                Verbraucht ({stats.completedBottles} Flaschen)
               </Typography>
             </Box>
             <Box>
               <Typography variant="h4" color="primary">
-                {completedBottles.length + (activeBottle ? 1 : 0)}
+                {bottles.length}
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 Flaschen insgesamt
@@ -199,6 +249,12 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
           Historie
         </Typography>
 
+        {actionError && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setActionError(null)}>
+            {actionError}
+          </Alert>
+        )}
+
         {bottles.length === 0 ? (
           <Typography color="text.secondary">
             Noch keine Gasflaschen erfasst.
@@ -211,6 +267,7 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
                   <TableCell>Typ</TableCell>
                   <TableCell>Start</TableCell>
                   <TableCell>Ende</TableCell>
+                  <TableCell align="right">Preis</TableCell>
                   <TableCell align="right">Betriebstage</TableCell>
                   <TableCell>Status</TableCell>
                   {isAuthenticated && <TableCell align="right">Aktionen</TableCell>}
@@ -224,6 +281,9 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
                     <TableCell>
                       {bottle.endDate ? formatDate(bottle.endDate) : '-'}
                     </TableCell>
+                    <TableCell align="right">
+                      CHF {getBottlePrice(bottle).toFixed(2)}
+                    </TableCell>
                     <TableCell align="right">
                       {calculateDays(bottle.startDate, bottle.endDate)} Tage
                     </TableCell>
@@ -244,7 +304,19 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
                       )}
                     </TableCell>
                     {isAuthenticated && (
-                      <TableCell align="right">
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <Tooltip title="Bearbeiten">
+                          <IconButton size="small" onClick={() => setEditBottle(bottle)}>
+                            <EditIcon />
+                          </IconButton>
+                        </Tooltip>
+                        {bottle.endDate && (
+                          <Tooltip title="Leer rückgängig machen">
+                            <IconButton size="small" onClick={() => handleUndoEmpty(bottle)}>
+                              <UndoIcon />
+                            </IconButton>
+                          </Tooltip>
+                        )}
                         <IconButton
                           size="small"
                           color="error"
@@ -293,6 +365,16 @@ export function GasBottleList({ bottles, onBottleUpdated }: GasBottleListProps)
         </DialogActions>
       </Dialog>
 
+      {/* Edit Dialog */}
+      <GasBottleEditDialog
+        bottle={editBottle}
+        onClose={() => setEditBottle(null)}
+        onSaved={() => {
+          setEditBottle(null);
+          onBottleUpdated();
+        }}
+      />
+
       {/* Delete Dialog */}
       <Dialog open={deleteDialogOpen} onClose={() => setDeleteDialogOpen(false)}>
         <DialogTitle>Gasflasche löschen?</DialogTitle>
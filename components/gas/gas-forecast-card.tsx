@@ -0,0 +1,114 @@
+/**
+ * Gas Forecast Card Component
+ * Countdown until the connected bottles are empty plus reorder reminder
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  LinearProgress,
+  Chip,
+  Alert,
+} from '@mui/material';
+import ShoppingCartIcon from '@mui/icons-material/ShoppingCart';
+import type { GasForecastResponse } from '@/types/gas';
+
+interface GasForecastCardProps {
+  data: GasForecastResponse | null;
+}
+
+const CONFIDENCE_LABELS = {
+  low: 'Unsicher',
+  medium: 'Mittel',
+  high: 'Hoch',
+} as const;
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+export function GasForecastCard({ data }: GasForecastCardProps) {
+  if (!data) {
+    return null;
+  }
+
+  const { forecast, reason } = data;
+
+  if (!forecast) {
+    return (
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Prognose
+        </Typography>
+        <Typography color="text.secondary">{reason}</Typography>
+      </Paper>
+    );
+  }
+
+  const progress = Math.min(100, (forecast.elapsedDays / forecast.estimatedDurationDays) * 100);
+  const reorderDue = new Date(forecast.reorderDate).getTime() <= Date.now();
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Prognose</Typography>
+        <Chip
+          label={`Genauigkeit: ${CONFIDENCE_LABELS[forecast.confidence]}`}
+          size="small"
+          variant="outlined"
+        />
+      </Box>
+
+      {forecast.overdue ? (
+        <Typography variant="h4" color="warning.main" sx={{ fontWeight: 'bold' }}>
+          Jederzeit leer
+        </Typography>
+      ) : (
+        <Typography variant="h4" color="primary" sx={{ fontWeight: 'bold' }}>
+          noch ca. {forecast.remainingDays} Tage
+        </Typography>
+      )}
+      <Typography variant="body2" color="text.secondary">
+        Voraussichtlich leer am {formatDate(forecast.estimatedEmptyDate)}
+        {' '}(noch ca. {forecast.remainingKg.toFixed(1)} kg)
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {forecast.reserveBottles > 0
+          ? `Aktuelle Flasche leer ca. ${formatDate(forecast.currentBottleEmptyDate)}, danach ${forecast.reserveBottles} Reserveflasche${forecast.reserveBottles === 1 ? '' : 'n'}`
+          : `${forecast.elapsedDays} von ~${forecast.estimatedDurationDays} Tagen`}
+      </Typography>
+
+      <LinearProgress
+        variant="determinate"
+        value={progress}
+        color={forecast.overdue ? 'warning' : 'primary'}
+        sx={{ height: 8, borderRadius: 4, mb: 2 }}
+      />
+
+      <Alert
+        severity={reorderDue ? 'warning' : 'info'}
+        icon={<ShoppingCartIcon />}
+        sx={{ mb: 2 }}
+      >
+        {reorderDue
+          ? 'Jetzt neue Flasche bestellen'
+          : `Neue Flasche bestellen bis ${formatDate(forecast.reorderDate)}`}
+      </Alert>
+
+      <Typography variant="caption" color="text.secondary">
+        Basierend auf {forecast.basedOnBottles} Flasche{forecast.basedOnBottles === 1 ? '' : 'n'}
+        {' '}({forecast.kgPerDay.toFixed(2)} kg/Tag), gewichtet nach Jahreszeit
+        {forecast.outdoorTemperature !== null &&
+          ` und Aussentemperatur (aktuell Ø ${forecast.outdoorTemperature.toFixed(1)}°C)`}
+      </Typography>
+    </Paper>
+  );
+}
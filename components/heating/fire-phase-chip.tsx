@@ -0,0 +1,24 @@
+/**
+ * Fire Phase Chip Component
+ * Shows the current phase of a fire session
+ */
+
+import React from 'react';
+import { Chip } from '@mui/material';
+import type { FirePhase } from '@/types/dashboard';
+
+const PHASE_CONFIG: Record<FirePhase, { label: string; color: 'info' | 'warning' | 'error' | 'success' }> = {
+  ignition: { label: '📈 Anfeuern', color: 'warning' },
+  peak: { label: '🔥 Vollbrand', color: 'error' },
+  glow: { label: '📉 Glut', color: 'success' },
+  cold: { label: '❄️ Beendet', color: 'info' },
+};
+
+interface FirePhaseChipProps {
+  phase: FirePhase;
+}
+
+export function FirePhaseChip({ phase }: FirePhaseChipProps) {
+  const config = PHASE_CONFIG[phase];
+  return <Chip label={config.label} color={config.color} size="small" sx={{ fontWeight: 600 }} />;
+}
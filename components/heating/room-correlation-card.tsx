@@ -0,0 +1,126 @@
+/**
+ * Room Correlation Card Component
+ * Shows how well the stove heats each room and the recommended next firing
+ */
+
+import React from 'react';
+import {
+  Alert,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { formatDuration } from '@/lib/fire-sessions';
+import type { FiringRecommendation, StoveRoomCorrelation } from '@/lib/heating-correlation';
+
+interface RoomCorrelationCardProps {
+  correlation: StoveRoomCorrelation;
+}
+
+function formatMinutes(minutes: number | null): string {
+  return minutes === null ? '–' : formatDuration(minutes);
+}
+
+function formatValue(value: number | null, unit: string, digits: number = 1): string {
+  return value === null ? '–' : `${value.toFixed(digits)} ${unit}`;
+}
+
+function RecommendationAlert({ recommendation }: { recommendation: FiringRecommendation }) {
+  const comfort = `${recommendation.comfortTemperature.toFixed(1)} °C`;
+  const recommendedAt = recommendation.recommendedAt
+    ? format(new Date(recommendation.recommendedAt), 'EEEE, dd.MM. HH:mm', { locale: de })
+    : null;
+  const dropAt = recommendation.dropAt
+    ? format(new Date(recommendation.dropAt), 'EEEE, dd.MM. HH:mm', { locale: de })
+    : null;
+
+  switch (recommendation.status) {
+    case 'burning':
+      return <Alert severity="success" sx={{ mb: 3 }}>🔥 Der Ofen brennt gerade</Alert>;
+    case 'now':
+      return (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          Jetzt anfeuern – {recommendation.room} ist bei {comfort} oder fällt bis {dropAt} darunter
+        </Alert>
+      );
+    case 'scheduled':
+      return (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          Nächstes Anfeuern empfohlen: <strong>{recommendedAt}</strong> ({recommendation.room} fällt um{' '}
+          {dropAt} unter {comfort})
+        </Alert>
+      );
+    case 'not_needed':
+      return (
+        <Alert severity="success" sx={{ mb: 3 }}>
+          Kein Anfeuern in den nächsten 48 Stunden nötig ({recommendation.room} bleibt über {comfort})
+        </Alert>
+      );
+    default:
+      return (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          Keine aktuellen Temperaturen der Wohnräume für eine Empfehlung
+        </Alert>
+      );
+  }
+}
+
+export function RoomCorrelationCard({ correlation }: RoomCorrelationCardProps) {
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        p: { xs: 2, sm: 3, md: 4 },
+        mb: 4,
+        background:
+          'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
+      }}
+    >
+      <Typography variant="h6" sx={{ fontWeight: 600, mb: 1 }}>
+        🏠 Wie gut heizt der Ofen welchen Raum
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Raumtemperaturen während und nach {correlation.analysedSessions} Feuer-Sessions, verglichen mit der
+        Temperatur beim Anfeuern
+      </Typography>
+
+      <RecommendationAlert recommendation={correlation.recommendation} />
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Raum</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Sessions</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Ø Anstieg</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Pro 10 kWh</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Spürbar nach</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Höchstwert nach</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Abkühlung</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {correlation.rooms.map((room) => (
+              <TableRow key={room.slug} hover>
+                <TableCell>{room.name}</TableCell>
+                <TableCell align="right">{room.sessions}</TableCell>
+                <TableCell align="right">{formatValue(room.averageRise, '°C')}</TableCell>
+                <TableCell align="right">{formatValue(room.risePer10Kwh, '°C')}</TableCell>
+                <TableCell align="right">{formatMinutes(room.averageResponseMinutes)}</TableCell>
+                <TableCell align="right">{formatMinutes(room.averageLagMinutes)}</TableCell>
+                <TableCell align="right">{formatValue(room.averageDecayPerHour, '°C/h', 2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * Season Comparison Chart Component
+ * Compares heating seasons by firings per heating degree day
+ */
+
+import React from 'react';
+import {
+  Box,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { BarChart } from '@mui/x-charts/BarChart';
+import type { SeasonStats } from '@/lib/heating-degree-days';
+
+interface SeasonComparisonChartProps {
+  seasons: SeasonStats[];
+}
+
+const MONTH_LABELS: Record<string, string> = {
+  '01': 'Jan',
+  '02': 'Feb',
+  '03': 'Mär',
+  '04': 'Apr',
+  '05': 'Mai',
+  '06': 'Jun',
+  '07': 'Jul',
+  '08': 'Aug',
+  '09': 'Sep',
+  '10': 'Okt',
+  '11': 'Nov',
+  '12': 'Dez',
+};
+
+const SEASON_COLORS = ['#94a3b8', '#60a5fa', '#f97316', '#ef4444'];
+
+function formatRatio(value: number | null, digits: number = 1): string {
+  return value === null ? '–' : value.toFixed(digits);
+}
+
+export function SeasonComparisonChart({ seasons }: SeasonComparisonChartProps) {
+  // One row per month of the season, one column per season
+  const dataset = (seasons[0]?.months ?? []).map((month, index) => {
+    const row: Record<string, string | number | null> = { month: MONTH_LABELS[month.month] };
+    for (const season of seasons) {
+      row[season.season] = season.months[index].firingsPer100Hdd;
+    }
+    return row;
+  });
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        p: { xs: 2, sm: 3, md: 4 },
+        mb: 3,
+        background:
+          'linear-gradient(135deg, rgba(66, 165, 245, 0.1) 0%, rgba(66, 165, 245, 0.05) 100%)',
+      }}
+    >
+      <Typography variant="h6" sx={{ fontWeight: 600, mb: 1 }}>
+        ❄️ Saisonvergleich nach Heizgradtagen
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Feuer pro 100 Heizgradtage (HGT 20/12, Aussensensor) – gleich viele Feuer bei kälterem Wetter ergeben
+        einen tieferen Wert
+      </Typography>
+
+      <Box sx={{ height: 300, width: '100%' }}>
+        <BarChart
+          dataset={dataset}
+          xAxis={[{ scaleType: 'band', dataKey: 'month' }]}
+          series={seasons.map((season, index) => ({
+            dataKey: season.season,
+            label: season.season,
+            color: SEASON_COLORS[(SEASON_COLORS.length - seasons.length + index) % SEASON_COLORS.length],
+          }))}
+          height={300}
+        />
+      </Box>
+
+      <TableContainer sx={{ mt: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Saison</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">HGT</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Feuer</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Feuer / 100 HGT</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Holz</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">kg / HGT</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Tage mit Daten</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {seasons.map((season) => (
+              <TableRow key={season.season} hover>
+                <TableCell>{season.season}</TableCell>
+                <TableCell align="right">{season.degreeDays}</TableCell>
+                <TableCell align="right">{season.firings}</TableCell>
+                <TableCell align="right">{formatRatio(season.firingsPer100Hdd)}</TableCell>
+                <TableCell align="right">{season.woodKg > 0 ? `${Math.round(season.woodKg)} kg` : '–'}</TableCell>
+                <TableCell align="right">{formatRatio(season.woodKgPerHdd, 2)}</TableCell>
+                <TableCell align="right">{season.measuredDays}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+        Holz nur aus erfassten Holzmengen der Feuer-Sessions
+      </Typography>
+    </Paper>
+  );
+}
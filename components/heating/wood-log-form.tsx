@@ -0,0 +1,137 @@
+/**
+ * Wood Log Form Component
+ * Log the wood loaded for a fire session (only visible when authenticated)
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import SaveIcon from '@mui/icons-material/Save';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { WoodLog, WoodUnit } from '@/types/dashboard';
+
+interface WoodLogFormProps {
+  sessionId: string;
+  wood?: WoodLog;
+}
+
+export function WoodLogForm({ sessionId, wood }: WoodLogFormProps) {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [amount, setAmount] = useState(wood ? String(wood.amount) : '');
+  const [unit, setUnit] = useState<WoodUnit>(wood?.unit ?? 'kg');
+  const [notes, setNotes] = useState(wood?.notes ?? '');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Don't render if not authenticated
+  if (!session) {
+    return null;
+  }
+
+  const save = async (body: Record<string, unknown>) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/heating/sessions/${sessionId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Fehler beim Speichern');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save({ amount: parseFloat(amount), unit, notes: notes || undefined });
+  };
+
+  const handleRemove = () => {
+    setAmount('');
+    setNotes('');
+    save({ amount: null });
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: { xs: 2, sm: 3, md: 4 }, mb: 4 }}>
+      <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+        🪵 Holz erfassen
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box
+        component="form"
+        onSubmit={handleSubmit}
+        sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', md: 'row' } }}
+      >
+        <TextField
+          label="Menge"
+          type="number"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          required
+          slotProps={{
+            htmlInput: { min: 0, step: 0.5 },
+          }}
+        />
+        <TextField
+          select
+          label="Einheit"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as WoodUnit)}
+          sx={{ minWidth: 140 }}
+        >
+          <MenuItem value="kg">kg</MenuItem>
+          <MenuItem value="armfuls">Armvoll</MenuItem>
+        </TextField>
+        <TextField
+          label="Notiz (optional)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          sx={{ flex: 1 }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          startIcon={<SaveIcon />}
+          disabled={loading || amount === ''}
+        >
+          {loading ? 'Wird gespeichert...' : 'Speichern'}
+        </Button>
+        {wood && (
+          <Button color="error" startIcon={<DeleteIcon />} onClick={handleRemove} disabled={loading}>
+            Entfernen
+          </Button>
+        )}
+      </Box>
+    </Paper>
+  );
+}
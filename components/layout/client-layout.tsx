@@ -1,13 +1,17 @@
 /**
  * Client Layout Wrapper
- * Wraps children with theme provider and sidebar
+ * Wraps children with session, theme and live providers and the sidebar
+ * The live stream is only opened on pages that show live values
  */
 
 'use client';
 
 import React from 'react';
+import { usePathname } from 'next/navigation';
 import { ThemeProvider, useThemeMode } from '@/components/providers/theme-provider';
 import { SessionProvider } from '@/components/providers/session-provider';
+import { LiveProvider } from '@/components/providers/live-provider';
+import { isLivePage } from '@/lib/live-config';
 import { SidebarLayout } from './sidebar-layout';
 
 interface ClientLayoutProps {
@@ -25,10 +29,14 @@ function LayoutContent({ children }: ClientLayoutProps) {
 }
 
 export function ClientLayout({ children }: ClientLayoutProps) {
+  const pathname = usePathname();
+
   return (
     <SessionProvider>
       <ThemeProvider>
-        <LayoutContent>{children}</LayoutContent>
+        <LiveProvider enabled={isLivePage(pathname)}>
+          <LayoutContent>{children}</LayoutContent>
+        </LiveProvider>
       </ThemeProvider>
     </SessionProvider>
   );
@@ -1,48 +1,30 @@
 /**
  * Heating Status Chip Component
- * Shows oven status in the header
+ * Shows oven status in the header, updated from the live event stream
  */
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Chip, Skeleton } from '@mui/material';
+import { useLive } from '@/components/providers/live-provider';
+import type { LiveOven } from '@/lib/live-config';
 
-type OvenState = 'cold' | 'warming' | 'hot' | 'cooling';
+type OvenState = LiveOven['state'];
 
-const STATE_CONFIG: Record<OvenState, { label: string; color: 'info' | 'warning' | 'error' | 'success' }> = {
+const STATE_CONFIG: Record<OvenState, { label: string; color: 'default' | 'info' | 'warning' | 'error' | 'success' }> = {
   cold: { label: '❄️ KALT', color: 'info' },
   warming: { label: '📈 AUFWÄRMEN', color: 'warning' },
   hot: { label: '🔥 HEISS', color: 'error' },
   cooling: { label: '📉 ABKÜHLEN', color: 'success' },
+  unknown: { label: '❔ UNBEKANNT', color: 'default' },
 };
 
 export function HeatingStatusChip() {
-  const [state, setState] = useState<OvenState | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    const fetchStatus = async () => {
-      try {
-        const response = await fetch('/api/data', { cache: 'no-store' });
-        if (response.ok) {
-          const data = await response.json();
-          setState(data.oven_state?.state || 'cold');
-        }
-      } catch (error) {
-        console.error('Error fetching heating status:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchStatus();
-    // Refresh every 5 minutes
-    const interval = setInterval(fetchStatus, 300000);
-    return () => clearInterval(interval);
-  }, []);
-
-  if (loading) {
+  const { data, connection } = useLive();
+  const state = data.oven?.state ?? null;
+
+  if (!state && connection === 'connecting') {
     return <Skeleton variant="rounded" width={100} height={32} />;
   }
 
@@ -35,11 +35,11 @@ import WaterDropIcon from '@mui/icons-material/WaterDrop';
 import ThermostatIcon from '@mui/icons-material/Thermostat';
 import ExpandLess from '@mui/icons-material/ExpandLess';
 import ExpandMore from '@mui/icons-material/ExpandMore';
-import KitchenIcon from '@mui/icons-material/Kitchen';
-import BathtubIcon from '@mui/icons-material/Bathtub';
-import ComputerIcon from '@mui/icons-material/Computer';
-import HotelIcon from '@mui/icons-material/Hotel';
+import SensorsIcon from '@mui/icons-material/Sensors';
+import BatteryChargingFullIcon from '@mui/icons-material/BatteryChargingFull';
 import PropaneTankIcon from '@mui/icons-material/PropaneTank';
+import NotificationsIcon from '@mui/icons-material/Notifications';
+import SettingsIcon from '@mui/icons-material/Settings';
 import Brightness4Icon from '@mui/icons-material/Brightness4';
 import Brightness7Icon from '@mui/icons-material/Brightness7';
 import LogoutIcon from '@mui/icons-material/Logout';
@@ -47,23 +47,25 @@ import LoginIcon from '@mui/icons-material/Login';
 import Image from 'next/image';
 import { HeatingStatusChip } from './heating-status-chip';
 import { SolarStatusChip } from './solar-status-chip';
+import { RoomIcon } from '@/components/climate/room-icon';
+import type { ShellyRoom } from '@/lib/shelly-config';
 
 const DRAWER_WIDTH = 240;
 
-// Page title mapping based on pathname
+// Page title mapping based on pathname (room pages are added from /api/rooms)
 const pageTitles: Record<string, string> = {
   '/': 'Dashboard',
   '/climate': 'Klima inHouse',
-  '/climate/kueche': 'Küche',
-  '/climate/bad': 'Bad',
-  '/climate/buero': 'Büro',
-  '/climate/schlafen': 'Schlafen',
-  '/climate/aussen': 'Aussen',
+  '/climate/sensors': 'Sensoren',
   '/heating': 'Heizung',
   '/solar': 'Strom',
+  '/solar/battery': 'Batterie',
   '/wasser': 'Wasser',
   '/gas': 'Gas',
   '/weather': 'Wetter',
+  '/alerts': 'Alarme',
+  '/settings': 'Einstellungen',
+  '/settings/rooms': 'Räume',
   '/login': 'Login',
 };
 
@@ -72,6 +74,7 @@ interface NavigationItem {
   icon: React.ReactNode;
   path: string;
   children?: NavigationItem[];
+  adminOnly?: boolean; // Only shown when logged in
 }
 
 const navigationItems: NavigationItem[] = [
@@ -80,19 +83,21 @@ const navigationItems: NavigationItem[] = [
     text: 'Klima inHouse',
     icon: <ThermostatIcon />,
     path: '/climate',
-    children: [
-      { text: 'Küche', icon: <KitchenIcon />, path: '/climate/kueche' },
-      { text: 'Bad', icon: <BathtubIcon />, path: '/climate/bad' },
-      { text: 'Büro', icon: <ComputerIcon />, path: '/climate/buero' },
-      { text: 'Schlafen', icon: <HotelIcon />, path: '/climate/schlafen' },
-      { text: 'Aussen', icon: <WbSunnyIcon />, path: '/climate/aussen' },
-    ],
+    // Rooms are inserted before the sensor page once loaded
+    children: [{ text: 'Sensoren', icon: <SensorsIcon />, path: '/climate/sensors' }],
   },
   { text: 'Heizung', icon: <LocalFireDepartmentIcon />, path: '/heating' },
-  { text: 'Strom', icon: <BoltIcon />, path: '/solar' },
+  {
+    text: 'Strom',
+    icon: <BoltIcon />,
+    path: '/solar',
+    children: [{ text: 'Batterie', icon: <BatteryChargingFullIcon />, path: '/solar/battery' }],
+  },
   { text: 'Wasser', icon: <WaterDropIcon />, path: '/wasser' },
   { text: 'Gas', icon: <PropaneTankIcon />, path: '/gas' },
   { text: 'Wetter', icon: <WbSunnyIcon />, path: '/weather' },
+  { text: 'Alarme', icon: <NotificationsIcon />, path: '/alerts' },
+  { text: 'Einstellungen', icon: <SettingsIcon />, path: '/settings', adminOnly: true },
 ];
 
 interface SidebarLayoutProps {
@@ -105,19 +110,50 @@ export function SidebarLayout({ children, mode, onToggleMode }: SidebarLayoutPro
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const [open, setOpen] = useState(!isMobile);
-  const [climateOpen, setClimateOpen] = useState(false);
+  const [openMenus, setOpenMenus] = useState<Record<string, boolean>>({}); // By item path
   const pathname = usePathname();
   const router = useRouter();
   const { data: session } = useSession();
   const isAuthenticated = !!session;
+  const [rooms, setRooms] = useState<ShellyRoom[]>([]);
+
+  // Rooms are managed in the settings, reload them when navigating
+  React.useEffect(() => {
+    fetch('/api/rooms')
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: ShellyRoom[]) => setRooms(data))
+      .catch((error) => console.error('[Sidebar] Error loading rooms:', error));
+  }, [pathname]);
+
+  const items = React.useMemo(
+    () =>
+      navigationItems.map((item) =>
+        item.path === '/climate' && item.children
+          ? {
+              ...item,
+              children: [
+                ...rooms.map((room) => ({
+                  text: room.name,
+                  icon: <RoomIcon icon={room.icon} />,
+                  path: `/climate/${room.slug}`,
+                })),
+                ...item.children,
+              ],
+            }
+          : item
+      ),
+    [rooms]
+  );
 
   // Get page title from pathname
-  const pageTitle = pageTitles[pathname] || 'Dashboard';
+  const pageTitle =
+    pageTitles[pathname] || rooms.find((room) => `/climate/${room.slug}` === pathname)?.name || 'Dashboard';
 
-  // Auto-expand climate menu if on a climate subpage
+  // Auto-expand a submenu if on one of its pages
   React.useEffect(() => {
-    if (pathname.startsWith('/climate')) {
-      setClimateOpen(true);
+    const current = navigationItems.find((item) => item.children && pathname.startsWith(item.path));
+    if (current) {
+      setOpenMenus((menus) => ({ ...menus, [current.path]: true }));
     }
   }, [pathname]);
 
@@ -132,8 +168,8 @@ export function SidebarLayout({ children, mode, onToggleMode }: SidebarLayoutPro
     }
   };
 
-  const handleClimateToggle = () => {
-    setClimateOpen(!climateOpen);
+  const handleMenuToggle = (path: string) => {
+    setOpenMenus((menus) => ({ ...menus, [path]: !menus[path] }));
   };
 
   return (
@@ -237,10 +273,10 @@ export function SidebarLayout({ children, mode, onToggleMode }: SidebarLayoutPro
           }}
         >
           <List sx={{ position: 'relative', zIndex: 1 }}>
-            {navigationItems.map((item) => (
+            {items.filter((item) => !item.adminOnly || isAuthenticated).map((item) => (
               <React.Fragment key={item.text}>
                 {item.children ? (
-                  // Item with submenu (Klima inHouse)
+                  // Item with submenu (Klima inHouse, Strom)
                   <>
                     <ListItem disablePadding>
                       <ListItemButton
@@ -252,13 +288,13 @@ export function SidebarLayout({ children, mode, onToggleMode }: SidebarLayoutPro
                       </ListItemButton>
                       <IconButton
                         size="small"
-                        onClick={handleClimateToggle}
+                        onClick={() => handleMenuToggle(item.path)}
                         sx={{ mr: 1 }}
                       >
-                        {climateOpen ? <ExpandLess /> : <ExpandMore />}
+                        {openMenus[item.path] ? <ExpandLess /> : <ExpandMore />}
                       </IconButton>
                     </ListItem>
-                    <Collapse in={climateOpen} timeout="auto" unmountOnExit>
+                    <Collapse in={!!openMenus[item.path]} timeout="auto" unmountOnExit>
                       <List component="div" disablePadding>
                         {item.children.map((child) => (
                           <ListItemButton
@@ -1,59 +1,101 @@
 /**
  * Solar Status Chip Component
- * Shows grid/autark status in the header
+ * Shows grid/autark status in the header, updated from the live event stream
+ * While autark it adds the predicted time the battery reaches its reserve
+ * Admins can record a grid connection or disconnection with one click
  */
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Chip, Skeleton } from '@mui/material';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Box, Button, Chip, Skeleton, Tooltip } from '@mui/material';
 import PowerIcon from '@mui/icons-material/Power';
+import PowerOffIcon from '@mui/icons-material/PowerOff';
 import BoltIcon from '@mui/icons-material/Bolt';
 import ElectricBoltIcon from '@mui/icons-material/ElectricBolt';
-import { GridStatus } from '@/types/victron';
-
-interface SolarStatus {
-  gridStatus: GridStatus;
-}
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { useLive } from '@/components/providers/live-provider';
+import { GridPeriod, getActivePeriod } from '@/lib/grid-periods-config';
 
 export function SolarStatusChip() {
-  const [status, setStatus] = useState<SolarStatus | null>(null);
-  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const { data: session } = useSession();
+  const { data: live, connection } = useLive();
+  const [periods, setPeriods] = useState<GridPeriod[] | null>(null);
+  const [toggling, setToggling] = useState(false);
+  const [toggleError, setToggleError] = useState<string | null>(null);
+
+  const fetchPeriods = useCallback(async () => {
+    try {
+      const response = await fetch('/api/grid-periods', { cache: 'no-store' });
+      if (response.ok) {
+        setPeriods(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching grid periods:', error);
+    }
+  }, []);
 
+  // Periods are only needed for the admin toggle
   useEffect(() => {
-    const fetchStatus = async () => {
-      try {
-        const response = await fetch('/api/victron/stats?interval=15mins', { cache: 'no-store' });
-        if (response.ok) {
-          const data = await response.json();
-          // Use new gridStatus field
-          const gridStatus: GridStatus = data.processed?.gridStatus || 'unknown';
-          setStatus({ gridStatus });
-        }
-      } catch (error) {
-        console.error('Error fetching solar status:', error);
-      } finally {
-        setLoading(false);
+    if (session) {
+      fetchPeriods();
+    }
+  }, [session, fetchPeriods]);
+
+  const activePeriod = periods ? getActivePeriod(periods) : undefined;
+
+  const handleToggle = async () => {
+    setToggling(true);
+    setToggleError(null);
+
+    const today = new Date().toISOString().split('T')[0];
+
+    try {
+      // Connected: close the active period, otherwise start a new one
+      const response = activePeriod
+        ? await fetch(`/api/grid-periods/${activePeriod.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ gridOff: today }),
+          })
+        : await fetch('/api/grid-periods', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ gridOn: today, gridOff: null }),
+          });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Fehler beim Speichern');
       }
-    };
 
-    fetchStatus();
-    // Refresh every minute
-    const interval = setInterval(fetchStatus, 60000);
-    return () => clearInterval(interval);
-  }, []);
+      // The live grid status follows with the next Victron poll
+      await fetchPeriods();
+      router.refresh();
+    } catch (err) {
+      setToggleError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setToggling(false);
+    }
+  };
+
+  const gridStatus = live.grid?.gridStatus;
 
-  if (loading) {
+  if (!gridStatus && connection === 'connecting') {
     return <Skeleton variant="rounded" width={100} height={32} />;
   }
 
-  if (!status) {
+  if (!gridStatus) {
     return null;
   }
 
   // Determine display based on gridStatus
   const getChipProps = () => {
-    switch (status.gridStatus) {
+    switch (gridStatus) {
       case 'grid_consuming':
         return {
           icon: <PowerIcon />,
@@ -83,13 +125,67 @@ export function SolarStatusChip() {
 
   const chipProps = getChipProps();
 
-  return (
+  // Reserve forecast only matters without grid connection
+  const autonomy = live.autonomy && !live.autonomy.gridConnected ? live.autonomy : undefined;
+  const reserveAt = autonomy?.reserveAt ? new Date(autonomy.reserveAt) : null;
+
+  const chip = (
     <Chip
       icon={chipProps.icon}
-      label={chipProps.label}
-      color={chipProps.color}
+      label={
+        autonomy
+          ? `${chipProps.label} · ${reserveAt ? `bis ${format(reserveAt, 'EEEEEE HH:mm', { locale: de })}` : '> 48 h'}`
+          : chipProps.label
+      }
+      color={reserveAt ? 'warning' : chipProps.color}
       size="small"
       sx={{ fontWeight: 600 }}
     />
   );
+
+  const statusChip = autonomy ? (
+    <Tooltip
+      title={
+        reserveAt
+          ? `Batterie erreicht die Reserve von ${autonomy.reserveSoc} % voraussichtlich ${format(reserveAt, "EEEE 'um' HH:mm", { locale: de })}`
+          : `Batterie bleibt 48 h über der Reserve von ${autonomy.reserveSoc} % (min. ${autonomy.minSoc.toFixed(0)} %)`
+      }
+    >
+      {chip}
+    </Tooltip>
+  ) : (
+    chip
+  );
+
+  if (!session || !periods) {
+    return statusChip;
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      {statusChip}
+      <Tooltip
+        title={
+          toggleError ||
+          (activePeriod
+            ? `Am Netz seit ${new Date(activePeriod.gridOn).toLocaleDateString('de-DE')}`
+            : 'Netzanschluss ab heute erfassen')
+        }
+      >
+        <span>
+          <Button
+            size="small"
+            variant="outlined"
+            color={toggleError ? 'error' : 'inherit'}
+            startIcon={activePeriod ? <PowerOffIcon /> : <PowerIcon />}
+            onClick={handleToggle}
+            disabled={toggling}
+            sx={{ display: { xs: 'none', sm: 'inline-flex' }, whiteSpace: 'nowrap' }}
+          >
+            {activePeriod ? 'Netz getrennt' : 'Netz angeschlossen'}
+          </Button>
+        </span>
+      </Tooltip>
+    </Box>
+  );
 }
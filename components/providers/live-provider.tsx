@@ -0,0 +1,81 @@
+/**
+ * Live Provider Component
+ * Keeps one /api/live event stream per browser tab and shares the live values
+ * The stream is only open while enabled (on pages with live values), so idle
+ * tabs don't keep the server polling
+ */
+
+'use client';
+
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import {
+  applyLiveEvent,
+  LiveEventMap,
+  LiveSnapshot,
+  LIVE_EVENT_TYPES,
+} from '@/lib/live-config';
+
+type LiveConnection = 'idle' | 'connecting' | 'open' | 'error';
+
+interface LiveContextType {
+  data: LiveSnapshot;
+  connection: LiveConnection;
+  lastUpdate: Date | null;
+}
+
+const LiveContext = createContext<LiveContextType>({
+  data: {},
+  connection: 'idle',
+  lastUpdate: null,
+});
+
+/**
+ * Live values from /api/live, updated as soon as the server sends changes
+ */
+export const useLive = () => useContext(LiveContext);
+
+interface LiveProviderProps {
+  enabled: boolean;
+  children: React.ReactNode;
+}
+
+export function LiveProvider({ enabled, children }: LiveProviderProps) {
+  const [data, setData] = useState<LiveSnapshot>({});
+  const [connection, setConnection] = useState<LiveConnection>(enabled ? 'connecting' : 'idle');
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setConnection('idle');
+      return;
+    }
+
+    // EventSource reconnects by itself after errors and when the server ends
+    // the stream (maxDuration), the first events then resend all values
+    setConnection('connecting');
+    const source = new EventSource('/api/live');
+
+    source.onopen = () => setConnection('open');
+    source.onerror = () => setConnection('error');
+
+    for (const type of LIVE_EVENT_TYPES) {
+      source.addEventListener(type, (event) => {
+        try {
+          const payload = JSON.parse((event as MessageEvent<string>).data) as LiveEventMap[typeof type];
+          setData((current) => applyLiveEvent(current, type, payload));
+          setLastUpdate(new Date());
+        } catch (error) {
+          console.error('[Live] Invalid event:', type, error);
+        }
+      });
+    }
+
+    return () => source.close();
+  }, [enabled]);
+
+  return (
+    <LiveContext.Provider value={{ data, connection, lastUpdate }}>
+      {children}
+    </LiveContext.Provider>
+  );
+}
@@ -0,0 +1,428 @@
+/**
+ * Room Editor Component
+ * Add, rename and delete rooms, assign their Shelly sensor and drag their
+ * markers to the position on the floorplan
+ */
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Paper,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SaveIcon from '@mui/icons-material/Save';
+import PlaceIcon from '@mui/icons-material/Place';
+import { FloorplanImage } from '@/components/climate/floorplan-image';
+import { RoomIcon } from '@/components/climate/room-icon';
+import { SHELLY_ROOM_ICONS, ShellyRoom, ShellyRoomIcon } from '@/lib/shelly-config';
+
+interface RoomEditorProps {
+  initialRooms: ShellyRoom[];
+}
+
+type RoomChanges = Partial<Omit<ShellyRoom, 'id'>>;
+
+export function RoomEditor({ initialRooms }: RoomEditorProps) {
+  const router = useRouter();
+  const floorplanRef = useRef<HTMLDivElement>(null);
+  const [rooms, setRooms] = useState<ShellyRoom[]>(initialRooms);
+  const [dirty, setDirty] = useState<Set<string>>(new Set());
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newDeviceId, setNewDeviceId] = useState('');
+  const [newIcon, setNewIcon] = useState<ShellyRoomIcon>('Thermostat');
+  const [deleteRoom, setDeleteRoom] = useState<ShellyRoom | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateLocal = (id: string, changes: RoomChanges) => {
+    setRooms((prev) => prev.map((room) => (room.id === id ? { ...room, ...changes } : room)));
+  };
+
+  const editRoom = (id: string, changes: RoomChanges) => {
+    updateLocal(id, changes);
+    setDirty((prev) => new Set(prev).add(id));
+  };
+
+  /**
+   * Store changed fields of a room, the server returns the normalized room
+   * Other unsaved edits of the row are kept
+   */
+  const saveRoom = async (id: string, changes: RoomChanges) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/rooms/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Fehler beim Speichern');
+      }
+
+      const saved = data as ShellyRoom;
+      updateLocal(
+        id,
+        Object.fromEntries(Object.keys(changes).map((key) => [key, saved[key as keyof RoomChanges]]))
+      );
+      router.refresh();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+      return false;
+    }
+  };
+
+  const handleSaveRow = async (room: ShellyRoom) => {
+    if (!room.id) return;
+    const saved = await saveRoom(room.id, {
+      name: room.name,
+      slug: room.slug,
+      deviceId: room.deviceId,
+      icon: room.icon,
+      isOutdoor: room.isOutdoor,
+      sortOrder: room.sortOrder,
+      floorplanHorizontal: room.floorplanHorizontal,
+    });
+    if (saved) {
+      setDirty((prev) => {
+        const next = new Set(prev);
+        next.delete(room.id ?? '');
+        return next;
+      });
+    }
+  };
+
+  const handleAddRoom = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/rooms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName, deviceId: newDeviceId, icon: newIcon }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Fehler beim Erstellen');
+      }
+
+      setRooms((prev) => [...prev, data]);
+      setNewName('');
+      setNewDeviceId('');
+      setNewIcon('Thermostat');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteRoom = async () => {
+    if (!deleteRoom?.id) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/rooms/${deleteRoom.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Fehler beim Löschen');
+      }
+
+      setRooms((prev) => prev.filter((room) => room.id !== deleteRoom.id));
+      setDeleteRoom(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Position of the pointer in % of the floorplan
+  const getPointerPosition = (e: React.PointerEvent): { x: number; y: number } | null => {
+    const rect = floorplanRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    const clamp = (value: number) => Math.min(100, Math.max(0, Math.round(value * 10) / 10));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 100),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 100),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const position = getPointerPosition(e);
+    if (position) updateLocal(dragging, { floorplanPosition: position });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragging) return;
+    const room = rooms.find((r) => r.id === dragging);
+    setDragging(null);
+    if (room?.floorplanPosition) {
+      saveRoom(dragging, { floorplanPosition: room.floorplanPosition });
+    }
+  };
+
+  return (
+    <Box sx={{ maxWidth: 1000 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Floorplan */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Grundriss
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Marker an die Position des Sensors ziehen. Die Position wird beim Loslassen gespeichert.
+        </Typography>
+        <Box
+          ref={floorplanRef}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          sx={{ position: 'relative', width: '100%', touchAction: dragging ? 'none' : 'auto', userSelect: 'none' }}
+        >
+          <FloorplanImage />
+          {rooms.map((room) =>
+            room.id && room.floorplanPosition ? (
+              <Box
+                key={room.id}
+                onPointerDown={(e) => {
+                  e.preventDefault();
+                  setDragging(room.id ?? null);
+                }}
+                sx={{
+                  position: 'absolute',
+                  left: `${room.floorplanPosition.x}%`,
+                  top: `${room.floorplanPosition.y}%`,
+                  transform: 'translate(-50%, -50%)',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 0.5,
+                  px: 1,
+                  py: 0.5,
+                  borderRadius: 1,
+                  bgcolor: dragging === room.id ? 'primary.main' : 'background.paper',
+                  color: dragging === room.id ? 'primary.contrastText' : 'text.primary',
+                  boxShadow: 3,
+                  cursor: dragging === room.id ? 'grabbing' : 'grab',
+                  touchAction: 'none',
+                }}
+              >
+                <RoomIcon icon={room.icon} fontSize="small" />
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  {room.name}
+                </Typography>
+              </Box>
+            ) : null
+          )}
+        </Box>
+      </Paper>
+
+      {/* Room List */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Räume
+        </Typography>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>URL</TableCell>
+                <TableCell>Device-ID</TableCell>
+                <TableCell>Symbol</TableCell>
+                <TableCell>Reihenfolge</TableCell>
+                <TableCell>Aussen</TableCell>
+                <TableCell>Werte nebeneinander</TableCell>
+                <TableCell align="right">Aktionen</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rooms.map((room) => {
+                const id = room.id ?? room.slug;
+                return (
+                  <TableRow key={id}>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        value={room.name}
+                        onChange={(e) => editRoom(id, { name: e.target.value })}
+                        sx={{ minWidth: 140 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        value={room.slug}
+                        onChange={(e) => editRoom(id, { slug: e.target.value })}
+                        sx={{ minWidth: 110 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        value={room.deviceId}
+                        onChange={(e) => editRoom(id, { deviceId: e.target.value })}
+                        placeholder="nicht installiert"
+                        sx={{ minWidth: 160 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        select
+                        size="small"
+                        value={room.icon}
+                        onChange={(e) => editRoom(id, { icon: e.target.value as ShellyRoomIcon })}
+                      >
+                        {SHELLY_ROOM_ICONS.map((icon) => (
+                          <MenuItem key={icon} value={icon}>
+                            <RoomIcon icon={icon} fontSize="small" />
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        type="number"
+                        value={room.sortOrder}
+                        onChange={(e) => editRoom(id, { sortOrder: parseInt(e.target.value, 10) || 0 })}
+                        sx={{ width: 80 }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={room.isOutdoor}
+                        onChange={(e) => editRoom(id, { isOutdoor: e.target.checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={room.floorplanHorizontal ?? false}
+                        onChange={(e) => editRoom(id, { floorplanHorizontal: e.target.checked })}
+                      />
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      {!room.floorplanPosition && (
+                        <IconButton
+                          size="small"
+                          title="Auf dem Grundriss platzieren"
+                          onClick={() => room.id && saveRoom(room.id, { floorplanPosition: { x: 50, y: 50 } })}
+                        >
+                          <PlaceIcon />
+                        </IconButton>
+                      )}
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        title="Speichern"
+                        disabled={!dirty.has(id)}
+                        onClick={() => handleSaveRow(room)}
+                      >
+                        <SaveIcon />
+                      </IconButton>
+                      <IconButton size="small" color="error" title="Löschen" onClick={() => setDeleteRoom(room)}>
+                        <DeleteIcon />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      {/* New Room */}
+      <Paper component="form" onSubmit={handleAddRoom} sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Neuer Raum
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+          <TextField
+            label="Name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            required
+          />
+          <TextField
+            label="Device-ID"
+            value={newDeviceId}
+            onChange={(e) => setNewDeviceId(e.target.value)}
+            helperText="Leer lassen, solange kein Sensor installiert ist"
+          />
+          <TextField
+            select
+            label="Symbol"
+            value={newIcon}
+            onChange={(e) => setNewIcon(e.target.value as ShellyRoomIcon)}
+            sx={{ width: 100 }}
+          >
+            {SHELLY_ROOM_ICONS.map((icon) => (
+              <MenuItem key={icon} value={icon}>
+                <RoomIcon icon={icon} fontSize="small" />
+              </MenuItem>
+            ))}
+          </TextField>
+          <Button type="submit" variant="contained" startIcon={<AddIcon />} disabled={loading}>
+            Hinzufügen
+          </Button>
+        </Box>
+      </Paper>
+
+      {/* Delete Dialog */}
+      <Dialog open={deleteRoom !== null} onClose={() => setDeleteRoom(null)}>
+        <DialogTitle>Raum löschen?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Möchtest du den Raum &quot;{deleteRoom?.name}&quot; wirklich löschen? Die gespeicherten Messwerte des
+            Sensors bleiben erhalten.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteRoom(null)}>Abbrechen</Button>
+          <Button onClick={handleDeleteRoom} color="error" disabled={loading}>
+            Löschen
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,469 @@
+/**
+ * Settings Form Component
+ * Edits household members over time, location, tariffs, heating comfort, battery and gas
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+  IconButton,
+  InputAdornment,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SaveIcon from '@mui/icons-material/Save';
+import MapIcon from '@mui/icons-material/Map';
+import type { AppSettings, HouseholdPeriod } from '@/lib/settings-config';
+import type { ElectricityTariff } from '@/lib/electricity-costs';
+import { filterIndoorRooms, ShellyRoom } from '@/lib/shelly-config';
+
+// Monday first, values are JS weekdays (0 = Sunday)
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Mo' },
+  { value: 2, label: 'Di' },
+  { value: 3, label: 'Mi' },
+  { value: 4, label: 'Do' },
+  { value: 5, label: 'Fr' },
+  { value: 6, label: 'Sa' },
+  { value: 0, label: 'So' },
+];
+
+interface SettingsFormProps {
+  initialSettings: AppSettings;
+  rooms: ShellyRoom[];
+}
+
+export function SettingsForm({ initialSettings, rooms }: SettingsFormProps) {
+  const router = useRouter();
+  const [periods, setPeriods] = useState<HouseholdPeriod[]>(initialSettings.householdMembers);
+  const [locationName, setLocationName] = useState(initialSettings.location.name);
+  const [lat, setLat] = useState(String(initialSettings.location.lat));
+  const [lon, setLon] = useState(String(initialSettings.location.lon));
+  const [waterPrice, setWaterPrice] = useState(String(initialSettings.waterPricePerM3));
+  const [tariffs, setTariffs] = useState<ElectricityTariff[]>(initialSettings.electricityTariffs);
+  const [comfortTemperature, setComfortTemperature] = useState(String(initialSettings.heating.comfortTemperature));
+  const [livingRooms, setLivingRooms] = useState<string[]>(initialSettings.heating.livingRooms);
+  const [batteryCapacity, setBatteryCapacity] = useState(String(initialSettings.battery.capacityKwh));
+  const [reserveSoc, setReserveSoc] = useState(String(initialSettings.battery.reserveSoc));
+  const [maxGasBottles, setMaxGasBottles] = useState(String(initialSettings.gas.maxActiveBottles));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const updatePeriod = (index: number, changes: Partial<HouseholdPeriod>) => {
+    setPeriods((prev) => prev.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const handleAddPeriod = () => {
+    const last = periods[periods.length - 1];
+    setPeriods([
+      ...periods,
+      { from: new Date().toISOString().split('T')[0], members: last?.members ?? 1 },
+    ]);
+  };
+
+  const updateTariff = (index: number, changes: Partial<ElectricityTariff>) => {
+    setTariffs((prev) => prev.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+  };
+
+  const handleAddTariff = () => {
+    const last = tariffs[tariffs.length - 1];
+    setTariffs([...tariffs, { ...last, validFrom: new Date().toISOString().split('T')[0] }]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          householdMembers: periods,
+          location: { name: locationName, lat: parseFloat(lat), lon: parseFloat(lon) },
+          waterPricePerM3: parseFloat(waterPrice),
+          electricityTariffs: tariffs,
+          heating: { comfortTemperature: parseFloat(comfortTemperature), livingRooms },
+          battery: { capacityKwh: parseFloat(batteryCapacity), reserveSoc: parseFloat(reserveSoc) },
+          gas: { maxActiveBottles: parseInt(maxGasBottles, 10) },
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Fehler beim Speichern');
+      }
+
+      setPeriods(data.householdMembers);
+      setTariffs(data.electricityTariffs);
+      setSuccess(true);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} sx={{ maxWidth: 720 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(false)}>
+          Einstellungen gespeichert
+        </Alert>
+      )}
+
+      {/* Household */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Haushalt
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Anzahl Personen ab Datum. Bei Änderungen unter dem Jahr wird tageweise gewichtet.
+        </Typography>
+
+        {periods.map((period, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 2, mb: 2, alignItems: 'center' }}>
+            <TextField
+              label="Ab"
+              type="date"
+              value={period.from}
+              onChange={(e) => updatePeriod(index, { from: e.target.value })}
+              required
+              slotProps={{
+                inputLabel: { shrink: true },
+              }}
+            />
+            <TextField
+              label="Personen"
+              type="number"
+              value={period.members}
+              onChange={(e) => updatePeriod(index, { members: parseInt(e.target.value, 10) || 0 })}
+              required
+              slotProps={{
+                htmlInput: { min: 1, step: 1 },
+              }}
+            />
+            <IconButton
+              color="error"
+              onClick={() => setPeriods(periods.filter((_, i) => i !== index))}
+              disabled={periods.length === 1}
+            >
+              <DeleteIcon />
+            </IconButton>
+          </Box>
+        ))}
+
+        <Button startIcon={<AddIcon />} onClick={handleAddPeriod}>
+          Zeitraum hinzufügen
+        </Button>
+      </Paper>
+
+      {/* Location */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Standort
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Wird für Wetterdaten und Sonnenstand verwendet.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', sm: 'row' } }}>
+          <TextField
+            label="Ort"
+            value={locationName}
+            onChange={(e) => setLocationName(e.target.value)}
+            required
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            label="Breitengrad"
+            type="number"
+            value={lat}
+            onChange={(e) => setLat(e.target.value)}
+            required
+            slotProps={{
+              htmlInput: { step: 0.0001, min: -90, max: 90 },
+            }}
+          />
+          <TextField
+            label="Längengrad"
+            type="number"
+            value={lon}
+            onChange={(e) => setLon(e.target.value)}
+            required
+            slotProps={{
+              htmlInput: { step: 0.0001, min: -180, max: 180 },
+            }}
+          />
+        </Box>
+      </Paper>
+
+      {/* Water tariff */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Wasser
+        </Typography>
+        <TextField
+          label="Wasserpreis"
+          type="number"
+          value={waterPrice}
+          onChange={(e) => setWaterPrice(e.target.value)}
+          required
+          slotProps={{
+            htmlInput: { step: 0.01, min: 0 },
+            input: { endAdornment: <InputAdornment position="end">CHF/m³</InputAdornment> },
+          }}
+        />
+      </Paper>
+
+      {/* Electricity tariffs */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Stromtarife
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Hochtarif (HT) gilt an den gewählten Wochentagen im Zeitfenster, sonst Niedertarif (NT).
+          Jeder Tarif gilt bis zum nächsten Ab-Datum.
+        </Typography>
+
+        {tariffs.map((tariff, index) => (
+          <Box
+            key={index}
+            sx={{ mb: 3, pb: 2, borderBottom: index < tariffs.length - 1 ? 1 : 0, borderColor: 'divider' }}
+          >
+            <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+              <TextField
+                label="Ab"
+                type="date"
+                value={tariff.validFrom}
+                onChange={(e) => updateTariff(index, { validFrom: e.target.value })}
+                required
+                slotProps={{
+                  inputLabel: { shrink: true },
+                }}
+              />
+              <TextField
+                label="HT"
+                type="number"
+                value={tariff.highRate}
+                onChange={(e) => updateTariff(index, { highRate: parseFloat(e.target.value) })}
+                required
+                sx={{ width: 150 }}
+                slotProps={{
+                  htmlInput: { step: 0.001, min: 0 },
+                  input: { endAdornment: <InputAdornment position="end">CHF/kWh</InputAdornment> },
+                }}
+              />
+              <TextField
+                label="NT"
+                type="number"
+                value={tariff.lowRate}
+                onChange={(e) => updateTariff(index, { lowRate: parseFloat(e.target.value) })}
+                required
+                sx={{ width: 150 }}
+                slotProps={{
+                  htmlInput: { step: 0.001, min: 0 },
+                  input: { endAdornment: <InputAdornment position="end">CHF/kWh</InputAdornment> },
+                }}
+              />
+              <TextField
+                label="Einspeisung"
+                type="number"
+                value={tariff.feedInRate}
+                onChange={(e) => updateTariff(index, { feedInRate: parseFloat(e.target.value) })}
+                required
+                sx={{ width: 150 }}
+                slotProps={{
+                  htmlInput: { step: 0.001, min: 0 },
+                  input: { endAdornment: <InputAdornment position="end">CHF/kWh</InputAdornment> },
+                }}
+              />
+              <IconButton
+                color="error"
+                onClick={() => setTariffs(tariffs.filter((_, i) => i !== index))}
+                disabled={tariffs.length === 1}
+              >
+                <DeleteIcon />
+              </IconButton>
+            </Box>
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+              <ToggleButtonGroup
+                size="small"
+                value={tariff.highTariffDays}
+                onChange={(_, days: number[]) => updateTariff(index, { highTariffDays: days })}
+              >
+                {WEEKDAY_OPTIONS.map((day) => (
+                  <ToggleButton key={day.value} value={day.value}>
+                    {day.label}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+              <TextField
+                label="HT von"
+                type="number"
+                size="small"
+                value={tariff.highTariffStart}
+                onChange={(e) => updateTariff(index, { highTariffStart: parseFloat(e.target.value) })}
+                required
+                sx={{ width: 110 }}
+                slotProps={{
+                  htmlInput: { step: 0.5, min: 0, max: 24 },
+                  input: { endAdornment: <InputAdornment position="end">h</InputAdornment> },
+                }}
+              />
+              <TextField
+                label="HT bis"
+                type="number"
+                size="small"
+                value={tariff.highTariffEnd}
+                onChange={(e) => updateTariff(index, { highTariffEnd: parseFloat(e.target.value) })}
+                required
+                sx={{ width: 110 }}
+                slotProps={{
+                  htmlInput: { step: 0.5, min: 0, max: 24 },
+                  input: { endAdornment: <InputAdornment position="end">h</InputAdornment> },
+                }}
+              />
+            </Box>
+          </Box>
+        ))}
+
+        <Button startIcon={<AddIcon />} onClick={handleAddTariff}>
+          Tarif hinzufügen
+        </Button>
+      </Paper>
+
+      {/* Heating */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Heizung
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Fällt ein Wohnraum unter die Komforttemperatur, wird Anfeuern empfohlen.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+          <TextField
+            label="Komforttemperatur"
+            type="number"
+            value={comfortTemperature}
+            onChange={(e) => setComfortTemperature(e.target.value)}
+            required
+            sx={{ width: 180 }}
+            slotProps={{
+              htmlInput: { step: 0.5, min: 10, max: 30 },
+              input: { endAdornment: <InputAdornment position="end">°C</InputAdornment> },
+            }}
+          />
+          <ToggleButtonGroup
+            size="small"
+            value={livingRooms}
+            onChange={(_, selected: string[]) => setLivingRooms(selected)}
+          >
+            {filterIndoorRooms(rooms).map((room) => (
+              <ToggleButton key={room.slug} value={room.slug}>
+                {room.name}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+      </Paper>
+
+      {/* Battery */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Batterie
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Die Autarkie-Prognose rechnet bis zur Reserve. Mit Kapazität 0 wird sie aus den Entladungen geschätzt.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+          <TextField
+            label="Nutzbare Kapazität"
+            type="number"
+            value={batteryCapacity}
+            onChange={(e) => setBatteryCapacity(e.target.value)}
+            required
+            sx={{ width: 180 }}
+            slotProps={{
+              htmlInput: { step: 0.1, min: 0 },
+              input: { endAdornment: <InputAdornment position="end">kWh</InputAdornment> },
+            }}
+          />
+          <TextField
+            label="Reserve"
+            type="number"
+            value={reserveSoc}
+            onChange={(e) => setReserveSoc(e.target.value)}
+            required
+            sx={{ width: 180 }}
+            slotProps={{
+              htmlInput: { step: 1, min: 0, max: 100 },
+              input: { endAdornment: <InputAdornment position="end">%</InputAdornment> },
+            }}
+          />
+        </Box>
+      </Paper>
+
+      {/* Gas */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Gas
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Wie viele Flaschen gleichzeitig angeschlossen sein können (z.B. 2 mit Umschaltventil).
+        </Typography>
+        <TextField
+          label="Angeschlossene Flaschen"
+          type="number"
+          value={maxGasBottles}
+          onChange={(e) => setMaxGasBottles(e.target.value)}
+          required
+          sx={{ width: 180 }}
+          slotProps={{ htmlInput: { step: 1, min: 1 } }}
+        />
+      </Paper>
+
+      {/* Rooms */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Räume
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {rooms.length} Räume mit Shelly Sensoren. Räume, Sensoren und Positionen auf dem Grundriss werden
+          separat verwaltet.
+        </Typography>
+        <Button component={Link} href="/settings/rooms" startIcon={<MapIcon />}>
+          Räume verwalten
+        </Button>
+      </Paper>
+
+      <Button
+        type="submit"
+        variant="contained"
+        startIcon={<SaveIcon />}
+        disabled={loading}
+      >
+        {loading ? 'Wird gespeichert...' : 'Speichern'}
+      </Button>
+    </Box>
+  );
+}
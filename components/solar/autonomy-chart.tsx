@@ -0,0 +1,61 @@
+/**
+ * Autonomy Chart Component
+ * Client component for rendering the projected battery SOC with the reserve line
+ */
+
+'use client';
+
+import { LineChart } from '@mui/x-charts/LineChart';
+import { ChartsReferenceLine } from '@mui/x-charts/ChartsReferenceLine';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import type { AutonomyPoint } from '@/lib/autonomy';
+
+interface AutonomyChartProps {
+  points: AutonomyPoint[];
+  reserveSoc: number;
+}
+
+export function AutonomyChart({ points, reserveSoc }: AutonomyChartProps) {
+  if (points.length === 0) {
+    return <div>Keine Daten verfügbar</div>;
+  }
+
+  const dataset = points.map((point) => ({
+    time: new Date(point.timestamp),
+    soc: Number(point.soc.toFixed(1)),
+    solar: Number(point.solar.toFixed(2)),
+    consumption: Number(point.consumption.toFixed(2)),
+  }));
+
+  return (
+    <LineChart
+      dataset={dataset}
+      xAxis={[
+        {
+          scaleType: 'time',
+          dataKey: 'time',
+          valueFormatter: (value: Date) => format(value, 'EEEEEE HH:mm', { locale: de }),
+        },
+      ]}
+      yAxis={[
+        { id: 'soc', min: 0, max: 100, label: '%' },
+        { id: 'energy', position: 'right', label: 'kWh/h' },
+      ]}
+      series={[
+        { dataKey: 'soc', yAxisId: 'soc', label: 'SOC (Prognose)', color: '#66bb6a', showMark: false, area: true },
+        { dataKey: 'solar', yAxisId: 'energy', label: 'PV', color: '#ffa726', showMark: false },
+        { dataKey: 'consumption', yAxisId: 'energy', label: 'Verbrauch', color: '#42a5f5', showMark: false },
+      ]}
+      height={300}
+    >
+      <ChartsReferenceLine
+        y={reserveSoc}
+        axisId="soc"
+        label={`Reserve ${reserveSoc} %`}
+        lineStyle={{ stroke: '#ef5350', strokeDasharray: '6 4' }}
+        labelStyle={{ fill: '#ef5350', fontSize: 12 }}
+      />
+    </LineChart>
+  );
+}
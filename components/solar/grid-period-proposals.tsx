@@ -0,0 +1,184 @@
+/**
+ * Grid Period Proposals Component
+ * Shows connection intervals inferred from the grid import that differ
+ * from the recorded periods, admins can accept them with one click
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import CheckIcon from '@mui/icons-material/Check';
+import {
+  GridPeriodInference,
+  GridPeriodProposal,
+  getConfidenceLevel,
+} from '@/lib/grid-periods-config';
+
+interface GridPeriodProposalsProps {
+  inference: GridPeriodInference;
+}
+
+const CONFIDENCE_CHIPS = {
+  high: { label: 'Hoch', color: 'success' as const },
+  medium: { label: 'Mittel', color: 'warning' as const },
+  low: { label: 'Niedrig', color: 'default' as const },
+};
+
+function formatDate(date: string | null): string {
+  return date ? new Date(date).toLocaleDateString('de-DE') : 'Noch am Netz';
+}
+
+export function GridPeriodProposals({ inference }: GridPeriodProposalsProps) {
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [saving, setSaving] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { proposals, flags } = inference;
+
+  if (proposals.length === 0 && flags.length === 0) {
+    return null;
+  }
+
+  const canAccept = (proposal: GridPeriodProposal) =>
+    proposal.mismatch === 'unrecorded' || !!proposal.periodId;
+
+  const handleAccept = async (proposal: GridPeriodProposal, index: number) => {
+    setSaving(index);
+    setError(null);
+
+    try {
+      const body = JSON.stringify({ gridOn: proposal.gridOn, gridOff: proposal.gridOff });
+      const response = proposal.periodId
+        ? await fetch(`/api/grid-periods/${proposal.periodId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+          })
+        : await fetch('/api/grid-periods', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+          });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Fehler beim Übernehmen');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Paper
+      elevation={3}
+      sx={{
+        p: { xs: 2, sm: 3, md: 4 },
+        mb: 4,
+        background:
+          'linear-gradient(135deg, rgba(255, 167, 38, 0.1) 0%, rgba(255, 167, 38, 0.05) 100%)',
+      }}
+    >
+      <Typography variant="h6" sx={{ fontWeight: 600, mb: 1 }}>
+        🔍 Erkannte Netzperioden
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Aus dem gemessenen Netzbezug ({formatDate(inference.scannedFrom)} – {formatDate(inference.scannedTo)}),
+        nur Abweichungen zu den erfassten Perioden
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {flags.map((flag) => (
+        <Alert key={flag.gridOn} severity="warning" sx={{ mb: 2 }}>
+          Erfasste Periode {formatDate(flag.gridOn)} – {formatDate(flag.gridOff)}: kein Netzbezug gemessen
+          ({flag.coveredDays} Tage mit Daten)
+        </Alert>
+      ))}
+
+      {proposals.length > 0 && (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Grid On</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Grid Off</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">Tage mit Bezug</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">Bezug</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Konfidenz</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Abweichung</TableCell>
+                {session && <TableCell />}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {proposals.map((proposal, index) => {
+                const confidence = CONFIDENCE_CHIPS[getConfidenceLevel(proposal.confidence)];
+                return (
+                  <TableRow key={`${proposal.gridOn}-${proposal.gridOff}`} hover>
+                    <TableCell>{formatDate(proposal.gridOn)}</TableCell>
+                    <TableCell>{formatDate(proposal.gridOff)}</TableCell>
+                    <TableCell align="right">{proposal.connectedDays}</TableCell>
+                    <TableCell align="right">{proposal.importKwh.toFixed(1)} kWh</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={`${confidence.label} (${Math.round(proposal.confidence * 100)}%)`}
+                        color={confidence.color}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {proposal.mismatch === 'unrecorded'
+                        ? 'Nicht erfasst'
+                        : proposal.periodId
+                          ? 'Datum weicht ab'
+                          : 'Mehrere erfasste Perioden betroffen'}
+                    </TableCell>
+                    {session && (
+                      <TableCell align="right">
+                        <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                          <Button
+                            size="small"
+                            startIcon={<CheckIcon />}
+                            onClick={() => handleAccept(proposal, index)}
+                            disabled={!canAccept(proposal) || saving !== null}
+                          >
+                            {saving === index ? 'Wird gespeichert...' : 'Übernehmen'}
+                          </Button>
+                        </Box>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+}
@@ -1,17 +1,17 @@
 /**
  * LiveStats Component
- * Client-side component that polls Victron API for real-time solar data
+ * Client-side component with real-time solar data from the live event stream
  */
 
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Box, CircularProgress, Alert, Paper, Typography } from '@mui/material';
+import { Box, Alert, Paper, Typography } from '@mui/material';
 import BoltIcon from '@mui/icons-material/Bolt';
 import BatteryChargingFullIcon from '@mui/icons-material/BatteryChargingFull';
 import WbSunnyIcon from '@mui/icons-material/WbSunny';
 import FlashOnIcon from '@mui/icons-material/FlashOn';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import { useLive } from '@/components/providers/live-provider';
 
 interface SolarData {
   currentPower: number;
@@ -32,69 +32,28 @@ interface AutarkieStats {
 }
 
 interface LiveStatsProps {
+  installation: string; // Installation ID or 'all' for the sum
   initialData: SolarData;
   todayPeak: number;
   autarkieStats?: AutarkieStats | null;
 }
 
-export function LiveStats({ initialData, todayPeak, autarkieStats }: LiveStatsProps) {
-  const [data, setData] = useState<SolarData>(initialData);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+export function LiveStats({ installation, initialData, todayPeak, autarkieStats }: LiveStatsProps) {
+  const { data: live, connection } = useLive();
 
-  useEffect(() => {
-    // Function to fetch latest data
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-
-        // Add cache-busting timestamp and disable caching
-        const response = await fetch(
-          `/api/victron/stats?interval=15mins&t=${Date.now()}`,
-          { cache: 'no-store' }
-        );
-
-        if (!response.ok) {
-          throw new Error('Failed to fetch data');
-        }
-
-        const result = await response.json();
-        setData(result.processed);
-        setLastUpdate(new Date());
-      } catch (err) {
-        console.error('Error fetching live data:', err);
-        setError(err instanceof Error ? err.message : 'Unknown error');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    // Fetch immediately on mount
-    fetchData();
-
-    // Poll interval: 60s in development (rate limiting), 15s in production
-    const pollInterval = process.env.NODE_ENV === 'development' ? 60000 : 15000;
-    const interval = setInterval(fetchData, pollInterval);
-
-    // Cleanup on unmount
-    return () => clearInterval(interval);
-  }, []);
+  // Live values replace the server-rendered ones as soon as they arrive
+  const data: SolarData = {
+    ...initialData,
+    ...live.solar?.[installation],
+    ...live.battery?.[installation],
+  };
 
   return (
     <>
-      {/* Loading indicator */}
-      {loading && (
-        <Box sx={{ position: 'fixed', top: 16, right: 16, zIndex: 9999 }}>
-          <CircularProgress size={24} />
-        </Box>
-      )}
-
-      {/* Error alert */}
-      {error && (
-        <Alert severity="error" sx={{ mb: 2 }}>
-          Fehler beim Aktualisieren: {error}
+      {/* Connection error, EventSource keeps reconnecting */}
+      {connection === 'error' && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Live-Verbindung unterbrochen, Werte werden nicht aktualisiert
         </Alert>
       )}
 
@@ -0,0 +1,57 @@
+/**
+ * Monthly Water Consumption Chart
+ * Shows consumption per month derived from meter readings
+ */
+
+'use client';
+
+import { BarChart } from '@mui/x-charts/BarChart';
+import { Box } from '@mui/material';
+import { MonthlyConsumption } from '@/lib/water-data';
+
+interface MonthlyConsumptionChartProps {
+  data: MonthlyConsumption[];
+}
+
+const MAX_MONTHS = 24;
+
+export function MonthlyConsumptionChart({ data }: MonthlyConsumptionChartProps) {
+  if (!data || data.length === 0) {
+    return <Box>Keine Daten verfügbar</Box>;
+  }
+
+  const chartData = data.slice(-MAX_MONTHS).map((item) => {
+    const [year, month] = item.month.split('-');
+    return {
+      label: `${month}.${year.slice(2)}`,
+      consumption: item.consumption,
+    };
+  });
+
+  return (
+    <BarChart
+      dataset={chartData}
+      xAxis={[
+        {
+          scaleType: 'band',
+          dataKey: 'label',
+          categoryGapRatio: 0.3,
+        },
+      ]}
+      yAxis={[
+        {
+          label: 'Wasserverbrauch (m³)',
+        },
+      ]}
+      series={[
+        {
+          dataKey: 'consumption',
+          label: 'Verbrauch',
+          color: '#0ea5e9',
+          valueFormatter: (value) => `${value} m³`,
+        },
+      ]}
+      height={300}
+    />
+  );
+}
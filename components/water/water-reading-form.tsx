@@ -0,0 +1,120 @@
+/**
+ * Water Reading Form Component
+ * Form to add a new water meter reading (only visible when authenticated)
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import {
+  Box,
+  Button,
+  TextField,
+  Paper,
+  Typography,
+  Alert,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+
+export function WaterReadingForm() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [value, setValue] = useState('');
+  const [photoNote, setPhotoNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Don't render if not authenticated
+  if (!session) {
+    return null;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/water', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date,
+          value: parseFloat(value),
+          photoNote: photoNote || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Fehler beim Erstellen');
+      }
+
+      setValue('');
+      setPhotoNote('');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unbekannter Fehler');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: { xs: 2, sm: 3, md: 4 }, mb: 4 }}>
+      <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+        📝 Zählerstand erfassen
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box
+        component="form"
+        onSubmit={handleSubmit}
+        sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', md: 'row' } }}
+      >
+        <TextField
+          label="Datum"
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          required
+          slotProps={{
+            inputLabel: { shrink: true },
+          }}
+        />
+        <TextField
+          label="Zählerstand (m³)"
+          type="number"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          required
+          slotProps={{
+            htmlInput: { min: 0, step: 0.001 },
+          }}
+        />
+        <TextField
+          label="Foto-Notiz (optional)"
+          value={photoNote}
+          onChange={(e) => setPhotoNote(e.target.value)}
+          sx={{ flex: 1 }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          startIcon={<AddIcon />}
+          disabled={loading || value === ''}
+        >
+          {loading ? 'Wird gespeichert...' : 'Speichern'}
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
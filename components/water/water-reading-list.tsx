@@ -0,0 +1,149 @@
+/**
+ * Water Reading List Component
+ * Shows all meter readings with consumption since the previous reading
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import {
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import type { WaterReading } from '@/lib/water';
+
+interface WaterReadingListProps {
+  readings: WaterReading[]; // Oldest first
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+export function WaterReadingList({ readings }: WaterReadingListProps) {
+  const { data: session } = useSession();
+  const isAuthenticated = !!session;
+  const router = useRouter();
+  const [selectedReading, setSelectedReading] = useState<WaterReading | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const rows = readings
+    .map((reading, index) => {
+      const previous = index > 0 ? readings[index - 1] : null;
+      if (!previous) return { reading, delta: null, litersPerDay: null };
+
+      const delta = reading.value - previous.value;
+      const days = (new Date(reading.date).getTime() - new Date(previous.date).getTime()) / (1000 * 60 * 60 * 24);
+      return {
+        reading,
+        delta,
+        litersPerDay: delta >= 0 && days > 0 ? (delta * 1000) / days : null,
+      };
+    })
+    .reverse(); // Newest first
+
+  const handleDeleteReading = async () => {
+    if (!selectedReading) return;
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/water/${selectedReading._id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Fehler beim Löschen');
+      }
+
+      setSelectedReading(null);
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting reading:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (readings.length === 0) {
+    return (
+      <Typography color="text.secondary">
+        Noch keine Zählerstände erfasst.
+      </Typography>
+    );
+  }
+
+  return (
+    <>
+      <TableContainer sx={{ maxHeight: 400 }}>
+        <Table stickyHeader size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Datum</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Zählerstand</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Differenz</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">Ø pro Tag</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Foto-Notiz</TableCell>
+              {isAuthenticated && <TableCell sx={{ fontWeight: 600 }} align="right">Aktionen</TableCell>}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(({ reading, delta, litersPerDay }) => (
+              <TableRow key={reading._id} hover>
+                <TableCell>{formatDate(reading.date)}</TableCell>
+                <TableCell align="right">{reading.value.toFixed(3)} m³</TableCell>
+                <TableCell align="right">
+                  {delta === null ? '-' : delta < 0 ? 'Zählerwechsel' : `${delta.toFixed(3)} m³`}
+                </TableCell>
+                <TableCell align="right">
+                  {litersPerDay === null ? '-' : `${litersPerDay.toFixed(0)} L`}
+                </TableCell>
+                <TableCell>{reading.photoNote || '-'}</TableCell>
+                {isAuthenticated && (
+                  <TableCell align="right">
+                    <IconButton size="small" color="error" onClick={() => setSelectedReading(reading)}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Delete Dialog */}
+      <Dialog open={selectedReading !== null} onClose={() => setSelectedReading(null)}>
+        <DialogTitle>Zählerstand löschen?</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Möchtest du den Zählerstand vom {selectedReading && formatDate(selectedReading.date)} wirklich löschen?
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelectedReading(null)}>Abbrechen</Button>
+          <Button onClick={handleDeleteReading} color="error" variant="contained" disabled={loading}>
+            Löschen
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
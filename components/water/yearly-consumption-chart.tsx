@@ -7,26 +7,30 @@
 
 import { BarChart } from '@mui/x-charts/BarChart';
 import { Box, Chip } from '@mui/material';
-import { YearlyConsumption, SWISS_AVERAGE_YEARLY, HOUSEHOLD_SIZE } from '@/lib/water-data';
+import { YearlyConsumption, SWISS_AVERAGE_YEARLY } from '@/lib/water-data';
 
 interface YearlyConsumptionChartProps {
   data: YearlyConsumption[];
+  householdMembers: number;
 }
 
-export function YearlyConsumptionChart({ data }: YearlyConsumptionChartProps) {
+export function YearlyConsumptionChart({ data, householdMembers }: YearlyConsumptionChartProps) {
   if (!data || data.length === 0) {
     return <Box>Keine Daten verfügbar</Box>;
   }
 
-  const swissAverageForHousehold = SWISS_AVERAGE_YEARLY * HOUSEHOLD_SIZE;
+  const swissAverageForHousehold = SWISS_AVERAGE_YEARLY * householdMembers;
 
-  // Prepare chart data
+  // Prepare chart data, the projection is stacked on top of the measured value
   const chartData = data.map((item) => ({
     year: item.year,
     consumption: item.consumption,
+    projection: item.extrapolated !== undefined ? Math.max(0, item.extrapolated - item.consumption) : 0,
     average: swissAverageForHousehold,
     isComplete: item.isComplete,
   }));
+  const hasProjection = chartData.some((item) => item.projection > 0);
+  const notes = data.filter((item) => item.note);
 
   return (
     <Box>
@@ -50,6 +54,7 @@ export function YearlyConsumptionChart({ data }: YearlyConsumptionChartProps) {
             dataKey: 'consumption',
             label: 'Unser Verbrauch',
             color: '#0ea5e9',
+            stack: 'total',
             valueFormatter: (value, context) => {
               const item = chartData[context.dataIndex];
               if (!item.isComplete) {
@@ -58,12 +63,33 @@ export function YearlyConsumptionChart({ data }: YearlyConsumptionChartProps) {
               return `${value} m³`;
             },
           },
+          ...(hasProjection
+            ? [
+                {
+                  dataKey: 'projection',
+                  label: 'Hochrechnung',
+                  color: '#bae6fd',
+                  stack: 'total',
+                  valueFormatter: (value: number | null, context: { dataIndex: number }) => {
+                    const item = data[context.dataIndex];
+                    return item.extrapolated !== undefined ? `${item.extrapolated} m³ (Jahr)` : null;
+                  },
+                },
+              ]
+            : []),
         ]}
         height={350}
       />
       <Box sx={{ mt: 2, display: 'flex', gap: 1, flexWrap: 'wrap', justifyContent: 'center' }}>
-        <Chip label="2022: Einzug September - unvollständige Daten" size="small" color="warning" variant="outlined" />
-        <Chip label="Schweizer Durchschnitt: 102,2 m³/Jahr (2 Personen)" size="small" color="info" variant="outlined" />
+        {notes.map((item) => (
+          <Chip key={item.year} label={`${item.year}: ${item.note}`} size="small" color="warning" variant="outlined" />
+        ))}
+        <Chip
+          label={`Schweizer Durchschnitt: ${swissAverageForHousehold.toFixed(1)} m³/Jahr (${Number.isInteger(householdMembers) ? householdMembers : householdMembers.toFixed(1)} Personen)`}
+          size="small"
+          color="info"
+          variant="outlined"
+        />
       </Box>
     </Box>
   );
@@ -0,0 +1,147 @@
+/**
+ * Alert Notification Channels
+ * Pluggable delivery of triggered alerts (webhook, SMTP, ntfy-style push)
+ *
+ * Channels are configured via environment variables. A channel without
+ * configuration is skipped silently.
+ */
+
+import nodemailer from 'nodemailer';
+import type { AlertChannelType } from './alert-config';
+
+export interface AlertNotification {
+  title: string;
+  message: string;
+  ruleName: string;
+  metric: string;
+  deviceId?: string;
+  value: number;
+  threshold: number;
+  triggeredAt: Date;
+}
+
+export interface AlertChannel {
+  type: AlertChannelType;
+  isConfigured(): boolean;
+  send(notification: AlertNotification): Promise<void>;
+}
+
+/**
+ * Generic webhook: POSTs the notification as JSON
+ * Env: ALERT_WEBHOOK_URL
+ */
+const webhookChannel: AlertChannel = {
+  type: 'webhook',
+  isConfigured: () => !!process.env.ALERT_WEBHOOK_URL,
+  async send(notification) {
+    const response = await fetch(process.env.ALERT_WEBHOOK_URL!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notification),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook failed: ${response.status} ${response.statusText}`);
+    }
+  },
+};
+
+/**
+ * E-Mail via SMTP
+ * Env: SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, ALERT_EMAIL_FROM, ALERT_EMAIL_TO
+ */
+const emailChannel: AlertChannel = {
+  type: 'email',
+  isConfigured: () => !!process.env.SMTP_HOST && !!process.env.ALERT_EMAIL_TO,
+  async send(notification) {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    const transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+
+    await transporter.sendMail({
+      from: process.env.ALERT_EMAIL_FROM || process.env.SMTP_USER,
+      to: process.env.ALERT_EMAIL_TO,
+      subject: `[CMI Dashboard] ${notification.title}`,
+      text: `${notification.message}\n\nRegel: ${notification.ruleName}\nZeitpunkt: ${notification.triggeredAt.toLocaleString('de-CH', { timeZone: 'Europe/Zurich' })}`,
+    });
+  },
+};
+
+/**
+ * ntfy-style push: POSTs the message as plain text to a topic URL
+ * Env: ALERT_NTFY_URL (e.g. https://ntfy.sh/my-topic), optional ALERT_NTFY_TOKEN
+ */
+const ntfyChannel: AlertChannel = {
+  type: 'ntfy',
+  isConfigured: () => !!process.env.ALERT_NTFY_URL,
+  async send(notification) {
+    const headers: Record<string, string> = {
+      Title: notification.title,
+      Tags: 'warning',
+    };
+    if (process.env.ALERT_NTFY_TOKEN) {
+      headers.Authorization = `Bearer ${process.env.ALERT_NTFY_TOKEN}`;
+    }
+
+    const response = await fetch(process.env.ALERT_NTFY_URL!, {
+      method: 'POST',
+      headers,
+      body: notification.message,
+    });
+
+    if (!response.ok) {
+      throw new Error(`ntfy push failed: ${response.status} ${response.statusText}`);
+    }
+  },
+};
+
+const ALERT_CHANNELS: Record<AlertChannelType, AlertChannel> = {
+  webhook: webhookChannel,
+  email: emailChannel,
+  ntfy: ntfyChannel,
+};
+
+/**
+ * Get all channels that have configuration
+ */
+export function getConfiguredChannels(): AlertChannelType[] {
+  return Object.values(ALERT_CHANNELS)
+    .filter((channel) => channel.isConfigured())
+    .map((channel) => channel.type);
+}
+
+/**
+ * Send a notification through the requested channels
+ * An empty list means all configured channels. Failures are logged, not thrown.
+ */
+export async function dispatchAlert(
+  notification: AlertNotification,
+  channels: AlertChannelType[]
+): Promise<{ delivered: AlertChannelType[]; failed: AlertChannelType[] }> {
+  const targets = (channels.length > 0 ? channels : getConfiguredChannels())
+    .map((type) => ALERT_CHANNELS[type])
+    .filter((channel) => channel && channel.isConfigured());
+
+  const delivered: AlertChannelType[] = [];
+  const failed: AlertChannelType[] = [];
+
+  await Promise.all(
+    targets.map(async (channel) => {
+      try {
+        await channel.send(notification);
+        delivered.push(channel.type);
+      } catch (error) {
+        console.error(`[Alerts] Channel ${channel.type} failed:`, error);
+        failed.push(channel.type);
+      }
+    })
+  );
+
+  return { delivered, failed };
+}
@@ -0,0 +1,67 @@
+/**
+ * Alert Configuration
+ * Metrics, comparisons and channels available for alert rules
+ * Shared between server (engine, models) and client (alerts page)
+ */
+
+import type { OvenState } from '@/types/dashboard';
+
+export type AlertMetric = 'temperature' | 'humidity' | 'sensor_battery' | 'battery_soc' | 'oven_state';
+export type AlertComparison = 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
+export type AlertChannelType = 'webhook' | 'email' | 'ntfy';
+
+export const ALERT_METRICS: AlertMetric[] = ['temperature', 'humidity', 'sensor_battery', 'battery_soc', 'oven_state'];
+export const ALERT_COMPARISONS: AlertComparison[] = ['gt', 'gte', 'lt', 'lte', 'eq'];
+export const ALERT_CHANNEL_TYPES: AlertChannelType[] = ['webhook', 'email', 'ntfy'];
+
+// Metrics that are measured per Shelly sensor (rule may target a deviceId)
+export const SENSOR_METRICS: AlertMetric[] = ['temperature', 'humidity', 'sensor_battery'];
+
+export const METRIC_LABELS: Record<AlertMetric, string> = {
+  temperature: 'Temperatur',
+  humidity: 'Luftfeuchtigkeit',
+  sensor_battery: 'Sensor-Batterie',
+  battery_soc: 'Batterieladung (Solar)',
+  oven_state: 'Ofen-Status',
+};
+
+export const METRIC_UNITS: Record<AlertMetric, string> = {
+  temperature: '°C',
+  humidity: '%',
+  sensor_battery: '%',
+  battery_soc: '%',
+  oven_state: '',
+};
+
+export const COMPARISON_SYMBOLS: Record<AlertComparison, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+};
+
+export const CHANNEL_LABELS: Record<AlertChannelType, string> = {
+  webhook: 'Webhook',
+  email: 'E-Mail',
+  ntfy: 'Push (ntfy)',
+};
+
+// Oven states as numeric levels so they can be compared against a threshold
+export const OVEN_STATE_LEVELS: Record<OvenState['state'], number> = {
+  cold: 0,
+  cooling: 1,
+  warming: 2,
+  hot: 3,
+};
+
+/**
+ * Format a metric value for messages and tables
+ */
+export function formatMetricValue(metric: AlertMetric, value: number): string {
+  if (metric === 'oven_state') {
+    const state = Object.entries(OVEN_STATE_LEVELS).find(([, level]) => level === value);
+    return state ? state[0] : value.toString();
+  }
+  return `${value.toFixed(1)} ${METRIC_UNITS[metric]}`.trim();
+}
@@ -0,0 +1,276 @@
+/**
+ * Alerting Engine
+ * Evaluates threshold rules against the latest collected values
+ * and records + dispatches alerts when a rule fires
+ */
+
+import dbConnect from './dbConnect';
+import AlertRule, { IAlertRuleDocument } from '@/models/alert-rule';
+import AlertHistory from '@/models/alert-history';
+import { dispatchAlert } from './alert-channels';
+import {
+  ALERT_CHANNEL_TYPES,
+  ALERT_COMPARISONS,
+  ALERT_METRICS,
+  AlertChannelType,
+  AlertComparison,
+  AlertMetric,
+  COMPARISON_SYMBOLS,
+  METRIC_LABELS,
+  OVEN_STATE_LEVELS,
+  formatMetricValue,
+} from './alert-config';
+import { findRoomByDeviceId, ShellyRoom } from './shelly-config';
+import { getShellyRooms } from './shelly-rooms';
+import { getVictronInstallations, VictronInstallation } from './victron-installations';
+import type { ShellySensorData } from './shelly';
+import type { SolarData } from '@/types/victron';
+import type { OvenState } from '@/types/dashboard';
+
+export interface MetricSample {
+  metric: AlertMetric;
+  deviceId?: string; // Shelly device or Victron installation
+  value: number;
+}
+
+// State key of samples without device (e.g. the oven)
+const NO_DEVICE_KEY = 'none';
+
+/**
+ * Build samples from Shelly sensor readings
+ */
+export function samplesFromShellySensors(sensors: ShellySensorData[]): MetricSample[] {
+  return sensors.flatMap((sensor) => [
+    { metric: 'temperature' as const, deviceId: sensor.id, value: sensor.temperature },
+    { metric: 'humidity' as const, deviceId: sensor.id, value: sensor.humidity },
+    { metric: 'sensor_battery' as const, deviceId: sensor.id, value: sensor.battery },
+  ]);
+}
+
+/**
+ * Build samples from processed Victron data of an installation
+ */
+export function samplesFromSolarData(solar: SolarData, installation: VictronInstallation): MetricSample[] {
+  return [{ metric: 'battery_soc', deviceId: installation.id, value: solar.batteryCharge }];
+}
+
+/**
+ * Build samples from the oven state
+ * A stale state gives no sample, so its rules are not evaluated while the Pi is offline
+ */
+export function samplesFromOvenState(ovenState: OvenState): MetricSample[] {
+  if (ovenState.stale) return [];
+  return [{ metric: 'oven_state', value: OVEN_STATE_LEVELS[ovenState.state] }];
+}
+
+function compare(value: number, comparison: AlertComparison, threshold: number): boolean {
+  switch (comparison) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'eq':
+      return value === threshold;
+  }
+}
+
+/**
+ * Name of the room or installation a sample belongs to
+ */
+function getSourceName(deviceId: string | undefined, rooms: ShellyRoom[]): string | undefined {
+  if (!deviceId) return undefined;
+  return (
+    findRoomByDeviceId(rooms, deviceId)?.name ??
+    getVictronInstallations().find((installation) => installation.id === deviceId)?.name
+  );
+}
+
+function buildMessage(rule: IAlertRuleDocument, sample: MetricSample, rooms: ShellyRoom[]): string {
+  const source = getSourceName(sample.deviceId, rooms);
+  const subject = source ? `${source}: ` : '';
+  const duration = rule.durationMinutes > 0 ? ` seit ${rule.durationMinutes} min` : '';
+
+  return `${subject}${METRIC_LABELS[rule.metric]} ${formatMetricValue(rule.metric, sample.value)} ` +
+    `${COMPARISON_SYMBOLS[rule.comparison]} ${formatMetricValue(rule.metric, rule.threshold)}${duration}`;
+}
+
+/**
+ * Evaluate a single rule and update its state
+ * The duration is tracked per device, so a rule for any sensor only fires when
+ * one sensor holds the condition long enough (not several taking turns).
+ * @returns true if an alert was triggered
+ */
+async function evaluateRule(
+  rule: IAlertRuleDocument,
+  samples: MetricSample[],
+  rooms: ShellyRoom[],
+  now: Date
+): Promise<boolean> {
+  const candidates = samples.filter(
+    (sample) => sample.metric === rule.metric && (!rule.deviceId || sample.deviceId === rule.deviceId)
+  );
+
+  // Nothing to evaluate for this rule in this run, keep its state untouched
+  if (candidates.length === 0) {
+    return false;
+  }
+
+  // Devices without a sample in this run keep their state
+  const conditionSince = rule.conditionSinceByDevice ?? new Map<string, Date>();
+  let matching: MetricSample | undefined;
+  let longestHeldMinutes = -1;
+
+  for (const sample of candidates) {
+    const key = sample.deviceId ?? NO_DEVICE_KEY;
+
+    if (!compare(sample.value, rule.comparison, rule.threshold)) {
+      conditionSince.delete(key);
+      continue;
+    }
+
+    if (!conditionSince.has(key)) {
+      conditionSince.set(key, now);
+    }
+    const heldMinutes = (now.getTime() - conditionSince.get(key)!.getTime()) / 60000;
+    if (heldMinutes > longestHeldMinutes) {
+      matching = sample;
+      longestHeldMinutes = heldMinutes;
+    }
+  }
+
+  if (!rule.conditionSinceByDevice && conditionSince.size > 0) {
+    rule.conditionSinceByDevice = conditionSince;
+  }
+
+  const cooledDown =
+    !rule.lastTriggeredAt ||
+    (now.getTime() - rule.lastTriggeredAt.getTime()) / 60000 >= rule.cooldownMinutes;
+
+  if (!matching || longestHeldMinutes < rule.durationMinutes || !cooledDown) {
+    if (rule.isModified()) await rule.save();
+    return false;
+  }
+
+  const message = buildMessage(rule, matching, rooms);
+  const { delivered, failed } = await dispatchAlert(
+    {
+      title: rule.name,
+      message,
+      ruleName: rule.name,
+      metric: rule.metric,
+      deviceId: matching.deviceId,
+      value: matching.value,
+      threshold: rule.threshold,
+      triggeredAt: now,
+    },
+    rule.channels
+  );
+
+  await AlertHistory.create({
+    ruleId: rule._id,
+    ruleName: rule.name,
+    metric: rule.metric,
+    deviceId: matching.deviceId,
+    value: matching.value,
+    threshold: rule.threshold,
+    message,
+    triggeredAt: now,
+    deliveredChannels: delivered,
+    failedChannels: failed,
+  });
+
+  rule.lastTriggeredAt = now;
+  await rule.save();
+
+  console.log(`[Alerts] Rule "${rule.name}" triggered: ${message}`);
+  return true;
+}
+
+/**
+ * Evaluate all enabled rules for the metrics contained in the samples
+ * Errors are logged so a failing alert never breaks the collector that called it
+ * @returns Number of triggered alerts
+ */
+export async function evaluateAlerts(samples: MetricSample[]): Promise<number> {
+  if (samples.length === 0) {
+    return 0;
+  }
+
+  try {
+    await dbConnect();
+
+    const metrics = Array.from(new Set(samples.map((sample) => sample.metric)));
+    const rules = await AlertRule.find({ enabled: true, metric: { $in: metrics } });
+    if (rules.length === 0) return 0;
+
+    const rooms = await getShellyRooms();
+    const now = new Date();
+
+    let triggered = 0;
+    for (const rule of rules) {
+      try {
+        if (await evaluateRule(rule, samples, rooms, now)) triggered++;
+      } catch (error) {
+        console.error(`[Alerts] Error evaluating rule "${rule.name}":`, error);
+      }
+    }
+
+    return triggered;
+  } catch (error) {
+    console.error('[Alerts] Error evaluating alerts:', error);
+    return 0;
+  }
+}
+
+/**
+ * Validate and normalize an alert rule payload from the API
+ * @returns Rule fields or an error message (German, shown in the UI)
+ */
+export function parseAlertRuleInput(
+  body: Record<string, unknown>
+): { rule: Partial<IAlertRuleDocument> } | { error: string } {
+  const { name, metric, deviceId, comparison, threshold, durationMinutes, cooldownMinutes, channels, enabled } = body;
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    return { error: 'Name ist erforderlich' };
+  }
+  if (!ALERT_METRICS.includes(metric as AlertMetric)) {
+    return { error: 'Ungültige Messgrösse' };
+  }
+  if (!ALERT_COMPARISONS.includes(comparison as AlertComparison)) {
+    return { error: 'Ungültiger Vergleich' };
+  }
+  if (typeof threshold !== 'number' || Number.isNaN(threshold)) {
+    return { error: 'Schwellwert muss eine Zahl sein' };
+  }
+  if (
+    (durationMinutes !== undefined && (typeof durationMinutes !== 'number' || durationMinutes < 0)) ||
+    (cooldownMinutes !== undefined && (typeof cooldownMinutes !== 'number' || cooldownMinutes < 0))
+  ) {
+    return { error: 'Dauer und Cooldown müssen positive Zahlen sein' };
+  }
+  if (
+    channels !== undefined &&
+    (!Array.isArray(channels) || channels.some((c) => !ALERT_CHANNEL_TYPES.includes(c as AlertChannelType)))
+  ) {
+    return { error: 'Ungültiger Benachrichtigungskanal' };
+  }
+
+  return {
+    rule: {
+      name: name.trim(),
+      metric: metric as AlertMetric,
+      deviceId: typeof deviceId === 'string' && deviceId !== '' ? deviceId : undefined,
+      comparison: comparison as AlertComparison,
+      threshold,
+      durationMinutes: (durationMinutes as number | undefined) ?? 0,
+      cooldownMinutes: (cooldownMinutes as number | undefined) ?? 60,
+      channels: (channels as AlertChannelType[] | undefined) ?? [],
+      enabled: enabled === undefined ? true : !!enabled,
+    },
+  };
+}
@@ -3,6 +3,7 @@
  * Helper functions for protecting API routes
  */
 
+import { timingSafeEqual } from 'crypto';
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
 import { authOptions } from './auth';
@@ -31,3 +32,33 @@ export async function requireAuth(): Promise<NextResponse | null> {
 
   return null;
 }
+
+/**
+ * Require a bearer token for machine clients (e.g. the Raspberry Pi)
+ * Returns a 401 response if the token is missing or wrong
+ * @param envName Environment variable holding the expected token
+ */
+export function requireApiToken(request: Request, envName: string): NextResponse | null {
+  const expected = process.env[envName];
+
+  if (!expected) {
+    return NextResponse.json(
+      { error: `${envName} not configured` },
+      { status: 500 }
+    );
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+  const expectedToken = Buffer.from(expected);
+  const valid = token.length === expectedToken.length && timingSafeEqual(token, expectedToken);
+
+  if (!valid) {
+    return NextResponse.json(
+      { error: 'Ungültiges API-Token' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,269 @@
+/**
+ * Battery Autonomy Forecast
+ * Projects the SOC of the house battery hour by hour for the next 48 hours
+ * and the time it reaches the reserve threshold (relevant while autark)
+ *
+ * Consumption is the mean per hour of day over the last PROFILE_DAYS days of
+ * VRM history. The PV yield starts from a clear-sky profile (high percentile
+ * per hour of day) reduced by the OpenWeather cloud cover of that hour.
+ * Without a weather forecast the mean PV profile is used instead.
+ */
+
+import { fetchVictronStats } from './victron';
+import { fetchWithTokenRefresh } from './victron-token';
+import { getVictronInstallations } from './victron-installations';
+import { getBatteryAnalytics } from './battery';
+import { getGridPeriods } from './grid-periods';
+import { getActivePeriod } from './grid-periods-config';
+import { getSettings } from './settings';
+import { fetchWeatherData } from './weather';
+import type { DataPoint } from '@/types/victron';
+import type { CloudCoverForecast } from '@/types/weather';
+
+// Hours projected from now
+export const FORECAST_HOURS = 48;
+
+// Days of hourly history used for the consumption and PV profiles
+const PROFILE_DAYS = 28;
+
+// Percentile of the hourly PV yields that counts as a clear sky
+const CLEAR_SKY_PERCENTILE = 0.9;
+
+// Charger and inverter efficiency, each way
+const BATTERY_EFFICIENCY = 0.95;
+
+// Used when VRM reports no battery voltage for the capacity estimate
+const NOMINAL_BATTERY_VOLTAGE = 48;
+
+// Weather and VRM history change slowly, the SOC is taken from this run
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+// OpenWeather forecast interval
+const CLOUD_INTERVAL_S = 3 * 60 * 60;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface HourlyProfile {
+  consumption: number[]; // kWh per hour of day (0-23, Swiss local time)
+  solarMean: number[]; // kWh per hour of day
+  solarClearSky: number[]; // kWh per hour of day
+}
+
+export interface AutonomyPoint {
+  timestamp: string; // ISO datetime string
+  soc: number; // % at this time
+  solar: number; // kWh expected in the following hour
+  consumption: number; // kWh expected in the following hour
+}
+
+export interface AutonomySimulation {
+  points: AutonomyPoint[];
+  reserveAt: string | null; // ISO datetime string, null when the reserve holds for the whole forecast
+  minSoc: number;
+  minSocAt: string; // ISO datetime string
+}
+
+export interface AutonomyForecast extends AutonomySimulation {
+  generatedAt: string; // ISO datetime string
+  startSoc: number;
+  reserveSoc: number;
+  capacityKwh: number;
+  capacityEstimated: boolean; // true when derived from the battery analytics
+  weatherBased: boolean; // false when the mean PV profile had to be used
+  gridConnected: boolean;
+}
+
+const zurichHourFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'Europe/Zurich',
+  hour: 'numeric',
+  hourCycle: 'h23',
+});
+
+/**
+ * Hour of day (0-23) in Swiss local time
+ */
+function getZurichHour(timestamp: number): number {
+  return parseInt(zurichHourFormatter.format(new Date(timestamp)), 10);
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Share of the clear-sky PV yield at a cloud cover (Kasten-Czeplak)
+ * @param clouds Cloud cover in %
+ */
+export function getCloudFactor(clouds: number): number {
+  return 1 - 0.75 * Math.pow(Math.min(100, Math.max(0, clouds)) / 100, 3.4);
+}
+
+/**
+ * Build the consumption and PV profiles per hour of day from hourly VRM values (kWh)
+ */
+export function buildHourlyProfile(consumption: DataPoint[], solar: DataPoint[]): HourlyProfile {
+  const byHour = (values: DataPoint[]) => {
+    const hours: number[][] = Array.from({ length: 24 }, () => []);
+    for (const [timestamp, value] of values) {
+      if (typeof value === 'number') hours[getZurichHour(timestamp)].push(value);
+    }
+    return hours;
+  };
+
+  const consumptionByHour = byHour(consumption);
+  const solarByHour = byHour(solar);
+
+  return {
+    consumption: consumptionByHour.map(average),
+    solarMean: solarByHour.map(average),
+    solarClearSky: solarByHour.map((values) => percentile(values, CLEAR_SKY_PERCENTILE)),
+  };
+}
+
+/**
+ * Expected PV yield of the hour starting at a timestamp
+ * @param cloudCover Forecast intervals, empty to use the mean PV profile
+ */
+function getExpectedSolar(profile: HourlyProfile, cloudCover: CloudCoverForecast[], timestamp: number): number {
+  const hour = getZurichHour(timestamp);
+  const seconds = timestamp / 1000;
+  const interval = cloudCover.find(
+    (item) => item.timestamp <= seconds && seconds < item.timestamp + CLOUD_INTERVAL_S
+  );
+
+  return interval
+    ? profile.solarClearSky[hour] * getCloudFactor(interval.clouds)
+    : profile.solarMean[hour];
+}
+
+/**
+ * Project the SOC hour by hour
+ * Surplus PV charges the battery up to 100 %, the battery covers any deficit
+ * down to 0 % (no grid in the simulation)
+ */
+export function simulateAutonomy(
+  startSoc: number,
+  capacityKwh: number,
+  reserveSoc: number,
+  profile: HourlyProfile,
+  cloudCover: CloudCoverForecast[],
+  now: Date = new Date(),
+  hours: number = FORECAST_HOURS
+): AutonomySimulation {
+  const points: AutonomyPoint[] = [];
+  let soc = Math.min(100, Math.max(0, startSoc));
+  let reserveAt: number | null = soc <= reserveSoc ? now.getTime() : null;
+  let minSoc = soc;
+  let minSocAt = now.getTime();
+
+  for (let step = 0; step <= hours; step++) {
+    const timestamp = now.getTime() + step * HOUR_MS;
+    const solar = getExpectedSolar(profile, cloudCover, timestamp);
+    const consumption = profile.consumption[getZurichHour(timestamp)];
+    points.push({ timestamp: new Date(timestamp).toISOString(), soc, solar, consumption });
+
+    if (step === hours) break;
+
+    const net = solar - consumption;
+    const change = ((net > 0 ? net * BATTERY_EFFICIENCY : net / BATTERY_EFFICIENCY) / capacityKwh) * 100;
+    const next = Math.min(100, Math.max(0, soc + change));
+
+    // Interpolate within the hour, the deficit is spread evenly
+    if (reserveAt === null && next <= reserveSoc) {
+      reserveAt = timestamp + ((soc - reserveSoc) / (soc - next)) * HOUR_MS;
+    }
+    if (next < minSoc) {
+      minSoc = next;
+      minSocAt = timestamp + HOUR_MS;
+    }
+    soc = next;
+  }
+
+  return {
+    points,
+    reserveAt: reserveAt !== null ? new Date(reserveAt).toISOString() : null,
+    minSoc,
+    minSocAt: new Date(minSocAt).toISOString(),
+  };
+}
+
+let cache: { forecast: AutonomyForecast; expiresAt: number } | null = null;
+
+/**
+ * Autonomy forecast of the house battery
+ * Cached for CACHE_TTL_MS, the capacity from the settings takes precedence
+ * over the estimate of the battery analytics
+ */
+export async function getAutonomyForecast(now: Date = new Date()): Promise<AutonomyForecast> {
+  if (cache && cache.expiresAt > now.getTime()) {
+    return cache.forecast;
+  }
+
+  const [house] = getVictronInstallations();
+  if (!house) {
+    throw new Error('VICTRON_INSTALLATION_ID not configured');
+  }
+
+  const start = Math.floor((now.getTime() - PROFILE_DAYS * DAY_MS) / 1000);
+  const end = Math.floor(now.getTime() / 1000);
+
+  const [currentStats, hourlyStats, settings, gridPeriods, cloudCover] = await Promise.all([
+    fetchWithTokenRefresh(house, (token) => fetchVictronStats(house.installationId, token, '15mins')),
+    fetchWithTokenRefresh(house, (token) =>
+      fetchVictronStats(house.installationId, token, 'hours', undefined, start.toString(), end.toString())
+    ),
+    getSettings(),
+    getGridPeriods(),
+    fetchWeatherData()
+      .then((weather) => weather.cloudCover)
+      .catch((error) => {
+        console.error('[Autonomy] Weather forecast unavailable, using mean PV profile:', error);
+        return [] as CloudCoverForecast[];
+      }),
+  ]);
+
+  const latest = (values?: DataPoint[]) =>
+    values && values.length > 0 ? values[values.length - 1][1] : null;
+
+  const startSoc = latest(currentStats.records.bs);
+  if (startSoc === null) {
+    throw new Error('Kein aktueller Ladezustand von VRM');
+  }
+
+  let capacityKwh = settings.battery.capacityKwh;
+  const capacityEstimated = capacityKwh <= 0;
+  if (capacityEstimated) {
+    const { currentCapacityAh } = await getBatteryAnalytics(house, now);
+    if (currentCapacityAh === null) {
+      throw new Error('Batteriekapazität unbekannt, bitte in den Einstellungen eintragen');
+    }
+    capacityKwh = (currentCapacityAh * (latest(currentStats.records.Vb) || NOMINAL_BATTERY_VOLTAGE)) / 1000;
+  }
+
+  const profile = buildHourlyProfile(
+    hourlyStats.records.total_consumption ?? [],
+    hourlyStats.records.total_solar_yield ?? []
+  );
+  const reserveSoc = settings.battery.reserveSoc;
+
+  const forecast: AutonomyForecast = {
+    ...simulateAutonomy(startSoc, capacityKwh, reserveSoc, profile, cloudCover, now),
+    generatedAt: now.toISOString(),
+    startSoc,
+    reserveSoc,
+    capacityKwh,
+    capacityEstimated,
+    weatherBased: cloudCover.length > 0,
+    gridConnected: getActivePeriod(gridPeriods) !== undefined,
+  };
+
+  cache = { forecast, expiresAt: now.getTime() + CACHE_TTL_MS };
+  return forecast;
+}
@@ -0,0 +1,333 @@
+/**
+ * Battery Analytics
+ * Charge/discharge cycles, depth of discharge, equivalent full cycles,
+ * round-trip efficiency and capacity fade of the house battery
+ *
+ * Works on the 15min SOC, voltage and current samples stored per day in
+ * VictronDailyStat. A cycle is a discharge from a SOC peak to the following
+ * low, turning points need a SOC change of CYCLE_HYSTERESIS to filter noise.
+ * The usable capacity is estimated from deep discharges as the drawn charge
+ * divided by the SOC drop; its trend over the months shows the capacity fade.
+ */
+
+import dbConnect from './dbConnect';
+import VictronDailyStat from '@/models/victron-daily-stat';
+import { getInstallationFilter, VictronInstallation } from './victron-installations';
+
+// SOC change (%) needed before a turning point counts
+const CYCLE_HYSTERESIS = 5;
+
+// Discharges of at least this depth (%) are used for the capacity estimate
+const MIN_CAPACITY_DOD = 20;
+
+// Longer gaps between samples are not integrated (missing data)
+const MAX_SAMPLE_GAP_MS = 30 * 60 * 1000;
+
+// Months of history analysed on the battery page
+const ANALYSIS_MONTHS = 24;
+
+// Months whose capacity estimates form the reference for the state of health
+const REFERENCE_MONTHS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+const YEAR_MS = 365.25 * 24 * HOUR_MS;
+
+// 15min sample [timestamp ms, SOC %, voltage V, current A (positive = charging)]
+export type BatterySample = [number, number, number | null, number | null];
+
+export interface BatteryCycle {
+  start: number; // Timestamp ms of the SOC peak
+  end: number; // Timestamp ms of the following low
+  socStart: number; // %
+  socEnd: number; // %
+  depth: number; // Depth of discharge (%)
+  dischargedAh: number | null; // Null without current samples
+  capacityAh: number | null; // Estimated usable capacity, only for deep discharges
+}
+
+export interface BatteryMonthStats {
+  month: string; // YYYY-MM
+  cycles: number;
+  averageDepth: number | null; // %
+  maxDepth: number | null; // %
+  equivalentFullCycles: number; // Sum of all SOC drops / 100
+  chargedKwh: number;
+  dischargedKwh: number;
+  efficiency: number | null; // Round-trip efficiency 0-1
+  capacityAh: number | null; // Median capacity estimate of the month
+}
+
+export interface BatteryAnalytics {
+  months: BatteryMonthStats[]; // Oldest first
+  recentCycles: BatteryCycle[]; // Newest first
+  socHistory: [number, number][]; // Last 7 days [timestamp ms, SOC %]
+  totalEquivalentFullCycles: number;
+  averageDepth: number | null; // %
+  efficiency: number | null; // Over the whole period, 0-1
+  referenceCapacityAh: number | null; // Median of the first estimates
+  currentCapacityAh: number | null; // Median of the latest estimates
+  stateOfHealth: number | null; // Current / reference capacity, 0-1
+  fadePerYear: number | null; // Capacity loss per year relative to the reference, 0-1
+  from: string | null; // ISO datetime of the first sample
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function toMonthKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Charge (Ah) and energy (Wh) between two samples, trapezoidal
+ * @returns Null without current, or if the gap is too long
+ */
+function integrateInterval(a: BatterySample, b: BatterySample): { ah: number; wh: number | null } | null {
+  const dt = b[0] - a[0];
+  if (dt <= 0 || dt > MAX_SAMPLE_GAP_MS || a[3] === null || b[3] === null) return null;
+
+  const hours = dt / HOUR_MS;
+  const ah = ((a[3] + b[3]) / 2) * hours;
+  const wh = a[2] !== null && b[2] !== null
+    ? ((a[2] * a[3] + b[2] * b[3]) / 2) * hours
+    : null;
+  return { ah, wh };
+}
+
+/**
+ * Detect discharge cycles from peak to low with hysteresis
+ * @param samples Samples sorted by time
+ */
+export function detectCycles(samples: BatterySample[], hysteresis: number = CYCLE_HYSTERESIS): BatteryCycle[] {
+  const cycles: BatteryCycle[] = [];
+  if (samples.length < 2) return cycles;
+
+  // Indexes of the confirmed turning points, alternating peak and low
+  const turns: { index: number; type: 'peak' | 'low' }[] = [];
+  let direction: 'up' | 'down' | null = null;
+  let highest = 0; // Running extremes, until the first turn both are tracked
+  let lowest = 0;
+
+  for (let i = 1; i < samples.length; i++) {
+    const soc = samples[i][1];
+
+    if (direction !== 'down') {
+      if (soc > samples[highest][1]) highest = i;
+      else if (soc <= samples[highest][1] - hysteresis) {
+        turns.push({ index: highest, type: 'peak' });
+        direction = 'down';
+        lowest = i;
+        continue;
+      }
+    }
+    if (direction !== 'up') {
+      if (soc < samples[lowest][1]) lowest = i;
+      else if (soc >= samples[lowest][1] + hysteresis) {
+        turns.push({ index: lowest, type: 'low' });
+        direction = 'up';
+        highest = i;
+      }
+    }
+  }
+  // The lowest value so far closes an ongoing discharge
+  if (direction === 'down' && lowest > turns[turns.length - 1].index) {
+    turns.push({ index: lowest, type: 'low' });
+  }
+
+  for (let t = 0; t < turns.length - 1; t++) {
+    if (turns[t].type !== 'peak' || turns[t + 1].type !== 'low') continue;
+
+    const from = turns[t].index;
+    const to = turns[t + 1].index;
+    const depth = samples[from][1] - samples[to][1];
+
+    let drawnAh = 0;
+    let complete = true;
+    for (let i = from; i < to; i++) {
+      const interval = integrateInterval(samples[i], samples[i + 1]);
+      if (!interval) {
+        complete = false;
+        break;
+      }
+      drawnAh -= interval.ah;
+    }
+
+    const dischargedAh = complete && to > from ? drawnAh : null;
+    cycles.push({
+      start: samples[from][0],
+      end: samples[to][0],
+      socStart: samples[from][1],
+      socEnd: samples[to][1],
+      depth,
+      dischargedAh,
+      capacityAh:
+        dischargedAh !== null && dischargedAh > 0 && depth >= MIN_CAPACITY_DOD
+          ? dischargedAh / (depth / 100)
+          : null,
+    });
+  }
+
+  return cycles;
+}
+
+/**
+ * Monthly cycle, throughput and efficiency statistics
+ * @param samples Samples sorted by time
+ * @param cycles Cycles detected from the same samples
+ */
+export function getMonthlyBatteryStats(samples: BatterySample[], cycles: BatteryCycle[]): BatteryMonthStats[] {
+  const months = new Map<string, { samples: BatterySample[]; cycles: BatteryCycle[] }>();
+  for (const sample of samples) {
+    const key = toMonthKey(sample[0]);
+    if (!months.has(key)) months.set(key, { samples: [], cycles: [] });
+    months.get(key)!.samples.push(sample);
+  }
+  for (const cycle of cycles) {
+    months.get(toMonthKey(cycle.start))?.cycles.push(cycle);
+  }
+
+  return Array.from(months.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, data]) => {
+      let socDrops = 0;
+      let chargedWh = 0;
+      let dischargedWh = 0;
+      let measured = 0;
+      for (let i = 1; i < data.samples.length; i++) {
+        const drop = data.samples[i - 1][1] - data.samples[i][1];
+        if (drop > 0) socDrops += drop;
+
+        const interval = integrateInterval(data.samples[i - 1], data.samples[i]);
+        if (interval?.wh == null) continue;
+        measured++;
+        if (interval.wh > 0) chargedWh += interval.wh;
+        else dischargedWh -= interval.wh;
+      }
+
+      const depths = data.cycles.map((cycle) => cycle.depth);
+      const capacityAh = median(
+        data.cycles.flatMap((cycle) => (cycle.capacityAh !== null ? [cycle.capacityAh] : []))
+      );
+
+      return {
+        month,
+        cycles: data.cycles.length,
+        averageDepth: average(depths),
+        maxDepth: depths.length > 0 ? Math.max(...depths) : null,
+        equivalentFullCycles: socDrops / 100,
+        chargedKwh: chargedWh / 1000,
+        dischargedKwh: dischargedWh / 1000,
+        // Without most intervals measured the ratio says nothing
+        efficiency: measured > data.samples.length / 2
+          ? getRoundTripEfficiency(chargedWh, dischargedWh, data.samples, capacityAh)
+          : null,
+        capacityAh,
+      };
+    });
+}
+
+/**
+ * Round-trip efficiency, corrected by the energy left in the battery
+ * @param capacityAh Usable capacity to convert the SOC difference, ignored if unknown
+ * @returns Efficiency 0-1 or null if implausible
+ */
+export function getRoundTripEfficiency(
+  chargedWh: number,
+  dischargedWh: number,
+  samples: BatterySample[],
+  capacityAh: number | null
+): number | null {
+  if (samples.length < 2 || chargedWh <= 0) return null;
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const voltage = average(samples.flatMap((sample) => (sample[2] !== null ? [sample[2]] : [])));
+  const storedWh = capacityAh !== null && voltage !== null
+    ? ((last[1] - first[1]) / 100) * capacityAh * voltage
+    : 0;
+
+  const efficiency = dischargedWh / (chargedWh - storedWh);
+  return efficiency > 0 && efficiency <= 1.05 ? Math.min(1, efficiency) : null;
+}
+
+/**
+ * Capacity trend: least squares line through the monthly estimates
+ * @returns Loss per year relative to the reference (positive = fading)
+ */
+export function getCapacityFade(months: BatteryMonthStats[], referenceAh: number): number | null {
+  const points = months.flatMap((month) =>
+    month.capacityAh !== null ? [{ x: new Date(`${month.month}-15`).getTime() / YEAR_MS, y: month.capacityAh }] : []
+  );
+  if (points.length < 3 || referenceAh <= 0) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const denominator = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (denominator === 0) return null;
+
+  const slope = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / denominator;
+  return -slope / referenceAh;
+}
+
+/**
+ * Analyse the stored battery samples of an installation
+ */
+export async function getBatteryAnalytics(
+  installation: VictronInstallation,
+  now: Date = new Date()
+): Promise<BatteryAnalytics> {
+  await dbConnect();
+
+  const from = new Date(now.getFullYear(), now.getMonth() - (ANALYSIS_MONTHS - 1), 1);
+  const docs = await VictronDailyStat.find({
+    ...getInstallationFilter(installation),
+    date: { $gte: from },
+    'battery.0': { $exists: true },
+  })
+    .select('date battery')
+    .sort({ date: 1 })
+    .lean();
+
+  const samples = docs
+    .flatMap((doc) => doc.battery ?? [])
+    .filter((sample) => typeof sample[1] === 'number')
+    .sort((a, b) => a[0] - b[0]);
+
+  const cycles = detectCycles(samples);
+  const months = getMonthlyBatteryStats(samples, cycles);
+
+  const estimates = months.flatMap((month) => (month.capacityAh !== null ? [month.capacityAh] : []));
+  const referenceCapacityAh = median(estimates.slice(0, REFERENCE_MONTHS));
+  const currentCapacityAh = median(estimates.slice(-REFERENCE_MONTHS));
+
+  const chargedWh = months.reduce((sum, month) => sum + month.chargedKwh * 1000, 0);
+  const dischargedWh = months.reduce((sum, month) => sum + month.dischargedKwh * 1000, 0);
+
+  const weekAgo = now.getTime() - 7 * 24 * HOUR_MS;
+
+  return {
+    months,
+    recentCycles: cycles.slice(-20).reverse(),
+    socHistory: samples.filter((sample) => sample[0] >= weekAgo).map((sample) => [sample[0], sample[1]]),
+    totalEquivalentFullCycles: months.reduce((sum, month) => sum + month.equivalentFullCycles, 0),
+    averageDepth: average(cycles.map((cycle) => cycle.depth)),
+    efficiency: getRoundTripEfficiency(chargedWh, dischargedWh, samples, currentCapacityAh),
+    referenceCapacityAh,
+    currentCapacityAh,
+    stateOfHealth:
+      referenceCapacityAh && currentCapacityAh !== null && estimates.length > REFERENCE_MONTHS
+        ? currentCapacityAh / referenceCapacityAh
+        : null,
+    fadePerYear: referenceCapacityAh ? getCapacityFade(months, referenceCapacityAh) : null,
+    from: samples.length > 0 ? new Date(samples[0][0]).toISOString() : null,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Climate Metrics
+ * Dew point, absolute humidity and mould risk derived from temperature and
+ * relative humidity (usable on client and server)
+ *
+ * Mould risk looks at the relative humidity at the coldest wall spots, not in
+ * the room air. The wall temperature is estimated with the minimum temperature
+ * factor fRsi = 0.7 (SIA 180 / DIN 4108-2) from the indoor and outdoor
+ * temperature. Mould can grow from about 70 % RH at the wall, above 80 % it
+ * grows within days.
+ */
+
+// Magnus formula coefficients over water
+const MAGNUS_A = 17.62;
+const MAGNUS_B = 243.12; // °C
+
+// Minimum temperature factor of the coldest wall spots
+const WALL_TEMPERATURE_FACTOR = 0.7;
+
+// Wall assumed this much colder than the room without an outdoor temperature
+const WALL_OFFSET_WITHOUT_OUTDOOR = 3; // K
+
+export const MOULD_RH_WARNING = 70; // % RH at the wall
+export const MOULD_RH_CRITICAL = 80;
+
+// Hours per day at the wall above the thresholds that raise the risk level
+const MOULD_RISK_HOURS = 6;
+
+// Outdoor air must be this much drier to make ventilating worthwhile
+const VENTILATION_MARGIN = 1; // g/m³
+
+export type MouldRiskLevel = 'low' | 'medium' | 'high';
+
+export interface MouldRisk {
+  hoursAbove70: number;
+  hoursAbove80: number;
+  level: MouldRiskLevel;
+}
+
+/**
+ * Saturation vapour pressure in hPa
+ */
+function getSaturationPressure(temperature: number): number {
+  return 6.112 * Math.exp((MAGNUS_A * temperature) / (MAGNUS_B + temperature));
+}
+
+/**
+ * Dew point in °C
+ */
+export function getDewPoint(temperature: number, humidity: number): number {
+  const gamma = Math.log(Math.max(humidity, 1) / 100) + (MAGNUS_A * temperature) / (MAGNUS_B + temperature);
+  return Math.round(((MAGNUS_B * gamma) / (MAGNUS_A - gamma)) * 10) / 10;
+}
+
+/**
+ * Absolute humidity in g/m³
+ */
+export function getAbsoluteHumidity(temperature: number, humidity: number): number {
+  const vapourPressure = (getSaturationPressure(temperature) * humidity) / 100;
+  return Math.round(((216.7 * vapourPressure) / (273.15 + temperature)) * 10) / 10;
+}
+
+/**
+ * Estimated temperature of the coldest wall spots in °C
+ */
+export function getWallTemperature(indoor: number, outdoor: number | null): number {
+  if (outdoor === null) return indoor - WALL_OFFSET_WITHOUT_OUTDOOR;
+  if (outdoor >= indoor) return indoor;
+  return outdoor + WALL_TEMPERATURE_FACTOR * (indoor - outdoor);
+}
+
+/**
+ * Relative humidity at a wall of the given temperature in %
+ * The room air cools down at the wall, its water content stays the same
+ */
+export function getWallHumidity(temperature: number, humidity: number, wallTemperature: number): number {
+  const wallHumidity = (humidity * getSaturationPressure(temperature)) / getSaturationPressure(wallTemperature);
+  return Math.min(100, Math.round(wallHumidity * 10) / 10);
+}
+
+/**
+ * Risk level from the hours of a day at the wall above the thresholds
+ */
+export function getMouldRiskLevel(hoursAbove70: number, hoursAbove80: number): MouldRiskLevel {
+  if (hoursAbove80 >= MOULD_RISK_HOURS) return 'high';
+  if (hoursAbove70 >= MOULD_RISK_HOURS) return 'medium';
+  return 'low';
+}
+
+/**
+ * Whether opening the windows lowers the indoor absolute humidity
+ */
+export function shouldVentilate(indoorAbsoluteHumidity: number, outdoorAbsoluteHumidity: number): boolean {
+  return outdoorAbsoluteHumidity <= indoorAbsoluteHumidity - VENTILATION_MARGIN;
+}
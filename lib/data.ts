@@ -4,48 +4,25 @@
 
 import { DashboardData } from '@/types/dashboard';
 import { unstable_cache } from 'next/cache';
+import { getHeatingData, OVEN_SENSOR } from './heating';
 
-// Fixed URL where the latest dashboard data is always available
-const DASHBOARD_DATA_URL = 'https://rpvkpagfoklausud.public.blob.vercel-storage.com/dashboard-data.json';
+// Range of the overview data (fire events, monthly stats, oven history)
+const DASHBOARD_RANGE_DAYS = 365;
 
 /**
- * Fetch dashboard data from Vercel Blob Storage
- * Cached with 5 minute revalidation
+ * Fetch heating overview data of the last year from MongoDB
+ * Cached with 5 minute revalidation, the ingest endpoint invalidates the 'dashboard' tag
+ * Errors are thrown so callers can show them instead of an empty dashboard
  */
 export const getDashboardData = unstable_cache(
   async (): Promise<DashboardData> => {
-    try {
-      console.log('[getDashboardData] Fetching from:', DASHBOARD_DATA_URL);
+    const to = new Date();
+    const from = new Date(to.getTime() - DASHBOARD_RANGE_DAYS * 24 * 60 * 60 * 1000);
 
-      // Fetch directly from the fixed URL
-      const response = await fetch(DASHBOARD_DATA_URL, {
-        cache: 'no-store', // Always get fresh data
-      });
+    const data = await getHeatingData({ from, to });
+    console.log('[getDashboardData] Loaded from MongoDB, last_updated:', data.last_updated);
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch dashboard data: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      console.log('[getDashboardData] Data fetched successfully, last_updated:', data.last_updated);
-
-      return data as DashboardData;
-    } catch (error) {
-      console.error('[getDashboardData] Error fetching dashboard data:', error);
-
-      // Return empty data structure as fallback
-      return {
-        current_temps: [],
-        oven_state: {
-          state: 'cold',
-          last_updated: new Date().toISOString(),
-        },
-        fire_events: [],
-        temperature_history: [],
-        monthly_stats: [],
-        last_updated: new Date().toISOString(),
-      };
-    }
+    return data;
   },
   ['dashboard-data'],
   {
@@ -67,7 +44,6 @@ export async function getRecentFireEvents(limit: number = 10) {
  */
 export async function getOvenTemperature() {
   const data = await getDashboardData();
-  // Input 4 = Ofen
-  const ovenTemp = data.current_temps.find(t => t.nummer === 4);
+  const ovenTemp = data.current_temps.find(t => t.nummer === OVEN_SENSOR);
   return ovenTemp?.wert ?? null;
 }
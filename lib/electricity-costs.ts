@@ -1,68 +1,207 @@
 /**
  * Electricity Cost Calculations
- * Based on Swiss average electricity prices (paid to neighbor)
+ * Prices 15-minute grid power (Victron Pg) with dated HT/NT tariffs from the settings
  * Source: https://www.strompreis.elcom.admin.ch/map (Reference for CH average)
  */
 
-// Swiss average electricity price: 27.7 Rappen per kWh
+// Swiss average electricity price: 27.7 Rappen per kWh (default for the settings)
 export const SWISS_ELECTRICITY_PRICE_CHF_PER_KWH = 0.277;
 export const ELECTRICITY_PRICE_SOURCE = 'https://www.strompreis.elcom.admin.ch/map';
-export const ELECTRICITY_PRICE_RAPPEN = 27.7;
+
+export interface ElectricityTariff {
+  validFrom: string; // YYYY-MM-DD, valid until the next tariff starts
+  highRate: number; // CHF/kWh during the HT window
+  lowRate: number; // CHF/kWh outside of it (NT)
+  feedInRate: number; // CHF/kWh paid for exported energy
+  highTariffDays: number[]; // Weekdays with HT window (0 = Sunday)
+  highTariffStart: number; // Hour of day (local time) the HT window starts
+  highTariffEnd: number; // Hour of day (local time) the HT window ends
+}
 
 export interface ElectricityCosts {
   neighborCost: number; // Cost paid to neighbor for grid electricity
+  feedInRevenue: number; // Money received for exported energy
   solarSavings: number; // Money saved by using own solar power
   costWithoutSolar: number; // What it would cost without solar installation
   selfConsumption: number; // kWh consumed from own solar
 }
 
+export interface GridIntervalCosts {
+  importKwh: number;
+  exportKwh: number;
+  highTariffKwh: number;
+  lowTariffKwh: number;
+  importCost: number; // CHF
+  feedInRevenue: number; // CHF
+}
+
+// Grid power sample: [timestamp ms, watts], positive = import, negative = export
+export type GridPowerSample = [number, number];
+
+const INTERVAL_HOURS = 0.25; // Victron 15mins interval
+const HOUR_MS = 60 * 60 * 1000;
+
+const zurichFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'Europe/Zurich',
+  weekday: 'short',
+  hour: 'numeric',
+  minute: 'numeric',
+  hourCycle: 'h23',
+});
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Local time only changes its offset at full hours, so one lookup per hour suffices
+const zurichHourCache = new Map<number, { weekday: number; hour: number }>();
+
 /**
- * Calculate daily electricity costs
- * @param consumption Total daily consumption in kWh
- * @param gridImport Electricity imported from neighbor in kWh
- * @returns Cost breakdown
+ * Get weekday and fractional hour in Swiss local time
  */
-export function calculateDailyCosts(
-  consumption: number,
-  gridImport: number
-): ElectricityCosts {
-  const neighborCost = gridImport * SWISS_ELECTRICITY_PRICE_CHF_PER_KWH;
-  const selfConsumption = Math.max(0, consumption - gridImport);
-  const solarSavings = selfConsumption * SWISS_ELECTRICITY_PRICE_CHF_PER_KWH;
-  const costWithoutSolar = consumption * SWISS_ELECTRICITY_PRICE_CHF_PER_KWH;
+function getZurichTime(timestamp: number): { weekday: number; hour: number } {
+  const hourKey = Math.floor(timestamp / HOUR_MS);
+  let cached = zurichHourCache.get(hourKey);
+
+  if (!cached) {
+    const parts = zurichFormatter.formatToParts(new Date(hourKey * HOUR_MS));
+    cached = {
+      weekday: WEEKDAYS.indexOf(parts.find((p) => p.type === 'weekday')!.value),
+      hour: parseInt(parts.find((p) => p.type === 'hour')!.value, 10),
+    };
+    if (zurichHourCache.size > 100000) zurichHourCache.clear();
+    zurichHourCache.set(hourKey, cached);
+  }
 
   return {
-    neighborCost,
-    solarSavings,
-    costWithoutSolar,
-    selfConsumption,
+    weekday: cached.weekday,
+    hour: cached.hour + (timestamp - hourKey * HOUR_MS) / HOUR_MS,
   };
 }
 
 /**
- * Calculate monthly electricity costs
- * @param consumption Total monthly consumption in kWh
- * @param gridImport Electricity imported from neighbor in kWh
- * @returns Cost breakdown
+ * Get the tariff valid at a point in time
+ * Dates before the first tariff use the first tariff
  */
-export function calculateMonthlyCosts(
-  consumption: number,
-  gridImport: number
-): ElectricityCosts {
-  return calculateDailyCosts(consumption, gridImport);
+export function getTariffAt(tariffs: ElectricityTariff[], timestamp: number): ElectricityTariff {
+  let tariff = tariffs[0];
+  for (const candidate of tariffs) {
+    if (new Date(candidate.validFrom).getTime() <= timestamp) {
+      tariff = candidate;
+    }
+  }
+  return tariff;
+}
+
+/**
+ * Check whether a point in time lies in the HT window of a tariff
+ */
+export function isHighTariffTime(tariff: ElectricityTariff, timestamp: number): boolean {
+  const { weekday, hour } = getZurichTime(timestamp);
+  return (
+    tariff.highTariffDays.includes(weekday) &&
+    hour >= tariff.highTariffStart &&
+    hour < tariff.highTariffEnd
+  );
 }
 
 /**
- * Calculate yearly electricity costs
- * @param consumption Total yearly consumption in kWh
+ * Time-weighted average import price of a tariff over a week
+ * Used where no interval data is available (e.g. self-consumption savings)
+ */
+export function getAverageRate(tariff: ElectricityTariff): number {
+  const highHoursPerWeek =
+    tariff.highTariffDays.length * Math.max(0, tariff.highTariffEnd - tariff.highTariffStart);
+  const highShare = highHoursPerWeek / (7 * 24);
+  return tariff.highRate * highShare + tariff.lowRate * (1 - highShare);
+}
+
+/**
+ * Price 15-minute grid power samples with the tariff valid at each interval
+ */
+export function priceGridIntervals(
+  gridPower: GridPowerSample[],
+  tariffs: ElectricityTariff[]
+): GridIntervalCosts {
+  const result: GridIntervalCosts = {
+    importKwh: 0,
+    exportKwh: 0,
+    highTariffKwh: 0,
+    lowTariffKwh: 0,
+    importCost: 0,
+    feedInRevenue: 0,
+  };
+
+  for (const [timestamp, watts] of gridPower) {
+    const kwh = (Math.abs(watts) / 1000) * INTERVAL_HOURS;
+    if (kwh === 0) continue;
+
+    const tariff = getTariffAt(tariffs, timestamp);
+
+    if (watts > 0) {
+      const high = isHighTariffTime(tariff, timestamp);
+      result.importKwh += kwh;
+      result.importCost += kwh * (high ? tariff.highRate : tariff.lowRate);
+      if (high) {
+        result.highTariffKwh += kwh;
+      } else {
+        result.lowTariffKwh += kwh;
+      }
+    } else {
+      result.exportKwh += kwh;
+      result.feedInRevenue += kwh * tariff.feedInRate;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Calculate electricity costs for a period
+ * Imports covered by interval data are priced exactly, any remaining import
+ * (periods without 15-minute data) at the average rate of the valid tariff.
+ * @param consumption Total consumption in kWh
  * @param gridImport Electricity imported from neighbor in kWh
+ * @param tariffs Tariffs from the settings
+ * @param periodStart Start of the period (selects the tariff for the fallback)
+ * @param intervals Priced 15-minute data of the period, if available
  * @returns Cost breakdown
  */
-export function calculateYearlyCosts(
+export function calculateCosts(
   consumption: number,
-  gridImport: number
+  gridImport: number,
+  tariffs: ElectricityTariff[],
+  periodStart: number,
+  intervals?: GridIntervalCosts
 ): ElectricityCosts {
-  return calculateDailyCosts(consumption, gridImport);
+  const averageRate = getAverageRate(getTariffAt(tariffs, periodStart));
+  const pricedImport = intervals?.importKwh ?? 0;
+  const unpricedImport = Math.max(0, gridImport - pricedImport);
+
+  const neighborCost = (intervals?.importCost ?? 0) + unpricedImport * averageRate;
+  const selfConsumption = Math.max(0, consumption - gridImport);
+  const solarSavings = selfConsumption * averageRate;
+
+  return {
+    neighborCost,
+    feedInRevenue: intervals?.feedInRevenue ?? 0,
+    solarSavings,
+    costWithoutSolar: neighborCost + solarSavings,
+    selfConsumption,
+  };
+}
+
+/**
+ * Add up cost breakdowns of several periods
+ */
+export function sumCosts(costs: ElectricityCosts[]): ElectricityCosts {
+  return costs.reduce(
+    (sum, c) => ({
+      neighborCost: sum.neighborCost + c.neighborCost,
+      feedInRevenue: sum.feedInRevenue + c.feedInRevenue,
+      solarSavings: sum.solarSavings + c.solarSavings,
+      costWithoutSolar: sum.costWithoutSolar + c.costWithoutSolar,
+      selfConsumption: sum.selfConsumption + c.selfConsumption,
+    }),
+    { neighborCost: 0, feedInRevenue: 0, solarSavings: 0, costWithoutSolar: 0, selfConsumption: 0 }
+  );
 }
 
 /**
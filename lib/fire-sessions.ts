@@ -0,0 +1,482 @@
+/**
+ * Fire Sessions
+ * Splits the oven temperature into fire sessions with ignition, peak, glow
+ * and cold phases, stores them with an optional wood log
+ *
+ * A session starts where the temperature began rising towards the
+ * SESSION_START_TEMP crossing and ends when it falls below COLD_TEMP (the
+ * cold phase). Reloading wood before the oven cooled down continues the
+ * same session.
+ */
+
+import mongoose from 'mongoose';
+import dbConnect from './dbConnect';
+import { OVEN_SENSOR } from './heating';
+import FireSessionModel, { IFireSession } from '@/models/fire-session';
+import TemperatureReadingModel from '@/models/temperature-reading';
+import type {
+  DateRange,
+  FirePhase,
+  FireSession,
+  HeatingIngestPayload,
+  TemperatureReading,
+  WoodLog,
+} from '@/types/dashboard';
+
+// Crossing this temperature marks a fire (°C)
+const SESSION_START_TEMP = 80;
+
+// Below this temperature the oven counts as cold, the session is over (°C)
+const COLD_TEMP = 50;
+
+// Threshold for the time above 200 °C
+const HOT_TEMP = 200;
+
+// Share of the rise from start to peak temperature that counts as peak phase
+const PEAK_SHARE = 0.9;
+
+// Longest walk back from the start crossing to the beginning of the rise
+const IGNITION_LOOKBACK_MS = 2 * 60 * 60 * 1000;
+
+// Readings further apart end a session (no data from the Pi)
+const MAX_GAP_MS = 2 * 60 * 60 * 1000;
+
+// Detection window after the ingested readings, no session lasts longer
+const SESSION_LOOKAHEAD_MS = 24 * 60 * 60 * 1000;
+
+// Heat output estimate: stove surface heat transfer to the room (kW per K
+// above room temperature), roughly 2 m² of steel at 10 W/m²K
+const ROOM_TEMP = 20;
+const STOVE_HEAT_TRANSFER_KW_PER_K = 0.02;
+
+// Wood energy for the fuel log: dry hardwood (~20% moisture)
+const WOOD_KWH_PER_KG = 4.2;
+const ARMFUL_KG = 5;
+
+// Rebuild detects sessions in chunks to keep the loaded readings small
+const REBUILD_CHUNK_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OvenSample {
+  timestamp: number; // ms
+  temperature: number; // °C
+}
+
+export interface DetectedFireSession {
+  startedAt: number;
+  peakPhaseAt: number;
+  peakAt: number;
+  glowAt: number | null;
+  endedAt: number | null;
+  lastReadingAt: number;
+  startTemperature: number;
+  peakTemperature: number;
+  minutesAbove200: number;
+  heatOutputKwh: number;
+  truncated: boolean; // Started before the first sample, incomplete
+}
+
+/**
+ * Summarize the samples of one session
+ * @param samples Samples from the start of the ignition to the last burning sample
+ * @param endedAt Start of the cold phase, null while burning
+ */
+function summarizeSession(
+  samples: OvenSample[],
+  endedAt: number | null,
+  truncated: boolean
+): DetectedFireSession {
+  const start = samples[0];
+  const peak = samples.reduce((max, sample) => (sample.temperature > max.temperature ? sample : max));
+
+  const peakThreshold = start.temperature + PEAK_SHARE * (peak.temperature - start.temperature);
+  const peakPhase = samples.find((sample) => sample.temperature >= peakThreshold)!;
+
+  // Glow phase starts after the last sample in the peak band
+  const lastPeakIndex = samples.findLastIndex((sample) => sample.temperature >= peakThreshold);
+  const glow = samples[lastPeakIndex + 1];
+
+  let hotMs = 0;
+  let heatKwh = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const previous = samples[i - 1];
+    const current = samples[i];
+    const durationMs = current.timestamp - previous.timestamp;
+
+    const hotCount = (previous.temperature >= HOT_TEMP ? 1 : 0) + (current.temperature >= HOT_TEMP ? 1 : 0);
+    hotMs += (durationMs * hotCount) / 2;
+
+    const mean = (previous.temperature + current.temperature) / 2;
+    heatKwh += Math.max(0, mean - ROOM_TEMP) * STOVE_HEAT_TRANSFER_KW_PER_K * (durationMs / (60 * 60 * 1000));
+  }
+
+  return {
+    startedAt: start.timestamp,
+    peakPhaseAt: peakPhase.timestamp,
+    peakAt: peak.timestamp,
+    glowAt: glow?.timestamp ?? endedAt,
+    endedAt,
+    lastReadingAt: samples[samples.length - 1].timestamp,
+    startTemperature: start.temperature,
+    peakTemperature: peak.temperature,
+    minutesAbove200: Math.round(hotMs / 60000),
+    heatOutputKwh: Math.round(heatKwh * 10) / 10,
+    truncated,
+  };
+}
+
+/**
+ * Split oven samples into fire sessions
+ * @param samples Oven temperatures, oldest first
+ * @param now Sessions without readings for MAX_GAP_MS before now count as ended
+ */
+export function detectFireSessions(samples: OvenSample[], now: number = Date.now()): DetectedFireSession[] {
+  const sessions: DetectedFireSession[] = [];
+  let previousEnd = 0; // First index after the previous session
+
+  let i = 0;
+  while (i < samples.length) {
+    if (samples[i].temperature < SESSION_START_TEMP) {
+      i++;
+      continue;
+    }
+
+    // Walk back to the beginning of the rise
+    let start = i;
+    while (
+      start > previousEnd &&
+      samples[start - 1].temperature < samples[start].temperature &&
+      samples[start].timestamp - samples[start - 1].timestamp <= MAX_GAP_MS &&
+      samples[i].timestamp - samples[start - 1].timestamp <= IGNITION_LOOKBACK_MS
+    ) {
+      start--;
+    }
+    const truncated = start === 0 && samples[0].temperature >= COLD_TEMP;
+
+    // Walk forward to the cold phase or a gap in the data
+    let end = i;
+    let endedAt: number | null = null;
+    while (end + 1 < samples.length) {
+      const next = samples[end + 1];
+      if (next.timestamp - samples[end].timestamp > MAX_GAP_MS) {
+        endedAt = samples[end].timestamp;
+        break;
+      }
+      if (next.temperature < COLD_TEMP) {
+        endedAt = next.timestamp;
+        break;
+      }
+      end++;
+    }
+    if (endedAt === null && now - samples[end].timestamp > MAX_GAP_MS) {
+      endedAt = samples[end].timestamp;
+    }
+
+    sessions.push(summarizeSession(samples.slice(start, end + 1), endedAt, truncated));
+
+    previousEnd = end + 1;
+    i = end + 1;
+  }
+
+  return sessions;
+}
+
+/**
+ * Current phase of a session
+ */
+export function getFirePhase(session: Pick<IFireSession, 'endedAt' | 'glowAt' | 'peakAt' | 'lastReadingAt'>): FirePhase {
+  if (session.endedAt) return 'cold';
+  if (session.glowAt) return 'glow';
+  // Still rising while the latest reading is the peak
+  return session.peakAt.getTime() === session.lastReadingAt.getTime() ? 'ignition' : 'peak';
+}
+
+/**
+ * Weight of a wood log in kg, armfuls are converted with ARMFUL_KG
+ */
+export function getWoodKg(wood: WoodLog): number {
+  return wood.unit === 'kg' ? wood.amount : wood.amount * ARMFUL_KG;
+}
+
+/**
+ * Energy content of a wood log in kWh
+ */
+export function getWoodEnergyKwh(wood: WoodLog): number {
+  return getWoodKg(wood) * WOOD_KWH_PER_KG;
+}
+
+function toFireSession(doc: IFireSession & { _id: unknown }): FireSession {
+  const end = doc.endedAt ?? doc.lastReadingAt;
+
+  return {
+    id: String(doc._id),
+    started_at: doc.startedAt.toISOString(),
+    peak_phase_at: doc.peakPhaseAt.toISOString(),
+    peak_at: doc.peakAt.toISOString(),
+    glow_at: doc.glowAt ? doc.glowAt.toISOString() : null,
+    ended_at: doc.endedAt ? doc.endedAt.toISOString() : null,
+    last_reading_at: doc.lastReadingAt.toISOString(),
+    phase: getFirePhase(doc),
+    duration_minutes: Math.round((end.getTime() - doc.startedAt.getTime()) / 60000),
+    start_temperature: doc.startTemperature,
+    peak_temperature: doc.peakTemperature,
+    minutes_above_200: doc.minutesAbove200,
+    heat_output_kwh: doc.heatOutputKwh,
+    wood:
+      doc.woodAmount !== undefined && doc.woodUnit
+        ? { amount: doc.woodAmount, unit: doc.woodUnit, notes: doc.woodNotes }
+        : undefined,
+  };
+}
+
+function overlaps(
+  a: { startedAt: number; endedAt: number | null },
+  b: { startedAt: number; endedAt: number | null }
+): boolean {
+  return a.startedAt < (b.endedAt ?? Infinity) && b.startedAt < (a.endedAt ?? Infinity);
+}
+
+/**
+ * Re-detect the fire sessions around a date range and store them
+ * Stored sessions overlapping a detected one are updated, so their wood
+ * log is kept, stored sessions no longer detected are removed.
+ * @returns Number of stored sessions
+ */
+export async function updateFireSessions(range: DateRange, now: Date = new Date()): Promise<number> {
+  await dbConnect();
+
+  // Sessions reaching into the range are re-detected as a whole
+  const reaching = await FireSessionModel.findOne({
+    startedAt: { $lte: range.to },
+    $or: [{ endedAt: null }, { endedAt: { $gte: range.from } }],
+  })
+    .sort({ startedAt: 1 })
+    .lean();
+
+  const from = new Date(
+    Math.min(range.from.getTime(), reaching?.startedAt.getTime() ?? Infinity) - IGNITION_LOOKBACK_MS
+  );
+  const to = new Date(Math.min(range.to.getTime() + SESSION_LOOKAHEAD_MS, now.getTime()));
+
+  const readings = await TemperatureReadingModel.find({
+    sensor: OVEN_SENSOR,
+    timestamp: { $gte: from, $lte: to },
+  })
+    .sort({ timestamp: 1 })
+    .select('timestamp value')
+    .lean();
+
+  const detected = detectFireSessions(
+    readings.map((r) => ({ timestamp: r.timestamp.getTime(), temperature: r.value })),
+    now.getTime()
+  );
+
+  const existing = await FireSessionModel.find({ startedAt: { $gte: from, $lte: to } }).lean();
+  const unmatched = new Map(existing.map((doc) => [String(doc._id), doc]));
+
+  const writes: mongoose.AnyBulkWriteOperation<IFireSession>[] = [];
+  for (const session of detected) {
+    const match = [...unmatched.values()].find((doc) =>
+      overlaps(session, { startedAt: doc.startedAt.getTime(), endedAt: doc.endedAt?.getTime() ?? null })
+    );
+    if (match) unmatched.delete(String(match._id));
+
+    // Sessions cut off at the window start are left as stored
+    if (session.truncated) continue;
+
+    const fields = {
+      startedAt: new Date(session.startedAt),
+      peakPhaseAt: new Date(session.peakPhaseAt),
+      peakAt: new Date(session.peakAt),
+      glowAt: session.glowAt !== null ? new Date(session.glowAt) : null,
+      endedAt: session.endedAt !== null ? new Date(session.endedAt) : null,
+      lastReadingAt: new Date(session.lastReadingAt),
+      startTemperature: session.startTemperature,
+      peakTemperature: session.peakTemperature,
+      minutesAbove200: session.minutesAbove200,
+      heatOutputKwh: session.heatOutputKwh,
+    };
+
+    writes.push(
+      match
+        ? { updateOne: { filter: { _id: match._id }, update: { $set: fields } } }
+        : { insertOne: { document: fields as IFireSession } }
+    );
+  }
+
+  // Remove sessions that vanished first, their start times may be reused
+  if (unmatched.size > 0) {
+    await FireSessionModel.deleteMany({ _id: { $in: [...unmatched.values()].map((doc) => doc._id) } });
+  }
+  if (writes.length > 0) {
+    await FireSessionModel.bulkWrite(writes);
+  }
+
+  return writes.length;
+}
+
+/**
+ * Date range of the oven readings in an ingest payload
+ */
+export function getIngestedOvenRange(payload: HeatingIngestPayload): DateRange | null {
+  const timestamps = (payload.temperatures ?? [])
+    .filter((reading) => reading.sensor === OVEN_SENSOR)
+    .map((reading) => new Date(reading.timestamp).getTime());
+
+  if (timestamps.length === 0) return null;
+
+  return {
+    from: new Date(Math.min(...timestamps)),
+    to: new Date(Math.max(...timestamps)),
+  };
+}
+
+/**
+ * Re-detect all fire sessions within a date range, oldest chunk first
+ * @returns Number of stored sessions
+ */
+export async function rebuildFireSessions(range: DateRange): Promise<number> {
+  let stored = 0;
+
+  for (let from = range.from.getTime(); from < range.to.getTime(); from += REBUILD_CHUNK_DAYS * DAY_MS) {
+    const to = Math.min(from + REBUILD_CHUNK_DAYS * DAY_MS, range.to.getTime());
+    stored += await updateFireSessions({ from: new Date(from), to: new Date(to) });
+  }
+
+  return stored;
+}
+
+/**
+ * Get the fire sessions started within a date range, newest first
+ */
+export async function getFireSessions(range: DateRange, limit?: number): Promise<FireSession[]> {
+  await dbConnect();
+
+  const query = FireSessionModel.find({ startedAt: { $gte: range.from, $lte: range.to } }).sort({
+    startedAt: -1,
+  });
+  if (limit) query.limit(limit);
+
+  const docs = await query.lean();
+  return docs.map(toFireSession);
+}
+
+/**
+ * Get the logged wood per month (YYYY-MM) within a date range
+ * @returns Logged kg and number of sessions with a wood log per month
+ */
+export async function getMonthlyWood(range: DateRange): Promise<Map<string, { kg: number; sessions: number }>> {
+  await dbConnect();
+
+  const results = await FireSessionModel.aggregate<{ _id: string; kg: number; sessions: number }>([
+    { $match: { startedAt: { $gte: range.from, $lte: range.to }, woodAmount: { $exists: true } } },
+    {
+      $group: {
+        _id: { $dateToString: { format: '%Y-%m', date: '$startedAt', timezone: 'Europe/Zurich' } },
+        kg: {
+          $sum: {
+            $cond: [{ $eq: ['$woodUnit', 'kg'] }, '$woodAmount', { $multiply: ['$woodAmount', ARMFUL_KG] }],
+          },
+        },
+        sessions: { $sum: 1 },
+      },
+    },
+  ]);
+
+  return new Map(results.map((r) => [r._id, { kg: r.kg, sessions: r.sessions }]));
+}
+
+/**
+ * Get a single fire session
+ * @returns Session or null if not found
+ */
+export async function getFireSession(id: string): Promise<FireSession | null> {
+  if (!mongoose.isValidObjectId(id)) return null;
+
+  await dbConnect();
+  const doc = await FireSessionModel.findById(id).lean();
+
+  return doc ? toFireSession(doc) : null;
+}
+
+/**
+ * Get the raw oven temperatures of a session, with some margin before and after
+ */
+export async function getSessionCurve(session: FireSession): Promise<TemperatureReading[]> {
+  await dbConnect();
+
+  const margin = 30 * 60 * 1000;
+  const from = new Date(new Date(session.started_at).getTime() - margin);
+  const to = new Date(new Date(session.ended_at ?? session.last_reading_at).getTime() + margin);
+
+  const docs = await TemperatureReadingModel.find({
+    sensor: OVEN_SENSOR,
+    timestamp: { $gte: from, $lte: to },
+  })
+    .sort({ timestamp: 1 })
+    .select('timestamp value')
+    .lean();
+
+  return docs.map((doc) => ({
+    timestamp: doc.timestamp.toISOString(),
+    temperature: doc.value,
+  }));
+}
+
+/**
+ * Validate a wood log input
+ * @returns Wood log (null removes it) or an error message
+ */
+export function parseWoodLogInput(body: Record<string, unknown>): { wood: WoodLog | null } | { error: string } {
+  const { amount, unit, notes } = body;
+
+  if (amount === null || amount === undefined || amount === '') {
+    return { wood: null };
+  }
+
+  const value = typeof amount === 'number' ? amount : parseFloat(String(amount));
+  if (Number.isNaN(value) || value <= 0 || value > 500) {
+    return { error: 'Ungültige Holzmenge' };
+  }
+  if (unit !== 'kg' && unit !== 'armfuls') {
+    return { error: 'Einheit muss kg oder armfuls sein' };
+  }
+  if (notes !== undefined && typeof notes !== 'string') {
+    return { error: 'Ungültige Notiz' };
+  }
+
+  return { wood: { amount: value, unit, notes: notes?.trim() || undefined } };
+}
+
+/**
+ * Store or remove the wood log of a session
+ * @returns Updated session or null if not found
+ */
+export async function updateWoodLog(id: string, wood: WoodLog | null): Promise<FireSession | null> {
+  if (!mongoose.isValidObjectId(id)) return null;
+
+  await dbConnect();
+
+  let update: mongoose.UpdateQuery<IFireSession>;
+  if (!wood) {
+    update = { $unset: { woodAmount: 1, woodUnit: 1, woodNotes: 1 } };
+  } else if (wood.notes) {
+    update = { $set: { woodAmount: wood.amount, woodUnit: wood.unit, woodNotes: wood.notes } };
+  } else {
+    update = { $set: { woodAmount: wood.amount, woodUnit: wood.unit }, $unset: { woodNotes: 1 } };
+  }
+
+  const doc = await FireSessionModel.findByIdAndUpdate(id, update, { new: true }).lean();
+  return doc ? toFireSession(doc) : null;
+}
+
+/**
+ * Format a duration in minutes
+ * @returns Formatted string (e.g., "3 h 25 min")
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours} h ${rest} min` : `${rest} min`;
+}
@@ -0,0 +1,118 @@
+/**
+ * Floorplan Heatmap
+ * Inverse distance weighting between the indoor sensors and the color scale
+ * of the heatmap overlay (usable on client and server)
+ *
+ * Each point of the floorplan gets the weighted mean of all sensors with the
+ * weight 1 / distance^power, so the value at a sensor equals its reading and
+ * blends smoothly towards the neighbouring rooms.
+ */
+
+import { getDewPoint } from './climate-metrics';
+
+// Higher powers keep the values closer to the nearest sensor
+const IDW_POWER = 2;
+
+// Width / height of the floorplan image, positions are % of each side
+export const FLOORPLAN_ASPECT = 1000 / 600;
+
+export type HeatmapMetric = 'temperature' | 'humidity' | 'dewPoint';
+
+export interface HeatmapMetricConfig {
+  label: string;
+  unit: string;
+  min: number; // Value at the cold / dry end of the scale
+  max: number;
+  reversed: boolean; // Humidity: high values are blue
+}
+
+// Fixed scales so colors stay comparable while replaying the history
+export const HEATMAP_METRICS: Record<HeatmapMetric, HeatmapMetricConfig> = {
+  temperature: { label: 'Temperatur', unit: '°C', min: 16, max: 26, reversed: false },
+  humidity: { label: 'Luftfeuchte', unit: '%', min: 30, max: 70, reversed: true },
+  dewPoint: { label: 'Taupunkt', unit: '°C', min: 0, max: 16, reversed: false },
+};
+
+export interface HeatmapPoint {
+  x: number; // % of the floorplan width
+  y: number; // % of the floorplan height
+  value: number;
+}
+
+/**
+ * Value of a metric from a temperature and humidity reading
+ */
+export function getMetricValue(metric: HeatmapMetric, temperature: number, humidity: number): number {
+  switch (metric) {
+    case 'temperature':
+      return temperature;
+    case 'humidity':
+      return humidity;
+    case 'dewPoint':
+      return getDewPoint(temperature, humidity);
+  }
+}
+
+/**
+ * Interpolate the value at a floorplan position by inverse distance weighting
+ * @returns Interpolated value or null without points
+ */
+export function interpolateIdw(points: HeatmapPoint[], x: number, y: number, power: number = IDW_POWER): number | null {
+  if (points.length === 0) return null;
+
+  let weightSum = 0;
+  let valueSum = 0;
+  for (const point of points) {
+    // Distances in the same unit on both axes
+    const dx = (point.x - x) * FLOORPLAN_ASPECT;
+    const dy = point.y - y;
+    const distanceSquared = dx * dx + dy * dy;
+    if (distanceSquared < 1e-6) return point.value;
+
+    const weight = 1 / Math.pow(distanceSquared, power / 2);
+    weightSum += weight;
+    valueSum += weight * point.value;
+  }
+
+  return valueSum / weightSum;
+}
+
+/**
+ * Color of a value on the blue (cold / dry) to red (warm / humid) scale
+ * @returns RGB components 0-255
+ */
+export function getHeatmapColor(metric: HeatmapMetric, value: number): [number, number, number] {
+  const { min, max, reversed } = HEATMAP_METRICS[metric];
+  const ratio = Math.min(1, Math.max(0, (value - min) / (max - min)));
+  const position = reversed ? 1 - ratio : ratio;
+
+  // Hue 240 (blue) to 0 (red)
+  return hslToRgb(240 * (1 - position), 0.85, 0.5);
+}
+
+/**
+ * CSS gradient of the color scale for the legend, from min to max
+ */
+export function getHeatmapGradient(metric: HeatmapMetric): string {
+  const { min, max } = HEATMAP_METRICS[metric];
+  const stops = [0, 0.25, 0.5, 0.75, 1].map((step) => {
+    const [r, g, b] = getHeatmapColor(metric, min + step * (max - min));
+    return `rgb(${r}, ${g}, ${b}) ${step * 100}%`;
+  });
+  return `linear-gradient(90deg, ${stops.join(', ')})`;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const segment = hue / 60;
+  const secondary = chroma * (1 - Math.abs((segment % 2) - 1));
+  const [r, g, b] =
+    segment < 1 ? [chroma, secondary, 0]
+    : segment < 2 ? [secondary, chroma, 0]
+    : segment < 3 ? [0, chroma, secondary]
+    : segment < 4 ? [0, secondary, chroma]
+    : segment < 5 ? [secondary, 0, chroma]
+    : [chroma, 0, secondary];
+  const offset = lightness - chroma / 2;
+  return [Math.round((r + offset) * 255), Math.round((g + offset) * 255), Math.round((b + offset) * 255)];
+}
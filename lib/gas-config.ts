@@ -0,0 +1,43 @@
+/**
+ * Gas Bottle Configuration
+ * Catalogue of bottle sizes and the default number of bottles connected at once
+ */
+
+export interface GasBottleType {
+  type: string;
+  kg: number;
+  price: number; // CHF per fill
+}
+
+/**
+ * Verfügbare Flaschengrössen mit Füllpreis
+ * Hier Preise anpassen oder neue Grössen hinzufügen
+ */
+export const GAS_BOTTLE_TYPES: GasBottleType[] = [
+  { type: '5kg', kg: 5, price: 29 },
+  { type: '10.5kg', kg: 10.5, price: 39 },
+  { type: '11kg', kg: 11, price: 41 },
+  { type: '33kg', kg: 33, price: 98 },
+];
+
+export const DEFAULT_GAS_BOTTLE_TYPE = '10.5kg';
+
+/**
+ * Default number of bottles that can be connected simultaneously
+ * (e.g. 2 with an automatic switchover valve), configurable in the settings
+ */
+export const DEFAULT_MAX_ACTIVE_GAS_BOTTLES = 2;
+
+/**
+ * Get bottle type from the catalogue
+ */
+export function getGasBottleType(type: string): GasBottleType | undefined {
+  return GAS_BOTTLE_TYPES.find((t) => t.type === type);
+}
+
+/**
+ * Get filling weight of a bottle type, falls back to parsing e.g. "10.5kg"
+ */
+export function getGasBottleKg(type: string): number {
+  return getGasBottleType(type)?.kg ?? (parseFloat(type) || 0);
+}
@@ -0,0 +1,193 @@
+/**
+ * Gas Bottle Forecast
+ * Estimates when the connected gas bottles will be empty based on past bottles
+ *
+ * Each completed bottle contributes its consumption rate (kg/day), weighted
+ * by how similar its season and its average outdoor temperature ('Aussen'
+ * Shelly sensor) are to the current usage period.
+ */
+
+import dbConnect from './dbConnect';
+import GasBottle, { IGasBottle } from '@/models/gas-bottle';
+import { getAverageTemperature } from './shelly';
+import { getOutdoorRoom } from './shelly-rooms';
+import { getGasBottleKg } from './gas-config';
+import { getUsageDays, getUsageStart } from './gas-usage';
+import { getSettings } from './settings';
+import type { GasForecast, GasForecastResponse } from '@/types/gas';
+
+// Days before the estimated empty date to order the next bottle
+export const GAS_REORDER_LEAD_DAYS = 7;
+
+// Temperature difference (°C) at which a bottle's weight drops to ~37%
+const TEMPERATURE_SCALE = 6;
+
+// Minimum weight so dissimilar bottles still count a little
+const MIN_WEIGHT = 0.05;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NO_CONSUMPTION_REASON = 'Kein messbarer Verbrauch der leeren Flaschen für eine Prognose';
+
+interface CompletedBottle {
+  kgPerDay: number;
+  midpoint: Date;
+  outdoorTemperature: number | null;
+}
+
+/**
+ * Fractional month of the year (0-12) for seasonal comparison
+ */
+function monthOfYear(date: Date): number {
+  return date.getMonth() + (date.getDate() - 1) / 31;
+}
+
+/**
+ * Similarity of two dates within the year: 1 = same season, 0 = opposite season
+ */
+function seasonWeight(a: Date, b: Date): number {
+  const diff = Math.abs(monthOfYear(a) - monthOfYear(b));
+  const months = Math.min(diff, 12 - diff);
+  return (1 + Math.cos((2 * Math.PI * months) / 12)) / 2;
+}
+
+function temperatureWeight(a: number | null, b: number | null): number {
+  if (a === null || b === null) return 1;
+  return Math.exp(-Math.pow((a - b) / TEMPERATURE_SCALE, 2));
+}
+
+function getConfidence(basedOnBottles: number, hasTemperature: boolean): GasForecast['confidence'] {
+  if (basedOnBottles >= 6 && hasTemperature) return 'high';
+  if (basedOnBottles >= 3) return 'medium';
+  return 'low';
+}
+
+async function getOutdoorTemperature(from: Date, to: Date): Promise<number | null> {
+  const outdoor = await getOutdoorRoom();
+  if (!outdoor || !outdoor.deviceId) return null;
+
+  try {
+    return await getAverageTemperature(outdoor.deviceId, from, to);
+  } catch (error) {
+    console.error('[Gas Forecast] Error loading outdoor temperature:', error);
+    return null;
+  }
+}
+
+/**
+ * Calculate the forecast for the connected gas bottles
+ */
+export async function getGasForecast(now: Date = new Date()): Promise<GasForecastResponse> {
+  await dbConnect();
+
+  const [bottles, { gas }] = await Promise.all([
+    GasBottle.find({}).sort({ startDate: 1 }).lean<(IGasBottle & { _id: unknown })[]>(),
+    getSettings(),
+  ]);
+  const { maxActiveBottles } = gas;
+  const active = bottles.filter((b) => !b.endDate);
+
+  if (active.length === 0) {
+    return { forecast: null, reason: 'Keine aktive Gasflasche', maxActiveBottles };
+  }
+
+  const completed: CompletedBottle[] = await Promise.all(
+    bottles
+      .filter((b): b is typeof b & { endDate: Date } => !!b.endDate)
+      .map(async (b) => {
+        const usageStart = getUsageStart(b, bottles);
+        return {
+          kgPerDay: getGasBottleKg(b.type) / getUsageDays(b, bottles),
+          midpoint: new Date((usageStart.getTime() + b.endDate.getTime()) / 2),
+          outdoorTemperature: await getOutdoorTemperature(usageStart, b.endDate),
+        };
+      })
+  );
+
+  if (completed.length === 0) {
+    return { forecast: null, reason: 'Noch keine leeren Flaschen für eine Prognose', maxActiveBottles };
+  }
+
+  // The bottle in use is the one whose usage started first, the others are reserve
+  const [current, ...reserve] = active
+    .map((b) => ({ bottle: b, usageStart: getUsageStart(b, bottles) }))
+    .sort((a, b) => a.usageStart.getTime() - b.usageStart.getTime());
+
+  const elapsedDays = Math.floor((now.getTime() - current.usageStart.getTime()) / DAY_MS);
+  const outdoorTemperature = await getOutdoorTemperature(current.usageStart, now);
+
+  const averageKgPerDay =
+    completed.reduce((sum, b) => sum + b.kgPerDay, 0) / completed.length;
+  // E.g. only bottles of an unknown type without weight, the dates below would be infinite
+  if (!(averageKgPerDay > 0)) {
+    return { forecast: null, reason: NO_CONSUMPTION_REASON, maxActiveBottles };
+  }
+  const currentKg = getGasBottleKg(current.bottle.type);
+
+  // Compare against the middle of the expected usage period, not just today
+  const referenceDate = new Date(
+    current.usageStart.getTime() + Math.max(elapsedDays, currentKg / averageKgPerDay / 2) * DAY_MS
+  );
+
+  let weightSum = 0;
+  let weightedRate = 0;
+  for (const bottle of completed) {
+    const weight = Math.max(
+      MIN_WEIGHT,
+      seasonWeight(bottle.midpoint, referenceDate) *
+        temperatureWeight(bottle.outdoorTemperature, outdoorTemperature)
+    );
+    weightSum += weight;
+    weightedRate += weight * bottle.kgPerDay;
+  }
+
+  const kgPerDay = weightedRate / weightSum;
+  if (!(kgPerDay > 0)) {
+    return { forecast: null, reason: NO_CONSUMPTION_REASON, maxActiveBottles };
+  }
+  const estimatedDurationDays = Math.round(currentKg / kgPerDay);
+  const currentRemainingKg = Math.max(0, currentKg - kgPerDay * elapsedDays);
+  const reserveKg = reserve.reduce((sum, r) => sum + getGasBottleKg(r.bottle.type), 0);
+  const remainingKg = currentRemainingKg + reserveKg;
+
+  const currentBottleEmptyDate = new Date(
+    current.usageStart.getTime() + estimatedDurationDays * DAY_MS
+  );
+  // Reserve bottles take over once the current one is empty
+  const estimatedEmptyDate = new Date(
+    Math.max(currentBottleEmptyDate.getTime(), now.getTime()) + (reserveKg / kgPerDay) * DAY_MS
+  );
+  const reorderDate = new Date(estimatedEmptyDate.getTime() - GAS_REORDER_LEAD_DAYS * DAY_MS);
+  const remainingDays = Math.max(
+    0,
+    Math.round((estimatedEmptyDate.getTime() - now.getTime()) / DAY_MS)
+  );
+
+  const hasTemperature =
+    outdoorTemperature !== null && completed.some((b) => b.outdoorTemperature !== null);
+
+  return {
+    forecast: {
+      activeBottle: {
+        id: String(current.bottle._id),
+        type: current.bottle.type,
+        startDate: current.usageStart.toISOString(),
+      },
+      reserveBottles: reserve.length,
+      elapsedDays,
+      estimatedDurationDays,
+      currentBottleEmptyDate: currentBottleEmptyDate.toISOString(),
+      remainingDays,
+      remainingKg: Math.round(remainingKg * 10) / 10,
+      estimatedEmptyDate: estimatedEmptyDate.toISOString(),
+      reorderDate: reorderDate.toISOString(),
+      overdue: elapsedDays > estimatedDurationDays,
+      basedOnBottles: completed.length,
+      kgPerDay: Math.round(kgPerDay * 1000) / 1000,
+      averageKgPerDay: Math.round(averageKgPerDay * 1000) / 1000,
+      outdoorTemperature,
+      confidence: getConfidence(completed.length, hasTemperature),
+    },
+    maxActiveBottles,
+  };
+}
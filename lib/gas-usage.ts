@@ -0,0 +1,133 @@
+/**
+ * Gas Usage Calculations
+ * Shared between the bottle list (client) and the forecast (server)
+ *
+ * With a switchover valve a reserve bottle is connected long before it is
+ * used. Its usage therefore starts when the previous bottle ran empty,
+ * not when it was connected.
+ */
+
+import { getGasBottleKg, getGasBottleType } from './gas-config';
+
+export interface GasBottleUsageInput {
+  type: string;
+  startDate: Date | string;
+  endDate?: Date | string | null;
+  price?: number;
+}
+
+export interface GasConsumptionStats {
+  kgPerDay: number;
+  chfPerMonth: number;
+  totalKg: number;
+  totalCost: number;
+  completedBottles: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30.44;
+
+/**
+ * Get the date a bottle actually started being used
+ */
+export function getUsageStart(bottle: GasBottleUsageInput, bottles: GasBottleUsageInput[]): Date {
+  const start = new Date(bottle.startDate);
+  const end = bottle.endDate ? new Date(bottle.endDate) : null;
+
+  let usageStart = start;
+  for (const other of bottles) {
+    if (other === bottle || !other.endDate) continue;
+    const otherEnd = new Date(other.endDate);
+    if (otherEnd > usageStart && (!end || otherEnd < end)) {
+      usageStart = otherEnd;
+    }
+  }
+
+  return usageStart;
+}
+
+/**
+ * Days a completed bottle was in use (at least 1)
+ */
+export function getUsageDays(bottle: GasBottleUsageInput, bottles: GasBottleUsageInput[]): number {
+  const end = bottle.endDate ? new Date(bottle.endDate) : new Date();
+  const start = getUsageStart(bottle, bottles);
+  return Math.max(1, Math.ceil((end.getTime() - start.getTime()) / DAY_MS));
+}
+
+/**
+ * Price of a bottle: stored price or catalogue price as fallback
+ */
+export function getBottlePrice(bottle: GasBottleUsageInput): number {
+  return bottle.price ?? getGasBottleType(bottle.type)?.price ?? 0;
+}
+
+/**
+ * Consumption over the span covered by all completed bottles
+ * @returns null if no bottle has been emptied yet
+ */
+export function calculateConsumptionStats(bottles: GasBottleUsageInput[]): GasConsumptionStats | null {
+  const completed = bottles.filter((b) => b.endDate);
+  if (completed.length === 0) return null;
+
+  const firstUsage = Math.min(...completed.map((b) => getUsageStart(b, bottles).getTime()));
+  const lastEnd = Math.max(...completed.map((b) => new Date(b.endDate!).getTime()));
+  const days = Math.max(1, (lastEnd - firstUsage) / DAY_MS);
+
+  const totalKg = completed.reduce((sum, b) => sum + getGasBottleKg(b.type), 0);
+  const totalCost = completed.reduce((sum, b) => sum + getBottlePrice(b), 0);
+
+  return {
+    kgPerDay: totalKg / days,
+    chfPerMonth: (totalCost / days) * DAYS_PER_MONTH,
+    totalKg,
+    totalCost,
+    completedBottles: completed.length,
+  };
+}
+
+/**
+ * Check whether a bottle's date range fits next to the other bottles
+ * At no point may more than maxActive bottles be connected. A bottle ending
+ * on the day the next one starts does not count as overlap.
+ * @returns true if the range would exceed maxActive connected bottles
+ */
+export function exceedsMaxConnectedBottles(
+  range: { startDate: Date | string; endDate?: Date | string | null },
+  others: GasBottleUsageInput[],
+  maxActive: number
+): boolean {
+  const start = new Date(range.startDate).getTime();
+  const end = range.endDate ? new Date(range.endDate).getTime() : Infinity;
+
+  const intervals = others.map((o) => ({
+    start: new Date(o.startDate).getTime(),
+    end: o.endDate ? new Date(o.endDate).getTime() : Infinity,
+  }));
+
+  // Concurrency only increases where an interval starts, so these points suffice
+  const checkpoints = [start, ...intervals.map((i) => i.start).filter((t) => t > start && t < end)];
+
+  return checkpoints.some((t) => {
+    const connected = intervals.filter((i) => i.start <= t && i.end > t).length;
+    return connected + 1 > maxActive;
+  });
+}
+
+/**
+ * Validate a bottle's date range against the other bottles
+ * @returns Error message (German, shown in the UI) or null if the range is valid
+ */
+export function validateBottleRange(
+  range: { startDate: Date | string; endDate?: Date | string | null },
+  others: GasBottleUsageInput[],
+  maxActive: number
+): string | null {
+  if (range.endDate && new Date(range.endDate).getTime() < new Date(range.startDate).getTime()) {
+    return 'Das Enddatum liegt vor dem Startdatum';
+  }
+  if (exceedsMaxConnectedBottles(range, others, maxActive)) {
+    return `Der Zeitraum überschneidet sich mit anderen Flaschen (max. ${maxActive} gleichzeitig angeschlossen)`;
+  }
+  return null;
+}
@@ -4,20 +4,11 @@
  */
 
 import { GridStatus } from '@/types/victron';
-import gridPeriodsData from './grid-periods.json';
+import { GridPeriod, findPeriodForDate } from './grid-periods-config';
 
 // Threshold for grid power detection (Watts)
 const PG_THRESHOLD = 50;
 
-interface GridPeriod {
-  gridOn: string;
-  gridOff: string | null;
-}
-
-interface GridPeriodsConfig {
-  periods: GridPeriod[];
-}
-
 /**
  * Layer 1: Detect grid status from Pg (Grid Power) field
  * Most reliable method when available
@@ -85,69 +76,70 @@ export function detectFromGridHistory(
 }
 
 /**
- * Layer 3: Detect grid status from manual grid-periods.json override
+ * Layer 3: Detect grid status from the manually recorded grid periods
  * Used when system is physically disconnected from grid
  *
+ * @param periods - Recorded grid periods of the installation (empty if it has none)
  * @param date - Date to check (defaults to now)
  * @returns GridStatus based on configured periods
  */
-export function detectFromGridPeriods(date: Date = new Date()): GridStatus {
-  const config = gridPeriodsData as GridPeriodsConfig;
+export function detectFromGridPeriods(
+  periods: GridPeriod[],
+  date: Date = new Date()
+): GridStatus {
   const checkDate = date.toISOString().split('T')[0]; // YYYY-MM-DD format
 
-  // Find the applicable period for the given date
-  for (const period of config.periods) {
-    const gridOnDate = period.gridOn;
-    const gridOffDate = period.gridOff;
-
-    // Check if date is within this period
-    if (checkDate >= gridOnDate) {
-      if (gridOffDate === null) {
-        // Grid is still connected (gridOff not set)
-        console.log(`[detectFromGridPeriods] GRID_CONSUMING (gridOff=null, connected since ${gridOnDate})`);
-        return 'grid_consuming';
-      }
-
-      if (checkDate >= gridOffDate) {
-        // Grid has been disconnected
-        console.log(`[detectFromGridPeriods] AUTARK (disconnected since ${gridOffDate})`);
-        return 'autark';
-      }
-
-      // Date is between gridOn and gridOff
-      console.log(`[detectFromGridPeriods] GRID_CONSUMING (between ${gridOnDate} and ${gridOffDate})`);
-      return 'grid_consuming';
-    }
+  // The latest period started on or before the given date decides
+  const period = findPeriodForDate(periods, checkDate);
+
+  if (!period) {
+    // No matching period found, assume unknown
+    console.log('[detectFromGridPeriods] UNKNOWN (no matching period)');
+    return 'unknown';
   }
 
-  // No matching period found, assume unknown
-  console.log('[detectFromGridPeriods] UNKNOWN (no matching period)');
-  return 'unknown';
+  if (period.gridOff === null) {
+    // Grid is still connected (gridOff not set)
+    console.log(`[detectFromGridPeriods] GRID_CONSUMING (gridOff=null, connected since ${period.gridOn})`);
+    return 'grid_consuming';
+  }
+
+  if (checkDate >= period.gridOff) {
+    // Grid has been disconnected
+    console.log(`[detectFromGridPeriods] AUTARK (disconnected since ${period.gridOff})`);
+    return 'autark';
+  }
+
+  // Date is between gridOn and gridOff
+  console.log(`[detectFromGridPeriods] GRID_CONSUMING (between ${period.gridOn} and ${period.gridOff})`);
+  return 'grid_consuming';
 }
 
 /**
  * Main grid detection function - cascades through all detection layers
  *
  * Priority:
- * 1. grid-periods.json (manual override for physical disconnection - "autark" only)
+ * 1. Grid periods (manual override for physical disconnection - "autark" only)
  * 2. Pg field (real-time grid power measurement)
- * 3. grid-periods.json (fallback for "grid_consuming")
+ * 3. Grid periods (fallback for "grid_consuming")
  * 4. grid_history_from (cumulative grid consumption - last resort)
  *
  * @param pgValue - Current grid power in Watts
  * @param gridHistoryData - Array of grid history data points
+ * @param gridPeriods - Recorded grid periods of the installation (empty if it has none)
  * @returns Detected GridStatus with detection method logged
  */
 export function detectGridStatus(
   pgValue: number | undefined | null,
-  gridHistoryData?: Array<[number, number, number, number]>
+  gridHistoryData: Array<[number, number, number, number]> | undefined,
+  gridPeriods: GridPeriod[]
 ): GridStatus {
   console.log('[detectGridStatus] Starting detection cascade...');
 
-  // Layer 1: Check grid-periods.json FIRST as override for physical disconnection
-  const periodsResult = detectFromGridPeriods();
+  // Layer 1: Check grid periods FIRST as override for physical disconnection
+  const periodsResult = detectFromGridPeriods(gridPeriods);
   if (periodsResult === 'autark') {
-    console.log(`[detectGridStatus] Result from Layer 1 (grid-periods.json): ${periodsResult}`);
+    console.log(`[detectGridStatus] Result from Layer 1 (grid periods): ${periodsResult}`);
     return periodsResult;
   }
 
@@ -158,9 +150,9 @@ export function detectGridStatus(
     return pgResult;
   }
 
-  // Layer 3: If grid-periods says we're connected, trust it
+  // Layer 3: If the grid periods say we're connected, trust it
   if (periodsResult === 'grid_consuming') {
-    console.log(`[detectGridStatus] Result from Layer 3 (grid-periods.json): ${periodsResult}`);
+    console.log(`[detectGridStatus] Result from Layer 3 (grid periods): ${periodsResult}`);
     return periodsResult;
   }
 
@@ -0,0 +1,309 @@
+/**
+ * Grid Period Inference
+ * Proposes grid connection intervals from the measured grid import
+ *
+ * Each day is classified from the stored 15min Pg series (VictronDailyStat),
+ * the current day from the live Pg and grid_history_from values. Connected
+ * days are merged into intervals and compared with the recorded periods.
+ * Only the house has a grid connection, other installations are ignored.
+ */
+
+import dbConnect from './dbConnect';
+import VictronDailyStat from '@/models/victron-daily-stat';
+import { fetchVictronStats } from './victron';
+import { fetchWithTokenRefresh } from './victron-token';
+import { getInstallationFilter, getVictronInstallation } from './victron-installations';
+import { detectFromGridHistory, detectFromPgField } from './grid-detection';
+import type { VictronStatsResponse } from '@/types/victron';
+import {
+  GridPeriod,
+  GridPeriodFlag,
+  GridPeriodInference,
+  GridPeriodProposal,
+} from './grid-periods-config';
+
+// Days of history scanned for connection intervals
+const INFERENCE_DAYS = 365;
+
+// Grid power above this counts as import (Watts), same as the live detection
+const PG_THRESHOLD = 50;
+
+// A day counts as connected with this many importing intervals or this much energy
+const MIN_ACTIVE_INTERVALS = 2;
+const MIN_IMPORT_KWH = 0.2;
+
+// Days without import that may lie within one interval (full battery, no data)
+const MAX_GAP_DAYS = 2;
+
+// Allowed difference between inferred and recorded dates
+const DATE_TOLERANCE_DAYS = 1;
+
+// Intervals per day at which the import signal counts as strong
+const STRONG_SIGNAL_INTERVALS = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DayGridSignal {
+  date: string; // YYYY-MM-DD (local day)
+  hasData: boolean;
+  activeIntervals: number; // 15min intervals with grid import
+  importKwh: number;
+}
+
+interface ConnectedRun {
+  first: number; // Index of the first connected day
+  last: number; // Index of the last connected day
+}
+
+function toLocalDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((new Date(b).getTime() - new Date(a).getTime()) / DAY_MS);
+}
+
+function isConnected(day: DayGridSignal): boolean {
+  return day.activeIntervals >= MIN_ACTIVE_INTERVALS || day.importKwh >= MIN_IMPORT_KWH;
+}
+
+/**
+ * Merge connected days into runs, bridging short gaps
+ */
+function findConnectedRuns(days: DayGridSignal[]): ConnectedRun[] {
+  const runs: ConnectedRun[] = [];
+
+  days.forEach((day, index) => {
+    if (!isConnected(day)) return;
+
+    const previous = runs[runs.length - 1];
+    if (previous && index - previous.last - 1 <= MAX_GAP_DAYS) {
+      previous.last = index;
+    } else {
+      runs.push({ first: index, last: index });
+    }
+  });
+
+  return runs;
+}
+
+/**
+ * Confidence of a run from its density, import strength and measured edges
+ */
+function getRunConfidence(days: DayGridSignal[], run: ConnectedRun): number {
+  const runDays = days.slice(run.first, run.last + 1);
+  const connected = runDays.filter(isConnected);
+
+  const density = connected.length / runDays.length;
+  const averageIntervals =
+    connected.reduce((sum, day) => sum + day.activeIntervals, 0) / connected.length;
+  const signal = Math.min(1, averageIntervals / STRONG_SIGNAL_INTERVALS);
+
+  // Edges are only certain if the neighbouring days were measured
+  const before = days[run.first - 1];
+  const after = days[run.last + 1];
+  const edges = ((before?.hasData ? 1 : 0) + (after ? (after.hasData ? 1 : 0) : 1)) / 2;
+
+  // Single days are more likely a short test than a real connection
+  const lengthFactor = connected.length === 1 ? 0.6 : 1;
+
+  return Math.round((0.5 * density + 0.3 * signal + 0.2 * edges) * lengthFactor * 100) / 100;
+}
+
+/**
+ * Infer connection intervals from daily grid signals
+ * @param days Consecutive days, oldest first
+ */
+export function inferGridIntervals(
+  days: DayGridSignal[]
+): Omit<GridPeriodProposal, 'mismatch' | 'periodId'>[] {
+  return findConnectedRuns(days).map((run) => {
+    const runDays = days.slice(run.first, run.last + 1);
+    // Without measured days after the run there is no sign of a disconnection
+    const stillConnected = days.slice(run.last + 1).every((day) => !day.hasData);
+
+    return {
+      gridOn: days[run.first].date,
+      // gridOff is the first day without grid, like the recorded periods
+      gridOff: stillConnected ? null : addDays(days[run.last].date, 1),
+      confidence: getRunConfidence(days, run),
+      connectedDays: runDays.filter(isConnected).length,
+      importKwh: Math.round(runDays.reduce((sum, day) => sum + day.importKwh, 0) * 10) / 10,
+    };
+  });
+}
+
+function overlaps(a: { gridOn: string; gridOff: string | null }, b: { gridOn: string; gridOff: string | null }): boolean {
+  const aEnd = a.gridOff ?? '9999-12-31';
+  const bEnd = b.gridOff ?? '9999-12-31';
+  return a.gridOn < bEnd && b.gridOn < aEnd;
+}
+
+function datesMatch(a: string | null, b: string | null): boolean {
+  if (a === null || b === null) return a === b;
+  return Math.abs(daysBetween(a, b)) <= DATE_TOLERANCE_DAYS;
+}
+
+/**
+ * Compare inferred intervals with the recorded periods
+ * Only differences are returned: intervals to add or adjust and recorded
+ * periods during which no import was measured
+ */
+export function compareWithRecorded(
+  days: DayGridSignal[],
+  recorded: GridPeriod[]
+): Pick<GridPeriodInference, 'proposals' | 'flags'> {
+  const scannedFrom = days[0]?.date ?? '';
+  const intervals = inferGridIntervals(days);
+  const proposals: GridPeriodProposal[] = [];
+
+  for (const interval of intervals) {
+    const matching = recorded.filter((period) => overlaps(period, interval));
+
+    if (matching.length === 0) {
+      proposals.push({ ...interval, mismatch: 'unrecorded' });
+      continue;
+    }
+
+    // Recorded periods starting before the scanned range can't be compared at the start
+    const period = matching[0];
+    const startMatches = period.gridOn < scannedFrom || datesMatch(period.gridOn, interval.gridOn);
+    if (matching.length > 1 || !startMatches || !datesMatch(period.gridOff, interval.gridOff)) {
+      proposals.push({ ...interval, mismatch: 'dates_differ', periodId: matching.length === 1 ? period.id : undefined });
+    }
+  }
+
+  const flags: GridPeriodFlag[] = [];
+  for (const period of recorded) {
+    const periodDays = days.filter(
+      (day) => day.date >= period.gridOn && (period.gridOff === null || day.date < period.gridOff)
+    );
+    const measured = periodDays.filter((day) => day.hasData);
+
+    // Only flag periods mostly covered by data
+    if (measured.length === 0 || measured.length < periodDays.length / 2) continue;
+
+    if (!measured.some(isConnected)) {
+      flags.push({
+        periodId: period.id,
+        gridOn: period.gridOn,
+        gridOff: period.gridOff,
+        reason: 'no_import',
+        coveredDays: measured.length,
+      });
+    }
+  }
+
+  return { proposals, flags };
+}
+
+/**
+ * Build daily signals from the stored 15min grid power
+ */
+async function loadDaySignals(from: Date, to: Date): Promise<Map<string, DayGridSignal>> {
+  const signals = new Map<string, DayGridSignal>();
+  const installation = getVictronInstallation();
+  if (!installation) return signals;
+
+  await dbConnect();
+  const docs = await VictronDailyStat.find({ ...getInstallationFilter(installation), date: { $gte: from, $lt: to } })
+    .select('date energyImported gridPower')
+    .lean();
+
+  for (const doc of docs) {
+    const samples = doc.gridPower ?? [];
+    const importing = samples.filter(([, watts]) => watts > PG_THRESHOLD);
+    const date = toLocalDateString(doc.date);
+
+    signals.set(date, {
+      date,
+      hasData: true,
+      activeIntervals: importing.length,
+      // Prefer the 15min series, the daily import total is a fallback without it
+      importKwh: samples.length > 0
+        ? importing.reduce((sum, [, watts]) => sum + (watts / 1000) * 0.25, 0)
+        : doc.energyImported,
+    });
+  }
+
+  return signals;
+}
+
+/**
+ * Signal for the current day from the live Pg and grid_history_from values
+ * @param liveStats Already fetched 15min stats, fetched from VRM if not given
+ */
+async function loadTodaySignal(date: string, liveStats?: VictronStatsResponse): Promise<DayGridSignal> {
+  const installation = getVictronInstallation();
+  const empty = { date, hasData: false, activeIntervals: 0, importKwh: 0 };
+  if (!liveStats && !installation) return empty;
+
+  try {
+    const stats = liveStats ?? await fetchWithTokenRefresh(installation!, (token) =>
+      fetchVictronStats(installation!.installationId, token, '15mins')
+    );
+    const pg = stats.records.Pg ?? [];
+    const importing = pg.filter(([timestamp, watts]) =>
+      toLocalDateString(new Date(timestamp)) === date && watts > PG_THRESHOLD
+    );
+    const latestPg = pg[pg.length - 1]?.[1];
+    const consuming =
+      detectFromPgField(latestPg) === 'grid_consuming' ||
+      detectFromGridHistory(stats.records.grid_history_from) === 'grid_consuming';
+
+    return {
+      date,
+      hasData: pg.length > 0 || !!stats.records.grid_history_from?.length,
+      // A rising grid_history_from counts like importing intervals
+      activeIntervals: Math.max(importing.length, consuming ? MIN_ACTIVE_INTERVALS : 0),
+      importKwh: importing.reduce((sum, [, watts]) => sum + (watts / 1000) * 0.25, 0),
+    };
+  } catch (error) {
+    console.error('[GridInference] Could not load live grid data:', error);
+    return empty;
+  }
+}
+
+/**
+ * Scan the grid import history and compare it with the recorded periods
+ * @param recorded Recorded grid periods
+ * @param liveStats Already fetched 15min stats for the current day (optional)
+ */
+export async function inferGridPeriods(
+  recorded: GridPeriod[],
+  liveStats?: VictronStatsResponse,
+  now: Date = new Date()
+): Promise<GridPeriodInference> {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const from = new Date(today);
+  from.setDate(from.getDate() - INFERENCE_DAYS);
+
+  const [stored, todaySignal] = await Promise.all([
+    loadDaySignals(from, today),
+    loadTodaySignal(toLocalDateString(today), liveStats),
+  ]);
+
+  const days: DayGridSignal[] = [];
+  for (let date = new Date(from); date < today; date.setDate(date.getDate() + 1)) {
+    const key = toLocalDateString(date);
+    days.push(stored.get(key) ?? { date: key, hasData: false, activeIntervals: 0, importKwh: 0 });
+  }
+  days.push(todaySignal);
+
+  console.log(`[GridInference] Scanned ${days.length} days, ${stored.size} with stored data`);
+
+  return {
+    ...compareWithRecorded(days, recorded),
+    scannedFrom: days[0].date,
+    scannedTo: todaySignal.date,
+  };
+}
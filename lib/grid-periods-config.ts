@@ -0,0 +1,100 @@
+/**
+ * Grid Periods Configuration
+ * Types and pure helpers for periods when the system was connected to the grid
+ * (usable on client and server)
+ *
+ * The periods are stored in MongoDB (GridPeriod), grid-periods.json only seeds
+ * the collection once and serves as fallback when the database is unavailable.
+ */
+
+import gridPeriodsData from './grid-periods.json';
+
+export interface GridPeriod {
+  id?: string; // Set for periods loaded from MongoDB
+  gridOn: string;  // ISO date string (YYYY-MM-DD)
+  gridOff: string | null;  // ISO date string or null if still on grid
+}
+
+export interface GridPeriodsData {
+  periods: GridPeriod[];
+}
+
+// Inferred connection interval that is missing or differs from the recorded periods
+export interface GridPeriodProposal {
+  gridOn: string; // YYYY-MM-DD
+  gridOff: string | null; // YYYY-MM-DD, null if still connected
+  confidence: number; // 0-1
+  connectedDays: number; // Days with detected grid import
+  importKwh: number; // Imported energy within the interval
+  mismatch: 'unrecorded' | 'dates_differ';
+  periodId?: string; // Recorded period to update for 'dates_differ'
+}
+
+// Recorded period without any grid import in the measured data
+export interface GridPeriodFlag {
+  periodId?: string;
+  gridOn: string;
+  gridOff: string | null;
+  reason: 'no_import';
+  coveredDays: number; // Days with measured data within the period
+}
+
+export interface GridPeriodInference {
+  proposals: GridPeriodProposal[];
+  flags: GridPeriodFlag[];
+  scannedFrom: string;
+  scannedTo: string;
+}
+
+/**
+ * Seed periods from the JSON file
+ */
+export const SEED_GRID_PERIODS: GridPeriod[] = (gridPeriodsData as GridPeriodsData).periods;
+
+/**
+ * Calculate number of days for a grid period
+ * If gridOff is null, calculate days until today
+ */
+export function calculateDays(gridOn: string, gridOff: string | null): number {
+  const startDate = new Date(gridOn);
+  const endDate = gridOff ? new Date(gridOff) : new Date();
+
+  const diffTime = endDate.getTime() - startDate.getTime();
+  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+
+  return diffDays;
+}
+
+/**
+ * Check if a period is currently active (still on grid)
+ */
+export function isActivePeriod(period: GridPeriod): boolean {
+  return period.gridOff === null;
+}
+
+/**
+ * Get the currently active period, if the system is connected right now
+ */
+export function getActivePeriod(periods: GridPeriod[]): GridPeriod | undefined {
+  return periods.find(isActivePeriod);
+}
+
+/**
+ * Get the latest period that started on or before the given day
+ * @param date Day as YYYY-MM-DD
+ */
+export function findPeriodForDate(periods: GridPeriod[], date: string): GridPeriod | undefined {
+  return [...periods]
+    .sort((a, b) => a.gridOn.localeCompare(b.gridOn))
+    .filter((period) => period.gridOn <= date)
+    .pop();
+}
+
+/**
+ * Confidence level for display
+ */
+export function getConfidenceLevel(confidence: number): 'high' | 'medium' | 'low' {
+  if (confidence >= 0.75) return 'high';
+  if (confidence >= 0.5) return 'medium';
+  return 'low';
+}
@@ -1,43 +1,92 @@
 /**
- * Grid Periods Data Management
- * Tracks periods when the system was connected to the grid vs. autark
+ * Grid Periods Storage
+ * Loads and validates grid connection periods stored in MongoDB
  */
 
-import gridPeriodsData from './grid-periods.json';
+import dbConnect from './dbConnect';
+import GridPeriodModel, { IGridPeriod } from '@/models/grid-period';
+import { GridPeriod, SEED_GRID_PERIODS } from './grid-periods-config';
+import { seedOnce } from './seed';
 
-export interface GridPeriod {
-  gridOn: string;  // ISO date string (YYYY-MM-DD)
-  gridOff: string | null;  // ISO date string or null if still on grid
+type GridPeriodDoc = IGridPeriod & { _id: unknown };
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
 }
 
-export interface GridPeriodsData {
-  periods: GridPeriod[];
+export function toGridPeriod(doc: GridPeriodDoc): GridPeriod {
+  return {
+    id: String(doc._id),
+    gridOn: toDateString(doc.gridOn),
+    gridOff: doc.gridOff ? toDateString(doc.gridOff) : null,
+  };
 }
 
 /**
- * Get all grid periods from JSON file
+ * Get all grid periods, oldest first
+ * The collection is seeded once from grid-periods.json, database errors fall back to it
  */
-export function getGridPeriods(): GridPeriod[] {
-  return (gridPeriodsData as GridPeriodsData).periods;
+export async function getGridPeriods(): Promise<GridPeriod[]> {
+  try {
+    await dbConnect();
+
+    await seedOnce('grid-periods', GridPeriodModel, () =>
+      GridPeriodModel.insertMany(
+        SEED_GRID_PERIODS.map((period) => ({
+          gridOn: new Date(period.gridOn),
+          gridOff: period.gridOff ? new Date(period.gridOff) : null,
+        })),
+        { ordered: false }
+      )
+    );
+
+    const docs = await GridPeriodModel.find({}).sort({ gridOn: 1 }).lean<GridPeriodDoc[]>();
+    return docs.map(toGridPeriod);
+  } catch (error) {
+    console.error('[GridPeriods] Error loading periods, using grid-periods.json:', error);
+    return SEED_GRID_PERIODS;
+  }
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
 }
 
 /**
- * Calculate number of days for a grid period
- * If gridOff is null, calculate days until today
+ * Check whether two periods overlap, open periods run indefinitely
+ * A period may start on the day the previous one ended
  */
-export function calculateDays(gridOn: string, gridOff: string | null): number {
-  const startDate = new Date(gridOn);
-  const endDate = gridOff ? new Date(gridOff) : new Date();
-
-  const diffTime = endDate.getTime() - startDate.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-  return diffDays;
+function overlaps(a: GridPeriod, b: GridPeriod): boolean {
+  const aEnd = a.gridOff ?? '9999-12-31';
+  const bEnd = b.gridOff ?? '9999-12-31';
+  return a.gridOn < bEnd && b.gridOn < aEnd;
 }
 
 /**
- * Check if a period is currently active (still on grid)
+ * Validate a grid period payload from the API against the other stored periods
+ * @returns Period fields or an error message (German, shown in the UI)
  */
-export function isActivePeriod(period: GridPeriod): boolean {
-  return period.gridOff === null;
+export function parseGridPeriodInput(
+  body: Record<string, unknown>,
+  others: GridPeriod[]
+): { period: GridPeriod } | { error: string } {
+  const { gridOn, gridOff } = body;
+
+  if (!isValidDate(gridOn)) {
+    return { error: 'Ungültiges Datum für "Netz angeschlossen"' };
+  }
+  if (gridOff !== null && gridOff !== undefined && !isValidDate(gridOff)) {
+    return { error: 'Ungültiges Datum für "Netz getrennt"' };
+  }
+
+  const period: GridPeriod = { gridOn, gridOff: (gridOff as string | null | undefined) ?? null };
+
+  if (period.gridOff !== null && period.gridOff < period.gridOn) {
+    return { error: 'Das Trenndatum liegt vor dem Anschlussdatum' };
+  }
+  if (others.some((other) => overlaps(period, other))) {
+    return { error: 'Der Zeitraum überschneidet sich mit einer anderen Netzperiode' };
+  }
+
+  return { period };
 }
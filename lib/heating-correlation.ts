@@ -0,0 +1,286 @@
+/**
+ * Stove and Room Temperature Correlation
+ * Measures how each room responds to a fire session and recommends the next
+ * firing time
+ *
+ * For every finished session the Shelly readings of each indoor room are
+ * compared with the room temperature at ignition: rise to the peak, lag until
+ * the peak, time until the room starts warming and the decay afterwards. The
+ * recommendation extrapolates the living rooms with their average decay down
+ * to the comfort temperature from the settings.
+ */
+
+import { getLatestReadingsFromDB, getReadingsInRanges } from './shelly';
+import { getIndoorRooms } from './shelly-rooms';
+import { SHELLY_COLLECTION_INTERVAL_MS } from './shelly-config';
+import type { HeatingSettings } from './settings-config';
+import type { FireSession } from '@/types/dashboard';
+
+// Sessions analysed at most (newest first)
+const MAX_SESSIONS = 30;
+
+// Room readings before ignition used as baseline, one collection interval
+// always holds a reading
+const BASELINE_WINDOW_MS = SHELLY_COLLECTION_INTERVAL_MS;
+
+// Room response is measured until this long after the session ended
+const RESPONSE_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+// Rise that counts as the room starting to warm up (°C)
+const RESPONSE_DELTA = 0.3;
+
+// Decay is measured over this time after the room peak, at least MIN_DECAY_MS
+const DECAY_WINDOW_MS = 6 * 60 * 60 * 1000;
+const MIN_DECAY_MS = 2 * 60 * 60 * 1000;
+
+// Fallbacks for the recommendation without measured sessions
+const DEFAULT_DECAY_PER_HOUR = 0.3;
+const DEFAULT_RESPONSE_MINUTES = 60;
+
+// Living room readings older than this are not used for the recommendation
+const MAX_READING_AGE_MS = 3 * 60 * 60 * 1000;
+
+// Drops further ahead need no recommendation
+const RECOMMENDATION_HORIZON_MS = 48 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface RoomSessionResponse {
+  sessionId: string;
+  baseline: number; // °C at ignition
+  rise: number; // °C from baseline to room peak
+  lagMinutes: number; // Ignition until room peak
+  responseMinutes: number | null; // Ignition until the room starts warming
+  decayPerHour: number | null; // °C/h after the room peak
+}
+
+export interface RoomCorrelation {
+  slug: string;
+  name: string;
+  sessions: number; // Sessions with room data
+  averageRise: number | null;
+  averageLagMinutes: number | null;
+  averageResponseMinutes: number | null;
+  averageDecayPerHour: number | null;
+  risePer10Kwh: number | null; // °C rise per 10 kWh estimated heat output
+}
+
+export type FiringRecommendationStatus = 'now' | 'scheduled' | 'not_needed' | 'burning' | 'no_data';
+
+export interface FiringRecommendation {
+  status: FiringRecommendationStatus;
+  recommendedAt: string | null; // ISO datetime string
+  dropAt: string | null; // When the first living room falls below comfort
+  room: string | null; // Name of that room
+  comfortTemperature: number;
+}
+
+export interface StoveRoomCorrelation {
+  rooms: RoomCorrelation[]; // Sorted by average rise, best heated first
+  recommendation: FiringRecommendation;
+  analysedSessions: number;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function round(value: number | null, digits: number = 1): number | null {
+  if (value === null) return null;
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Measure the response of one room to one session
+ * @param readings Room readings around the session, oldest first
+ * @param windowEnd End of the response window (next ignition or session end + window)
+ */
+export function measureRoomResponse(
+  session: FireSession,
+  readings: { timestamp: Date; temperature: number }[],
+  windowEnd: number
+): RoomSessionResponse | null {
+  const start = new Date(session.started_at).getTime();
+
+  const before = readings.filter(
+    (r) => r.timestamp.getTime() <= start && r.timestamp.getTime() >= start - BASELINE_WINDOW_MS
+  );
+  const after = readings.filter((r) => r.timestamp.getTime() > start && r.timestamp.getTime() <= windowEnd);
+  if (before.length === 0 || after.length < 2) return null;
+
+  const baseline = before[before.length - 1].temperature;
+  const peak = after.reduce((max, r) => (r.temperature > max.temperature ? r : max));
+  const rise = peak.temperature - baseline;
+  const response = after.find((r) => r.temperature >= baseline + RESPONSE_DELTA);
+
+  // Decay only makes sense for rooms the stove actually warmed
+  let decayPerHour: number | null = null;
+  if (rise >= RESPONSE_DELTA) {
+    const peakTime = peak.timestamp.getTime();
+    const decayEnd = Math.min(peakTime + DECAY_WINDOW_MS, windowEnd);
+    const decayReadings = after.filter((r) => r.timestamp.getTime() > peakTime && r.timestamp.getTime() <= decayEnd);
+    const last = decayReadings[decayReadings.length - 1];
+    if (last && last.timestamp.getTime() - peakTime >= MIN_DECAY_MS) {
+      decayPerHour = (peak.temperature - last.temperature) / ((last.timestamp.getTime() - peakTime) / HOUR_MS);
+    }
+  }
+
+  return {
+    sessionId: session.id,
+    baseline,
+    rise,
+    lagMinutes: Math.round((peak.timestamp.getTime() - start) / 60000),
+    responseMinutes: response ? Math.round((response.timestamp.getTime() - start) / 60000) : null,
+    decayPerHour,
+  };
+}
+
+/**
+ * Average the responses of a room over all sessions
+ */
+function summarizeRoom(
+  slug: string,
+  name: string,
+  responses: RoomSessionResponse[],
+  sessions: FireSession[]
+): RoomCorrelation {
+  const warmed = responses.filter((r) => r.rise >= RESPONSE_DELTA);
+  const heatById = new Map(sessions.map((s) => [s.id, s.heat_output_kwh]));
+
+  return {
+    slug,
+    name,
+    sessions: responses.length,
+    averageRise: round(average(responses.map((r) => r.rise))),
+    averageLagMinutes: round(average(warmed.map((r) => r.lagMinutes)), 0),
+    averageResponseMinutes: round(
+      average(warmed.flatMap((r) => (r.responseMinutes !== null ? [r.responseMinutes] : []))),
+      0
+    ),
+    averageDecayPerHour: round(
+      average(responses.flatMap((r) => (r.decayPerHour !== null ? [r.decayPerHour] : []))),
+      2
+    ),
+    risePer10Kwh: round(
+      average(
+        responses.flatMap((r) => {
+          const heat = heatById.get(r.sessionId) ?? 0;
+          return heat > 0 ? [(r.rise / heat) * 10] : [];
+        })
+      ),
+      2
+    ),
+  };
+}
+
+/**
+ * Recommend the next firing from the current living room temperatures
+ */
+export function recommendNextFiring(
+  rooms: RoomCorrelation[],
+  latest: { slug: string; name: string; temperature: number; timestamp: Date }[],
+  settings: HeatingSettings,
+  burning: boolean,
+  now: Date = new Date()
+): FiringRecommendation {
+  const base = { comfortTemperature: settings.comfortTemperature };
+
+  if (burning) {
+    return { ...base, status: 'burning', recommendedAt: null, dropAt: null, room: null };
+  }
+
+  const candidates = latest
+    .filter((r) => settings.livingRooms.includes(r.slug) && now.getTime() - r.timestamp.getTime() <= MAX_READING_AGE_MS)
+    .map((reading) => {
+      const room = rooms.find((r) => r.slug === reading.slug);
+      const decay = room?.averageDecayPerHour && room.averageDecayPerHour > 0
+        ? room.averageDecayPerHour
+        : DEFAULT_DECAY_PER_HOUR;
+      const hours = Math.max(0, (reading.temperature - settings.comfortTemperature) / decay);
+      const dropAt = now.getTime() + hours * HOUR_MS;
+      const leadMinutes = room?.averageResponseMinutes ?? DEFAULT_RESPONSE_MINUTES;
+
+      return { name: reading.name, dropAt, recommendedAt: Math.max(now.getTime(), dropAt - leadMinutes * 60000) };
+    })
+    .sort((a, b) => a.recommendedAt - b.recommendedAt);
+
+  const first = candidates[0];
+  if (!first) {
+    return { ...base, status: 'no_data', recommendedAt: null, dropAt: null, room: null };
+  }
+
+  const status: FiringRecommendationStatus =
+    first.recommendedAt <= now.getTime()
+      ? 'now'
+      : first.dropAt - now.getTime() > RECOMMENDATION_HORIZON_MS
+        ? 'not_needed'
+        : 'scheduled';
+
+  return {
+    ...base,
+    status,
+    recommendedAt: new Date(first.recommendedAt).toISOString(),
+    dropAt: new Date(first.dropAt).toISOString(),
+    room: first.name,
+  };
+}
+
+/**
+ * Correlate fire sessions with the indoor room temperatures
+ * @param sessions Fire sessions, newest first
+ * @param settings Comfort temperature and living rooms from the settings
+ */
+export async function getStoveRoomCorrelation(
+  sessions: FireSession[],
+  settings: HeatingSettings,
+  now: Date = new Date()
+): Promise<StoveRoomCorrelation> {
+  const rooms = (await getIndoorRooms()).filter((room) => room.deviceId !== '');
+  const analysed = sessions.filter((s) => s.ended_at !== null).slice(0, MAX_SESSIONS);
+
+  // Each session is followed until the next ignition at the latest
+  const windows = analysed.map((session) => {
+    // Sessions are newest first, the last later one is the next ignition
+    const next = sessions.findLast((s) => s.started_at > session.started_at);
+    const ended = new Date(session.ended_at!).getTime() + RESPONSE_WINDOW_MS;
+    const nextStart = next ? new Date(next.started_at).getTime() : Infinity;
+    return {
+      session,
+      from: new Date(new Date(session.started_at).getTime() - BASELINE_WINDOW_MS),
+      to: Math.min(ended, nextStart, now.getTime()),
+    };
+  });
+
+  const [correlations, latest] = await Promise.all([
+    Promise.all(
+      rooms.map(async (room) => {
+        const readings = await getReadingsInRanges(
+          room.deviceId,
+          windows.map((w) => ({ from: w.from, to: new Date(w.to) }))
+        );
+        const responses = windows.flatMap((w) => {
+          const response = measureRoomResponse(w.session, readings, w.to);
+          return response ? [response] : [];
+        });
+        return summarizeRoom(room.slug, room.name, responses, analysed);
+      })
+    ),
+    getLatestReadingsFromDB(rooms.map((room) => room.deviceId)),
+  ]);
+
+  const latestByRoom = latest.flatMap((sensor) => {
+    const room = rooms.find((r) => r.deviceId === sensor.id);
+    return room && sensor.lastUpdate
+      ? [{ slug: room.slug, name: room.name, temperature: sensor.temperature, timestamp: new Date(sensor.lastUpdate) }]
+      : [];
+  });
+
+  const burning = sessions.some((s) => s.ended_at === null);
+
+  return {
+    rooms: correlations.sort((a, b) => (b.averageRise ?? -Infinity) - (a.averageRise ?? -Infinity)),
+    recommendation: recommendNextFiring(correlations, latestByRoom, settings, burning, now),
+    analysedSessions: analysed.length,
+  };
+}
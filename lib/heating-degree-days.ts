@@ -0,0 +1,311 @@
+/**
+ * Heating Degree Days
+ * Daily heating degrees (HGT 20/12, SIA 381/3) from the 'Aussen' Shelly
+ * sensor, with OpenWeather as fallback for days without enough readings
+ *
+ * Used to normalize firings and logged wood by how cold a month or heating
+ * season (July to June) actually was.
+ */
+
+import dbConnect from './dbConnect';
+import HeatingDegreeDay, { IHeatingDegreeDay } from '@/models/heating-degree-day';
+import { getDailyMeanTemperatures } from './shelly';
+import { getOutdoorRoom } from './shelly-rooms';
+import { getSettings } from './settings';
+import { getMonthlyFireStats } from './heating';
+import { getMonthlyWood } from './fire-sessions';
+import type { DateRange, MonthlyStats } from '@/types/dashboard';
+
+// HGT 20/12: 20 °C indoor minus the daily mean on days below 12 °C
+const INDOOR_BASE_TEMP = 20;
+const HEATING_LIMIT_TEMP = 12;
+
+// A Shelly day needs this many readings spread over this many hours
+const MIN_READINGS_PER_DAY = 6;
+const MIN_COVERAGE_HOURS = 18;
+
+// Days computed on the first run, later runs only fill missing days
+const BACKFILL_DAYS = 3 * 365;
+
+// OpenWeather day summaries fetched per run at most (newest days first)
+const MAX_OPENWEATHER_DAYS = 10;
+
+// Heating seasons start in July
+const SEASON_START_MONTH = 7;
+
+const OPENWEATHER_DAY_SUMMARY_URL = 'https://api.openweathermap.org/data/3.0/onecall/day_summary';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DegreeDayUpdateResult {
+  fromShelly: number;
+  fromOpenWeather: number;
+  missing: number; // Days without data from either source
+}
+
+export interface SeasonMonth {
+  month: string; // MM
+  degreeDays: number;
+  firings: number;
+  firingsPer100Hdd: number | null;
+}
+
+export interface SeasonStats {
+  season: string; // e.g. '2024/25'
+  degreeDays: number;
+  measuredDays: number; // Days with a stored mean temperature
+  firings: number;
+  woodKg: number;
+  firingsPer100Hdd: number | null;
+  woodKgPerHdd: number | null;
+  months: SeasonMonth[]; // July to June
+}
+
+const zurichDayFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Europe/Zurich',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+/**
+ * Swiss calendar day of a point in time (YYYY-MM-DD)
+ */
+function toZurichDate(date: Date): string {
+  return zurichDayFormatter.format(date);
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Heating degrees of a day from its mean outdoor temperature
+ */
+export function getDegreeDays(meanTemperature: number): number {
+  return meanTemperature < HEATING_LIMIT_TEMP
+    ? Math.round((INDOOR_BASE_TEMP - meanTemperature) * 10) / 10
+    : 0;
+}
+
+function perDegreeDays(value: number, degreeDays: number, factor: number = 1): number | null {
+  return degreeDays > 0 ? Math.round((value / degreeDays) * factor * 100) / 100 : null;
+}
+
+/**
+ * Daily mean from the OpenWeather day summary (One Call 3.0)
+ * @returns Mean of morning, afternoon, evening and night or null if unavailable
+ */
+async function fetchOpenWeatherDailyMean(date: string, lat: number, lon: number): Promise<number | null> {
+  const apiKey = process.env.OPENWEATHER_API_KEY;
+  if (!apiKey) return null;
+
+  const response = await fetch(
+    `${OPENWEATHER_DAY_SUMMARY_URL}?lat=${lat}&lon=${lon}&date=${date}&units=metric&appid=${apiKey}`
+  );
+  if (!response.ok) {
+    console.error(`[Degree Days] OpenWeather day summary for ${date} failed:`, response.status);
+    return null;
+  }
+
+  const data = await response.json();
+  const t = data.temperature;
+  if (!t) return null;
+
+  return Math.round(((t.morning + t.afternoon + t.evening + t.night) / 4) * 10) / 10;
+}
+
+/**
+ * Store the heating degree days of all closed days that are still missing
+ * Runs with the Shelly collection, the first run backfills BACKFILL_DAYS
+ */
+export async function updateHeatingDegreeDays(now: Date = new Date()): Promise<DegreeDayUpdateResult> {
+  await dbConnect();
+
+  const today = toZurichDate(now);
+  const first = toZurichDate(new Date(now.getTime() - BACKFILL_DAYS * DAY_MS));
+
+  const stored = await HeatingDegreeDay.find({ date: { $gte: first, $lt: today } })
+    .select('date -_id')
+    .lean();
+  const storedDates = new Set(stored.map((doc) => doc.date));
+
+  const missing: string[] = [];
+  for (let date = first; date < today; date = addDays(date, 1)) {
+    if (!storedDates.has(date)) missing.push(date);
+  }
+
+  const result: DegreeDayUpdateResult = { fromShelly: 0, fromOpenWeather: 0, missing: 0 };
+  if (missing.length === 0) return result;
+
+  const docs: Omit<IHeatingDegreeDay, 'createdAt' | 'updatedAt'>[] = [];
+
+  // Shelly means for the whole missing range in one aggregation, starting a
+  // day early so the Swiss day boundary is covered
+  const outdoor = await getOutdoorRoom();
+  const means = outdoor?.deviceId
+    ? await getDailyMeanTemperatures(outdoor.deviceId, new Date(`${addDays(missing[0], -1)}T00:00:00Z`), now)
+    : [];
+  const meanByDate = new Map(means.map((m) => [m.date, m]));
+
+  const withoutShelly: string[] = [];
+  for (const date of missing) {
+    const mean = meanByDate.get(date);
+    if (mean && mean.readings >= MIN_READINGS_PER_DAY && mean.coverageHours >= MIN_COVERAGE_HOURS) {
+      docs.push({
+        date,
+        meanTemperature: mean.mean,
+        degreeDays: getDegreeDays(mean.mean),
+        source: 'shelly',
+        readings: mean.readings,
+      });
+      result.fromShelly++;
+    } else {
+      withoutShelly.push(date);
+    }
+  }
+
+  // OpenWeather fallback for the newest days without enough readings
+  const { location } = await getSettings();
+  for (const date of withoutShelly.reverse().slice(0, MAX_OPENWEATHER_DAYS)) {
+    try {
+      const mean = await fetchOpenWeatherDailyMean(date, location.lat, location.lon);
+      if (mean === null) continue;
+      docs.push({ date, meanTemperature: mean, degreeDays: getDegreeDays(mean), source: 'openweather', readings: 0 });
+      result.fromOpenWeather++;
+    } catch (error) {
+      console.error(`[Degree Days] OpenWeather fallback for ${date} failed:`, error);
+    }
+  }
+  result.missing = missing.length - docs.length;
+
+  if (docs.length > 0) {
+    await HeatingDegreeDay.bulkWrite(
+      docs.map((doc) => ({
+        updateOne: { filter: { date: doc.date }, update: { $set: doc }, upsert: true },
+      })),
+      { ordered: false }
+    );
+  }
+
+  console.log(
+    `[Degree Days] Stored ${result.fromShelly} day(s) from Shelly, ${result.fromOpenWeather} from OpenWeather, ${result.missing} missing`
+  );
+
+  return result;
+}
+
+/**
+ * Get the degree days per month (YYYY-MM) within a date range
+ */
+export async function getMonthlyDegreeDays(
+  range: DateRange
+): Promise<Map<string, { degreeDays: number; days: number }>> {
+  await dbConnect();
+
+  const results = await HeatingDegreeDay.aggregate<{ _id: string; degreeDays: number; days: number }>([
+    { $match: { date: { $gte: toZurichDate(range.from), $lte: toZurichDate(range.to) } } },
+    {
+      $group: {
+        _id: { $substrBytes: ['$date', 0, 7] },
+        degreeDays: { $sum: '$degreeDays' },
+        days: { $sum: 1 },
+      },
+    },
+  ]);
+
+  return new Map(results.map((r) => [r._id, { degreeDays: r.degreeDays, days: r.days }]));
+}
+
+/**
+ * Add degree days, firings and wood per degree day to monthly fire stats
+ */
+export async function withDegreeDays(stats: MonthlyStats[], range: DateRange): Promise<MonthlyStats[]> {
+  const [degreeDays, wood] = await Promise.all([getMonthlyDegreeDays(range), getMonthlyWood(range)]);
+
+  return stats.map((stat) => {
+    const hdd = degreeDays.get(stat.month)?.degreeDays ?? 0;
+    const woodKg = wood.get(stat.month)?.kg ?? 0;
+
+    return {
+      ...stat,
+      degree_days: Math.round(hdd),
+      firings_per_100_hdd: perDegreeDays(stat.count, hdd, 100),
+      wood_kg: woodKg,
+      wood_kg_per_hdd: woodKg > 0 ? perDegreeDays(woodKg, hdd) : null,
+    };
+  });
+}
+
+/**
+ * Season label of the season starting in a year (e.g. 2024 -> '2024/25')
+ */
+function seasonLabel(startYear: number): string {
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Compare the last heating seasons (July to June), the current one included
+ */
+export async function getSeasonComparison(seasons: number = 3, now: Date = new Date()): Promise<SeasonStats[]> {
+  const [year, month] = toZurichDate(now).split('-').map(Number);
+  const currentStart = month >= SEASON_START_MONTH ? year : year - 1;
+  const firstStart = currentStart - seasons + 1;
+
+  const range = {
+    from: new Date(Date.UTC(firstStart, SEASON_START_MONTH - 1, 1)),
+    to: now,
+  };
+
+  const [degreeDays, fireStats, wood] = await Promise.all([
+    getMonthlyDegreeDays(range),
+    getMonthlyFireStats(range),
+    getMonthlyWood(range),
+  ]);
+  const firingsByMonth = new Map(fireStats.map((stat) => [stat.month, stat.count]));
+
+  const result: SeasonStats[] = [];
+  for (let startYear = firstStart; startYear <= currentStart; startYear++) {
+    const months: SeasonMonth[] = [];
+    let totalDegreeDays = 0;
+    let measuredDays = 0;
+    let firings = 0;
+    let woodKg = 0;
+
+    for (let i = 0; i < 12; i++) {
+      const monthIndex = (SEASON_START_MONTH - 1 + i) % 12;
+      const monthYear = startYear + (SEASON_START_MONTH - 1 + i >= 12 ? 1 : 0);
+      const key = `${monthYear}-${String(monthIndex + 1).padStart(2, '0')}`;
+
+      const hdd = degreeDays.get(key);
+      const monthFirings = firingsByMonth.get(key) ?? 0;
+
+      totalDegreeDays += hdd?.degreeDays ?? 0;
+      measuredDays += hdd?.days ?? 0;
+      firings += monthFirings;
+      woodKg += wood.get(key)?.kg ?? 0;
+
+      months.push({
+        month: key.slice(5),
+        degreeDays: Math.round(hdd?.degreeDays ?? 0),
+        firings: monthFirings,
+        firingsPer100Hdd: perDegreeDays(monthFirings, hdd?.degreeDays ?? 0, 100),
+      });
+    }
+
+    result.push({
+      season: seasonLabel(startYear),
+      degreeDays: Math.round(totalDegreeDays),
+      measuredDays,
+      firings,
+      woodKg,
+      firingsPer100Hdd: perDegreeDays(firings, totalDegreeDays, 100),
+      woodKgPerHdd: woodKg > 0 ? perDegreeDays(woodKg, totalDegreeDays) : null,
+      months,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,330 @@
+/**
+ * Heating Data Storage
+ * Stores fire events, CMI temperatures and the oven state sent by the
+ * Raspberry Pi and queries them for date ranges
+ */
+
+import dbConnect from './dbConnect';
+import FireEventModel from '@/models/fire-event';
+import TemperatureReadingModel from '@/models/temperature-reading';
+import OvenStatus from '@/models/oven-status';
+import type {
+  CurrentTemperature,
+  DashboardData,
+  DateRange,
+  FireEvent,
+  HeatingIngestPayload,
+  MonthlyStats,
+  OvenState,
+  TemperatureReading,
+} from '@/types/dashboard';
+
+// CMI input of the oven temperature
+export const OVEN_SENSOR = 4;
+
+// Maximum number of items accepted per ingest request
+const MAX_INGEST_ITEMS = 5000;
+
+const OVEN_STATES: OvenState['state'][] = ['cold', 'warming', 'hot', 'cooling'];
+
+// The Pi sends every 5 minutes, an older oven state counts as stale (one missed run is tolerated)
+export const OVEN_STATE_MAX_AGE_MS = 2 * 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IngestResult {
+  fireEvents: number;
+  temperatures: number;
+  ovenState: boolean;
+}
+
+function isValidTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+}
+
+function isValidNumber(value: unknown): value is number {
+  return typeof value === 'number' && !Number.isNaN(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate an ingest payload from the Raspberry Pi
+ * @returns Payload or an error message
+ */
+export function parseIngestPayload(
+  body: unknown
+): { payload: HeatingIngestPayload } | { error: string } {
+  if (!isObject(body)) {
+    return { error: 'Payload muss ein Objekt sein' };
+  }
+
+  const { fireEvents = [], temperatures = [], ovenState } = body;
+
+  if (!Array.isArray(fireEvents) || !Array.isArray(temperatures)) {
+    return { error: 'fireEvents und temperatures müssen Listen sein' };
+  }
+  if (fireEvents.length + temperatures.length > MAX_INGEST_ITEMS) {
+    return { error: `Maximal ${MAX_INGEST_ITEMS} Einträge pro Anfrage` };
+  }
+
+  for (const event of fireEvents as unknown[]) {
+    if (!isObject(event) || !isValidTimestamp(event.timestamp) || !isValidNumber(event.temperature)) {
+      return { error: 'Feuer-Event braucht timestamp und temperature' };
+    }
+  }
+
+  for (const reading of temperatures as unknown[]) {
+    if (
+      !isObject(reading) ||
+      !isValidTimestamp(reading.timestamp) ||
+      !isValidNumber(reading.value) ||
+      typeof reading.sensor !== 'number' ||
+      !Number.isInteger(reading.sensor)
+    ) {
+      return { error: 'Temperatur braucht timestamp, sensor und value' };
+    }
+  }
+
+  if (ovenState !== undefined) {
+    if (!isObject(ovenState) || !OVEN_STATES.includes(ovenState.state as OvenState['state'])) {
+      return { error: 'Ungültiger Ofen-Status' };
+    }
+    if (ovenState.timestamp !== undefined && !isValidTimestamp(ovenState.timestamp)) {
+      return { error: 'Ungültiger Zeitpunkt beim Ofen-Status' };
+    }
+  }
+
+  return {
+    payload: {
+      fireEvents: fireEvents as HeatingIngestPayload['fireEvents'],
+      temperatures: temperatures as HeatingIngestPayload['temperatures'],
+      ovenState: ovenState as HeatingIngestPayload['ovenState'],
+    },
+  };
+}
+
+/**
+ * Store an ingest payload
+ * Items are upserted, so the Pi can safely re-send overlapping batches
+ * @returns Number of newly stored items
+ */
+export async function ingestHeatingData(payload: HeatingIngestPayload): Promise<IngestResult> {
+  await dbConnect();
+
+  const result: IngestResult = { fireEvents: 0, temperatures: 0, ovenState: false };
+
+  if (payload.fireEvents && payload.fireEvents.length > 0) {
+    const { upsertedCount } = await FireEventModel.bulkWrite(
+      payload.fireEvents.map((event) => {
+        const eventType = event.eventType || 'fire_started';
+        return {
+          updateOne: {
+            filter: { timestamp: new Date(event.timestamp), eventType },
+            update: {
+              $set: { temperature: event.temperature, notes: event.notes },
+              $setOnInsert: { timestamp: new Date(event.timestamp), eventType },
+            },
+            upsert: true,
+          },
+        };
+      }),
+      { ordered: false }
+    );
+    result.fireEvents = upsertedCount;
+  }
+
+  if (payload.temperatures && payload.temperatures.length > 0) {
+    const { upsertedCount } = await TemperatureReadingModel.bulkWrite(
+      payload.temperatures.map((reading) => ({
+        updateOne: {
+          filter: { sensor: reading.sensor, timestamp: new Date(reading.timestamp) },
+          update: {
+            $set: {
+              value: reading.value,
+              location: reading.location ?? '',
+              unit: reading.unit ?? '°C',
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+    result.temperatures = upsertedCount;
+  }
+
+  if (payload.ovenState) {
+    const reportedAt = payload.ovenState.timestamp ? new Date(payload.ovenState.timestamp) : new Date();
+    const current = await OvenStatus.findOne({}).lean();
+
+    // Older reports must not overwrite a newer state
+    if (!current || current.reportedAt <= reportedAt) {
+      await OvenStatus.updateOne(
+        {},
+        { $set: { state: payload.ovenState.state, reportedAt } },
+        { upsert: true }
+      );
+    }
+    result.ovenState = true;
+  }
+
+  return result;
+}
+
+/**
+ * Get fire events within a date range, newest first
+ */
+export async function getFireEvents(range: DateRange, limit?: number): Promise<FireEvent[]> {
+  await dbConnect();
+
+  const query = FireEventModel.find({ timestamp: { $gte: range.from, $lte: range.to } }).sort({
+    timestamp: -1,
+  });
+  if (limit) query.limit(limit);
+
+  const docs = await query.lean();
+
+  return docs.map((doc) => ({
+    id: String(doc._id),
+    timestamp: doc.timestamp.toISOString(),
+    temperature: doc.temperature,
+    event_type: doc.eventType,
+    notes: doc.notes,
+  }));
+}
+
+/**
+ * Get fire events per month within a date range, newest month first
+ */
+export async function getMonthlyFireStats(range: DateRange): Promise<MonthlyStats[]> {
+  await dbConnect();
+
+  const results = await FireEventModel.aggregate<{
+    _id: string;
+    count: number;
+    avgTemp: number;
+    maxTemp: number;
+  }>([
+    { $match: { timestamp: { $gte: range.from, $lte: range.to } } },
+    {
+      $group: {
+        _id: { $dateToString: { format: '%Y-%m', date: '$timestamp', timezone: 'Europe/Zurich' } },
+        count: { $sum: 1 },
+        avgTemp: { $avg: '$temperature' },
+        maxTemp: { $max: '$temperature' },
+      },
+    },
+    { $sort: { _id: -1 } },
+  ]);
+
+  return results.map((r) => ({
+    month: r._id,
+    year: r._id.split('-')[0],
+    count: r.count,
+    avg_temp: r.avgTemp,
+    max_temp: r.maxTemp,
+  }));
+}
+
+/**
+ * Get the latest temperature of every CMI input
+ */
+export async function getCurrentTemperatures(): Promise<CurrentTemperature[]> {
+  await dbConnect();
+
+  const results = await TemperatureReadingModel.aggregate<{
+    _id: number;
+    location: string;
+    value: number;
+    unit: string;
+  }>([
+    { $sort: { sensor: 1, timestamp: -1 } },
+    {
+      $group: {
+        _id: '$sensor',
+        location: { $first: '$location' },
+        value: { $first: '$value' },
+        unit: { $first: '$unit' },
+      },
+    },
+    { $sort: { _id: 1 } },
+  ]);
+
+  return results.map((r) => ({
+    nummer: r._id,
+    ort: r.location,
+    wert: r.value,
+    einheit: r.unit,
+  }));
+}
+
+/**
+ * Get averaged temperatures of one CMI input within a date range
+ * Ranges up to a month are averaged per hour, longer ranges per day
+ */
+export async function getTemperatureHistory(
+  sensor: number,
+  range: DateRange
+): Promise<TemperatureReading[]> {
+  await dbConnect();
+
+  const unit = range.to.getTime() - range.from.getTime() <= 31 * DAY_MS ? 'hour' : 'day';
+
+  const results = await TemperatureReadingModel.aggregate<{ _id: Date; temperature: number }>([
+    { $match: { sensor, timestamp: { $gte: range.from, $lte: range.to } } },
+    {
+      $group: {
+        _id: { $dateTrunc: { date: '$timestamp', unit, timezone: 'Europe/Zurich' } },
+        temperature: { $avg: '$value' },
+      },
+    },
+    { $sort: { _id: 1 } },
+  ]);
+
+  return results.map((r) => ({
+    timestamp: r._id.toISOString(),
+    temperature: r.temperature,
+  }));
+}
+
+/**
+ * Get the latest reported oven state
+ * @returns null if the Pi has never reported a state
+ */
+export async function getOvenState(now: Date = new Date()): Promise<OvenState | null> {
+  await dbConnect();
+
+  const doc = await OvenStatus.findOne({}).lean();
+  if (!doc) return null;
+
+  return {
+    state: doc.state,
+    last_updated: doc.reportedAt.toISOString(),
+    stale: now.getTime() - doc.reportedAt.getTime() > OVEN_STATE_MAX_AGE_MS,
+  };
+}
+
+/**
+ * Get all heating data for a date range
+ */
+export async function getHeatingData(range: DateRange): Promise<DashboardData> {
+  const [currentTemps, ovenState, fireEvents, temperatureHistory, monthlyStats] = await Promise.all([
+    getCurrentTemperatures(),
+    getOvenState(),
+    getFireEvents(range),
+    getTemperatureHistory(OVEN_SENSOR, range),
+    getMonthlyFireStats(range),
+  ]);
+
+  return {
+    current_temps: currentTemps,
+    oven_state: ovenState,
+    fire_events: fireEvents,
+    temperature_history: temperatureHistory,
+    monthly_stats: monthlyStats,
+    last_updated: ovenState?.last_updated ?? null,
+  };
+}
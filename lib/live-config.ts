@@ -0,0 +1,99 @@
+/**
+ * Live Event Configuration
+ * Event types of the /api/live server-sent-events stream and the helpers to
+ * build and apply delta events (usable on client and server)
+ *
+ * Keyed events (solar, battery, rooms) only carry the entries that changed,
+ * grid, oven and autonomy are replaced as a whole. A new connection first receives every
+ * event type with the complete current values.
+ */
+
+import type { SolarData } from '@/types/victron';
+import type { OvenState } from '@/types/dashboard';
+import type { ShellySensorData } from './shelly';
+import type { AutonomyForecast } from './autonomy';
+
+export type LiveSolar = Pick<SolarData, 'currentPower' | 'consumption' | 'todayYield' | 'todayConsumption' | 'timestamp'>;
+
+export type LiveBattery = Pick<SolarData, 'batteryCharge' | 'batteryPower'>;
+
+// Grid connection of the house
+export type LiveGrid = Pick<SolarData, 'gridStatus' | 'gridPower'>;
+
+export interface LiveOven {
+  state: OvenState['state'] | 'unknown'; // unknown when never reported or stale
+  lastUpdated: string | null; // ISO datetime string
+}
+
+// Reserve forecast of the house battery, without the hourly points
+export type LiveAutonomy = Pick<AutonomyForecast, 'reserveAt' | 'reserveSoc' | 'minSoc' | 'gridConnected' | 'generatedAt'>;
+
+export interface LiveEventMap {
+  solar: Record<string, LiveSolar>; // By installation ID, 'all' = sum of all installations
+  battery: Record<string, LiveBattery>; // By installation ID, 'all' = sum of all installations
+  grid: LiveGrid;
+  oven: LiveOven;
+  rooms: Record<string, ShellySensorData>; // By device ID
+  autonomy: LiveAutonomy;
+}
+
+export type LiveEventType = keyof LiveEventMap;
+
+export type LiveSnapshot = Partial<LiveEventMap>;
+
+// Pages that show live values (in the page or the header chips), only these open the stream
+export const LIVE_PAGES = ['/solar', '/heating', '/climate'];
+
+export const LIVE_EVENT_TYPES: LiveEventType[] = ['solar', 'battery', 'grid', 'oven', 'rooms', 'autonomy'];
+
+// Events whose payload is a record of entries that are sent individually
+const KEYED_EVENTS: LiveEventType[] = ['solar', 'battery', 'rooms'];
+
+/**
+ * Whether a page shows live values and needs the event stream
+ */
+export function isLivePage(pathname: string): boolean {
+  return LIVE_PAGES.includes(pathname);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Delta events from the previous to the next values
+ * @returns Only the event types (and for keyed events the entries) that changed
+ */
+export function diffLiveSnapshot(previous: LiveSnapshot, next: LiveSnapshot): LiveSnapshot {
+  const delta: Record<string, unknown> = {};
+
+  for (const type of LIVE_EVENT_TYPES) {
+    const value = next[type];
+    if (value === undefined) continue;
+
+    if (!KEYED_EVENTS.includes(type)) {
+      if (!isEqual(previous[type], value)) delta[type] = value;
+      continue;
+    }
+
+    const before = (previous[type] ?? {}) as Record<string, unknown>;
+    const changed = Object.entries(value).filter(([key, entry]) => !isEqual(before[key], entry));
+    if (changed.length > 0) delta[type] = Object.fromEntries(changed);
+  }
+
+  return delta as LiveSnapshot;
+}
+
+/**
+ * Apply an event to the current values
+ */
+export function applyLiveEvent<K extends LiveEventType>(
+  snapshot: LiveSnapshot,
+  type: K,
+  data: LiveEventMap[K]
+): LiveSnapshot {
+  if (!KEYED_EVENTS.includes(type)) {
+    return { ...snapshot, [type]: data };
+  }
+  return { ...snapshot, [type]: { ...snapshot[type], ...data } };
+}
@@ -0,0 +1,199 @@
+/**
+ * Live Values
+ * Polls Victron, the oven state, the Shelly sensors and the battery autonomy
+ * forecast once for all clients of /api/live and fans out the changes as
+ * delta events
+ *
+ * Polling only runs while at least one client is connected (browsers only
+ * connect on the pages in LIVE_PAGES). Each source has its own interval, a
+ * failing source keeps its last values.
+ */
+
+import { combineSolarData, fetchVictronStats, processSolarData } from './victron';
+import { fetchWithTokenRefresh } from './victron-token';
+import {
+  COMBINED_INSTALLATION_ID,
+  getVictronInstallations,
+  isPrimaryInstallation,
+} from './victron-installations';
+import { getGridPeriods } from './grid-periods';
+import { getOvenState } from './heating';
+import { fetchShellySensors, getShellyDeviceIds } from './shelly';
+import { getAutonomyForecast } from './autonomy';
+import {
+  applyLiveEvent,
+  diffLiveSnapshot,
+  LiveBattery,
+  LiveEventMap,
+  LiveEventType,
+  LiveSnapshot,
+  LiveSolar,
+  LIVE_EVENT_TYPES,
+} from './live-config';
+import type { SolarData } from '@/types/victron';
+
+// VRM rate limit is shared with the collect cron and the page renders, VRM itself updates every few minutes
+const SOLAR_POLL_MS = 60 * 1000;
+const OVEN_POLL_MS = 30 * 1000;
+const ROOMS_POLL_MS = 60 * 1000; // Shelly Cloud rate limit
+const AUTONOMY_POLL_MS = 15 * 60 * 1000; // Forecast is cached for 15 minutes
+
+export type LiveListener = <K extends LiveEventType>(type: K, data: LiveEventMap[K]) => void;
+
+const listeners = new Set<LiveListener>();
+let snapshot: LiveSnapshot = {};
+let timers: ReturnType<typeof setInterval>[] = [];
+
+/**
+ * Store new values and send the changes to all listeners
+ */
+function publish(values: LiveSnapshot): void {
+  const delta = diffLiveSnapshot(snapshot, values);
+
+  for (const type of LIVE_EVENT_TYPES) {
+    const data = delta[type];
+    if (data === undefined) continue;
+
+    snapshot = applyLiveEvent(snapshot, type, data);
+    for (const listener of listeners) {
+      listener(type, data);
+    }
+  }
+}
+
+async function pollSolar(): Promise<void> {
+  const installations = getVictronInstallations();
+  if (installations.length === 0) return;
+
+  try {
+    const [results, gridPeriods] = await Promise.all([
+      Promise.allSettled(
+        installations.map((installation) =>
+          fetchWithTokenRefresh(installation, (token) =>
+            fetchVictronStats(installation.installationId, token, '15mins')
+          )
+        )
+      ),
+      getGridPeriods(),
+    ]);
+
+    // A failing installation keeps its last values, the others are still sent
+    const entries: { id: string; data: SolarData }[] = [];
+    results.forEach((result, index) => {
+      const installation = installations[index];
+      if (result.status === 'rejected') {
+        console.error(`[Live] Error polling Victron installation ${installation.id}:`, result.reason);
+        return;
+      }
+      entries.push({
+        id: installation.id,
+        data: processSolarData(result.value, isPrimaryInstallation(installation) ? gridPeriods : []),
+      });
+    });
+    if (entries.length === 0) return;
+
+    // The sum is only meaningful with every installation
+    if (installations.length > 1 && entries.length === installations.length) {
+      entries.push({ id: COMBINED_INSTALLATION_ID, data: combineSolarData(entries.map((entry) => entry.data))! });
+    }
+
+    const solar: Record<string, LiveSolar> = {};
+    const battery: Record<string, LiveBattery> = {};
+    for (const { id, data } of entries) {
+      solar[id] = {
+        currentPower: data.currentPower,
+        consumption: data.consumption,
+        todayYield: data.todayYield,
+        todayConsumption: data.todayConsumption,
+        timestamp: data.timestamp,
+      };
+      battery[id] = { batteryCharge: data.batteryCharge, batteryPower: data.batteryPower };
+    }
+
+    // The grid status belongs to the house (first installation)
+    const house = entries.find((entry) => entry.id === installations[0].id);
+    publish({
+      solar,
+      battery,
+      ...(house && { grid: { gridStatus: house.data.gridStatus, gridPower: house.data.gridPower } }),
+    });
+  } catch (error) {
+    console.error('[Live] Error polling Victron:', error);
+  }
+}
+
+async function pollOven(): Promise<void> {
+  try {
+    const ovenState = await getOvenState();
+    publish({
+      oven: {
+        state: ovenState && !ovenState.stale ? ovenState.state : 'unknown',
+        lastUpdated: ovenState?.last_updated ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('[Live] Error polling oven state:', error);
+  }
+}
+
+async function pollRooms(): Promise<void> {
+  try {
+    const deviceIds = await getShellyDeviceIds();
+    if (deviceIds.length === 0) return;
+
+    const sensors = await fetchShellySensors(deviceIds);
+    publish({ rooms: Object.fromEntries(sensors.map((sensor) => [sensor.id, sensor])) });
+  } catch (error) {
+    console.error('[Live] Error polling Shelly sensors:', error);
+  }
+}
+
+async function pollAutonomy(): Promise<void> {
+  try {
+    const { reserveAt, reserveSoc, minSoc, gridConnected, generatedAt } = await getAutonomyForecast();
+    publish({ autonomy: { reserveAt, reserveSoc, minSoc, gridConnected, generatedAt } });
+  } catch (error) {
+    console.error('[Live] Error polling autonomy forecast:', error);
+  }
+}
+
+function startPolling(): void {
+  console.log('[Live] Starting upstream polling');
+
+  const sources: [() => Promise<void>, number][] = [
+    [pollSolar, SOLAR_POLL_MS],
+    [pollOven, OVEN_POLL_MS],
+    [pollRooms, ROOMS_POLL_MS],
+    [pollAutonomy, AUTONOMY_POLL_MS],
+  ];
+  timers = sources.map(([poll, intervalMs]) => {
+    poll();
+    return setInterval(poll, intervalMs);
+  });
+}
+
+function stopPolling(): void {
+  console.log('[Live] Stopping upstream polling, no clients left');
+
+  timers.forEach(clearInterval);
+  timers = [];
+}
+
+/**
+ * Register a listener for live events
+ * The listener first receives the current values of every event type
+ * @returns Function to remove the listener
+ */
+export function subscribeLive(listener: LiveListener): () => void {
+  for (const type of LIVE_EVENT_TYPES) {
+    const data = snapshot[type];
+    if (data !== undefined) listener(type, data);
+  }
+
+  listeners.add(listener);
+  if (listeners.size === 1) startPolling();
+
+  return () => {
+    if (listeners.delete(listener) && listeners.size === 0) stopPolling();
+  };
+}
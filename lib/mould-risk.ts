@@ -0,0 +1,116 @@
+/**
+ * Mould Risk
+ * Daily dew point, absolute humidity and hours of critical wall humidity per
+ * room from the hourly rollups of the room and the 'Aussen' sensor
+ */
+
+import { getReadingsInRange } from './shelly';
+import { getOutdoorRoom } from './shelly-rooms';
+import { SHELLY_COLLECTION_INTERVAL_MS } from './shelly-config';
+import {
+  getAbsoluteHumidity,
+  getDewPoint,
+  getMouldRiskLevel,
+  getWallHumidity,
+  getWallTemperature,
+  MOULD_RH_CRITICAL,
+  MOULD_RH_WARNING,
+  MouldRisk,
+} from './climate-metrics';
+import type { DateRange } from '@/types/dashboard';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface DailyClimateMetrics extends MouldRisk {
+  date: string; // YYYY-MM-DD (Swiss calendar day)
+  dewPoint: number; // Mean of the hours, °C
+  absoluteHumidity: number; // Mean of the hours, g/m³
+  maxWallHumidity: number; // % RH
+}
+
+const zurichDayFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Europe/Zurich',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+function average(values: number[]): number {
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Get the daily climate metrics of a room within a time range
+ * Every hourly bucket holds until the next reading (at most one collection
+ * interval), its wall humidity counts for that many hours
+ */
+export async function getDailyClimateMetrics(deviceId: string, range: DateRange): Promise<DailyClimateMetrics[]> {
+  const outdoor = await getOutdoorRoom();
+  const isOutdoor = outdoor?.deviceId === deviceId;
+
+  const [room, outside] = await Promise.all([
+    getReadingsInRange(deviceId, range, 'hour'),
+    outdoor?.deviceId && !isOutdoor ? getReadingsInRange(outdoor.deviceId, range, 'hour') : null,
+  ]);
+  const outdoorByHour = new Map((outside?.readings ?? []).map((r) => [r.timestamp.getTime(), r.temperature]));
+
+  const days = new Map<string, { dewPoints: number[]; absolute: number[]; wall: { rh: number; hours: number }[] }>();
+  room.readings.forEach((hour, index) => {
+    const date = zurichDayFormatter.format(hour.timestamp);
+    const day = days.get(date) ?? { dewPoints: [], absolute: [], wall: [] };
+    day.dewPoints.push(getDewPoint(hour.temperature, hour.humidity));
+    day.absolute.push(getAbsoluteHumidity(hour.temperature, hour.humidity));
+
+    // Outdoor sensors have no wall to condense on
+    if (!isOutdoor) {
+      const wallTemperature = getWallTemperature(hour.temperature, outdoorByHour.get(hour.timestamp.getTime()) ?? null);
+      const next = room.readings[index + 1]?.timestamp ?? range.to;
+      const validMs = Math.max(0, Math.min(SHELLY_COLLECTION_INTERVAL_MS, next.getTime() - hour.timestamp.getTime()));
+      day.wall.push({ rh: getWallHumidity(hour.temperature, hour.humidity, wallTemperature), hours: validMs / HOUR_MS });
+    }
+    days.set(date, day);
+  });
+
+  const hoursAbove = (wall: { rh: number; hours: number }[], threshold: number) =>
+    Math.round(wall.filter(({ rh }) => rh >= threshold).reduce((sum, { hours }) => sum + hours, 0) * 10) / 10;
+
+  return Array.from(days.entries()).map(([date, day]) => {
+    const hoursAbove70 = hoursAbove(day.wall, MOULD_RH_WARNING);
+    const hoursAbove80 = hoursAbove(day.wall, MOULD_RH_CRITICAL);
+    return {
+      date,
+      dewPoint: average(day.dewPoints),
+      absoluteHumidity: average(day.absolute),
+      maxWallHumidity: day.wall.length > 0 ? Math.max(...day.wall.map(({ rh }) => rh)) : 0,
+      hoursAbove70,
+      hoursAbove80,
+      level: getMouldRiskLevel(hoursAbove70, hoursAbove80),
+    };
+  });
+}
+
+/**
+ * Get the mould risk of each room over the last 24 hours
+ * @returns Risk by device ID, rooms without readings are missing
+ */
+export async function getCurrentMouldRisk(
+  deviceIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, MouldRisk>> {
+  const range = { from: new Date(now.getTime() - DAY_MS), to: now };
+
+  const risks = await Promise.all(
+    deviceIds.map(async (deviceId) => {
+      const days = await getDailyClimateMetrics(deviceId, range);
+      if (days.length === 0) return null;
+
+      // The last 24 hours span two calendar days
+      const hoursAbove70 = days.reduce((sum, d) => sum + d.hoursAbove70, 0);
+      const hoursAbove80 = days.reduce((sum, d) => sum + d.hoursAbove80, 0);
+      return [deviceId, { hoursAbove70, hoursAbove80, level: getMouldRiskLevel(hoursAbove70, hoursAbove80) }] as const;
+    })
+  );
+
+  return new Map(risks.filter((risk) => risk !== null));
+}
@@ -0,0 +1,63 @@
+/**
+ * One-time Seeding
+ * Fills a collection with its initial data the first time it is read
+ *
+ * A marker per collection is stored on the first run. Afterwards an empty
+ * collection is a valid state (everything deleted) and is not seeded again.
+ * Collections that already hold data only get the marker. If seeding fails the
+ * marker is removed again.
+ */
+
+import { Model } from 'mongoose';
+import SeedMarker from '@/models/seed-marker';
+
+const DUPLICATE_KEY = 11000;
+
+// Seeds checked by this server instance, later reads skip the marker write
+const checked = new Map<string, Promise<void>>();
+
+/**
+ * Seed a collection unless it has been seeded before
+ * Checked once per server instance, a failed seed is retried on the next call
+ * @param name Marker name of the collection
+ * @param model Collection to seed
+ * @param seed Inserts the initial data, only called for an empty collection
+ */
+export function seedOnce<T>(name: string, model: Model<T>, seed: () => Promise<unknown>): Promise<void> {
+  let pending = checked.get(name);
+  if (!pending) {
+    pending = runSeed(name, model, seed);
+    pending.catch(() => checked.delete(name));
+    checked.set(name, pending);
+  }
+  return pending;
+}
+
+async function runSeed<T>(name: string, model: Model<T>, seed: () => Promise<unknown>): Promise<void> {
+  try {
+    // Only the first caller inserts the marker
+    const { upsertedCount } = await SeedMarker.updateOne(
+      { name },
+      { $setOnInsert: { seededAt: new Date() } },
+      { upsert: true }
+    );
+    if (upsertedCount === 0) return;
+  } catch (error) {
+    // A concurrent request inserted the marker first
+    if ((error as { code?: number }).code === DUPLICATE_KEY) return;
+    throw error;
+  }
+
+  try {
+    if ((await model.estimatedDocumentCount()) === 0) {
+      console.log(`[Seed] Seeding ${name}`);
+      await seed();
+    }
+  } catch (error) {
+    // Remove the marker so the next call seeds again
+    await SeedMarker.deleteOne({ name }).catch((deleteError) => {
+      console.error(`[Seed] Could not remove marker ${name}:`, deleteError);
+    });
+    throw error;
+  }
+}
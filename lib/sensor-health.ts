@@ -0,0 +1,149 @@
+/**
+ * Sensor Health
+ * Stale detection, battery forecast and WiFi signal of the Shelly H&T sensors
+ *
+ * A sensor is stale after SHELLY_STALE_INTERVALS missed collection intervals.
+ * The battery-empty date is a linear trend of the daily battery level since
+ * the last battery change.
+ */
+
+import { getDailyDeviceHealth, getLatestReadingsFromDB } from './shelly';
+import { isSensorStale, SHELLY_COLLECTION_INTERVAL_MS } from './shelly-config';
+import { getConfiguredRooms } from './shelly-rooms';
+
+// Days of battery history used for the trend
+const BATTERY_TREND_DAYS = 90;
+
+// Days of RSSI history shown on the maintenance page
+const SIGNAL_HISTORY_DAYS = 30;
+
+// Trend needs at least this many days since the last battery change
+const MIN_TREND_DAYS = 7;
+
+// Battery level increase that counts as a battery change (percentage points)
+const BATTERY_CHANGE_JUMP = 10;
+
+// RSSI thresholds (dBm)
+const RSSI_GOOD = -67;
+const RSSI_FAIR = -80;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SignalQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+export interface BatteryForecast {
+  trendPerDay: number; // Percentage points per day (negative when draining)
+  emptyAt: string | null; // ISO datetime string, null when not draining
+  basedOnDays: number;
+}
+
+export interface SensorHealth {
+  deviceId: string;
+  name: string;
+  slug: string;
+  lastUpdate: string | null; // ISO datetime string
+  stale: boolean;
+  missedIntervals: number;
+  battery: number | null; // %
+  batteryVoltage: number | null; // V
+  batteryForecast: BatteryForecast | null;
+  wifiSignal: number | null; // dBm
+  signalQuality: SignalQuality;
+  signalHistory: { date: string; wifiSignal: number | null }[]; // Daily average, YYYY-MM-DD
+}
+
+const zurichDayFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Europe/Zurich',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+/**
+ * Quality of a WiFi signal strength
+ */
+export function getSignalQuality(rssi: number | null): SignalQuality {
+  if (rssi === null || rssi === 0) return 'unknown';
+  if (rssi >= RSSI_GOOD) return 'good';
+  if (rssi >= RSSI_FAIR) return 'fair';
+  return 'poor';
+}
+
+/**
+ * Project the battery-empty date from the daily battery levels
+ * @param days Daily battery levels, oldest first
+ * @returns Forecast or null without enough days since the last battery change
+ */
+export function getBatteryForecast(
+  days: { timestamp: Date; battery: number }[],
+  now: Date = new Date()
+): BatteryForecast | null {
+  // Only the days since the last battery change belong to the trend
+  let start = 0;
+  for (let i = 1; i < days.length; i++) {
+    if (days[i].battery - days[i - 1].battery >= BATTERY_CHANGE_JUMP) start = i;
+  }
+  const points = days.slice(start).filter((day) => day.battery > 0);
+  if (points.length < 2) return null;
+
+  const first = points[0].timestamp.getTime();
+  const spanDays = (points[points.length - 1].timestamp.getTime() - first) / DAY_MS;
+  if (spanDays < MIN_TREND_DAYS) return null;
+
+  // Least squares fit of battery level over days
+  const xs = points.map((p) => (p.timestamp.getTime() - first) / DAY_MS);
+  const ys = points.map((p) => p.battery);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const covariance = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const slope = covariance / variance;
+
+  // The fitted line reaches 0 % at x = meanX - meanY / slope
+  const emptyAt =
+    slope < 0 ? new Date(Math.max(now.getTime(), first + (meanX - meanY / slope) * DAY_MS)).toISOString() : null;
+
+  return {
+    trendPerDay: Math.round(slope * 100) / 100,
+    emptyAt,
+    basedOnDays: Math.round(spanDays),
+  };
+}
+
+/**
+ * Get the health of all configured sensors
+ */
+export async function getSensorHealth(now: Date = new Date()): Promise<SensorHealth[]> {
+  const rooms = await getConfiguredRooms();
+  const latest = await getLatestReadingsFromDB(rooms.map((room) => room.deviceId));
+
+  return Promise.all(
+    rooms.map(async (room) => {
+      const sensor = latest.find((s) => s.id === room.deviceId);
+      const history = await getDailyDeviceHealth(room.deviceId, {
+        from: new Date(now.getTime() - BATTERY_TREND_DAYS * DAY_MS),
+        to: now,
+      });
+      const signalFrom = now.getTime() - SIGNAL_HISTORY_DAYS * DAY_MS;
+
+      return {
+        deviceId: room.deviceId,
+        name: room.name,
+        slug: room.slug,
+        lastUpdate: sensor?.lastUpdate || null,
+        stale: sensor ? isSensorStale(sensor.lastUpdate, now) : true,
+        missedIntervals: sensor
+          ? Math.floor((now.getTime() - new Date(sensor.lastUpdate).getTime()) / SHELLY_COLLECTION_INTERVAL_MS)
+          : 0,
+        battery: sensor ? sensor.battery : null,
+        batteryVoltage: sensor?.batteryVoltage || null,
+        batteryForecast: getBatteryForecast(history, now),
+        wifiSignal: sensor?.wifiSignal || null,
+        signalQuality: getSignalQuality(sensor?.wifiSignal ?? null),
+        signalHistory: history
+          .filter((day) => day.timestamp.getTime() >= signalFrom)
+          .map((day) => ({ date: zurichDayFormatter.format(day.timestamp), wifiSignal: day.wifiSignal })),
+      };
+    })
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * Settings Configuration
+ * Types, defaults and pure helpers for the persisted household settings
+ * (usable on client and server)
+ */
+
+import { ElectricityTariff, SWISS_ELECTRICITY_PRICE_CHF_PER_KWH } from './electricity-costs';
+import { DEFAULT_MAX_ACTIVE_GAS_BOTTLES } from './gas-config';
+
+export interface HouseholdPeriod {
+  from: string; // YYYY-MM-DD, valid until the next period starts
+  members: number;
+}
+
+export interface SettingsLocation {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export interface HeatingSettings {
+  comfortTemperature: number; // °C, living rooms below it call for a fire
+  livingRooms: string[]; // Room slugs (SHELLY_ROOMS)
+}
+
+export interface BatterySettings {
+  capacityKwh: number; // Usable capacity, 0 = estimated from the battery analytics
+  reserveSoc: number; // %, the autonomy forecast counts the time until this level
+}
+
+export interface GasSettings {
+  maxActiveBottles: number; // Bottles connected at once (switchover valve)
+}
+
+export interface AppSettings {
+  householdMembers: HouseholdPeriod[]; // Sorted by from
+  location: SettingsLocation;
+  waterPricePerM3: number; // CHF
+  electricityTariffs: ElectricityTariff[]; // Sorted by validFrom
+  heating: HeatingSettings;
+  battery: BatterySettings;
+  gas: GasSettings;
+}
+
+/**
+ * Default tariff: flat CH average, HT window Mon-Fri 7-20h
+ */
+export const DEFAULT_ELECTRICITY_TARIFF: ElectricityTariff = {
+  validFrom: '2022-09-01',
+  highRate: SWISS_ELECTRICITY_PRICE_CHF_PER_KWH,
+  lowRate: SWISS_ELECTRICITY_PRICE_CHF_PER_KWH,
+  feedInRate: 0,
+  highTariffDays: [1, 2, 3, 4, 5],
+  highTariffStart: 7,
+  highTariffEnd: 20,
+};
+
+/**
+ * Defaults used until settings have been saved
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  householdMembers: [{ from: '2022-09-01', members: 2 }],
+  location: { name: 'Muhen', lat: 47.3357, lon: 8.0551 },
+  waterPricePerM3: 2,
+  electricityTariffs: [DEFAULT_ELECTRICITY_TARIFF],
+  heating: { comfortTemperature: 20, livingRooms: ['kueche', 'buero'] },
+  battery: { capacityKwh: 0, reserveSoc: 20 },
+  gas: { maxActiveBottles: DEFAULT_MAX_ACTIVE_GAS_BOTTLES },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get number of household members at a given date
+ * Dates before the first period use the first period
+ */
+export function getHouseholdMembersAt(periods: HouseholdPeriod[], date: Date): number {
+  if (periods.length === 0) return 1;
+
+  const time = date.getTime();
+  let members = periods[0].members;
+  for (const period of periods) {
+    if (new Date(period.from).getTime() <= time) {
+      members = period.members;
+    }
+  }
+  return members;
+}
+
+/**
+ * Get day-weighted average household members within a time range
+ * Handles a change of occupants in the middle of the range
+ */
+export function getAverageHouseholdMembers(periods: HouseholdPeriod[], from: Date, to: Date): number {
+  const start = from.getTime();
+  const end = to.getTime();
+  if (periods.length === 0 || end <= start) {
+    return getHouseholdMembersAt(periods, from);
+  }
+
+  // Split the range at every period start inside it
+  const boundaries = [
+    start,
+    ...periods.map((p) => new Date(p.from).getTime()).filter((t) => t > start && t < end),
+    end,
+  ];
+
+  let personDays = 0;
+  for (let i = 1; i < boundaries.length; i++) {
+    const members = getHouseholdMembersAt(periods, new Date(boundaries[i - 1]));
+    personDays += (members * (boundaries[i] - boundaries[i - 1])) / DAY_MS;
+  }
+
+  return personDays / ((end - start) / DAY_MS);
+}
+
+/**
+ * Get average household members of a calendar year
+ */
+export function getYearlyHouseholdMembers(periods: HouseholdPeriod[], year: number): number {
+  return getAverageHouseholdMembers(
+    periods,
+    new Date(Date.UTC(year, 0, 1)),
+    new Date(Date.UTC(year + 1, 0, 1))
+  );
+}
@@ -0,0 +1,270 @@
+/**
+ * Settings Storage
+ * Loads and saves the persisted settings document
+ */
+
+import dbConnect from './dbConnect';
+import Settings, { ISettings } from '@/models/settings';
+import { AppSettings, DEFAULT_ELECTRICITY_TARIFF, DEFAULT_SETTINGS, HouseholdPeriod } from './settings-config';
+import type { ElectricityTariff } from './electricity-costs';
+import { findRoomBySlug, ShellyRoom } from './shelly-config';
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function toTariffs(doc: ISettings): ElectricityTariff[] {
+  if (doc.electricityTariffs && doc.electricityTariffs.length > 0) {
+    return doc.electricityTariffs
+      .map((t) => ({
+        validFrom: toDateString(t.validFrom),
+        highRate: t.highRate,
+        lowRate: t.lowRate,
+        feedInRate: t.feedInRate,
+        highTariffDays: [...t.highTariffDays],
+        highTariffStart: t.highTariffStart,
+        highTariffEnd: t.highTariffEnd,
+      }))
+      .sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+  }
+
+  // Settings saved before tariffs existed only have a flat price
+  if (typeof doc.electricityPricePerKwh === 'number') {
+    return [
+      {
+        ...DEFAULT_ELECTRICITY_TARIFF,
+        highRate: doc.electricityPricePerKwh,
+        lowRate: doc.electricityPricePerKwh,
+      },
+    ];
+  }
+
+  return DEFAULT_SETTINGS.electricityTariffs;
+}
+
+function toAppSettings(doc: ISettings): AppSettings {
+  return {
+    householdMembers: doc.householdMembers
+      .map((p) => ({ from: toDateString(p.from), members: p.members }))
+      .sort((a, b) => a.from.localeCompare(b.from)),
+    location: {
+      name: doc.location.name,
+      lat: doc.location.lat,
+      lon: doc.location.lon,
+    },
+    waterPricePerM3: doc.waterPricePerM3,
+    electricityTariffs: toTariffs(doc),
+    // Settings saved before the heating section existed use the defaults
+    heating: doc.heating?.livingRooms
+      ? { comfortTemperature: doc.heating.comfortTemperature, livingRooms: [...doc.heating.livingRooms] }
+      : DEFAULT_SETTINGS.heating,
+    battery: typeof doc.battery?.reserveSoc === 'number'
+      ? { capacityKwh: doc.battery.capacityKwh, reserveSoc: doc.battery.reserveSoc }
+      : DEFAULT_SETTINGS.battery,
+    gas: typeof doc.gas?.maxActiveBottles === 'number'
+      ? { maxActiveBottles: doc.gas.maxActiveBottles }
+      : DEFAULT_SETTINGS.gas,
+  };
+}
+
+/**
+ * Get current settings
+ * Falls back to defaults if nothing is stored yet or the DB is unavailable
+ */
+export async function getSettings(): Promise<AppSettings> {
+  try {
+    await dbConnect();
+    const doc = await Settings.findOne({}).lean<ISettings>();
+    return doc ? toAppSettings(doc) : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('[Settings] Error loading settings, using defaults:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Save settings (single document, created on first save)
+ */
+export async function saveSettings(settings: AppSettings): Promise<AppSettings> {
+  await dbConnect();
+
+  const doc = await Settings.findOneAndUpdate(
+    {},
+    {
+      householdMembers: settings.householdMembers.map((p) => ({
+        from: new Date(p.from),
+        members: p.members,
+      })),
+      location: settings.location,
+      waterPricePerM3: settings.waterPricePerM3,
+      electricityTariffs: settings.electricityTariffs.map((t) => ({
+        ...t,
+        validFrom: new Date(t.validFrom),
+      })),
+      heating: settings.heating,
+      battery: settings.battery,
+      gas: settings.gas,
+      $unset: { electricityPricePerKwh: 1 },
+    },
+    { new: true, upsert: true }
+  ).lean<ISettings>();
+
+  return toAppSettings(doc!);
+}
+
+/**
+ * Keep the living rooms in line with a renamed or deleted room
+ * @param newSlug Slug after the rename, null when the room was deleted
+ */
+export async function replaceLivingRoom(oldSlug: string, newSlug: string | null): Promise<void> {
+  if (oldSlug === newSlug) return;
+
+  await dbConnect();
+  await Settings.updateOne(
+    { 'heating.livingRooms': oldSlug },
+    newSlug
+      ? { $set: { 'heating.livingRooms.$': newSlug } }
+      : { $pull: { 'heating.livingRooms': oldSlug } }
+  );
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && !Number.isNaN(value) && value >= 0;
+}
+
+function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+}
+
+function isHour(value: unknown): value is number {
+  return typeof value === 'number' && !Number.isNaN(value) && value >= 0 && value <= 24;
+}
+
+function parseTariffs(input: unknown): { tariffs: ElectricityTariff[] } | { error: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'Mindestens ein Stromtarif ist erforderlich' };
+  }
+
+  const tariffs: ElectricityTariff[] = [];
+  for (const tariff of input as Record<string, unknown>[]) {
+    if (!isValidDate(tariff.validFrom)) {
+      return { error: 'Ungültiges Datum beim Stromtarif' };
+    }
+    if (!isPositiveNumber(tariff.highRate) || !isPositiveNumber(tariff.lowRate) || !isPositiveNumber(tariff.feedInRate)) {
+      return { error: 'Preise müssen positive Zahlen sein' };
+    }
+    if (!isHour(tariff.highTariffStart) || !isHour(tariff.highTariffEnd) || tariff.highTariffStart > tariff.highTariffEnd) {
+      return { error: 'Ungültiges Hochtarif-Zeitfenster' };
+    }
+    const days = tariff.highTariffDays;
+    if (!Array.isArray(days) || days.some((d) => typeof d !== 'number' || !Number.isInteger(d) || d < 0 || d > 6)) {
+      return { error: 'Ungültige Hochtarif-Wochentage' };
+    }
+    tariffs.push({
+      validFrom: tariff.validFrom,
+      highRate: tariff.highRate,
+      lowRate: tariff.lowRate,
+      feedInRate: tariff.feedInRate,
+      highTariffDays: Array.from(new Set(days as number[])).sort((a, b) => a - b),
+      highTariffStart: tariff.highTariffStart,
+      highTariffEnd: tariff.highTariffEnd,
+    });
+  }
+  tariffs.sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+
+  if (new Set(tariffs.map((t) => t.validFrom)).size !== tariffs.length) {
+    return { error: 'Jedes Datum darf bei den Stromtarifen nur einmal vorkommen' };
+  }
+
+  return { tariffs };
+}
+
+/**
+ * Validate a settings payload from the API
+ * @param rooms Stored rooms, living rooms that no longer exist are dropped
+ * @returns Settings or an error message (German, shown in the UI)
+ */
+export function parseSettingsInput(
+  body: Record<string, unknown>,
+  rooms: ShellyRoom[]
+): { settings: AppSettings } | { error: string } {
+  const { householdMembers, location, waterPricePerM3, electricityTariffs, heating, battery, gas } = body;
+
+  if (!Array.isArray(householdMembers) || householdMembers.length === 0) {
+    return { error: 'Mindestens ein Zeitraum für die Haushaltsgrösse ist erforderlich' };
+  }
+
+  const periods: HouseholdPeriod[] = [];
+  for (const period of householdMembers as Record<string, unknown>[]) {
+    const from = period.from;
+    if (!isValidDate(from)) {
+      return { error: 'Ungültiges Datum bei der Haushaltsgrösse' };
+    }
+    if (typeof period.members !== 'number' || !Number.isInteger(period.members) || period.members < 1) {
+      return { error: 'Personenanzahl muss eine ganze Zahl ab 1 sein' };
+    }
+    periods.push({ from, members: period.members });
+  }
+  periods.sort((a, b) => a.from.localeCompare(b.from));
+
+  if (new Set(periods.map((p) => p.from)).size !== periods.length) {
+    return { error: 'Jedes Datum darf bei der Haushaltsgrösse nur einmal vorkommen' };
+  }
+
+  const loc = (location || {}) as Record<string, unknown>;
+  if (typeof loc.name !== 'string' || loc.name.trim() === '') {
+    return { error: 'Ortsname ist erforderlich' };
+  }
+  if (
+    typeof loc.lat !== 'number' || loc.lat < -90 || loc.lat > 90 ||
+    typeof loc.lon !== 'number' || loc.lon < -180 || loc.lon > 180
+  ) {
+    return { error: 'Ungültige Koordinaten' };
+  }
+
+  if (!isPositiveNumber(waterPricePerM3)) {
+    return { error: 'Preise müssen positive Zahlen sein' };
+  }
+
+  const tariffResult = parseTariffs(electricityTariffs);
+  if ('error' in tariffResult) {
+    return tariffResult;
+  }
+
+  const heatingInput = (heating || {}) as Record<string, unknown>;
+  const { comfortTemperature, livingRooms } = heatingInput;
+  if (typeof comfortTemperature !== 'number' || Number.isNaN(comfortTemperature) || comfortTemperature < 10 || comfortTemperature > 30) {
+    return { error: 'Komforttemperatur muss zwischen 10 und 30 °C liegen' };
+  }
+  if (!Array.isArray(livingRooms) || livingRooms.some((slug) => typeof slug !== 'string')) {
+    return { error: 'Ungültige Wohnräume' };
+  }
+  // Slugs of renamed or deleted rooms are dropped instead of blocking the save
+  const knownLivingRooms = (livingRooms as string[]).filter((slug) => findRoomBySlug(rooms, slug));
+
+  const batteryInput = (battery || {}) as Record<string, unknown>;
+  const { capacityKwh, reserveSoc } = batteryInput;
+  if (!isPositiveNumber(capacityKwh)) {
+    return { error: 'Batteriekapazität muss eine positive Zahl sein' };
+  }
+  if (typeof reserveSoc !== 'number' || Number.isNaN(reserveSoc) || reserveSoc < 0 || reserveSoc > 100) {
+    return { error: 'Reserve muss zwischen 0 und 100 % liegen' };
+  }
+
+  const maxActiveBottles = ((gas || {}) as Record<string, unknown>).maxActiveBottles;
+  if (typeof maxActiveBottles !== 'number' || !Number.isInteger(maxActiveBottles) || maxActiveBottles < 1) {
+    return { error: 'Anzahl Gasflaschen muss eine ganze Zahl ab 1 sein' };
+  }
+
+  return {
+    settings: {
+      householdMembers: periods,
+      location: { name: loc.name.trim(), lat: loc.lat, lon: loc.lon },
+      waterPricePerM3,
+      electricityTariffs: tariffResult.tariffs,
+      heating: { comfortTemperature, livingRooms: Array.from(new Set(knownLivingRooms)) },
+      battery: { capacityKwh, reserveSoc },
+      gas: { maxActiveBottles },
+    },
+  };
+}
@@ -1,13 +1,27 @@
 /**
  * Shelly Sensor Configuration
- * Central configuration for all Shelly H&T sensors
+ * Types and pure helpers for the rooms with Shelly H&T sensors
+ * (usable on client and server)
+ *
+ * The rooms are stored in MongoDB (ShellyRoom) and managed under
+ * /settings/rooms, SEED_SHELLY_ROOMS only seeds the collection and serves as
+ * fallback when the database is unavailable.
  */
 
+export const SHELLY_ROOM_ICONS = ['Kitchen', 'Bathtub', 'Computer', 'Hotel', 'WbSunny', 'Weekend', 'Garage', 'Thermostat'] as const;
+
+export type ShellyRoomIcon = (typeof SHELLY_ROOM_ICONS)[number];
+
 export interface ShellyRoom {
-  deviceId: string;
+  id?: string; // Set for rooms loaded from MongoDB
+  deviceId: string; // Empty while no sensor is installed
   name: string;
   slug: string;
-  icon: 'Kitchen' | 'Bathtub' | 'Computer' | 'Hotel' | 'WbSunny';
+  icon: ShellyRoomIcon;
+  // Aussensensor, zählt nicht zu den Innenräumen
+  isOutdoor: boolean;
+  // Reihenfolge in Navigation und Übersicht
+  sortOrder: number;
   // Prozentuale Position auf dem Grundriss (0-100)
   floorplanPosition?: { x: number; y: number };
   // Werte auf dem Grundriss nebeneinander anzeigen
@@ -15,49 +29,54 @@ export interface ShellyRoom {
 }
 
 /**
- * Liste aller konfigurierten Shelly H&T Sensoren
- * Hier neue Sensoren hinzufügen
+ * Seed rooms, inserted once into the empty collection
  */
-export const SHELLY_ROOMS: ShellyRoom[] = [
-  { deviceId: 'e4b3232f84a8', name: 'Küche', slug: 'kueche', icon: 'Kitchen', floorplanPosition: { x: 48, y: 62 } },
-  { deviceId: 'e4b32332e2c8', name: 'Bad', slug: 'bad', icon: 'Bathtub', floorplanPosition: { x: 88, y: 75 } },
-  { deviceId: 'e4b323304058', name: 'Büro', slug: 'buero', icon: 'Computer', floorplanPosition: { x: 42, y: 18 } },
-  { deviceId: 'e4b3233182e8', name: 'Schlafzimmer', slug: 'schlafen', icon: 'Hotel', floorplanPosition: { x: 63, y: 18 } },
-  { deviceId: 'XB137192906310216', name: 'Aussen', slug: 'aussen', icon: 'WbSunny', floorplanPosition: { x: 18, y: 90 }, floorplanHorizontal: true },
+export const SEED_SHELLY_ROOMS: ShellyRoom[] = [
+  { deviceId: 'e4b3232f84a8', name: 'Küche', slug: 'kueche', icon: 'Kitchen', isOutdoor: false, sortOrder: 0, floorplanPosition: { x: 48, y: 62 } },
+  { deviceId: 'e4b32332e2c8', name: 'Bad', slug: 'bad', icon: 'Bathtub', isOutdoor: false, sortOrder: 1, floorplanPosition: { x: 88, y: 75 } },
+  { deviceId: 'e4b323304058', name: 'Büro', slug: 'buero', icon: 'Computer', isOutdoor: false, sortOrder: 2, floorplanPosition: { x: 42, y: 18 } },
+  { deviceId: 'e4b3233182e8', name: 'Schlafzimmer', slug: 'schlafen', icon: 'Hotel', isOutdoor: false, sortOrder: 3, floorplanPosition: { x: 63, y: 18 } },
+  { deviceId: 'XB137192906310216', name: 'Aussen', slug: 'aussen', icon: 'WbSunny', isOutdoor: true, sortOrder: 4, floorplanPosition: { x: 18, y: 90 }, floorplanHorizontal: true },
 ];
 
+// Readings are collected every 2 hours (cron of /api/shelly/collect)
+export const SHELLY_COLLECTION_INTERVAL_MS = 2 * 60 * 60 * 1000;
+
+// A sensor is stale after this many collection intervals without a new reading
+export const SHELLY_STALE_INTERVALS = 3;
+
 /**
- * Get room configuration by URL slug
+ * Check if the last reading of a sensor is too old to be trusted
  */
-export function getRoomBySlug(slug: string): ShellyRoom | undefined {
-  return SHELLY_ROOMS.find((room) => room.slug === slug);
+export function isSensorStale(lastUpdate: string, now: Date = new Date()): boolean {
+  if (!lastUpdate) return true;
+  return now.getTime() - new Date(lastUpdate).getTime() > SHELLY_STALE_INTERVALS * SHELLY_COLLECTION_INTERVAL_MS;
 }
 
 /**
- * Get room configuration by device ID
+ * Find a room by URL slug
  */
-export function getRoomByDeviceId(deviceId: string): ShellyRoom | undefined {
-  return SHELLY_ROOMS.find((room) => room.deviceId === deviceId);
+export function findRoomBySlug(rooms: ShellyRoom[], slug: string): ShellyRoom | undefined {
+  return rooms.find((room) => room.slug === slug);
 }
 
 /**
- * Get all configured device IDs (excluding empty ones)
+ * Find a room by device ID
  */
-export function getAllDeviceIds(): string[] {
-  return SHELLY_ROOMS.map((room) => room.deviceId).filter((id) => id !== '');
+export function findRoomByDeviceId(rooms: ShellyRoom[], deviceId: string): ShellyRoom | undefined {
+  return rooms.find((room) => room.deviceId !== '' && room.deviceId === deviceId);
 }
 
 /**
- * Get all rooms with configured sensors
+ * Rooms inside the house (without the outdoor sensor)
  */
-export function getConfiguredRooms(): ShellyRoom[] {
-  return SHELLY_ROOMS.filter((room) => room.deviceId !== '');
+export function filterIndoorRooms(rooms: ShellyRoom[]): ShellyRoom[] {
+  return rooms.filter((room) => !room.isOutdoor);
 }
 
 /**
  * Check if a room has a configured sensor
  */
-export function isRoomConfigured(slug: string): boolean {
-  const room = getRoomBySlug(slug);
+export function isRoomConfigured(room: ShellyRoom | undefined): boolean {
   return room !== undefined && room.deviceId !== '';
 }
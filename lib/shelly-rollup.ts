@@ -0,0 +1,139 @@
+/**
+ * Shelly Rollups and Retention
+ * Aggregates the raw Shelly readings into hourly and daily rollups and prunes
+ * raw readings older than the retention (SHELLY_RAW_RETENTION_DAYS)
+ *
+ * Every run recomputes the buckets from the newest stored rollup on, minus an
+ * overlap for readings that arrive late, so the current hour and day stay up
+ * to date. Raw readings are only pruned once both rollups cover them.
+ */
+
+import { Model } from 'mongoose';
+import dbConnect from './dbConnect';
+import ShellyReading from '@/models/shelly-reading';
+import { IShellyRollup, ShellyDailyRollup, ShellyHourlyRollup } from '@/models/shelly-rollup';
+
+const DEFAULT_RAW_RETENTION_DAYS = 90;
+
+// Rollups are recomputed from raw readings, so the retention must cover the overlap
+const MIN_RAW_RETENTION_DAYS = 7;
+
+// Buckets starting within this time before the newest rollup are recomputed
+const ROLLUP_OVERLAP_MS = 2 * 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ShellyRollupResult {
+  hourly: number; // Hourly buckets written
+  daily: number; // Daily buckets written
+  pruned: number; // Raw readings deleted
+}
+
+/**
+ * Days raw readings are kept, from SHELLY_RAW_RETENTION_DAYS
+ */
+export function getRawRetentionDays(): number {
+  const days = Number(process.env.SHELLY_RAW_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? Math.max(MIN_RAW_RETENTION_DAYS, days) : DEFAULT_RAW_RETENTION_DAYS;
+}
+
+/**
+ * Raw readings before this point in time may already be pruned
+ */
+export function getRawRetentionCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - getRawRetentionDays() * DAY_MS);
+}
+
+/**
+ * Recompute the buckets of one rollup from the raw readings
+ * @returns Number of buckets written
+ */
+async function rollup(model: Model<IShellyRollup>, unit: 'hour' | 'day'): Promise<number> {
+  const latest = await model.findOne().sort({ timestamp: -1 }).select('timestamp -_id').lean();
+  const since = latest ? new Date(latest.timestamp.getTime() - ROLLUP_OVERLAP_MS) : null;
+
+  const buckets = await ShellyReading.aggregate<{
+    _id: { deviceId: string; timestamp: Date };
+    avgTemp: number;
+    minTemp: number;
+    maxTemp: number;
+    avgHumidity: number;
+    minHumidity: number;
+    maxHumidity: number;
+    battery: number;
+    batteryVoltage: number | null;
+    wifiSignal: number | null;
+    readings: number;
+  }>([
+    ...(since ? [{ $match: { timestamp: { $gte: since } } }] : []),
+    { $sort: { timestamp: 1 } },
+    {
+      $group: {
+        _id: {
+          deviceId: '$deviceId',
+          timestamp: { $dateTrunc: { date: '$timestamp', unit, timezone: 'Europe/Zurich' } },
+        },
+        avgTemp: { $avg: '$temperature' },
+        minTemp: { $min: '$temperature' },
+        maxTemp: { $max: '$temperature' },
+        avgHumidity: { $avg: '$humidity' },
+        minHumidity: { $min: '$humidity' },
+        maxHumidity: { $max: '$humidity' },
+        battery: { $last: '$battery' },
+        batteryVoltage: { $last: '$batteryVoltage' },
+        wifiSignal: { $avg: '$wifiSignal' },
+        readings: { $sum: 1 },
+      },
+    },
+    // The bucket containing `since` only has part of its readings
+    ...(since ? [{ $match: { '_id.timestamp': { $gte: since } } }] : []),
+  ]).allowDiskUse(true);
+
+  if (buckets.length === 0) return 0;
+
+  await model.bulkWrite(
+    buckets.map(({ _id, ...values }) => ({
+      updateOne: {
+        filter: { deviceId: _id.deviceId, timestamp: _id.timestamp },
+        update: { $set: { ...values, deviceId: _id.deviceId, timestamp: _id.timestamp } },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+
+  return buckets.length;
+}
+
+/**
+ * Delete raw readings older than the retention that both rollups cover
+ * @returns Number of deleted readings
+ */
+async function pruneRawReadings(now: Date): Promise<number> {
+  const [hourly, daily] = await Promise.all([
+    ShellyHourlyRollup.findOne().sort({ timestamp: -1 }).select('timestamp -_id').lean(),
+    ShellyDailyRollup.findOne().sort({ timestamp: -1 }).select('timestamp -_id').lean(),
+  ]);
+  if (!hourly || !daily) return 0;
+
+  const before = Math.min(getRawRetentionCutoff(now).getTime(), hourly.timestamp.getTime(), daily.timestamp.getTime());
+  const result = await ShellyReading.deleteMany({ timestamp: { $lt: new Date(before) } });
+
+  return result.deletedCount;
+}
+
+/**
+ * Update the hourly and daily rollups and prune expired raw readings
+ * Runs with the Shelly collection, the first run rolls up all raw readings
+ */
+export async function updateShellyRollups(now: Date = new Date()): Promise<ShellyRollupResult> {
+  await dbConnect();
+
+  const hourly = await rollup(ShellyHourlyRollup, 'hour');
+  const daily = await rollup(ShellyDailyRollup, 'day');
+  const pruned = await pruneRawReadings(now);
+
+  console.log(`[Shelly Rollup] Wrote ${hourly} hourly and ${daily} daily bucket(s), pruned ${pruned} raw reading(s)`);
+
+  return { hourly, daily, pruned };
+}
@@ -0,0 +1,188 @@
+/**
+ * Shelly Rooms Storage
+ * Loads and validates the rooms with Shelly H&T sensors stored in MongoDB
+ */
+
+import dbConnect from './dbConnect';
+import ShellyRoomModel, { IShellyRoom } from '@/models/shelly-room';
+import {
+  filterIndoorRooms,
+  findRoomByDeviceId,
+  findRoomBySlug,
+  SEED_SHELLY_ROOMS,
+  SHELLY_ROOM_ICONS,
+  ShellyRoom,
+  ShellyRoomIcon,
+} from './shelly-config';
+import { seedOnce } from './seed';
+
+type ShellyRoomDoc = IShellyRoom & { _id: unknown };
+
+export function toShellyRoom(doc: ShellyRoomDoc): ShellyRoom {
+  return {
+    id: String(doc._id),
+    deviceId: doc.deviceId,
+    name: doc.name,
+    slug: doc.slug,
+    icon: doc.icon,
+    isOutdoor: doc.isOutdoor,
+    sortOrder: doc.sortOrder,
+    floorplanPosition: doc.floorplanPosition
+      ? { x: doc.floorplanPosition.x, y: doc.floorplanPosition.y }
+      : undefined,
+    floorplanHorizontal: doc.floorplanHorizontal,
+  };
+}
+
+/**
+ * Get all rooms in display order
+ * The collection is seeded once from SEED_SHELLY_ROOMS, database errors fall back to it
+ */
+export async function getShellyRooms(): Promise<ShellyRoom[]> {
+  try {
+    await dbConnect();
+
+    await seedOnce('shelly-rooms', ShellyRoomModel, () =>
+      ShellyRoomModel.insertMany(
+        SEED_SHELLY_ROOMS.map((room) => ({ ...room, floorplanPosition: room.floorplanPosition ?? null })),
+        { ordered: false }
+      )
+    );
+
+    const docs = await ShellyRoomModel.find({}).sort({ sortOrder: 1, name: 1 }).lean<ShellyRoomDoc[]>();
+    return docs.map(toShellyRoom);
+  } catch (error) {
+    console.error('[ShellyRooms] Error loading rooms, using SEED_SHELLY_ROOMS:', error);
+    return SEED_SHELLY_ROOMS;
+  }
+}
+
+/**
+ * Get room by URL slug
+ */
+export async function getRoomBySlug(slug: string): Promise<ShellyRoom | undefined> {
+  return findRoomBySlug(await getShellyRooms(), slug);
+}
+
+/**
+ * Get room by device ID
+ */
+export async function getRoomByDeviceId(deviceId: string): Promise<ShellyRoom | undefined> {
+  return findRoomByDeviceId(await getShellyRooms(), deviceId);
+}
+
+/**
+ * Get the room of the outdoor sensor
+ */
+export async function getOutdoorRoom(): Promise<ShellyRoom | undefined> {
+  return (await getShellyRooms()).find((room) => room.isOutdoor);
+}
+
+/**
+ * Get all rooms inside the house (without the outdoor sensor)
+ */
+export async function getIndoorRooms(): Promise<ShellyRoom[]> {
+  return filterIndoorRooms(await getShellyRooms());
+}
+
+/**
+ * Get all rooms with configured sensors
+ */
+export async function getConfiguredRooms(): Promise<ShellyRoom[]> {
+  return (await getShellyRooms()).filter((room) => room.deviceId !== '');
+}
+
+/**
+ * Get all configured device IDs (excluding empty ones)
+ */
+export async function getAllDeviceIds(): Promise<string[]> {
+  return (await getConfiguredRooms()).map((room) => room.deviceId);
+}
+
+function isPercent(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+}
+
+/**
+ * Turn a room name into a URL slug (umlauts spelled out)
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Validate a room payload from the API against the other stored rooms
+ * @returns Room fields or an error message (German, shown in the UI)
+ */
+export function parseShellyRoomInput(
+  body: Record<string, unknown>,
+  others: ShellyRoom[]
+): { room: Omit<ShellyRoom, 'id'> } | { error: string } {
+  const { name, deviceId, icon, isOutdoor, sortOrder, floorplanPosition, floorplanHorizontal } = body;
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    return { error: 'Bitte einen Raumnamen angeben' };
+  }
+
+  const slug = typeof body.slug === 'string' && body.slug.trim() !== '' ? body.slug.trim() : slugify(name);
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug)) {
+    return { error: 'Die URL darf nur Kleinbuchstaben, Ziffern und Bindestriche enthalten' };
+  }
+  if (slug === 'sensors') {
+    return { error: 'Die URL "sensors" ist reserviert' };
+  }
+  if (others.some((other) => other.slug === slug)) {
+    return { error: `Die URL "${slug}" wird bereits von einem anderen Raum verwendet` };
+  }
+
+  if (deviceId !== undefined && typeof deviceId !== 'string') {
+    return { error: 'Ungültige Device-ID' };
+  }
+  const trimmedDeviceId = (deviceId ?? '').trim();
+  if (trimmedDeviceId !== '' && others.some((other) => other.deviceId === trimmedDeviceId)) {
+    return { error: 'Der Sensor ist bereits einem anderen Raum zugeordnet' };
+  }
+
+  if (icon !== undefined && !SHELLY_ROOM_ICONS.includes(icon as ShellyRoomIcon)) {
+    return { error: 'Ungültiges Symbol' };
+  }
+
+  if (isOutdoor === true && others.some((other) => other.isOutdoor)) {
+    return { error: 'Es kann nur einen Aussensensor geben' };
+  }
+
+  if (sortOrder !== undefined && (typeof sortOrder !== 'number' || !Number.isInteger(sortOrder))) {
+    return { error: 'Ungültige Reihenfolge' };
+  }
+
+  let position: ShellyRoom['floorplanPosition'];
+  if (floorplanPosition !== undefined && floorplanPosition !== null) {
+    const { x, y } = floorplanPosition as { x?: unknown; y?: unknown };
+    if (!isPercent(x) || !isPercent(y)) {
+      return { error: 'Die Position auf dem Grundriss muss zwischen 0 und 100 % liegen' };
+    }
+    position = { x: Math.round(x * 10) / 10, y: Math.round(y * 10) / 10 };
+  }
+
+  return {
+    room: {
+      deviceId: trimmedDeviceId,
+      name: name.trim(),
+      slug,
+      icon: (icon as ShellyRoomIcon | undefined) ?? 'Thermostat',
+      isOutdoor: isOutdoor === true,
+      sortOrder: (sortOrder as number | undefined) ?? Math.max(-1, ...others.map((other) => other.sortOrder)) + 1,
+      floorplanPosition: position,
+      floorplanHorizontal: floorplanHorizontal === true,
+    },
+  };
+}
@@ -5,6 +5,10 @@
 
 import dbConnect from './dbConnect';
 import ShellyReading from '@/models/shelly-reading';
+import { IShellyRollup, ShellyDailyRollup, ShellyHourlyRollup } from '@/models/shelly-rollup';
+import { getRawRetentionCutoff } from './shelly-rollup';
+import { isSensorStale } from './shelly-config';
+import type { DateRange } from '@/types/dashboard';
 
 export interface ShellySensorData {
   id: string;
@@ -67,8 +71,13 @@ export interface ShellyApiResponse {
   };
 }
 
+// Shelly Cloud allows 10 devices per request and about one request per second
+const MAX_DEVICES_PER_REQUEST = 10;
+const REQUEST_DELAY_MS = 1000;
+
 /**
  * Fetch sensor data from Shelly Cloud API
+ * More than MAX_DEVICES_PER_REQUEST devices are fetched in consecutive requests
  */
 export async function fetchShellySensors(
   deviceIds: string[]
@@ -80,15 +89,17 @@ export async function fetchShellySensors(
     throw new Error('Missing SHELLY_CLOUD_HOST or SHELLY_AUTH_KEY environment variables');
   }
 
-  if (deviceIds.length === 0) {
-    return [];
-  }
-
-  // API allows max 10 devices per request
-  if (deviceIds.length > 10) {
-    throw new Error('Maximum 10 devices per request allowed');
+  const sensors: ShellySensorData[] = [];
+  for (let i = 0; i < deviceIds.length; i += MAX_DEVICES_PER_REQUEST) {
+    if (i > 0) {
+      await new Promise((resolve) => setTimeout(resolve, REQUEST_DELAY_MS));
+    }
+    sensors.push(...(await fetchShellyBatch(host, authKey, deviceIds.slice(i, i + MAX_DEVICES_PER_REQUEST))));
   }
+  return sensors;
+}
 
+async function fetchShellyBatch(host: string, authKey: string, deviceIds: string[]): Promise<ShellySensorData[]> {
   const url = `https://${host}/v2/devices/api/get?auth_key=${authKey}`;
 
   const response = await fetch(url, {
@@ -126,7 +137,7 @@ export async function fetchShellySensors(
 /**
  * Get device IDs from central configuration
  */
-export { getAllDeviceIds as getShellyDeviceIds } from './shelly-config';
+export { getAllDeviceIds as getShellyDeviceIds } from './shelly-rooms';
 
 /**
  * Parse Shelly timestamp string to Date
@@ -162,6 +173,7 @@ export async function saveReadingIfNew(sensor: ShellySensorData): Promise<boolea
           temperature: sensor.temperature,
           humidity: sensor.humidity,
           battery: sensor.battery,
+          batteryVoltage: sensor.batteryVoltage,
           wifiSignal: sensor.wifiSignal,
         },
       },
@@ -193,42 +205,198 @@ export async function saveAllReadings(sensors: ShellySensorData[]): Promise<numb
   return saved;
 }
 
+export type ShellyPeriod = 'day' | 'week' | 'month' | 'year';
+
+export type ShellyResolution = 'raw' | '15min' | 'hour' | 'day' | 'month';
+
+export const SHELLY_RESOLUTIONS: ShellyResolution[] = ['raw', '15min', 'hour', 'day', 'month'];
+
+export interface ShellyRangeReading {
+  timestamp: Date; // Start of the bucket for aggregated resolutions
+  temperature: number; // Average for aggregated resolutions
+  humidity: number;
+  minTemp?: number;
+  maxTemp?: number;
+  minHumidity?: number;
+  maxHumidity?: number;
+  readings?: number; // Raw readings in the bucket
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const zurichDayFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Europe/Zurich',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Convert an aggregated bucket to a range reading
+ */
+function toRangeReading(bucket: Omit<IShellyRollup, 'deviceId' | 'battery'>): ShellyRangeReading {
+  return {
+    timestamp: bucket.timestamp,
+    temperature: round1(bucket.avgTemp),
+    humidity: round1(bucket.avgHumidity),
+    minTemp: round1(bucket.minTemp),
+    maxTemp: round1(bucket.maxTemp),
+    minHumidity: round1(bucket.minHumidity),
+    maxHumidity: round1(bucket.maxHumidity),
+    readings: bucket.readings,
+  };
+}
+
+/**
+ * Time range of a preset period, relative to now
+ */
+export function getPeriodRange(period: ShellyPeriod, now: Date = new Date()): DateRange {
+  const days = { day: 1, week: 7, month: 30, year: 365 }[period];
+  return { from: new Date(now.getTime() - days * DAY_MS), to: now };
+}
+
+/**
+ * Resolution used when a range query does not specify one
+ * Keeps charts at a few hundred points at most
+ */
+export function getDefaultResolution(range: DateRange): ShellyResolution {
+  const days = (range.to.getTime() - range.from.getTime()) / DAY_MS;
+  if (days <= 7) return 'raw';
+  if (days <= 31) return 'hour';
+  if (days <= 2 * 365) return 'day';
+  return 'month';
+}
+
+/**
+ * Get the readings of a device within a time range
+ * Hour and day come from the rollups, month aggregates the daily rollup and
+ * 15min the raw readings, all bucketed in Swiss local time with min/max/avg.
+ * Ranges reaching back before the raw retention fall back to the hourly rollup.
+ * @returns The readings and the resolution actually used
+ */
+export async function getReadingsInRange(
+  deviceId: string,
+  range: DateRange,
+  resolution: ShellyResolution
+): Promise<{ resolution: ShellyResolution; readings: ShellyRangeReading[] }> {
+  await dbConnect();
+
+  const effective =
+    (resolution === 'raw' || resolution === '15min') && range.from < getRawRetentionCutoff() ? 'hour' : resolution;
+  const match = { deviceId, timestamp: { $gte: range.from, $lte: range.to } };
+
+  switch (effective) {
+    case 'raw': {
+      const readings = await ShellyReading.find(match)
+        .sort({ timestamp: 1 })
+        .select('timestamp temperature humidity -_id')
+        .lean();
+      return { resolution: effective, readings };
+    }
+
+    case '15min': {
+      const buckets = await ShellyReading.aggregate<Omit<IShellyRollup, 'deviceId' | 'battery'>>([
+        { $match: match },
+        {
+          $group: {
+            _id: { $dateTrunc: { date: '$timestamp', unit: 'minute', binSize: 15, timezone: 'Europe/Zurich' } },
+            avgTemp: { $avg: '$temperature' },
+            minTemp: { $min: '$temperature' },
+            maxTemp: { $max: '$temperature' },
+            avgHumidity: { $avg: '$humidity' },
+            minHumidity: { $min: '$humidity' },
+            maxHumidity: { $max: '$humidity' },
+            readings: { $sum: 1 },
+          },
+        },
+        { $set: { timestamp: '$_id' } },
+        { $sort: { timestamp: 1 } },
+      ]);
+      return { resolution: effective, readings: buckets.map(toRangeReading) };
+    }
+
+    case 'hour':
+    case 'day': {
+      const model = effective === 'hour' ? ShellyHourlyRollup : ShellyDailyRollup;
+      const buckets = await model.find(match).sort({ timestamp: 1 }).lean();
+      return { resolution: effective, readings: buckets.map(toRangeReading) };
+    }
+
+    case 'month': {
+      // Averages weighted by the readings of each day
+      const buckets = await ShellyDailyRollup.aggregate<Omit<IShellyRollup, 'deviceId' | 'battery'>>([
+        { $match: match },
+        {
+          $group: {
+            _id: { $dateTrunc: { date: '$timestamp', unit: 'month', timezone: 'Europe/Zurich' } },
+            tempSum: { $sum: { $multiply: ['$avgTemp', '$readings'] } },
+            humiditySum: { $sum: { $multiply: ['$avgHumidity', '$readings'] } },
+            minTemp: { $min: '$minTemp' },
+            maxTemp: { $max: '$maxTemp' },
+            minHumidity: { $min: '$minHumidity' },
+            maxHumidity: { $max: '$maxHumidity' },
+            readings: { $sum: '$readings' },
+          },
+        },
+        {
+          $set: {
+            timestamp: '$_id',
+            avgTemp: { $divide: ['$tempSum', '$readings'] },
+            avgHumidity: { $divide: ['$humiditySum', '$readings'] },
+          },
+        },
+        { $sort: { timestamp: 1 } },
+      ]);
+      return { resolution: effective, readings: buckets.map(toRangeReading) };
+    }
+  }
+}
+
 /**
  * Get historical readings for a device
  */
 export async function getHistoricalReadings(
   deviceId: string,
-  period: 'day' | 'week' | 'month' | 'year'
+  period: ShellyPeriod
 ): Promise<{ timestamp: Date; temperature: number; humidity: number }[]> {
-  await dbConnect();
+  const { readings } = await getReadingsInRange(deviceId, getPeriodRange(period), 'raw');
+  return readings;
+}
 
-  const now = new Date();
-  let startDate: Date;
-
-  switch (period) {
-    case 'day':
-      startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      break;
-    case 'week':
-      startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      break;
-    case 'month':
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      break;
-    case 'year':
-      startDate = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
-      break;
-  }
+/**
+ * Get the temperature readings of a device within several time ranges
+ * Used to load the windows around events without the gaps between them.
+ * Before the raw retention the hourly averages are used.
+ */
+export async function getReadingsInRanges(
+  deviceId: string,
+  ranges: { from: Date; to: Date }[]
+): Promise<{ timestamp: Date; temperature: number }[]> {
+  if (ranges.length === 0) return [];
 
-  const readings = await ShellyReading.find({
-    deviceId,
-    timestamp: { $gte: startDate },
-  })
-    .sort({ timestamp: 1 })
-    .select('timestamp temperature humidity -_id')
-    .lean();
+  await dbConnect();
 
-  return readings;
+  const cutoff = getRawRetentionCutoff();
+  const inRanges = ranges.map((range) => ({ timestamp: { $gte: range.from, $lte: range.to } }));
+
+  const [hourly, raw] = await Promise.all([
+    ranges.some((range) => range.from < cutoff)
+      ? ShellyHourlyRollup.find({ deviceId, timestamp: { $lt: cutoff }, $or: inRanges })
+          .sort({ timestamp: 1 })
+          .select('timestamp avgTemp -_id')
+          .lean()
+      : [],
+    ShellyReading.find({ deviceId, timestamp: { $gte: cutoff }, $or: inRanges })
+      .sort({ timestamp: 1 })
+      .select('timestamp temperature -_id')
+      .lean(),
+  ]);
+
+  return [...hourly.map((h) => ({ timestamp: h.timestamp, temperature: h.avgTemp })), ...raw];
 }
 
 /**
@@ -251,11 +419,11 @@ export async function getLatestReadingsFromDB(
       results.push({
         id: deviceId,
         name: null, // Name kommt aus der Config
-        online: true, // Annahme: wenn wir Daten haben, war der Sensor online
+        online: !isSensorStale(latest.timestamp.toISOString()), // Offline nach verpassten Sammelintervallen
         temperature: latest.temperature,
         humidity: latest.humidity,
         battery: latest.battery || 0,
-        batteryVoltage: 0, // Nicht in DB gespeichert
+        batteryVoltage: latest.batteryVoltage || 0, // 0 bei älteren Messwerten
         lastUpdate: latest.timestamp.toISOString(),
         wifiSignal: latest.wifiSignal || 0,
       });
@@ -265,6 +433,29 @@ export async function getLatestReadingsFromDB(
   return results;
 }
 
+/**
+ * Get the daily battery level, battery voltage and average RSSI of a device
+ * from the daily rollup
+ */
+export async function getDailyDeviceHealth(
+  deviceId: string,
+  range: DateRange
+): Promise<{ timestamp: Date; battery: number; batteryVoltage: number | null; wifiSignal: number | null }[]> {
+  await dbConnect();
+
+  const days = await ShellyDailyRollup.find({ deviceId, timestamp: { $gte: range.from, $lte: range.to } })
+    .sort({ timestamp: 1 })
+    .select('timestamp battery batteryVoltage wifiSignal -_id')
+    .lean();
+
+  return days.map((day) => ({
+    timestamp: day.timestamp,
+    battery: day.battery,
+    batteryVoltage: day.batteryVoltage ?? null,
+    wifiSignal: day.wifiSignal != null ? Math.round(day.wifiSignal) : null,
+  }));
+}
+
 /**
  * Get aggregated readings (daily averages for month/year views)
  */
@@ -272,31 +463,83 @@ export async function getAggregatedReadings(
   deviceId: string,
   period: 'month' | 'year'
 ): Promise<{ date: string; avgTemp: number; avgHumidity: number; minTemp: number; maxTemp: number }[]> {
+  const { readings } = await getReadingsInRange(deviceId, getPeriodRange(period), period === 'month' ? 'day' : 'month');
+
+  return readings.map((reading) => {
+    const date = zurichDayFormatter.format(reading.timestamp);
+    return {
+      date: period === 'month' ? date : date.slice(0, 7),
+      avgTemp: reading.temperature,
+      avgHumidity: reading.humidity,
+      minTemp: reading.minTemp ?? reading.temperature,
+      maxTemp: reading.maxTemp ?? reading.temperature,
+    };
+  });
+}
+
+/**
+ * Get the average temperature of a device within a time range
+ * Uses the hourly rollup, weighted by the readings of each hour
+ * @returns Average in °C or null if there are no readings
+ */
+export async function getAverageTemperature(
+  deviceId: string,
+  from: Date,
+  to: Date
+): Promise<number | null> {
   await dbConnect();
 
-  const now = new Date();
-  const startDate = period === 'month'
-    ? new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
-    : new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
+  const [result] = await ShellyHourlyRollup.aggregate([
+    {
+      $match: {
+        deviceId,
+        timestamp: { $gte: from, $lte: to },
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        tempSum: { $sum: { $multiply: ['$avgTemp', '$readings'] } },
+        readings: { $sum: '$readings' },
+      },
+    },
+  ]);
 
-  const groupBy = period === 'month'
-    ? { $dateToString: { format: '%Y-%m-%d', date: '$timestamp' } }
-    : { $dateToString: { format: '%Y-%m', date: '$timestamp' } };
+  return result && result.readings > 0 ? Math.round((result.tempSum / result.readings) * 10) / 10 : null;
+}
+
+/**
+ * Get the mean temperature per Swiss calendar day within a time range
+ * Uses the hourly rollup, coverage is the time between the first and last
+ * hour with readings
+ */
+export async function getDailyMeanTemperatures(
+  deviceId: string,
+  from: Date,
+  to: Date
+): Promise<{ date: string; mean: number; readings: number; coverageHours: number }[]> {
+  await dbConnect();
 
-  const aggregation = await ShellyReading.aggregate([
+  const aggregation = await ShellyHourlyRollup.aggregate<{
+    _id: string;
+    tempSum: number;
+    readings: number;
+    first: Date;
+    last: Date;
+  }>([
     {
       $match: {
         deviceId,
-        timestamp: { $gte: startDate },
+        timestamp: { $gte: from, $lt: to },
       },
     },
     {
       $group: {
-        _id: groupBy,
-        avgTemp: { $avg: '$temperature' },
-        avgHumidity: { $avg: '$humidity' },
-        minTemp: { $min: '$temperature' },
-        maxTemp: { $max: '$temperature' },
+        _id: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp', timezone: 'Europe/Zurich' } },
+        tempSum: { $sum: { $multiply: ['$avgTemp', '$readings'] } },
+        readings: { $sum: '$readings' },
+        first: { $min: '$timestamp' },
+        last: { $max: '$timestamp' },
       },
     },
     {
@@ -306,9 +549,8 @@ export async function getAggregatedReadings(
 
   return aggregation.map((item) => ({
     date: item._id,
-    avgTemp: Math.round(item.avgTemp * 10) / 10,
-    avgHumidity: Math.round(item.avgHumidity * 10) / 10,
-    minTemp: Math.round(item.minTemp * 10) / 10,
-    maxTemp: Math.round(item.maxTemp * 10) / 10,
+    mean: Math.round((item.tempSum / item.readings) * 10) / 10,
+    readings: item.readings,
+    coverageHours: (item.last.getTime() - item.first.getTime()) / (60 * 60 * 1000),
   }));
 }
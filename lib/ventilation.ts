@@ -0,0 +1,190 @@
+/**
+ * Ventilation Advisor
+ * Compares the absolute humidity and temperature of each indoor room with the
+ * 'Aussen' sensor and finds the best time to ventilate in the next 24 hours
+ * from the OpenWeather forecast
+ *
+ * Opening the windows exchanges the room air with outdoor air: the room gets
+ * drier when the outdoor air holds less water per m³, no matter what the
+ * relative humidity says.
+ */
+
+import { getLatestReadingsFromDB } from './shelly';
+import { filterIndoorRooms } from './shelly-config';
+import { getConfiguredRooms } from './shelly-rooms';
+import { getAbsoluteHumidity, shouldVentilate } from './climate-metrics';
+import { fetchWeatherData } from './weather';
+import type { HourlyForecast } from '@/types/weather';
+
+// Outdoor sensor readings older than this are replaced by the current weather
+const MAX_OUTDOOR_AGE_MS = 3 * 60 * 60 * 1000;
+
+// Temperature difference that counts as cooling or warming the room (K)
+const TEMPERATURE_MARGIN = 1;
+
+// Forecast slots with a higher chance of rain are skipped (%)
+const MAX_RAIN_PROBABILITY = 50;
+
+// Length of an OpenWeather forecast slot
+const FORECAST_SLOT_MS = 3 * 60 * 60 * 1000;
+
+export type HumidityEffect = 'lower' | 'raise' | 'neutral';
+export type TemperatureEffect = 'cool' | 'warm' | 'neutral';
+
+export interface OutdoorConditions {
+  temperature: number; // °C
+  humidity: number; // % RH
+  absoluteHumidity: number; // g/m³
+  source: 'shelly' | 'openweather';
+}
+
+export interface RoomVentilation {
+  slug: string;
+  name: string;
+  temperature: number;
+  humidity: number;
+  absoluteHumidity: number;
+  humidityEffect: HumidityEffect;
+  temperatureEffect: TemperatureEffect;
+  recommended: boolean; // Drier air without warming the room
+}
+
+export interface VentilationWindow {
+  from: string; // ISO datetime string
+  to: string;
+  temperature: number; // Forecast outdoor temperature
+  absoluteHumidity: number; // Forecast outdoor absolute humidity
+  dryingPotential: number; // Average indoor minus outdoor absolute humidity, g/m³
+}
+
+export interface VentilationAdvice {
+  outdoor: OutdoorConditions | null;
+  rooms: RoomVentilation[];
+  bestWindow: VentilationWindow | null;
+  updatedAt: string;
+}
+
+/**
+ * Effect of ventilating on a room
+ */
+export function getRoomVentilation(
+  room: { slug: string; name: string; temperature: number; humidity: number },
+  outdoor: OutdoorConditions
+): RoomVentilation {
+  const absoluteHumidity = getAbsoluteHumidity(room.temperature, room.humidity);
+
+  const humidityEffect: HumidityEffect = shouldVentilate(absoluteHumidity, outdoor.absoluteHumidity)
+    ? 'lower'
+    : shouldVentilate(outdoor.absoluteHumidity, absoluteHumidity)
+      ? 'raise'
+      : 'neutral';
+  const temperatureEffect: TemperatureEffect =
+    outdoor.temperature < room.temperature - TEMPERATURE_MARGIN
+      ? 'cool'
+      : outdoor.temperature > room.temperature + TEMPERATURE_MARGIN
+        ? 'warm'
+        : 'neutral';
+
+  return {
+    ...room,
+    absoluteHumidity,
+    humidityEffect,
+    temperatureEffect,
+    recommended: humidityEffect === 'lower' && temperatureEffect !== 'warm',
+  };
+}
+
+/**
+ * Find the forecast slot with the driest outdoor air compared to the rooms
+ * @param indoorAbsoluteHumidity Average absolute humidity of the indoor rooms
+ * @returns Best slot or null if no slot would dry the rooms
+ */
+export function findBestVentilationWindow(
+  hourly: HourlyForecast[],
+  indoorAbsoluteHumidity: number,
+  indoorTemperature: number
+): VentilationWindow | null {
+  let best: VentilationWindow | null = null;
+
+  for (const slot of hourly) {
+    if (slot.pop > MAX_RAIN_PROBABILITY) continue;
+
+    const absoluteHumidity = getAbsoluteHumidity(slot.temp, slot.humidity);
+    if (!shouldVentilate(indoorAbsoluteHumidity, absoluteHumidity)) continue;
+    // Warm outdoor air would heat the rooms
+    if (slot.temp > indoorTemperature + TEMPERATURE_MARGIN) continue;
+
+    const dryingPotential = Math.round((indoorAbsoluteHumidity - absoluteHumidity) * 10) / 10;
+    if (!best || dryingPotential > best.dryingPotential) {
+      best = {
+        from: new Date(slot.timestamp * 1000).toISOString(),
+        to: new Date(slot.timestamp * 1000 + FORECAST_SLOT_MS).toISOString(),
+        temperature: slot.temp,
+        absoluteHumidity,
+        dryingPotential,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Get the ventilation advice for all indoor rooms
+ */
+export async function getVentilationAdvice(now: Date = new Date()): Promise<VentilationAdvice> {
+  const configured = await getConfiguredRooms();
+  const rooms = filterIndoorRooms(configured);
+  const outdoorRoom = configured.find((room) => room.isOutdoor);
+
+  const [latest, weather] = await Promise.all([
+    getLatestReadingsFromDB([...rooms.map((room) => room.deviceId), ...(outdoorRoom?.deviceId ? [outdoorRoom.deviceId] : [])]),
+    // The forecast is optional, the advice for now works without it
+    fetchWeatherData().catch((error) => {
+      console.error('[Ventilation] Could not load weather forecast:', error);
+      return null;
+    }),
+  ]);
+
+  const outdoorSensor = latest.find((sensor) => sensor.id === outdoorRoom?.deviceId);
+  let outdoor: OutdoorConditions | null = null;
+  if (outdoorSensor && now.getTime() - new Date(outdoorSensor.lastUpdate).getTime() <= MAX_OUTDOOR_AGE_MS) {
+    outdoor = {
+      temperature: outdoorSensor.temperature,
+      humidity: outdoorSensor.humidity,
+      absoluteHumidity: getAbsoluteHumidity(outdoorSensor.temperature, outdoorSensor.humidity),
+      source: 'shelly',
+    };
+  } else if (weather) {
+    outdoor = {
+      temperature: weather.current.temp,
+      humidity: weather.current.humidity,
+      absoluteHumidity: getAbsoluteHumidity(weather.current.temp, weather.current.humidity),
+      source: 'openweather',
+    };
+  }
+
+  const indoor = rooms.flatMap((room) => {
+    const sensor = latest.find((s) => s.id === room.deviceId);
+    return sensor
+      ? [{ slug: room.slug, name: room.name, temperature: sensor.temperature, humidity: sensor.humidity }]
+      : [];
+  });
+
+  const averageIndoor = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const bestWindow =
+    weather && indoor.length > 0
+      ? findBestVentilationWindow(
+          weather.hourly,
+          averageIndoor(indoor.map((room) => getAbsoluteHumidity(room.temperature, room.humidity))),
+          averageIndoor(indoor.map((room) => room.temperature))
+        )
+      : null;
+
+  return {
+    outdoor,
+    rooms: outdoor ? indoor.map((room) => getRoomVentilation(room, outdoor)) : [],
+    bestWindow,
+    updatedAt: now.toISOString(),
+  };
+}
@@ -1,12 +1,36 @@
 /**
  * Victron Historical Data Helpers
  * Functions to fetch historical solar data
+ *
+ * Closed days and months are persisted in MongoDB (VictronDailyStat / VictronMonthlyStat)
+ * per installation. Only the still-open current period is requested live from the VRM API.
  */
 
 import { fetchVictronStats } from './victron';
 import { fetchWithTokenRefresh } from './victron-token';
-
-const INSTALLATION_ID = process.env.VICTRON_INSTALLATION_ID!;
+import { getInstallationFilter, VictronInstallation } from './victron-installations';
+import type { BatterySample } from './battery';
+import dbConnect from './dbConnect';
+import VictronDailyStat from '@/models/victron-daily-stat';
+import VictronMonthlyStat from '@/models/victron-monthly-stat';
+import {
+  calculateCosts,
+  priceGridIntervals,
+  sumCosts,
+  ElectricityCosts,
+  ElectricityTariff,
+  GridIntervalCosts,
+  GridPowerSample,
+} from './electricity-costs';
+
+// How far back the collector backfills closed periods
+const COLLECT_DAYS = 30;
+const COLLECT_MONTHS = 60;
+
+// Years of 15min grid power and battery series kept (tariff pricing, battery analytics), and days backfilled per run
+// (two VRM requests per day, the collector runs every 15 minutes)
+const GRID_POWER_YEARS = 5;
+const GRID_POWER_BACKFILL_DAYS = 4;
 
 /**
  * Execute fetch functions in batches with delay to avoid rate limiting
@@ -40,6 +64,8 @@ export interface DayStats {
   peak_power: number;
   total_energy_imported: number;
   total_energy_exported: number;
+  grid_power?: GridPowerSample[]; // 15min Pg, only set when fetched from VRM
+  battery?: BatterySample[]; // 15min SOC, voltage and current, only set when fetched from VRM
 }
 
 export interface MonthStats {
@@ -66,10 +92,31 @@ export interface YearGridImportStats {
   gridImport: number;
 }
 
+export interface YearElectricityCosts extends ElectricityCosts {
+  year: string;
+  consumption: number; // kWh
+  gridImport: number; // kWh
+  highTariffKwh: number; // Import priced at HT
+  lowTariffKwh: number; // Import priced at NT
+  coverage: number; // Share of the import priced from 15min data (0-1)
+}
+
+export interface CollectResult {
+  daysSaved: number;
+  monthsSaved: number;
+  gridPowerDaysSaved: number;
+}
+
+// Time range in Unix seconds
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
 /**
  * Get timestamps for last N days
  */
-function getLastNDaysTimestamps(days: number): Array<{ start: number; end: number }> {
+function getLastNDaysTimestamps(days: number): TimeRange[] {
   const timestamps = [];
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -89,7 +136,7 @@ function getLastNDaysTimestamps(days: number): Array<{ start: number; end: numbe
 /**
  * Get timestamps for last N months
  */
-function getLastNMonthsTimestamps(months: number): Array<{ start: number; end: number }> {
+function getLastNMonthsTimestamps(months: number): TimeRange[] {
   const timestamps = [];
   const today = new Date();
   today.setDate(1);
@@ -109,16 +156,16 @@ function getLastNMonthsTimestamps(months: number): Array<{ start: number; end: n
 }
 
 /**
- * Get current year monthly timestamps
+ * Get monthly timestamps from January of the given year up to the current month
+ * Future months are skipped, they have no data yet
  */
-function getCurrentYearMonthlyTimestamps(): Array<{ start: number; end: number }> {
+function getMonthlyTimestampsSince(year: number): TimeRange[] {
   const timestamps = [];
   const today = new Date();
-  const year = today.getFullYear();
 
-  for (let month = 0; month < 12; month++) {
-    const startOfMonth = new Date(year, month, 1).getTime();
-    const endOfMonth = new Date(year, month + 1, 0, 23, 59, 59, 999).getTime();
+  for (let date = new Date(year, 0, 1); date <= today; date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+    const startOfMonth = date.getTime();
+    const endOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999).getTime();
     timestamps.push({
       start: Math.floor(startOfMonth / 1000),
       end: Math.floor(endOfMonth / 1000),
@@ -129,156 +176,311 @@ function getCurrentYearMonthlyTimestamps(): Array<{ start: number; end: number }
 }
 
 /**
- * Fetch last 11 days of solar history
+ * A period is open while its end lies in the future - its values still change
  */
-export async function fetchLast7Days(): Promise<DayStats[]> {
-  const timestamps = getLastNDaysTimestamps(11);
+function isOpenPeriod({ end }: TimeRange): boolean {
+  return end * 1000 >= Date.now();
+}
 
-  // Create fetch functions for batching
-  const fetchFns = timestamps.map(({ start, end }) => async () => {
-    console.log('[fetchLast7Days] Fetching day:', new Date(start * 1000).toISOString());
+/**
+ * Fetch aggregated stats for a single day from VRM
+ * Totals come from interval=days, the peak from the 15min Pdc series
+ */
+async function fetchDayFromVrm(installation: VictronInstallation, { start, end }: TimeRange): Promise<DayStats> {
+  console.log(`[VictronHistory] Fetching day of ${installation.id} from VRM:`, new Date(start * 1000).toISOString());
+
+  // Use interval=days without type parameter to get daily aggregated data
+  const [dailyStats, detailStats] = await Promise.all([
+    fetchWithTokenRefresh(installation, (token) =>
+      fetchVictronStats(installation.installationId, token, 'days', undefined, start.toString(), end.toString())
+    ),
+    fetchWithTokenRefresh(installation, (token) =>
+      fetchVictronStats(installation.installationId, token, '15mins', undefined, start.toString(), end.toString())
+    ),
+  ]);
+
+  const records = dailyStats.records;
+
+  // Find the highest Pdc (solar power) value for the day
+  let peakPower = 0;
+  const pdc = detailStats.records.Pdc;
+  if (pdc && Array.isArray(pdc) && pdc.length > 0) {
+    peakPower = pdc.reduce((max, entry) => (entry[1] > max ? entry[1] : max), 0);
+  }
 
-    // Use interval=days without type parameter to get daily aggregated data
-    const stats = await fetchWithTokenRefresh((token) =>
-      fetchVictronStats(INSTALLATION_ID, token, 'days', undefined, start.toString(), end.toString())
-    );
+  // Keep the grid power series so imports can be priced per HT/NT interval
+  const pg = detailStats.records.Pg;
+  const gridPower: GridPowerSample[] = pg && Array.isArray(pg)
+    ? pg.map((entry) => [entry[0], entry[1]])
+    : [];
+
+  // Keep SOC, voltage and current for the battery analytics
+  const voltages = new Map((detailStats.records.Vb ?? []).map((entry) => [entry[0], entry[1]]));
+  const currents = new Map((detailStats.records.Ib ?? []).map((entry) => [entry[0], entry[1]]));
+  const battery: BatterySample[] = (detailStats.records.bs ?? []).map((entry) => [
+    entry[0],
+    entry[1],
+    voltages.get(entry[0]) ?? null,
+    currents.get(entry[0]) ?? null,
+  ]);
+
+  // Extract aggregated values from API response (pre-calculated by Victron API)
+  // For interval=days, the API returns a single aggregated value at [0][1]
+  return {
+    timestamp: start * 1000,
+    total_solar_yield: records.total_solar_yield?.[0]?.[1] ?? 0,
+    total_consumption: records.total_consumption?.[0]?.[1] ?? 0,
+    average_power: records.average_power?.[0]?.[1] ?? 0,
+    peak_power: peakPower,
+    total_energy_imported: records.total_energy_imported?.[0]?.[1] ?? 0,
+    total_energy_exported: records.total_energy_exported?.[0]?.[1] ?? 0,
+    grid_power: gridPower,
+    battery,
+  };
+}
 
-    console.log('[fetchLast7Days] Response keys:', Object.keys(stats.records));
-    console.log('[fetchLast7Days] Sample data:', {
-      total_solar_yield: stats.records.total_solar_yield,
-      total_consumption: stats.records.total_consumption,
-      Pdc: stats.records.Pdc ? `${stats.records.Pdc.length} entries` : 'missing',
-    });
+/**
+ * Fetch aggregated stats for a single month from VRM
+ */
+async function fetchMonthFromVrm(installation: VictronInstallation, { start, end }: TimeRange): Promise<MonthStats> {
+  console.log(`[VictronHistory] Fetching month of ${installation.id} from VRM:`, new Date(start * 1000).toISOString());
 
-    const records = stats.records;
+  // Use interval=months without type parameter to get monthly aggregated data
+  const stats = await fetchWithTokenRefresh(installation, (token) =>
+    fetchVictronStats(installation.installationId, token, 'months', undefined, start.toString(), end.toString())
+  );
 
-    // Calculate peak power for the day (max value from Pdc array)
-    let peakPower = 0;
-    if (records.Pdc && Array.isArray(records.Pdc) && records.Pdc.length > 0) {
-      peakPower = Math.max(...records.Pdc.map((item) => item[1]));
-    }
+  const records = stats.records;
 
-    // Extract aggregated values from API response (pre-calculated by Victron API)
-    // For interval=days, the API returns a single aggregated value at [0][1]
-    const totalSolarYield = records.total_solar_yield?.[0]?.[1] ?? 0;
-    const totalConsumption = records.total_consumption?.[0]?.[1] ?? 0;
-    const averagePower = records.average_power?.[0]?.[1] ?? 0;
-    const totalEnergyImported = records.total_energy_imported?.[0]?.[1] ?? 0;
-    const totalEnergyExported = records.total_energy_exported?.[0]?.[1] ?? 0;
-
-    return {
-      timestamp: start * 1000,
-      total_solar_yield: totalSolarYield,
-      total_consumption: totalConsumption,
-      average_power: averagePower,
-      peak_power: peakPower,
-      total_energy_imported: totalEnergyImported,
-      total_energy_exported: totalEnergyExported,
-    };
-  });
+  // For interval=months, the API sometimes returns multiple values
+  // We take the MAXIMUM value to ensure we get the accumulated total, not a small initial value
+  const totalSolarYield = records.total_solar_yield && records.total_solar_yield.length > 0
+    ? Math.max(...records.total_solar_yield.map((item) => item[1]))
+    : 0;
+  const totalConsumption = records.total_consumption && records.total_consumption.length > 0
+    ? Math.max(...records.total_consumption.map((item) => item[1]))
+    : 0;
+  const gridHistoryFrom = records.grid_history_from?.[records.grid_history_from.length - 1]?.[1] ?? 0;
 
-  // Fetch in batches of 3 with 300ms delay
-  return fetchInBatches(fetchFns, 3, 300);
+  return {
+    timestamp: start * 1000,
+    total_solar_yield: totalSolarYield,
+    total_consumption: totalConsumption,
+    grid_history_from: gridHistoryFrom,
+  };
 }
 
 /**
- * Fetch last 24 months of solar yield
+ * Load stored daily stats, keyed by day start in milliseconds
+ * Database errors are logged and treated as "nothing stored" so VRM can still answer
  */
-export async function fetchLast24Months(): Promise<MonthStats[]> {
-  const timestamps = getLastNMonthsTimestamps(24);
+async function loadStoredDays(
+  installation: VictronInstallation,
+  ranges: TimeRange[]
+): Promise<Map<number, DayStats>> {
+  const stored = new Map<number, DayStats>();
+  if (ranges.length === 0) return stored;
+
+  try {
+    await dbConnect();
+    const docs = await VictronDailyStat.find({
+      ...getInstallationFilter(installation),
+      date: { $in: ranges.map(({ start }) => new Date(start * 1000)) },
+    })
+      .select('-gridPower -battery')
+      .lean();
+
+    for (const doc of docs) {
+      const timestamp = doc.date.getTime();
+      stored.set(timestamp, {
+        timestamp,
+        total_solar_yield: doc.solarYield,
+        total_consumption: doc.consumption,
+        average_power: doc.averagePower,
+        peak_power: doc.peakPower,
+        total_energy_imported: doc.energyImported,
+        total_energy_exported: doc.energyExported,
+      });
+    }
+  } catch (error) {
+    console.error('[VictronHistory] Could not load daily stats from MongoDB:', error);
+  }
 
-  // Create fetch functions for batching
-  const fetchFns = timestamps.map(({ start, end }) => async () => {
-    console.log('[fetchLast24Months] Fetching month:', new Date(start * 1000).toISOString());
+  return stored;
+}
 
-    // Use interval=months without type parameter to get monthly aggregated data
-    const stats = await fetchWithTokenRefresh((token) =>
-      fetchVictronStats(INSTALLATION_ID, token, 'months', undefined, start.toString(), end.toString())
-    );
+/**
+ * Load stored monthly stats, keyed by month start in milliseconds
+ */
+async function loadStoredMonths(
+  installation: VictronInstallation,
+  ranges: TimeRange[]
+): Promise<Map<number, MonthStats>> {
+  const stored = new Map<number, MonthStats>();
+  if (ranges.length === 0) return stored;
+
+  try {
+    await dbConnect();
+    const docs = await VictronMonthlyStat.find({
+      ...getInstallationFilter(installation),
+      month: { $in: ranges.map(({ start }) => new Date(start * 1000)) },
+    }).lean();
+
+    for (const doc of docs) {
+      const timestamp = doc.month.getTime();
+      stored.set(timestamp, {
+        timestamp,
+        total_solar_yield: doc.solarYield,
+        total_consumption: doc.consumption,
+        grid_history_from: doc.gridHistoryFrom,
+      });
+    }
+  } catch (error) {
+    console.error('[VictronHistory] Could not load monthly stats from MongoDB:', error);
+  }
 
-    console.log('[fetchLast24Months] Response keys:', Object.keys(stats.records));
-    console.log('[fetchLast24Months] total_solar_yield:', stats.records?.total_solar_yield);
-    console.log('[fetchLast24Months] total_consumption:', stats.records?.total_consumption);
-    console.log('[fetchLast24Months] grid_history_from:', stats.records?.grid_history_from);
-
-    const records = stats.records;
-
-    // Extract aggregated values from API response (pre-calculated by Victron API)
-    // For interval=months, the API sometimes returns multiple values
-    // We take the MAXIMUM value to ensure we get the accumulated total, not a small initial value
-    // Note: API returns different tuple sizes for different intervals, so we use any to handle this
-    const totalSolarYield = records.total_solar_yield && records.total_solar_yield.length > 0
-      ? Math.max(...records.total_solar_yield.map((item: any) => item[1]))
-      : 0;
-    const totalConsumption = records.total_consumption && records.total_consumption.length > 0
-      ? Math.max(...records.total_consumption.map((item: any) => item[1]))
-      : 0;
-    const gridHistoryFrom = records.grid_history_from?.[records.grid_history_from.length - 1]?.[1] ?? 0;
-
-    return {
-      timestamp: start * 1000,
-      total_solar_yield: totalSolarYield,
-      total_consumption: totalConsumption,
-      grid_history_from: gridHistoryFrom,
-    };
-  });
+  return stored;
+}
 
-  // Fetch in batches of 4 with 300ms delay
-  return fetchInBatches(fetchFns, 4, 300);
+async function saveDay(installation: VictronInstallation, stats: DayStats): Promise<void> {
+  try {
+    await dbConnect();
+    await VictronDailyStat.updateOne(
+      { ...getInstallationFilter(installation), date: new Date(stats.timestamp) },
+      {
+        $set: {
+          installation: installation.id,
+          solarYield: stats.total_solar_yield,
+          consumption: stats.total_consumption,
+          averagePower: stats.average_power,
+          peakPower: stats.peak_power,
+          energyImported: stats.total_energy_imported,
+          energyExported: stats.total_energy_exported,
+          // An empty series is stored too, so days without Pg are not fetched again
+          ...(stats.grid_power && { gridPower: stats.grid_power }),
+          ...(stats.battery && { battery: stats.battery }),
+        },
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    console.error('[VictronHistory] Could not store daily stat in MongoDB:', error);
+  }
+}
+
+async function saveMonth(installation: VictronInstallation, stats: MonthStats): Promise<void> {
+  try {
+    await dbConnect();
+    await VictronMonthlyStat.updateOne(
+      { ...getInstallationFilter(installation), month: new Date(stats.timestamp) },
+      {
+        $set: {
+          installation: installation.id,
+          solarYield: stats.total_solar_yield,
+          consumption: stats.total_consumption,
+          gridHistoryFrom: stats.grid_history_from,
+        },
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    console.error('[VictronHistory] Could not store monthly stat in MongoDB:', error);
+  }
 }
 
 /**
- * Calculate autarkie (self-sufficiency) for current year
+ * Resolve stats for the given ranges: stored values first, VRM for everything missing
+ * Closed periods fetched from VRM are persisted, open periods are always fetched live
+ * @returns Stats in the same order as the ranges, plus the number of newly stored periods
  */
-export async function fetchAutarkieStats(): Promise<AutarkieStats> {
-  const timestamps = getCurrentYearMonthlyTimestamps();
+async function resolvePeriods<T extends { timestamp: number }>(
+  ranges: TimeRange[],
+  loadStored: (ranges: TimeRange[]) => Promise<Map<number, T>>,
+  fetchFromVrm: (range: TimeRange) => Promise<T>,
+  save: (stats: T) => Promise<void>,
+  batchSize: number
+): Promise<{ stats: T[]; saved: number }> {
+  const closedRanges = ranges.filter((range) => !isOpenPeriod(range));
+  const stored = await loadStored(closedRanges);
+
+  const missing = ranges.filter(({ start }) => !stored.has(start * 1000));
+  let saved = 0;
+
+  console.log(`[VictronHistory] ${ranges.length - missing.length} stored, ${missing.length} from VRM`);
+
+  const fetchFns = missing.map((range) => async () => {
+    const stats = await fetchFromVrm(range);
+    if (!isOpenPeriod(range)) {
+      await save(stats);
+      saved++;
+    }
+    return stats;
+  });
 
-  console.log('[fetchAutarkieStats] Fetching', timestamps.length, 'months');
+  const fetched = await fetchInBatches(fetchFns, batchSize, 300);
+  fetched.forEach((stats) => stored.set(stats.timestamp, stats));
 
-  // Create fetch functions for batching
-  const fetchFns = timestamps.map(({ start, end }) => async () => {
-    // Use interval=months without type parameter to get monthly aggregated data
-    const stats = await fetchWithTokenRefresh((token) =>
-      fetchVictronStats(INSTALLATION_ID, token, 'months', undefined, start.toString(), end.toString())
-    );
+  return {
+    stats: ranges.map(({ start }) => stored.get(start * 1000)!),
+    saved,
+  };
+}
 
-    console.log('[fetchAutarkieStats] Month response keys:', Object.keys(stats.records));
+function resolveDays(installation: VictronInstallation, ranges: TimeRange[]) {
+  return resolvePeriods(
+    ranges,
+    (missing) => loadStoredDays(installation, missing),
+    (range) => fetchDayFromVrm(installation, range),
+    (stats) => saveDay(installation, stats),
+    3
+  );
+}
 
-    const records = stats.records;
+function resolveMonths(installation: VictronInstallation, ranges: TimeRange[]) {
+  return resolvePeriods(
+    ranges,
+    (missing) => loadStoredMonths(installation, missing),
+    (range) => fetchMonthFromVrm(installation, range),
+    (stats) => saveMonth(installation, stats),
+    4
+  );
+}
 
-    // Extract aggregated values from API response (pre-calculated by Victron API)
-    // For interval=months, the API returns a single aggregated value at [0][1]
-    const monthSolarYield = records.total_solar_yield?.[0]?.[1] ?? 0;
-    const monthConsumption = records.total_consumption?.[0]?.[1] ?? 0;
-    const monthGridHistoryFrom = records.grid_history_from?.[0]?.[1] ?? 0;
+/**
+ * Fetch last 11 days of solar history
+ */
+export async function fetchLast7Days(installation: VictronInstallation): Promise<DayStats[]> {
+  const { stats } = await resolveDays(installation, getLastNDaysTimestamps(11));
+  return stats;
+}
 
-    console.log('[fetchAutarkieStats] Month data:', {
-      solar_yield: monthSolarYield,
-      consumption: monthConsumption,
-      grid_from: monthGridHistoryFrom,
-    });
+/**
+ * Fetch last 24 months of solar yield
+ */
+export async function fetchLast24Months(installation: VictronInstallation): Promise<MonthStats[]> {
+  const { stats } = await resolveMonths(installation, getLastNMonthsTimestamps(24));
+  return stats;
+}
 
-    return {
-      solar_yield: monthSolarYield,
-      consumption: monthConsumption,
-      grid_from: monthGridHistoryFrom,
-    };
-  });
+/**
+ * Calculate autarkie (self-sufficiency) for current year
+ */
+export async function fetchAutarkieStats(installation: VictronInstallation): Promise<AutarkieStats> {
+  const timestamps = getMonthlyTimestampsSince(new Date().getFullYear());
+
+  console.log('[fetchAutarkieStats] Resolving', timestamps.length, 'months');
 
-  // Fetch in batches of 4 with 300ms delay
-  const results = await fetchInBatches(fetchFns, 4, 300);
+  const { stats } = await resolveMonths(installation, timestamps);
 
   // Sum up monthly results
   let totalSolarYield = 0;
   let totalConsumption = 0;
   let gridHistoryFrom = 0;
 
-  results.forEach((monthData, index) => {
-    console.log(`[fetchAutarkieStats] Month ${index} data:`, monthData);
-
-    totalSolarYield += monthData.solar_yield;
-    totalConsumption += monthData.consumption;
-    gridHistoryFrom += monthData.grid_from;
+  stats.forEach((monthData) => {
+    totalSolarYield += monthData.total_solar_yield;
+    totalConsumption += monthData.total_consumption;
+    gridHistoryFrom += monthData.grid_history_from;
   });
 
   const autarkie = totalConsumption > 0
@@ -303,83 +505,257 @@ export async function fetchAutarkieStats(): Promise<AutarkieStats> {
 /**
  * Fetch peak power for last 30 days
  */
-export async function fetchLast30DaysPeakPower(): Promise<PeakPowerHistoryStats[]> {
-  const timestamps = getLastNDaysTimestamps(30);
+export async function fetchLast30DaysPeakPower(installation: VictronInstallation): Promise<PeakPowerHistoryStats[]> {
+  const { stats } = await resolveDays(installation, getLastNDaysTimestamps(30));
 
-  console.log('[fetchLast30DaysPeakPower] Fetching peak power for 30 days');
+  return stats.map((day) => ({
+    timestamp: day.timestamp, // Day start timestamp, not peak entry time
+    peak_power: day.peak_power,
+  }));
+}
 
-  // Create fetch functions for batching
-  const fetchFns = timestamps.map(({ start, end }) => async () => {
-    const stats = await fetchWithTokenRefresh((token) =>
-      fetchVictronStats(INSTALLATION_ID, token, '15mins', undefined, start.toString(), end.toString())
-    );
+/**
+ * Fetch last 5 years of grid import data
+ */
+export async function fetchLast5YearsGridImport(installation: VictronInstallation): Promise<YearGridImportStats[]> {
+  const currentYear = new Date().getFullYear();
+  const firstYear = currentYear - 4;
 
-    const records = stats.records;
+  console.log('[fetchLast5YearsGridImport] Resolving years:', firstYear, '-', currentYear);
 
-    // Find the highest Pdc (solar power) value for the day
-    if (!records.Pdc || !Array.isArray(records.Pdc) || records.Pdc.length === 0) {
-      return {
-        timestamp: start * 1000, // Convert to milliseconds
-        peak_power: 0,
-      };
-    }
+  const { stats } = await resolveMonths(installation, getMonthlyTimestampsSince(firstYear));
 
-    const peakPowerEntry = records.Pdc.reduce(
-      (max, entry) => (entry[1] > max[1] ? entry : max),
-      [0, 0]
-    );
+  // Sum all grid_history_from values per year
+  const years: YearGridImportStats[] = [];
+  for (let year = firstYear; year <= currentYear; year++) {
+    const gridImport = stats
+      .filter((month) => new Date(month.timestamp).getFullYear() === year)
+      .reduce((sum, month) => sum + (month.grid_history_from || 0), 0);
+    years.push({ year: year.toString(), gridImport });
+  }
 
-    return {
-      timestamp: start * 1000, // Use day start timestamp, not peak entry time
-      peak_power: peakPowerEntry[1],
-    };
-  });
+  return years;
+}
+
+/**
+ * Load stored 15min grid power and price it per month (keyed by month start)
+ */
+async function loadMonthlyIntervalCosts(
+  installation: VictronInstallation,
+  from: Date,
+  tariffs: ElectricityTariff[]
+): Promise<Map<number, GridIntervalCosts>> {
+  const monthly = new Map<number, GridIntervalCosts>();
+
+  try {
+    await dbConnect();
+    const docs = await VictronDailyStat.find({
+      ...getInstallationFilter(installation),
+      date: { $gte: from },
+      'gridPower.0': { $exists: true },
+    })
+      .select('date gridPower')
+      .lean();
+
+    const samplesByMonth = new Map<number, GridPowerSample[]>();
+    for (const doc of docs) {
+      const monthStart = new Date(doc.date.getFullYear(), doc.date.getMonth(), 1).getTime();
+      const samples = samplesByMonth.get(monthStart) ?? [];
+      samples.push(...doc.gridPower!);
+      samplesByMonth.set(monthStart, samples);
+    }
+
+    samplesByMonth.forEach((samples, monthStart) => {
+      monthly.set(monthStart, priceGridIntervals(samples, tariffs));
+    });
+  } catch (error) {
+    console.error('[VictronHistory] Could not load grid power from MongoDB:', error);
+  }
 
-  // Fetch in batches of 5 with 300ms delay
-  return fetchInBatches(fetchFns, 5, 300);
+  return monthly;
 }
 
 /**
- * Fetch last 5 years of grid import data
+ * Calculate electricity costs of the last 5 years with the dated HT/NT tariffs
+ * Months are priced from stored 15min grid power where available, the rest of
+ * the monthly import at the average rate of the tariff valid in that month.
  */
-export async function fetchLast5YearsGridImport(): Promise<YearGridImportStats[]> {
+export async function fetchYearlyElectricityCosts(
+  installation: VictronInstallation,
+  tariffs: ElectricityTariff[]
+): Promise<YearElectricityCosts[]> {
   const currentYear = new Date().getFullYear();
-  const years = [];
+  const firstYear = currentYear - (GRID_POWER_YEARS - 1);
+
+  const [{ stats }, intervalCosts] = await Promise.all([
+    resolveMonths(installation, getMonthlyTimestampsSince(firstYear)),
+    loadMonthlyIntervalCosts(installation, new Date(firstYear, 0, 1), tariffs),
+  ]);
+
+  const years: YearElectricityCosts[] = [];
+  for (let year = firstYear; year <= currentYear; year++) {
+    const months = stats.filter((month) => new Date(month.timestamp).getFullYear() === year);
+
+    let consumption = 0;
+    let gridImport = 0;
+    let pricedImport = 0;
+    let highTariffKwh = 0;
+    let lowTariffKwh = 0;
+
+    const monthlyCosts = months.map((month) => {
+      const intervals = intervalCosts.get(month.timestamp);
+      const monthImport = month.grid_history_from || 0;
+
+      consumption += month.total_consumption;
+      gridImport += monthImport;
+      if (intervals) {
+        pricedImport += Math.min(intervals.importKwh, monthImport);
+        highTariffKwh += intervals.highTariffKwh;
+        lowTariffKwh += intervals.lowTariffKwh;
+      }
+
+      return calculateCosts(month.total_consumption, monthImport, tariffs, month.timestamp, intervals);
+    });
 
-  // Generate last 5 years
-  for (let i = 4; i >= 0; i--) {
-    years.push(currentYear - i);
+    years.push({
+      year: year.toString(),
+      consumption,
+      gridImport,
+      highTariffKwh,
+      lowTariffKwh,
+      coverage: gridImport > 0 ? pricedImport / gridImport : 1,
+      ...sumCosts(monthlyCosts),
+    });
   }
 
-  console.log('[fetchLast5YearsGridImport] Fetching years:', years);
+  return years;
+}
 
-  // Create fetch functions for batching
-  const fetchFns = years.map((year) => async () => {
-    const start = new Date(year, 0, 1).getTime() / 1000; // Jan 1st
-    const end = new Date(year, 11, 31, 23, 59, 59, 999).getTime() / 1000; // Dec 31st
+/**
+ * Backfill the 15min grid power and battery series for closed days that miss one
+ * Newest days first, limited per run to stay within the VRM rate limits, one
+ * day at a time and stopped on the first rate limit response
+ */
+async function backfillIntervalSeries(installation: VictronInstallation): Promise<number> {
+  const firstDay = new Date(new Date().getFullYear() - (GRID_POWER_YEARS - 1), 0, 1);
+  const dayCount = Math.ceil((Date.now() - firstDay.getTime()) / (24 * 60 * 60 * 1000));
+  const ranges = getLastNDaysTimestamps(dayCount).filter((range) => !isOpenPeriod(range));
+
+  let complete = new Set<number>();
+  try {
+    await dbConnect();
+    const docs = await VictronDailyStat.find({
+      ...getInstallationFilter(installation),
+      date: { $gte: firstDay },
+      gridPower: { $exists: true },
+      battery: { $exists: true },
+    })
+      .select('date')
+      .lean();
+    complete = new Set(docs.map((doc) => doc.date.getTime()));
+  } catch (error) {
+    console.error('[VictronHistory] Could not load 15min series status from MongoDB:', error);
+    return 0;
+  }
 
-    console.log(`[fetchLast5YearsGridImport] Fetching year ${year}:`, new Date(start * 1000).toISOString());
+  const missing = ranges
+    .filter(({ start }) => !complete.has(start * 1000))
+    .reverse()
+    .slice(0, GRID_POWER_BACKFILL_DAYS);
+
+  console.log(`[VictronHistory] Backfilling 15min series of ${installation.id} for ${missing.length} days`);
+
+  let saved = 0;
+  for (const range of missing) {
+    try {
+      await saveDay(installation, await fetchDayFromVrm(installation, range));
+      saved++;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'RATE_LIMITED') {
+        console.log(`[VictronHistory] VRM rate limit reached, stopping 15min backfill of ${installation.id}`);
+        break;
+      }
+      console.error('[VictronHistory] Could not backfill 15min series:', error);
+    }
+  }
 
-    const stats = await fetchWithTokenRefresh((token) =>
-      fetchVictronStats(INSTALLATION_ID, token, 'months', undefined, start.toString(), end.toString())
-    );
+  return saved;
+}
+
+let statIndexesSynced = false;
+
+/**
+ * Replace the former unique day / month indexes by the per-installation ones
+ * Runs once per process, before the first collection
+ */
+async function syncStatIndexes(): Promise<void> {
+  if (statIndexesSynced) return;
+  try {
+    await dbConnect();
+    await Promise.all([VictronDailyStat.syncIndexes(), VictronMonthlyStat.syncIndexes()]);
+    statIndexesSynced = true;
+  } catch (error) {
+    console.error('[VictronHistory] Could not sync stat indexes:', error);
+  }
+}
+
+/**
+ * Backfill and append closed days and months of an installation to MongoDB
+ * Already stored periods are skipped, so repeated runs only fetch what is new
+ */
+export async function collectVictronHistory(installation: VictronInstallation): Promise<CollectResult> {
+  const days = getLastNDaysTimestamps(COLLECT_DAYS + 1).filter((range) => !isOpenPeriod(range));
+  const months = getLastNMonthsTimestamps(COLLECT_MONTHS);
 
-    const records = stats.records;
+  await syncStatIndexes();
 
-    // Sum all grid_history_from values for the year
-    let yearlyGridImport = 0;
-    if (records.grid_history_from && Array.isArray(records.grid_history_from)) {
-      yearlyGridImport = records.grid_history_from.reduce((sum, item) => sum + (item[1] || 0), 0);
+  const { saved: daysSaved } = await resolveDays(installation, days);
+  const { saved: monthsSaved } = await resolveMonths(installation, months);
+  const gridPowerDaysSaved = await backfillIntervalSeries(installation);
+
+  return { daysSaved, monthsSaved, gridPowerDaysSaved };
+}
+
+/**
+ * Combine the stats of several installations into one list
+ * Numeric fields of entries with the same key are summed (peaks become the sum
+ * of the peaks), entries keep the order in which their key first appears
+ */
+export function combineStats<T extends object>(lists: T[][], key: keyof T): T[] {
+  const combined = new Map<unknown, T>();
+
+  for (const list of lists) {
+    for (const entry of list) {
+      const existing = combined.get(entry[key]);
+      if (!existing) {
+        combined.set(entry[key], { ...entry });
+        continue;
+      }
+      const target = existing as Record<string, unknown>;
+      for (const [field, value] of Object.entries(entry)) {
+        if (field !== key && typeof value === 'number') {
+          target[field] = ((target[field] as number) ?? 0) + value;
+        }
+      }
     }
+  }
 
-    console.log(`[fetchLast5YearsGridImport] Year ${year} grid import:`, yearlyGridImport);
+  return Array.from(combined.values());
+}
 
-    return {
-      year: year.toString(),
-      gridImport: yearlyGridImport,
-    };
-  });
+/**
+ * Combine the year statistics of several installations, autarkie from the totals
+ */
+export function combineAutarkieStats(stats: AutarkieStats[]): AutarkieStats {
+  const totalSolarYield = stats.reduce((sum, item) => sum + item.total_solar_yield, 0);
+  const totalConsumption = stats.reduce((sum, item) => sum + item.total_consumption, 0);
+  const gridHistoryFrom = stats.reduce((sum, item) => sum + item.grid_history_from, 0);
+  const autarkie = totalConsumption > 0 ? ((totalConsumption - gridHistoryFrom) / totalConsumption) * 100 : 0;
 
-  // Fetch in batches of 2 with 300ms delay (only 5 requests, so small batches)
-  return fetchInBatches(fetchFns, 2, 300);
+  return {
+    total_solar_yield: totalSolarYield,
+    total_consumption: totalConsumption,
+    grid_history_from: gridHistoryFrom,
+    autarkie: parseFloat(autarkie.toFixed(2)),
+  };
 }
@@ -0,0 +1,88 @@
+/**
+ * Victron Installations
+ * VRM installations (e.g. house and camper) with their credentials
+ *
+ * VICTRON_INSTALLATIONS holds a JSON list of installations:
+ *   [{"id":"haus","name":"Haus","installationId":"193415"},
+ *    {"id":"camper","name":"Camper","installationId":"...","username":"...","password":"..."}]
+ * Missing credentials fall back to VICTRON_USERNAME / VICTRON_PASSWORD. Without
+ * the list the single VICTRON_INSTALLATION_ID is used.
+ *
+ * The first installation is the house: the grid periods and the stats stored
+ * before multi-installation support belong to it.
+ */
+
+export interface VictronInstallation {
+  id: string; // URL and storage key
+  name: string;
+  installationId: string; // VRM site ID
+  username: string;
+  password: string;
+}
+
+// Public part of an installation, safe to pass to client components
+export type VictronInstallationInfo = Pick<VictronInstallation, 'id' | 'name'>;
+
+// Pseudo installation for the sum of all installations
+export const COMBINED_INSTALLATION_ID = 'all';
+
+const DEFAULT_INSTALLATION_ID = 'haus';
+
+/**
+ * Get all configured installations, the house first
+ */
+export function getVictronInstallations(): VictronInstallation[] {
+  const username = process.env.VICTRON_USERNAME ?? '';
+  const password = process.env.VICTRON_PASSWORD ?? '';
+
+  if (process.env.VICTRON_INSTALLATIONS) {
+    try {
+      const list = JSON.parse(process.env.VICTRON_INSTALLATIONS) as Partial<VictronInstallation>[];
+      return list
+        .filter((item) => item.id && item.installationId && item.id !== COMBINED_INSTALLATION_ID)
+        .map((item) => ({
+          id: item.id!,
+          name: item.name || item.id!,
+          installationId: String(item.installationId),
+          username: item.username || username,
+          password: item.password || password,
+        }));
+    } catch (error) {
+      console.error('[Victron] Invalid VICTRON_INSTALLATIONS, using VICTRON_INSTALLATION_ID:', error);
+    }
+  }
+
+  const installationId = process.env.VICTRON_INSTALLATION_ID;
+  if (!installationId) return [];
+
+  return [{ id: DEFAULT_INSTALLATION_ID, name: 'Haus', installationId, username, password }];
+}
+
+/**
+ * Get an installation by ID, the house without an ID
+ */
+export function getVictronInstallation(id?: string | null): VictronInstallation | undefined {
+  const installations = getVictronInstallations();
+  return id ? installations.find((installation) => installation.id === id) : installations[0];
+}
+
+/**
+ * Check if the installation is the house (grid connection, legacy stats)
+ */
+export function isPrimaryInstallation(installation: VictronInstallation): boolean {
+  return getVictronInstallations()[0]?.id === installation.id;
+}
+
+/**
+ * MongoDB filter for the stats of an installation
+ * Stats stored before multi-installation support have no installation and belong to the house
+ */
+export function getInstallationFilter(installation: VictronInstallation): Record<string, unknown> {
+  return isPrimaryInstallation(installation)
+    ? { installation: { $in: [installation.id, null] } }
+    : { installation: installation.id };
+}
+
+export function toInstallationInfo({ id, name }: VictronInstallation): VictronInstallationInfo {
+  return { id, name };
+}
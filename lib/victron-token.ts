@@ -1,27 +1,28 @@
 /**
  * Victron Token Management with MongoDB
- * Handles token storage, retrieval, and automatic refresh
+ * Handles token storage, retrieval, and automatic refresh per installation
  */
 
 import dbConnect from './dbConnect';
 import Token from '@/models/token';
 import { loginToVictron } from './victron';
+import type { VictronInstallation } from './victron-installations';
 
 const TOKEN_TTL = 3600; // 1 hour in seconds
 
 /**
- * Get valid Victron access token
+ * Get valid Victron access token of an installation
  * First tries MongoDB, then falls back to login
  */
-export async function getVictronToken(): Promise<string> {
+export async function getVictronToken(installation: VictronInstallation): Promise<string> {
   try {
     await dbConnect();
 
     // Try to get token from MongoDB
-    const tokenDoc = await Token.findOne();
+    const tokenDoc = await Token.findOne({ installation: installation.id });
 
     if (tokenDoc && tokenDoc.expiresAt > new Date()) {
-      console.log('[Token] Using stored token from MongoDB, expires at:', tokenDoc.expiresAt);
+      console.log(`[Token] Using stored token of ${installation.id} from MongoDB, expires at:`, tokenDoc.expiresAt);
       return tokenDoc.accessToken;
     }
 
@@ -36,22 +37,21 @@ export async function getVictronToken(): Promise<string> {
   }
 
   // No valid stored token, login and get new token
-  return await refreshVictronToken();
+  return await refreshVictronToken(installation);
 }
 
 /**
- * Refresh Victron token by logging in again
+ * Refresh Victron token by logging in again with the installation's credentials
  * Stores new token in MongoDB
  */
-export async function refreshVictronToken(): Promise<string> {
-  const username = process.env.VICTRON_USERNAME;
-  const password = process.env.VICTRON_PASSWORD;
+export async function refreshVictronToken(installation: VictronInstallation): Promise<string> {
+  const { username, password } = installation;
 
   console.log('[Token] Refresh - Username:', username ? 'SET' : 'NOT SET');
   console.log('[Token] Refresh - Password:', password ? 'SET' : 'NOT SET');
 
   if (!username || !password) {
-    throw new Error('VICTRON_USERNAME and VICTRON_PASSWORD must be set');
+    throw new Error(`VRM credentials for installation "${installation.id}" missing (VICTRON_USERNAME and VICTRON_PASSWORD)`);
   }
 
   console.log('[Token] Refreshing Victron token via login...');
@@ -64,7 +64,7 @@ export async function refreshVictronToken(): Promise<string> {
   try {
     await dbConnect();
     await Token.updateOne(
-      {},
+      { installation: installation.id },
       { accessToken: newToken, expiresAt },
       { upsert: true }
     );
@@ -77,12 +77,13 @@ export async function refreshVictronToken(): Promise<string> {
 }
 
 /**
- * Fetch Victron data with automatic token refresh on 401
+ * Fetch Victron data of an installation with automatic token refresh on 401
  */
 export async function fetchWithTokenRefresh<T>(
+  installation: VictronInstallation,
   fetchFn: (token: string) => Promise<T>
 ): Promise<T> {
-  let token = await getVictronToken();
+  let token = await getVictronToken(installation);
 
   try {
     return await fetchFn(token);
@@ -90,7 +91,7 @@ export async function fetchWithTokenRefresh<T>(
     // If token invalid, refresh and retry once
     if (error instanceof Error && error.message === 'INVALID_TOKEN') {
       console.log('Token invalid, refreshing...');
-      token = await refreshVictronToken();
+      token = await refreshVictronToken(installation);
       return await fetchFn(token);
     }
     throw error;
@@ -10,6 +10,7 @@ import {
   SolarData,
 } from '@/types/victron';
 import { detectGridStatus } from './grid-detection';
+import type { GridPeriod } from './grid-periods-config';
 
 const VRM_API_BASE = 'https://vrmapi.victronenergy.com/v2';
 
@@ -71,6 +72,9 @@ export async function fetchVictronStats(
     if (response.status === 401) {
       throw new Error('INVALID_TOKEN');
     }
+    if (response.status === 429) {
+      throw new Error('RATE_LIMITED');
+    }
     throw new Error(`Victron API error: ${response.statusText}`);
   }
 
@@ -79,8 +83,9 @@ export async function fetchVictronStats(
 
 /**
  * Process raw Victron data into usable format
+ * @param gridPeriods Recorded grid periods of the installation, empty for installations without any
  */
-export function processSolarData(stats: VictronStatsResponse): SolarData {
+export function processSolarData(stats: VictronStatsResponse, gridPeriods: GridPeriod[]): SolarData {
   const { records } = stats;
 
   // Log available fields for debugging (only in development)
@@ -132,16 +137,23 @@ export function processSolarData(stats: VictronStatsResponse): SolarData {
   // Use new 3-layer grid detection
   const gridStatus = detectGridStatus(
     hasPgData ? pgValue : undefined,
-    records.grid_history_from
+    records.grid_history_from,
+    gridPeriods
   );
 
+  // Pb is missing on some installations, voltage x current gives the same
+  const getBatteryPower = () => {
+    if (records.Pb && records.Pb.length > 0) return getLatestValue(records.Pb);
+    return getLatestValue(records.Vb) * getLatestValue(records.Ib);
+  };
+
   // gridPower: 1 if consuming from grid, 0 otherwise (for backwards compatibility)
   const isUsingGrid = gridStatus === 'grid_consuming';
 
   const processedData = {
     currentPower: getLatestValue(records.Pdc), // Solar power
     batteryCharge: getLatestValue(records.bs), // Battery %
-    batteryPower: getLatestValue(records.Pb), // Battery power (not available)
+    batteryPower: getBatteryPower(), // Battery power (W, positive = charging)
     gridPower: isUsingGrid ? 1 : 0, // Backwards compatible: 1 = on grid, 0 = autark
     gridStatus, // New detailed status
     consumption: getLatestValue(records.Pac), // AC consumption (not available)
@@ -152,3 +164,27 @@ export function processSolarData(stats: VictronStatsResponse): SolarData {
 
   return processedData;
 }
+
+/**
+ * Combine the live data of several installations, the house first
+ * Powers and energies are summed, the battery charge is the mean. The grid
+ * status belongs to the house, other installations have no grid connection.
+ */
+export function combineSolarData(list: SolarData[]): SolarData | null {
+  if (list.length === 0) return null;
+
+  const sum = (key: keyof SolarData) =>
+    list.reduce((total, item) => total + (item[key] as number), 0);
+
+  return {
+    currentPower: sum('currentPower'),
+    batteryCharge: sum('batteryCharge') / list.length,
+    batteryPower: sum('batteryPower'),
+    gridPower: list[0].gridPower,
+    gridStatus: list[0].gridStatus,
+    consumption: sum('consumption'),
+    todayYield: sum('todayYield'),
+    todayConsumption: sum('todayConsumption'),
+    timestamp: Math.max(...list.map((item) => item.timestamp)),
+  };
+}
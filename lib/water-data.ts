@@ -3,6 +3,8 @@
  * Quelle: https://www.energie-umwelt.ch/wassersparen/den-eigenen-wasserverbrauch-einschaetzen
  */
 
+import { AppSettings, HouseholdPeriod, getYearlyHouseholdMembers } from './settings-config';
+
 export interface WaterUsageBreakdown {
   category: string;
   liters: number;
@@ -11,18 +13,26 @@ export interface WaterUsageBreakdown {
 
 export interface YearlyConsumption {
   year: string;
-  consumption: number; // m³
+  consumption: number; // m³, measured between readings
   isComplete: boolean;
+  extrapolated?: number; // m³ projected for the whole year (current year only)
   note?: string;
 }
 
+export interface MonthlyConsumption {
+  month: string; // YYYY-MM
+  consumption: number; // m³
+}
+
+export interface WaterMeterReadingInput {
+  date: Date | string;
+  value: number; // m³
+}
+
 // Schweizer Durchschnitt: 140 Liter pro Person pro Tag
 export const SWISS_AVERAGE_DAILY = 140; // Liter
 export const SWISS_AVERAGE_YEARLY = 51.1; // m³ per person (140L * 365 / 1000)
 
-// Haushaltsgrösse
-export const HOUSEHOLD_SIZE = 2;
-
 // Durchschnittliche Verwendung (Schweizer Durchschnitt in Liter pro Tag)
 export const usageBreakdown: WaterUsageBreakdown[] = [
   { category: 'WC-Spülung', liters: 40, percentage: 28.6 },
@@ -35,38 +45,140 @@ export const usageBreakdown: WaterUsageBreakdown[] = [
   { category: 'Trinkwasser', liters: 1, percentage: 0.7 },
 ];
 
-// Tatsächlicher Verbrauch
-export const yearlyConsumption: YearlyConsumption[] = [
-  {
-    year: '2022',
-    consumption: 5,
-    isComplete: false,
-    note: 'Einzug September 2022 - unvollständige Daten',
-  },
-  {
-    year: '2023',
-    consumption: 25,
-    isComplete: true,
-  },
-  {
-    year: '2024',
-    consumption: 24,
-    isComplete: true,
-  },
-];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ConsumptionSegment {
+  month: string;
+  year: string;
+  consumption: number;
+  durationMs: number;
+}
+
+function roundM3(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Split the consumption between consecutive readings at month boundaries
+ * Consumption is assumed to be evenly distributed over each interval.
+ * A falling meter value (meter replacement) leaves a gap instead of
+ * producing negative consumption.
+ */
+function splitIntoMonths(readings: WaterMeterReadingInput[]): ConsumptionSegment[] {
+  const sorted = readings
+    .map((r) => ({ time: new Date(r.date).getTime(), value: r.value }))
+    .sort((a, b) => a.time - b.time);
+
+  const segments: ConsumptionSegment[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1];
+    const to = sorted[i];
+    const delta = to.value - from.value;
+    const totalMs = to.time - from.time;
+
+    if (delta < 0 || totalMs <= 0) continue;
+
+    let cursor = from.time;
+    while (cursor < to.time) {
+      const date = new Date(cursor);
+      const nextMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+      const segmentEnd = Math.min(nextMonth, to.time);
+      const durationMs = segmentEnd - cursor;
+
+      segments.push({
+        month: `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`,
+        year: String(date.getUTCFullYear()),
+        consumption: (delta * durationMs) / totalMs,
+        durationMs,
+      });
+
+      cursor = segmentEnd;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Derive monthly consumption from meter readings
+ */
+export function deriveMonthlyConsumption(readings: WaterMeterReadingInput[]): MonthlyConsumption[] {
+  const byMonth = new Map<string, number>();
+
+  for (const segment of splitIntoMonths(readings)) {
+    byMonth.set(segment.month, (byMonth.get(segment.month) || 0) + segment.consumption);
+  }
+
+  return Array.from(byMonth.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, consumption]) => ({ month, consumption: roundM3(consumption) }));
+}
+
+/**
+ * Derive yearly consumption from meter readings
+ * A year is complete when the readings cover every day of it. The current
+ * year is extrapolated from the days covered so far.
+ */
+export function deriveYearlyConsumption(
+  readings: WaterMeterReadingInput[],
+  now: Date = new Date()
+): YearlyConsumption[] {
+  const byYear = new Map<string, { consumption: number; coveredMs: number }>();
+
+  for (const segment of splitIntoMonths(readings)) {
+    const entry = byYear.get(segment.year) || { consumption: 0, coveredMs: 0 };
+    entry.consumption += segment.consumption;
+    entry.coveredMs += segment.durationMs;
+    byYear.set(segment.year, entry);
+  }
+
+  const currentYear = String(now.getFullYear());
+
+  return Array.from(byYear.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([year, { consumption, coveredMs }]) => {
+      const yearMs = Date.UTC(Number(year) + 1, 0, 1) - Date.UTC(Number(year), 0, 1);
+      const isComplete = coveredMs >= yearMs;
+      const coveredDays = Math.round(coveredMs / DAY_MS);
+
+      if (isComplete) {
+        return { year, consumption: roundM3(consumption), isComplete };
+      }
+
+      if (year === currentYear) {
+        return {
+          year,
+          consumption: roundM3(consumption),
+          isComplete,
+          extrapolated: roundM3((consumption / coveredMs) * yearMs),
+          note: `Hochrechnung aus ${coveredDays} Tagen`,
+        };
+      }
+
+      return {
+        year,
+        consumption: roundM3(consumption),
+        isComplete,
+        note: `Messwerte nur für ${coveredDays} Tage`,
+      };
+    });
+}
 
 /**
  * Calculate daily consumption per person in liters
+ * @param householdMembers Average household members of the year (from settings)
  */
-export function getDailyConsumptionPerPerson(yearlyM3: number): number {
-  return (yearlyM3 * 1000) / 365 / HOUSEHOLD_SIZE;
+export function getDailyConsumptionPerPerson(yearlyM3: number, householdMembers: number): number {
+  return (yearlyM3 * 1000) / 365 / householdMembers;
 }
 
 /**
  * Calculate yearly consumption per person in m³
+ * @param householdMembers Average household members of the year (from settings)
  */
-export function getYearlyConsumptionPerPerson(yearlyM3: number): number {
-  return yearlyM3 / HOUSEHOLD_SIZE;
+export function getYearlyConsumptionPerPerson(yearlyM3: number, householdMembers: number): number {
+  return yearlyM3 / householdMembers;
 }
 
 /**
@@ -77,17 +189,18 @@ export function getComparisonToAverage(dailyLiters: number): number {
 }
 
 /**
- * Calculate yearly savings in m³ (2 person household)
+ * Calculate yearly savings in m³ compared to an average household of the same size
  */
-export function getYearlySavings(yourYearlyM3: number): number {
-  const averageForHousehold = SWISS_AVERAGE_YEARLY * HOUSEHOLD_SIZE;
+export function getYearlySavings(yourYearlyM3: number, householdMembers: number): number {
+  const averageForHousehold = SWISS_AVERAGE_YEARLY * householdMembers;
   return averageForHousehold - yourYearlyM3;
 }
 
 /**
- * Calculate cost savings (assuming 2 CHF per m³)
+ * Calculate cost savings
+ * @param pricePerM3 Water price in CHF per m³ (from settings)
  */
-export function getCostSavings(savingsM3: number, pricePerM3: number = 2): number {
+export function getCostSavings(savingsM3: number, pricePerM3: number): number {
   return savingsM3 * pricePerM3;
 }
 
@@ -103,22 +216,49 @@ export function getYourUsageBreakdown(dailyLitersPerPerson: number): WaterUsageB
   }));
 }
 
+/**
+ * Consumption used for per-capita figures: measured value of complete
+ * years, projection for the current year, nothing for partial past years
+ */
+export function getComparableConsumption(item: YearlyConsumption): number | null {
+  if (item.isComplete) return item.consumption;
+  return item.extrapolated ?? null;
+}
+
+/**
+ * Get average household members of a consumption year
+ */
+export function getHouseholdMembersForYear(item: YearlyConsumption, periods: HouseholdPeriod[]): number {
+  return getYearlyHouseholdMembers(periods, Number(item.year));
+}
+
 /**
  * Get statistics for the most recent complete year
+ * Falls back to the extrapolated current year if no year is complete yet
  */
-export function getCurrentYearStats() {
-  const currentYear = yearlyConsumption.find((y) => y.year === '2024' && y.isComplete);
+export function getCurrentYearStats(
+  yearlyConsumption: YearlyConsumption[],
+  settings: Pick<AppSettings, 'householdMembers' | 'waterPricePerM3'>
+) {
+  const currentYear =
+    [...yearlyConsumption].reverse().find((y) => y.isComplete) ||
+    yearlyConsumption.find((y) => y.extrapolated !== undefined);
   if (!currentYear) return null;
 
-  const dailyPerPerson = getDailyConsumptionPerPerson(currentYear.consumption);
-  const yearlyPerPerson = getYearlyConsumptionPerPerson(currentYear.consumption);
+  const totalM3 = getComparableConsumption(currentYear)!;
+  const householdMembers = getHouseholdMembersForYear(currentYear, settings.householdMembers);
+  const dailyPerPerson = getDailyConsumptionPerPerson(totalM3, householdMembers);
+  const yearlyPerPerson = getYearlyConsumptionPerPerson(totalM3, householdMembers);
   const comparison = getComparisonToAverage(dailyPerPerson);
-  const savings = getYearlySavings(currentYear.consumption);
-  const costSavings = getCostSavings(savings);
+  const savings = getYearlySavings(totalM3, householdMembers);
+  const costSavings = getCostSavings(savings, settings.waterPricePerM3);
 
   return {
     year: currentYear.year,
-    totalM3: currentYear.consumption,
+    isExtrapolated: !currentYear.isComplete,
+    householdMembers,
+    pricePerM3: settings.waterPricePerM3,
+    totalM3,
     dailyPerPerson,
     yearlyPerPerson,
     comparisonPercent: comparison,
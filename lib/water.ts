@@ -0,0 +1,48 @@
+/**
+ * Water Meter Readings
+ * Loads readings from MongoDB and derives consumption statistics
+ */
+
+import dbConnect from './dbConnect';
+import WaterMeterReading from '@/models/water-meter-reading';
+import {
+  deriveMonthlyConsumption,
+  deriveYearlyConsumption,
+  MonthlyConsumption,
+  YearlyConsumption,
+} from './water-data';
+
+export interface WaterReading {
+  _id: string;
+  date: string;
+  value: number;
+  photoNote?: string;
+}
+
+export interface WaterData {
+  readings: WaterReading[];
+  yearly: YearlyConsumption[];
+  monthly: MonthlyConsumption[];
+}
+
+/**
+ * Get all readings (oldest first) with derived yearly and monthly consumption
+ */
+export async function getWaterData(): Promise<WaterData> {
+  await dbConnect();
+
+  const docs = await WaterMeterReading.find({}).sort({ date: 1 }).lean();
+
+  const readings = docs.map((doc) => ({
+    _id: String(doc._id),
+    date: doc.date.toISOString(),
+    value: doc.value,
+    photoNote: doc.photoNote,
+  }));
+
+  return {
+    readings,
+    yearly: deriveYearlyConsumption(readings),
+    monthly: deriveMonthlyConsumption(readings),
+  };
+}
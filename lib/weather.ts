@@ -10,9 +10,10 @@ import type {
   ProcessedWeatherData,
   HourlyForecast,
   ForecastDay,
+  CloudCoverForecast,
 } from '@/types/weather';
+import { getSettings } from './settings';
 
-const LOCATION = 'Muhen,CH';
 const BASE_URL = 'https://api.openweathermap.org/data/2.5';
 
 /**
@@ -54,10 +55,14 @@ export async function fetchWeatherData(): Promise<ProcessedWeatherData> {
     throw new Error('OPENWEATHER_API_KEY not configured in environment variables');
   }
 
-  console.log('[Weather] Fetching weather data for', LOCATION);
+  // Location comes from the settings
+  const { location } = await getSettings();
+  const query = `lat=${location.lat}&lon=${location.lon}`;
 
-  const currentUrl = `${BASE_URL}/weather?q=${LOCATION}&appid=${API_KEY}&units=metric&lang=de`;
-  const forecastUrl = `${BASE_URL}/forecast?q=${LOCATION}&appid=${API_KEY}&units=metric&lang=de`;
+  console.log('[Weather] Fetching weather data for', location.name);
+
+  const currentUrl = `${BASE_URL}/weather?${query}&appid=${API_KEY}&units=metric&lang=de`;
+  const forecastUrl = `${BASE_URL}/forecast?${query}&appid=${API_KEY}&units=metric&lang=de`;
 
   // Fetch current weather and forecast in parallel
   const [currentResponse, forecastResponse] = await Promise.all([
@@ -108,6 +113,12 @@ export async function fetchWeatherData(): Promise<ProcessedWeatherData> {
       pop: Math.round(item.pop * 100), // Probability of precipitation as percentage
     }));
 
+  // Cloud cover for the PV estimate of the autonomy forecast
+  const cloudCover: CloudCoverForecast[] = forecastData.list.map((item) => ({
+    timestamp: item.dt,
+    clouds: item.clouds.all,
+  }));
+
   // Process daily forecast (group by day, find min/max temps)
   const dailyMap = new Map<string, ForecastDay>();
 
@@ -184,8 +195,9 @@ export async function fetchWeatherData(): Promise<ProcessedWeatherData> {
     },
     hourly,
     daily,
+    cloudCover,
     location: {
-      name: currentData.name,
+      name: location.name, // Coordinates may resolve to a neighbouring station name
       country: currentData.sys.country,
     },
     timestamp: Date.now(),
@@ -0,0 +1,83 @@
+/**
+ * Alert History Model
+ * Keeps every triggered alert so it can be browsed and acknowledged
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { ALERT_METRICS, AlertMetric } from '@/lib/alert-config';
+
+export interface IAlertHistory {
+  ruleId: mongoose.Types.ObjectId;
+  ruleName: string;
+  metric: AlertMetric;
+  deviceId?: string;
+  value: number;
+  threshold: number;
+  message: string;
+  triggeredAt: Date;
+  deliveredChannels: string[];
+  failedChannels: string[];
+  acknowledgedAt?: Date | null;
+}
+
+export interface IAlertHistoryDocument extends IAlertHistory, Document {}
+
+const AlertHistorySchema = new Schema<IAlertHistoryDocument>({
+  ruleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AlertRule',
+    required: true,
+  },
+  ruleName: {
+    type: String,
+    required: true,
+  },
+  metric: {
+    type: String,
+    enum: ALERT_METRICS,
+    required: true,
+  },
+  deviceId: {
+    type: String,
+    required: false,
+  },
+  value: {
+    type: Number,
+    required: true,
+  },
+  threshold: {
+    type: Number,
+    required: true,
+  },
+  message: {
+    type: String,
+    required: true,
+  },
+  triggeredAt: {
+    type: Date,
+    required: true,
+  },
+  deliveredChannels: {
+    type: [String],
+    default: [],
+  },
+  failedChannels: {
+    type: [String],
+    default: [],
+  },
+  acknowledgedAt: {
+    type: Date,
+    required: false,
+  },
+});
+
+// Index for efficient queries
+AlertHistorySchema.index({ triggeredAt: -1 });
+AlertHistorySchema.index({ acknowledgedAt: 1 });
+
+// Prevent model recompilation in development
+const AlertHistory: Model<IAlertHistoryDocument> =
+  mongoose.models.AlertHistory ||
+  mongoose.model<IAlertHistoryDocument>('AlertHistory', AlertHistorySchema);
+
+export default AlertHistory;
@@ -0,0 +1,99 @@
+/**
+ * Alert Rule Model
+ * Threshold rules that are evaluated whenever a collector runs
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import {
+  ALERT_CHANNEL_TYPES,
+  ALERT_COMPARISONS,
+  ALERT_METRICS,
+  AlertChannelType,
+  AlertComparison,
+  AlertMetric,
+} from '@/lib/alert-config';
+
+export interface IAlertRule {
+  name: string;
+  metric: AlertMetric;
+  deviceId?: string; // Shelly device or Victron installation ID, empty = any
+  comparison: AlertComparison;
+  threshold: number;
+  durationMinutes: number; // Condition must hold this long before alerting
+  cooldownMinutes: number; // Minimum time between two alerts of this rule
+  channels: AlertChannelType[]; // Empty = all configured channels
+  enabled: boolean;
+  conditionSinceByDevice?: Map<string, Date>; // Evaluation state: condition true since, per device
+  lastTriggeredAt?: Date | null; // Evaluation state: last alert sent
+  createdAt: Date;
+}
+
+export interface IAlertRuleDocument extends IAlertRule, Document {}
+
+const AlertRuleSchema = new Schema<IAlertRuleDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+    },
+    metric: {
+      type: String,
+      enum: ALERT_METRICS,
+      required: true,
+    },
+    deviceId: {
+      type: String,
+      required: false,
+    },
+    comparison: {
+      type: String,
+      enum: ALERT_COMPARISONS,
+      required: true,
+    },
+    threshold: {
+      type: Number,
+      required: true,
+    },
+    durationMinutes: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    cooldownMinutes: {
+      type: Number,
+      required: true,
+      default: 60,
+    },
+    channels: {
+      type: [String],
+      enum: ALERT_CHANNEL_TYPES,
+      default: [],
+    },
+    enabled: {
+      type: Boolean,
+      required: true,
+      default: true,
+    },
+    conditionSinceByDevice: {
+      type: Map,
+      of: Date,
+      default: undefined,
+    },
+    lastTriggeredAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Index for loading the rules relevant to a collector run
+AlertRuleSchema.index({ enabled: 1, metric: 1 });
+
+// Prevent model recompilation in development
+const AlertRule: Model<IAlertRuleDocument> =
+  mongoose.models.AlertRule || mongoose.model<IAlertRuleDocument>('AlertRule', AlertRuleSchema);
+
+export default AlertRule;
@@ -0,0 +1,48 @@
+/**
+ * Fire Event Model for MongoDB
+ * Fire events detected by the Raspberry Pi (fire_monitor.py)
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface IFireEvent {
+  timestamp: Date;
+  temperature: number; // Oven temperature at the event (°C)
+  eventType: string; // e.g. 'fire_started'
+  notes?: string;
+  createdAt: Date;
+}
+
+const fireEventSchema = new Schema<IFireEvent>(
+  {
+    timestamp: {
+      type: Date,
+      required: true,
+    },
+    temperature: {
+      type: Number,
+      required: true,
+    },
+    eventType: {
+      type: String,
+      required: true,
+      default: 'fire_started',
+    },
+    notes: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Re-sent events are upserted instead of duplicated
+fireEventSchema.index({ timestamp: 1, eventType: 1 }, { unique: true });
+
+// Prevent model recompilation in development (Next.js hot reload)
+const FireEvent: Model<IFireEvent> =
+  mongoose.models.FireEvent || mongoose.model<IFireEvent>('FireEvent', fireEventSchema);
+
+export default FireEvent;
@@ -0,0 +1,96 @@
+/**
+ * Fire Session Model for MongoDB
+ * Fire sessions detected from the oven temperature, with an optional wood log
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+import type { WoodUnit } from '@/types/dashboard';
+
+export interface IFireSession {
+  startedAt: Date; // Start of the ignition phase
+  peakPhaseAt: Date; // Start of the peak phase
+  peakAt: Date;
+  glowAt: Date | null; // Start of the glow phase, null while in the peak phase
+  endedAt: Date | null; // Start of the cold phase, null while burning
+  lastReadingAt: Date;
+  startTemperature: number; // °C
+  peakTemperature: number; // °C
+  minutesAbove200: number;
+  heatOutputKwh: number; // Estimated from the temperature curve
+  woodAmount?: number;
+  woodUnit?: WoodUnit;
+  woodNotes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const fireSessionSchema = new Schema<IFireSession>(
+  {
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    peakPhaseAt: {
+      type: Date,
+      required: true,
+    },
+    peakAt: {
+      type: Date,
+      required: true,
+    },
+    glowAt: {
+      type: Date,
+      default: null,
+    },
+    endedAt: {
+      type: Date,
+      default: null,
+    },
+    lastReadingAt: {
+      type: Date,
+      required: true,
+    },
+    startTemperature: {
+      type: Number,
+      required: true,
+    },
+    peakTemperature: {
+      type: Number,
+      required: true,
+    },
+    minutesAbove200: {
+      type: Number,
+      required: true,
+    },
+    heatOutputKwh: {
+      type: Number,
+      required: true,
+    },
+    woodAmount: {
+      type: Number,
+      required: false,
+      min: 0,
+    },
+    woodUnit: {
+      type: String,
+      enum: ['kg', 'armfuls'],
+      required: false,
+    },
+    woodNotes: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Sessions are listed newest first and re-detected by start time
+fireSessionSchema.index({ startedAt: -1 }, { unique: true });
+
+// Prevent model recompilation in development (Next.js hot reload)
+const FireSession: Model<IFireSession> =
+  mongoose.models.FireSession || mongoose.model<IFireSession>('FireSession', fireSessionSchema);
+
+export default FireSession;
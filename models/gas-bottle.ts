@@ -4,9 +4,11 @@
  */
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { DEFAULT_GAS_BOTTLE_TYPE } from '@/lib/gas-config';
 
 export interface IGasBottle {
-  type: string;
+  type: string; // Bottle size from GAS_BOTTLE_TYPES, e.g. "10.5kg"
+  price?: number; // CHF paid for this fill
   startDate: Date;
   endDate?: Date;
   notes?: string;
@@ -20,7 +22,11 @@ const GasBottleSchema = new Schema<IGasBottleDocument>(
     type: {
       type: String,
       required: true,
-      default: '10.5kg',
+      default: DEFAULT_GAS_BOTTLE_TYPE,
+    },
+    price: {
+      type: Number,
+      required: false,
     },
     startDate: {
       type: Date,
@@ -0,0 +1,38 @@
+/**
+ * Grid Period Model for MongoDB
+ * Periods during which the installation was connected to the grid (neighbor)
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface IGridPeriod {
+  gridOn: Date; // Day the grid was connected
+  gridOff: Date | null; // Day it was disconnected, null while still connected
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const gridPeriodSchema = new Schema<IGridPeriod>(
+  {
+    gridOn: {
+      type: Date,
+      required: true,
+    },
+    gridOff: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One period per start day, sorted by start
+gridPeriodSchema.index({ gridOn: 1 }, { unique: true });
+
+// Prevent model recompilation in development (Next.js hot reload)
+const GridPeriodModel: Model<IGridPeriod> =
+  mongoose.models.GridPeriod || mongoose.model<IGridPeriod>('GridPeriod', gridPeriodSchema);
+
+export default GridPeriodModel;
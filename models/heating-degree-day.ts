@@ -0,0 +1,54 @@
+/**
+ * Heating Degree Day Model for MongoDB
+ * Daily mean outdoor temperature and heating degrees (HGT 20/12) per day
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface IHeatingDegreeDay {
+  date: string; // YYYY-MM-DD (Swiss calendar day)
+  meanTemperature: number; // °C
+  degreeDays: number; // 20 - mean on heating days (mean below 12 °C), else 0
+  source: 'shelly' | 'openweather';
+  readings: number; // Readings the mean is based on (0 for OpenWeather)
+}
+
+const heatingDegreeDaySchema = new Schema<IHeatingDegreeDay>(
+  {
+    date: {
+      type: String,
+      required: true,
+    },
+    meanTemperature: {
+      type: Number,
+      required: true,
+    },
+    degreeDays: {
+      type: Number,
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ['shelly', 'openweather'],
+      required: true,
+    },
+    readings: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One document per day, queried by date range
+heatingDegreeDaySchema.index({ date: 1 }, { unique: true });
+
+// Prevent model recompilation in development (Next.js hot reload)
+const HeatingDegreeDay: Model<IHeatingDegreeDay> =
+  mongoose.models.HeatingDegreeDay ||
+  mongoose.model<IHeatingDegreeDay>('HeatingDegreeDay', heatingDegreeDaySchema);
+
+export default HeatingDegreeDay;
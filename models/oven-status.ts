@@ -0,0 +1,36 @@
+/**
+ * Oven Status Model for MongoDB
+ * Single document with the latest oven state reported by the Raspberry Pi
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+import type { OvenState } from '@/types/dashboard';
+
+export interface IOvenStatus {
+  state: OvenState['state'];
+  reportedAt: Date;
+  updatedAt: Date;
+}
+
+const ovenStatusSchema = new Schema<IOvenStatus>(
+  {
+    state: {
+      type: String,
+      enum: ['cold', 'warming', 'hot', 'cooling'],
+      required: true,
+    },
+    reportedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: true },
+  }
+);
+
+// Prevent model recompilation in development (Next.js hot reload)
+const OvenStatus: Model<IOvenStatus> =
+  mongoose.models.OvenStatus || mongoose.model<IOvenStatus>('OvenStatus', ovenStatusSchema);
+
+export default OvenStatus;
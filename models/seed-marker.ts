@@ -0,0 +1,31 @@
+/**
+ * Seed Marker Model for MongoDB
+ * Records which collections have been seeded, so they are seeded only once
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface ISeedMarker {
+  name: string; // Seeded collection, e.g. 'grid-periods'
+  seededAt: Date;
+}
+
+const seedMarkerSchema = new Schema<ISeedMarker>({
+  name: {
+    type: String,
+    required: true,
+  },
+  seededAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// One marker per seeded collection
+seedMarkerSchema.index({ name: 1 }, { unique: true });
+
+// Prevent model recompilation in development (Next.js hot reload)
+const SeedMarker: Model<ISeedMarker> =
+  mongoose.models.SeedMarker || mongoose.model<ISeedMarker>('SeedMarker', seedMarkerSchema);
+
+export default SeedMarker;
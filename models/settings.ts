@@ -0,0 +1,101 @@
+/**
+ * Settings Model
+ * Single document holding household profile, location and tariffs
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface ISettings {
+  householdMembers: { from: Date; members: number }[];
+  location: {
+    name: string;
+    lat: number;
+    lon: number;
+  };
+  waterPricePerM3: number;
+  electricityTariffs: {
+    validFrom: Date;
+    highRate: number;
+    lowRate: number;
+    feedInRate: number;
+    highTariffDays: number[];
+    highTariffStart: number;
+    highTariffEnd: number;
+  }[];
+  heating?: {
+    comfortTemperature: number;
+    livingRooms: string[];
+  };
+  battery?: {
+    capacityKwh: number;
+    reserveSoc: number;
+  };
+  gas?: {
+    maxActiveBottles: number;
+  };
+  electricityPricePerKwh?: number; // Legacy flat price, migrated to a tariff on load
+  updatedAt: Date;
+}
+
+const settingsSchema = new Schema<ISettings>(
+  {
+    householdMembers: {
+      type: [
+        {
+          _id: false,
+          from: { type: Date, required: true },
+          members: { type: Number, required: true, min: 1 },
+        },
+      ],
+      default: [],
+    },
+    location: {
+      name: { type: String, required: true },
+      lat: { type: Number, required: true },
+      lon: { type: Number, required: true },
+    },
+    waterPricePerM3: {
+      type: Number,
+      required: true,
+    },
+    electricityTariffs: {
+      type: [
+        {
+          _id: false,
+          validFrom: { type: Date, required: true },
+          highRate: { type: Number, required: true, min: 0 },
+          lowRate: { type: Number, required: true, min: 0 },
+          feedInRate: { type: Number, required: true, min: 0 },
+          highTariffDays: { type: [Number], default: [1, 2, 3, 4, 5] },
+          highTariffStart: { type: Number, required: true, min: 0, max: 24 },
+          highTariffEnd: { type: Number, required: true, min: 0, max: 24 },
+        },
+      ],
+      default: [],
+    },
+    heating: {
+      comfortTemperature: { type: Number, min: 10, max: 30 },
+      livingRooms: { type: [String], default: undefined },
+    },
+    battery: {
+      capacityKwh: { type: Number, min: 0 },
+      reserveSoc: { type: Number, min: 0, max: 100 },
+    },
+    gas: {
+      maxActiveBottles: { type: Number, min: 1 },
+    },
+    electricityPricePerKwh: {
+      type: Number,
+      required: false,
+    },
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: true },
+  }
+);
+
+// Prevent model recompilation in development (Next.js hot reload)
+const Settings: Model<ISettings> =
+  mongoose.models.Settings || mongoose.model<ISettings>('Settings', settingsSchema);
+
+export default Settings;
@@ -11,6 +11,7 @@ export interface IShellyReading {
   temperature: number;
   humidity: number;
   battery: number;
+  batteryVoltage?: number;
   wifiSignal?: number;
 }
 
@@ -36,6 +37,10 @@ const shellyReadingSchema = new Schema<IShellyReading>({
     type: Number,
     required: true,
   },
+  batteryVoltage: {
+    type: Number,
+    required: false,
+  },
   wifiSignal: {
     type: Number,
     required: false,
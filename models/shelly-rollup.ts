@@ -0,0 +1,85 @@
+/**
+ * Shelly Rollup Models for MongoDB
+ * Hourly and daily aggregates of the Shelly H&T readings, kept after the raw
+ * readings have been pruned
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface IShellyRollup {
+  deviceId: string;
+  timestamp: Date; // Start of the hour or Swiss calendar day
+  avgTemp: number;
+  minTemp: number;
+  maxTemp: number;
+  avgHumidity: number;
+  minHumidity: number;
+  maxHumidity: number;
+  battery: number; // Last battery level in the bucket
+  batteryVoltage?: number; // Last battery voltage (not stored before the sensor health)
+  wifiSignal?: number; // Average RSSI
+  readings: number; // Raw readings the aggregate is based on
+}
+
+const shellyRollupSchema = new Schema<IShellyRollup>({
+  deviceId: {
+    type: String,
+    required: true,
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+  avgTemp: {
+    type: Number,
+    required: true,
+  },
+  minTemp: {
+    type: Number,
+    required: true,
+  },
+  maxTemp: {
+    type: Number,
+    required: true,
+  },
+  avgHumidity: {
+    type: Number,
+    required: true,
+  },
+  minHumidity: {
+    type: Number,
+    required: true,
+  },
+  maxHumidity: {
+    type: Number,
+    required: true,
+  },
+  battery: {
+    type: Number,
+    required: true,
+  },
+  batteryVoltage: {
+    type: Number,
+    required: false,
+  },
+  wifiSignal: {
+    type: Number,
+    required: false,
+  },
+  readings: {
+    type: Number,
+    required: true,
+  },
+});
+
+// One document per device and bucket, queried by device and time range
+shellyRollupSchema.index({ deviceId: 1, timestamp: 1 }, { unique: true });
+
+// Prevent model recompilation in development (Next.js hot reload)
+export const ShellyHourlyRollup: Model<IShellyRollup> =
+  mongoose.models.ShellyHourlyRollup ||
+  mongoose.model<IShellyRollup>('ShellyHourlyRollup', shellyRollupSchema);
+
+export const ShellyDailyRollup: Model<IShellyRollup> =
+  mongoose.models.ShellyDailyRollup ||
+  mongoose.model<IShellyRollup>('ShellyDailyRollup', shellyRollupSchema);
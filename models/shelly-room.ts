@@ -0,0 +1,70 @@
+/**
+ * Shelly Room Model for MongoDB
+ * Rooms with their Shelly H&T sensor and position on the floorplan
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+import { SHELLY_ROOM_ICONS, ShellyRoomIcon } from '@/lib/shelly-config';
+
+export interface IShellyRoom {
+  deviceId: string; // Empty while no sensor is installed
+  name: string;
+  slug: string; // URL segment under /climate
+  icon: ShellyRoomIcon;
+  isOutdoor: boolean;
+  sortOrder: number;
+  floorplanPosition: { x: number; y: number } | null; // % of the floorplan image
+  floorplanHorizontal: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const shellyRoomSchema = new Schema<IShellyRoom>(
+  {
+    deviceId: {
+      type: String,
+      default: '',
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    slug: {
+      type: String,
+      required: true,
+    },
+    icon: {
+      type: String,
+      enum: SHELLY_ROOM_ICONS,
+      default: 'Thermostat',
+    },
+    isOutdoor: {
+      type: Boolean,
+      default: false,
+    },
+    sortOrder: {
+      type: Number,
+      default: 0,
+    },
+    floorplanPosition: {
+      type: new Schema({ x: Number, y: Number }, { _id: false }),
+      default: null,
+    },
+    floorplanHorizontal: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Rooms are addressed by slug in the URL
+shellyRoomSchema.index({ slug: 1 }, { unique: true });
+
+// Prevent model recompilation in development (Next.js hot reload)
+const ShellyRoomModel: Model<IShellyRoom> =
+  mongoose.models.ShellyRoom || mongoose.model<IShellyRoom>('ShellyRoom', shellyRoomSchema);
+
+export default ShellyRoomModel;
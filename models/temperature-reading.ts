@@ -0,0 +1,50 @@
+/**
+ * Temperature Reading Model for MongoDB
+ * Temperatures of the CMI inputs (Ofen, Speicher, ...) sent by the Raspberry Pi
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface ITemperatureReading {
+  timestamp: Date;
+  sensor: number; // CMI input number (4 = Ofen)
+  location: string; // CMI input name
+  value: number; // °C
+  unit: string;
+}
+
+const temperatureReadingSchema = new Schema<ITemperatureReading>({
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+  sensor: {
+    type: Number,
+    required: true,
+  },
+  location: {
+    type: String,
+    default: '',
+  },
+  value: {
+    type: Number,
+    required: true,
+  },
+  unit: {
+    type: String,
+    default: '°C',
+  },
+});
+
+// One reading per sensor and timestamp, also serves time range queries per sensor
+temperatureReadingSchema.index({ sensor: 1, timestamp: -1 }, { unique: true });
+
+// Index for range queries across all sensors
+temperatureReadingSchema.index({ timestamp: -1 });
+
+// Prevent model recompilation in development (Next.js hot reload)
+const TemperatureReading: Model<ITemperatureReading> =
+  mongoose.models.TemperatureReading ||
+  mongoose.model<ITemperatureReading>('TemperatureReading', temperatureReadingSchema);
+
+export default TemperatureReading;
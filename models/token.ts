@@ -1,16 +1,21 @@
 /**
  * Token Model for MongoDB
- * Stores Victron API access tokens with expiration
+ * Stores Victron API access tokens with expiration, one per installation
  */
 
 import mongoose, { Schema, Model } from 'mongoose';
 
 export interface IToken {
+  installation: string; // VictronInstallation.id
   accessToken: string;
   expiresAt: Date;
 }
 
 const tokenSchema = new Schema<IToken>({
+  installation: {
+    type: String,
+    required: true,
+  },
   accessToken: {
     type: String,
     required: true,
@@ -21,6 +26,9 @@ const tokenSchema = new Schema<IToken>({
   },
 });
 
+// One token per installation
+tokenSchema.index({ installation: 1 }, { unique: true });
+
 // Prevent model recompilation in development (Next.js hot reload)
 const Token: Model<IToken> =
   mongoose.models.Token || mongoose.model<IToken>('Token', tokenSchema);
@@ -0,0 +1,82 @@
+/**
+ * Victron Daily Stat Model for MongoDB
+ * Stores aggregated solar statistics for closed (completed) days
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface IVictronDailyStat {
+  installation?: string; // VictronInstallation.id, missing on stats of the house stored before
+  date: Date; // Start of day (local midnight)
+  solarYield: number; // kWh
+  consumption: number; // kWh
+  averagePower: number; // W
+  peakPower: number; // W (highest 15min Pdc value)
+  energyImported: number; // kWh
+  energyExported: number; // kWh
+  gridPower?: [number, number][]; // 15min Pg samples [timestamp ms, W] for tariff pricing
+  battery?: [number, number, number | null, number | null][]; // 15min [timestamp ms, SOC %, V, A]
+}
+
+const victronDailyStatSchema = new Schema<IVictronDailyStat>(
+  {
+    installation: {
+      type: String,
+    },
+    date: {
+      type: Date,
+      required: true,
+    },
+    solarYield: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    consumption: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    averagePower: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    peakPower: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    energyImported: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    energyExported: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    gridPower: {
+      type: [[Number]],
+      default: undefined,
+    },
+    battery: {
+      type: [[Number]],
+      default: undefined,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: true },
+  }
+);
+
+// One document per installation and day
+victronDailyStatSchema.index({ installation: 1, date: 1 }, { unique: true });
+
+// Prevent model recompilation in development (Next.js hot reload)
+const VictronDailyStat: Model<IVictronDailyStat> =
+  mongoose.models.VictronDailyStat ||
+  mongoose.model<IVictronDailyStat>('VictronDailyStat', victronDailyStatSchema);
+
+export default VictronDailyStat;
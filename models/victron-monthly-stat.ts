@@ -0,0 +1,54 @@
+/**
+ * Victron Monthly Stat Model for MongoDB
+ * Stores aggregated solar statistics for closed (completed) months
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+
+export interface IVictronMonthlyStat {
+  installation?: string; // VictronInstallation.id, missing on stats of the house stored before
+  month: Date; // First day of month (local midnight)
+  solarYield: number; // kWh
+  consumption: number; // kWh
+  gridHistoryFrom: number; // kWh imported from grid / neighbor
+}
+
+const victronMonthlyStatSchema = new Schema<IVictronMonthlyStat>(
+  {
+    installation: {
+      type: String,
+    },
+    month: {
+      type: Date,
+      required: true,
+    },
+    solarYield: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    consumption: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    gridHistoryFrom: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: true },
+  }
+);
+
+// One document per installation and month
+victronMonthlyStatSchema.index({ installation: 1, month: 1 }, { unique: true });
+
+// Prevent model recompilation in development (Next.js hot reload)
+const VictronMonthlyStat: Model<IVictronMonthlyStat> =
+  mongoose.models.VictronMonthlyStat ||
+  mongoose.model<IVictronMonthlyStat>('VictronMonthlyStat', victronMonthlyStatSchema);
+
+export default VictronMonthlyStat;
@@ -0,0 +1,46 @@
+/**
+ * Water Meter Reading Model
+ * Manually entered meter values, consumption is derived from consecutive readings
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IWaterMeterReading {
+  date: Date;
+  value: number; // Meter value in m³
+  photoNote?: string; // e.g. file name or description of the meter photo
+  createdAt: Date;
+}
+
+export interface IWaterMeterReadingDocument extends IWaterMeterReading, Document {}
+
+const WaterMeterReadingSchema = new Schema<IWaterMeterReadingDocument>(
+  {
+    date: {
+      type: Date,
+      required: true,
+    },
+    value: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    photoNote: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// One reading per date
+WaterMeterReadingSchema.index({ date: 1 }, { unique: true });
+
+// Prevent model recompilation in development
+const WaterMeterReading: Model<IWaterMeterReadingDocument> =
+  mongoose.models.WaterMeterReading ||
+  mongoose.model<IWaterMeterReadingDocument>('WaterMeterReading', WaterMeterReadingSchema);
+
+export default WaterMeterReading;
@@ -1,10 +1,10 @@
 /**
  * Dashboard Data Types
- * Matches the structure exported from Raspberry Pi's SQLite database
+ * Heating data sent by the Raspberry Pi and stored in MongoDB
  */
 
 export interface FireEvent {
-  id: number;
+  id: string;
   timestamp: string; // ISO datetime string
   temperature: number;
   event_type: string;
@@ -12,14 +12,14 @@ export interface FireEvent {
 }
 
 export interface TemperatureReading {
-  id: number;
-  timestamp: string; // ISO datetime string
+  timestamp: string; // ISO datetime string (start of the bucket for aggregated readings)
   temperature: number;
 }
 
 export interface OvenState {
   state: 'cold' | 'warming' | 'hot' | 'cooling';
-  last_updated: string; // ISO datetime string
+  last_updated: string; // ISO datetime string, when the Pi reported the state
+  stale: boolean; // true when the Pi has not reported within OVEN_STATE_MAX_AGE_MS
   temp_history?: number[];
   last_logged_date?: string;
 }
@@ -37,13 +37,71 @@ export interface MonthlyStats {
   count: number;
   avg_temp: number;
   max_temp: number;
+  degree_days?: number; // Heating degree days (HGT 20/12) of the month
+  firings_per_100_hdd?: number | null; // Fire events per 100 degree days
+  wood_kg?: number; // Logged wood
+  wood_kg_per_hdd?: number | null; // Logged kg per degree day
 }
 
 export interface DashboardData {
   current_temps: CurrentTemperature[];
-  oven_state: OvenState;
+  oven_state: OvenState | null; // null until the Pi reported a state
   fire_events: FireEvent[];
   temperature_history: TemperatureReading[];
   monthly_stats: MonthlyStats[];
-  last_updated: string; // ISO datetime string
+  last_updated: string | null; // ISO datetime string
+}
+
+export type FirePhase = 'ignition' | 'peak' | 'glow' | 'cold';
+
+export type WoodUnit = 'kg' | 'armfuls';
+
+export interface WoodLog {
+  amount: number;
+  unit: WoodUnit;
+  notes?: string;
+}
+
+// Fire session detected from the oven temperature
+export interface FireSession {
+  id: string;
+  started_at: string; // ISO datetime string, start of the ignition phase
+  peak_phase_at: string; // ISO datetime string, start of the peak phase
+  peak_at: string; // ISO datetime string
+  glow_at: string | null; // ISO datetime string, null while in the peak phase
+  ended_at: string | null; // ISO datetime string, start of the cold phase
+  last_reading_at: string; // ISO datetime string
+  phase: FirePhase; // Current phase ('cold' once ended)
+  duration_minutes: number;
+  start_temperature: number;
+  peak_temperature: number;
+  minutes_above_200: number;
+  heat_output_kwh: number; // Estimated from the temperature curve
+  wood?: WoodLog;
+}
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+// Payload posted by the Raspberry Pi to /api/heating/ingest
+export interface HeatingIngestPayload {
+  fireEvents?: {
+    timestamp: string;
+    temperature: number;
+    eventType?: string;
+    notes?: string;
+  }[];
+  temperatures?: {
+    timestamp: string;
+    sensor: number;
+    location?: string;
+    value: number;
+    unit?: string;
+  }[];
+  ovenState?: {
+    state: OvenState['state'];
+    timestamp?: string;
+  };
 }
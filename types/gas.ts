@@ -0,0 +1,32 @@
+/**
+ * Gas Bottle Types
+ */
+
+// Forecast for the currently connected gas bottles
+export interface GasForecast {
+  activeBottle: {
+    id: string;
+    type: string;
+    startDate: string; // Start of usage (reserve bottles start when the previous one ran empty)
+  };
+  reserveBottles: number; // Connected bottles waiting on the switchover valve
+  elapsedDays: number;
+  estimatedDurationDays: number; // Expected usage days of the bottle in use
+  currentBottleEmptyDate: string;
+  remainingDays: number; // Until all connected bottles are empty
+  remainingKg: number;
+  estimatedEmptyDate: string; // All connected bottles empty
+  reorderDate: string;
+  overdue: boolean; // Bottle in use already runs longer than estimated
+  basedOnBottles: number; // Number of completed bottles used for the estimate
+  kgPerDay: number; // Weighted consumption used for the estimate
+  averageKgPerDay: number; // Unweighted average for comparison
+  outdoorTemperature: number | null; // Ø Aussen since the bottle in use was started
+  confidence: 'low' | 'medium' | 'high';
+}
+
+export interface GasForecastResponse {
+  forecast: GasForecast | null;
+  reason?: string; // Why no forecast is available
+  maxActiveBottles: number; // Bottles that may be connected at once (settings)
+}
@@ -141,6 +141,14 @@ export interface ForecastDay {
   sunset: number; // Unix timestamp
 }
 
+/**
+ * Cloud cover of a 3h forecast interval
+ */
+export interface CloudCoverForecast {
+  timestamp: number; // Unix timestamp (start of the interval)
+  clouds: number; // %
+}
+
 /**
  * Processed weather data for UI consumption
  */
@@ -163,6 +171,7 @@ export interface ProcessedWeatherData {
   };
   hourly: HourlyForecast[];
   daily: ForecastDay[];
+  cloudCover: CloudCoverForecast[]; // Whole forecast (5 days, 3h intervals)
   location: {
     name: string;
     country: string;